@@ -5,11 +5,17 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
+import SpeciesPage from "@/pages/species";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/trees/near/:coordinates" component={Home} />
+      <Route path="/trees/zip/:zip" component={Home} />
+      <Route path="/trees/county/:countyFips" component={Home} />
+      <Route path="/trees/:state/:city" component={Home} />
+      <Route path="/species/:speciesKey" component={SpeciesPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,102 @@
+import { forwardRef, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { PlaceSuggestion } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover";
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
+import { MapPin } from "lucide-react";
+
+interface CityTypeaheadProps {
+  value: string;
+  state: string;
+  onChange: (city: string) => void;
+  onBlur: () => void;
+  onSelect: (place: PlaceSuggestion) => void;
+}
+
+// Minimum characters typed before asking the server for suggestions
+const MIN_QUERY_LENGTH = 2;
+
+const CityTypeahead = forwardRef<HTMLInputElement, CityTypeaheadProps>(
+  ({ value, state, onChange, onBlur, onSelect }, ref) => {
+    const [open, setOpen] = useState(false);
+    const [query, setQuery] = useState(value);
+
+    // Debounce keystrokes so we don't hit the suggest endpoint on every character
+    useEffect(() => {
+      const timer = setTimeout(() => setQuery(value.trim()), 200);
+      return () => clearTimeout(timer);
+    }, [value]);
+
+    const { data: places = [] } = useQuery<PlaceSuggestion[]>({
+      queryKey: ["/api/places/suggest", query, state],
+      enabled: query.length >= MIN_QUERY_LENGTH,
+      queryFn: async () => {
+        const params = new URLSearchParams({ q: query });
+        if (state) params.set("state", state);
+
+        const response = await fetch(`/api/places/suggest?${params}`);
+        if (!response.ok) return [];
+        return response.json();
+      },
+    });
+
+    const handleSelect = (place: PlaceSuggestion) => {
+      setOpen(false);
+      onSelect(place);
+    };
+
+    return (
+      <Popover open={open && places.length > 0} onOpenChange={setOpen}>
+        <PopoverAnchor asChild>
+          <div className="relative">
+            <Input
+              ref={ref}
+              value={value}
+              onChange={(event) => {
+                onChange(event.target.value);
+                setOpen(true);
+              }}
+              onFocus={() => setOpen(true)}
+              onBlur={onBlur}
+              onKeyDown={(event) => {
+                if (event.key === "Escape") setOpen(false);
+              }}
+              placeholder="Enter city name"
+              className="pr-10"
+              autoComplete="off"
+              data-testid="input-city"
+            />
+            <MapPin className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+          </div>
+        </PopoverAnchor>
+        <PopoverContent
+          align="start"
+          className="p-0 w-[--radix-popover-trigger-width]"
+          onOpenAutoFocus={(event) => event.preventDefault()}
+        >
+          <Command shouldFilter={false}>
+            <CommandList>
+              <CommandGroup heading="Places">
+                {places.map((place) => (
+                  <CommandItem
+                    key={`${place.city}-${place.state}`}
+                    value={`${place.city}, ${place.state}`}
+                    onSelect={() => handleSelect(place)}
+                    data-testid={`option-city-${place.city}-${place.state}`}
+                  >
+                    <MapPin className="w-4 h-4 mr-2 text-muted-foreground" />
+                    {place.city}, {place.state}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    );
+  }
+);
+CityTypeahead.displayName = "CityTypeahead";
+
+export default CityTypeahead;
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import OccurrenceMap from "@/components/occurrence-map";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { MapPin } from "lucide-react";
+
+// Framing for the map before anything is picked: the contiguous United States
+const US_CENTER = { lat: 39.8, lon: -98.6 };
+const US_FRAME_KM = 1500;
+
+interface LocationPickerProps {
+  radiusKm: number;
+  onPick: (lat: number, lon: number) => void;
+}
+
+// "Pick on map" dialog: click the map to place the search point, then search around it
+export default function LocationPicker({ radiusKm, onPick }: LocationPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [picked, setPicked] = useState<{ lat: number; lon: number } | null>(null);
+
+  const handleConfirm = () => {
+    if (!picked) return;
+    onPick(picked.lat, picked.lon);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm" data-testid="button-pick-on-map">
+          <MapPin className="w-4 h-4 mr-2" />
+          Pick on map
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Pick a location</DialogTitle>
+          <DialogDescription>
+            Click the map to place the search point. Drag to pan and use the buttons to zoom.
+          </DialogDescription>
+        </DialogHeader>
+
+        <OccurrenceMap
+          lat={picked?.lat ?? US_CENTER.lat}
+          lon={picked?.lon ?? US_CENTER.lon}
+          radiusKm={picked ? radiusKm : US_FRAME_KM}
+          showSearchArea={picked !== null}
+          onPick={(lat, lon) => setPicked({ lat, lon })}
+          height={420}
+        />
+
+        <DialogFooter className="items-center">
+          {picked && (
+            <span className="text-sm text-muted-foreground mr-auto" data-testid="text-picked-coordinates">
+              {picked.lat.toFixed(4)}, {picked.lon.toFixed(4)}
+            </span>
+          )}
+          <Button type="button" onClick={handleConfirm} disabled={!picked} data-testid="button-search-picked">
+            Search here
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
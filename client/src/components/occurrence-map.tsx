@@ -0,0 +1,311 @@
+import { useEffect, useMemo, useRef, useState, type PointerEvent } from "react";
+import { Minus, Plus } from "lucide-react";
+import type { OccurrencePoint } from "@shared/schema";
+
+// Slippy-map tile template ({z}/{x}/{y}) and its attribution; override with VITE_MAP_TILE_URL
+// and VITE_MAP_ATTRIBUTION to use another tile provider, e.g. /tiles/{z}/{x}/{y}.png for tiles
+// the server hosts from MAP_TILES_DIR
+const MAP_TILE_URL = import.meta.env.VITE_MAP_TILE_URL || "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const MAP_ATTRIBUTION = import.meta.env.VITE_MAP_ATTRIBUTION || "© OpenStreetMap contributors";
+
+const TILE_SIZE = 256;
+const METERS_PER_PIXEL_AT_ZOOM_0 = 156543.03;
+const MIN_ZOOM = 3;
+const MAX_ZOOM = 17;
+
+// Occurrences closer than this many pixels at the current zoom are drawn as one cluster
+const CLUSTER_CELL_SIZE = 40;
+
+// One set of occurrences drawn in its own colour, e.g. one species on the results map
+export interface OccurrenceLayer {
+  key: number;
+  label: string;
+  color: string; // any CSS colour
+  points: OccurrencePoint[];
+}
+
+interface OccurrenceMapProps {
+  lat: number;
+  lon: number;
+  radiusKm: number;
+  points?: OccurrencePoint[];
+  layers?: OccurrenceLayer[];
+  height?: number;
+  showSearchArea?: boolean; // draw the searched point and radius (default true)
+  onPick?: (lat: number, lon: number) => void; // called with the clicked point; drags still pan
+}
+
+interface Cluster {
+  id: string;
+  x: number; // world pixels at the current zoom
+  y: number;
+  count: number;
+  latestYear: number | null;
+}
+
+// Web Mercator world pixel coordinates of a point at a zoom level
+function project(lat: number, lon: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.sin((lat * Math.PI) / 180);
+  return {
+    x: ((lon + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  };
+}
+
+// Inverse of project: the latitude and longitude at world pixel coordinates
+function unproject(x: number, y: number, zoom: number): { lat: number; lon: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const mercatorY = Math.PI * (1 - (2 * y) / scale);
+  return {
+    lat: (Math.atan(Math.sinh(mercatorY)) * 180) / Math.PI,
+    lon: (x / scale) * 360 - 180,
+  };
+}
+
+function metersPerPixel(lat: number, zoom: number): number {
+  return (METERS_PER_PIXEL_AT_ZOOM_0 * Math.cos((lat * Math.PI) / 180)) / 2 ** zoom;
+}
+
+// Largest zoom at which the whole search radius fits in the map
+function zoomForRadius(lat: number, radiusKm: number, width: number, height: number): number {
+  const fitMetersPerPixel = (radiusKm * 1000 * 2.2) / Math.min(width, height);
+  const zoom = Math.floor(Math.log2(metersPerPixel(lat, 0) / fitMetersPerPixel));
+  return Math.min(15, Math.max(MIN_ZOOM, zoom));
+}
+
+function tileUrl(x: number, y: number, zoom: number): string {
+  const wrappedX = ((x % 2 ** zoom) + 2 ** zoom) % 2 ** zoom;
+  return MAP_TILE_URL.replace("{z}", String(zoom)).replace("{x}", String(wrappedX)).replace("{y}", String(y));
+}
+
+// Helper function to group points into grid cells of CLUSTER_CELL_SIZE pixels at a zoom level
+function clusterPoints(points: OccurrencePoint[], zoom: number): Cluster[] {
+  const cells = new Map<string, Cluster>();
+
+  for (const point of points) {
+    const { x, y } = project(point.lat, point.lon, zoom);
+    const id = `${Math.floor(x / CLUSTER_CELL_SIZE)}:${Math.floor(y / CLUSTER_CELL_SIZE)}`;
+    const cell = cells.get(id);
+
+    if (cell) {
+      // Running mean keeps the cluster centred on its points
+      cell.x += (x - cell.x) / (cell.count + 1);
+      cell.y += (y - cell.y) / (cell.count + 1);
+      cell.count += 1;
+      if (point.year !== null && (cell.latestYear === null || point.year > cell.latestYear)) cell.latestYear = point.year;
+    } else {
+      cells.set(id, { id, x, y, count: 1, latestYear: point.year });
+    }
+  }
+
+  return Array.from(cells.values());
+}
+
+// Tile map centred on a searched location, with the search radius and clustered occurrence dots.
+// Drag to pan and use the buttons to zoom; changing the location resets the view
+export default function OccurrenceMap({
+  lat,
+  lon,
+  radiusKm,
+  points,
+  layers,
+  height = 360,
+  showSearchArea = true,
+  onPick,
+}: OccurrenceMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerId: number; x: number; y: number; moved: number } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [zoomChange, setZoomChange] = useState(0);
+  const [pan, setPan] = useState({ x: 0, y: 0 }); // pixels the view is moved from the searched location
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.round(entry.contentRect.width)));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setZoomChange(0);
+    setPan({ x: 0, y: 0 });
+  }, [lat, lon, radiusKm]);
+
+  const fitZoom = width > 0 ? zoomForRadius(lat, radiusKm, width, height) : 0;
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, fitZoom + zoomChange));
+  const searchPoint = project(lat, lon, zoom);
+  const left = searchPoint.x + pan.x - width / 2;
+  const top = searchPoint.y + pan.y - height / 2;
+
+  const drawnLayers = useMemo<OccurrenceLayer[]>(
+    () => layers ?? [{ key: 0, label: "Occurrences", color: "var(--primary)", points: points ?? [] }],
+    [layers, points]
+  );
+
+  const clusters = useMemo(
+    () => (width > 0 ? drawnLayers.map((layer) => ({ layer, clusters: clusterPoints(layer.points, zoom) })) : []),
+    [drawnLayers, zoom, width]
+  );
+
+  const tiles: { x: number; y: number }[] = [];
+  if (width > 0) {
+    const maxTile = 2 ** zoom - 1;
+    for (let y = Math.floor(top / TILE_SIZE); y <= Math.floor((top + height) / TILE_SIZE); y++) {
+      if (y < 0 || y > maxTile) continue;
+      for (let x = Math.floor(left / TILE_SIZE); x <= Math.floor((left + width) / TILE_SIZE); x++) {
+        tiles.push({ x, y });
+      }
+    }
+  }
+
+  // Zooming keeps the centre of the view in place
+  const zoomBy = (change: number) => {
+    const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom + change));
+    if (next === zoom) return;
+    setPan((current) => ({ x: current.x * 2 ** (next - zoom), y: current.y * 2 ** (next - zoom) }));
+    setZoomChange(next - fitZoom);
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if ((event.target as HTMLElement).closest("button")) return;
+    dragRef.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY, moved: 0 };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    const dx = event.clientX - drag.x;
+    const dy = event.clientY - drag.y;
+    dragRef.current = { ...drag, x: event.clientX, y: event.clientY, moved: drag.moved + Math.abs(dx) + Math.abs(dy) };
+    setPan((current) => ({ x: current.x - dx, y: current.y - dy }));
+  };
+
+  // A press that barely moved is a click, which picks the point under it
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (drag?.pointerId !== event.pointerId) return;
+    dragRef.current = null;
+
+    if (onPick && drag.moved < 5) {
+      const bounds = event.currentTarget.getBoundingClientRect();
+      const picked = unproject(left + event.clientX - bounds.left, top + event.clientY - bounds.top, zoom);
+      onPick(picked.lat, picked.lon);
+    }
+  };
+
+  const handlePointerCancel = (event: PointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.pointerId === event.pointerId) dragRef.current = null;
+  };
+
+  const radiusPixels = (radiusKm * 1000) / metersPerPixel(lat, zoom);
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full overflow-hidden rounded-lg border border-border bg-muted cursor-grab active:cursor-grabbing touch-none select-none"
+      style={{ height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+      data-testid="occurrence-map"
+    >
+      {tiles.map(({ x, y }) => (
+        <img
+          key={`${zoom}-${x}-${y}`}
+          src={tileUrl(x, y, zoom)}
+          alt=""
+          draggable={false}
+          // Without a reachable tile server the map falls back to its plain background
+          onError={(event) => { event.currentTarget.style.visibility = "hidden"; }}
+          className="absolute"
+          style={{ left: x * TILE_SIZE - left, top: y * TILE_SIZE - top, width: TILE_SIZE, height: TILE_SIZE }}
+        />
+      ))}
+
+      {/* Search radius */}
+      {width > 0 && showSearchArea && (
+        <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+          <circle
+            cx={searchPoint.x - left}
+            cy={searchPoint.y - top}
+            r={radiusPixels}
+            fill="var(--primary)"
+            fillOpacity={0.06}
+            stroke="var(--primary)"
+            strokeWidth={1.5}
+            strokeDasharray="6 4"
+            data-testid="map-search-radius"
+          />
+        </svg>
+      )}
+
+      {clusters.map(({ layer, clusters: layerClusters }) =>
+        layerClusters.map((cluster) => {
+          const size = cluster.count === 1 ? 10 : Math.round(18 + 4 * Math.log2(cluster.count));
+          const label = cluster.count === 1
+            ? (cluster.latestYear ? `${layer.label}, recorded ${cluster.latestYear}` : layer.label)
+            : `${layer.label}: ${cluster.count} occurrences${cluster.latestYear ? `, latest ${cluster.latestYear}` : ""}`;
+
+          return (
+            <span
+              key={`${layer.key}-${cluster.id}`}
+              title={label}
+              className="absolute flex items-center justify-center rounded-full border border-white shadow text-[10px] font-semibold text-white"
+              style={{
+                left: cluster.x - left - size / 2,
+                top: cluster.y - top - size / 2,
+                width: size,
+                height: size,
+                backgroundColor: layer.color,
+                opacity: cluster.count === 1 ? 1 : 0.85,
+              }}
+            >
+              {cluster.count > 1 && cluster.count}
+            </span>
+          );
+        })
+      )}
+
+      {/* Searched location */}
+      {width > 0 && showSearchArea && (
+        <span
+          className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full bg-destructive border-2 border-white shadow"
+          style={{ left: searchPoint.x - left, top: searchPoint.y - top }}
+          data-testid="map-search-point"
+        />
+      )}
+
+      <div className="absolute top-2 right-2 flex flex-col rounded-md border border-border bg-background shadow">
+        <button
+          type="button"
+          onClick={() => zoomBy(1)}
+          disabled={zoom >= MAX_ZOOM}
+          className="p-1.5 hover:bg-muted disabled:opacity-50"
+          aria-label="Zoom in"
+          data-testid="button-map-zoom-in"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => zoomBy(-1)}
+          disabled={zoom <= MIN_ZOOM}
+          className="p-1.5 border-t border-border hover:bg-muted disabled:opacity-50"
+          aria-label="Zoom out"
+          data-testid="button-map-zoom-out"
+        >
+          <Minus className="w-4 h-4" />
+        </button>
+      </div>
+
+      <span className="absolute bottom-0 right-0 bg-background/80 px-1.5 py-0.5 text-[10px] text-muted-foreground">
+        {MAP_ATTRIBUTION}
+      </span>
+    </div>
+  );
+}
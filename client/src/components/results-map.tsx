@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import OccurrenceMap, { type OccurrenceLayer } from "@/components/occurrence-map";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { placeQuery } from "@/lib/search-url";
+import { AlertTriangle } from "lucide-react";
+import type { SearchLocation, SearchOccurrences, TreeSpecies } from "@shared/schema";
+
+interface ResultsMapProps {
+  search: SearchLocation;
+  species: TreeSpecies[];
+}
+
+// Helper function to give each species a distinct colour (hues spread by the golden angle)
+function speciesColor(index: number): string {
+  return `hsl(${Math.round((index * 137.5) % 360)}, 65%, 42%)`;
+}
+
+// Map mode of the results: the searched point and radius with clustered occurrences of each
+// species on the current page, which can be switched on and off in the legend
+export default function ResultsMap({ search, species }: ResultsMapProps) {
+  const [hidden, setHidden] = useState<Set<number>>(new Set());
+
+  const params = placeQuery(search);
+  params.set("speciesKeys", species.map((s) => s.speciesKey).join(","));
+
+  const { data, isLoading, error } = useQuery<SearchOccurrences>({
+    queryKey: [`/api/tree-species/search/occurrences?${params}`],
+    enabled: species.length > 0,
+  });
+
+  const toggle = (speciesKey: number, visible: boolean) => {
+    setHidden((current) => {
+      const next = new Set(current);
+      if (visible) next.delete(speciesKey);
+      else next.add(speciesKey);
+      return next;
+    });
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-[480px] w-full" data-testid="results-map-loading" />;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="text-center py-12" data-testid="results-map-error">
+        <AlertTriangle className="w-8 h-8 text-destructive mx-auto mb-4" />
+        <p className="text-muted-foreground">We couldn't load occurrence records for the map. Please try again later.</p>
+      </div>
+    );
+  }
+
+  const occurrences = new Map(data.species.map((entry) => [entry.speciesKey, entry.occurrences]));
+  const legend = species.map((s, index) => ({
+    key: s.speciesKey,
+    label: s.commonName,
+    color: speciesColor(index),
+    points: occurrences.get(s.speciesKey) ?? [],
+  }));
+  const layers: OccurrenceLayer[] = legend.filter((layer) => !hidden.has(layer.key));
+
+  return (
+    <div className="grid lg:grid-cols-[1fr_16rem] gap-4" data-testid="results-map">
+      <OccurrenceMap lat={data.lat} lon={data.lon} radiusKm={data.radiusKm} layers={layers} height={480} />
+
+      <ul className="space-y-2 text-sm lg:max-h-[480px] lg:overflow-y-auto" data-testid="results-map-legend">
+        {legend.map((layer) => (
+          <li key={layer.key}>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <Checkbox
+                checked={!hidden.has(layer.key)}
+                onCheckedChange={(checked) => toggle(layer.key, checked === true)}
+                data-testid={`checkbox-map-species-${layer.key}`}
+              />
+              <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: layer.color }} />
+              <span className="flex-1 truncate text-foreground">{layer.label}</span>
+              <span className="text-xs text-muted-foreground">{layer.points.length}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import type { MouseEvent } from "react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+interface ResultsPaginationProps {
+  total: number;
+  limit: number;
+  offset: number;
+  onPageChange: (cursor: string | undefined) => void;
+}
+
+// Page numbers to show: the first, the last and the current page's neighbours, with null for gaps
+function visiblePages(current: number, pageCount: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let page = 1; page <= pageCount; page++) {
+    if (page === 1 || page === pageCount || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+// Numbered pages over a ranked search result; cursors are offsets into the ranking
+export default function ResultsPagination({ total, limit, offset, onPageChange }: ResultsPaginationProps) {
+  const pageCount = Math.ceil(total / limit);
+  if (pageCount <= 1) return null;
+
+  const current = Math.floor(offset / limit) + 1;
+
+  const goTo = (page: number) => (event: MouseEvent) => {
+    event.preventDefault();
+    if (page < 1 || page > pageCount || page === current) return;
+    onPageChange(page === 1 ? undefined : String((page - 1) * limit));
+  };
+
+  return (
+    <Pagination className="mt-8" data-testid="results-pagination">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={goTo(current - 1)}
+            aria-disabled={current === 1}
+            className={current === 1 ? "pointer-events-none opacity-50" : undefined}
+            data-testid="button-page-previous"
+          />
+        </PaginationItem>
+        {visiblePages(current, pageCount).map((page, index) => (
+          <PaginationItem key={page ?? `gap-${index}`}>
+            {page === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink
+                href="#"
+                isActive={page === current}
+                onClick={goTo(page)}
+                data-testid={`button-page-${page}`}
+              >
+                {page}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={goTo(current + 1)}
+            aria-disabled={current === pageCount}
+            className={current === pageCount ? "pointer-events-none opacity-50" : undefined}
+            data-testid="button-page-next"
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
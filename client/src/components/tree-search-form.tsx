@@ -1,32 +1,58 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { searchLocationSchema, type SearchLocation } from "@shared/schema";
+import { searchLocationSchema, SEARCH_RADII_KM, DEFAULT_SEARCH_RADIUS_KM, DEFAULT_PAGE_SIZE, type CountyOption, type SearchLocation, type PlaceSuggestion } from "@shared/schema";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Search, MapPin, ChevronDown } from "lucide-react";
+import CityTypeahead from "@/components/city-typeahead";
+import LocationPicker from "@/components/location-picker";
+import { Search, ChevronDown, LocateFixed, Loader2 } from "lucide-react";
 
 interface State {
   code: string;
+  fips: string; // two-digit prefix of the state's county FIPS codes
   name: string;
 }
 
+// The form holds the fields of every place kind it offers; the resolver validates the chosen
+// kind's fields and drops the others
+interface SearchFormValues {
+  kind: "city" | "zip" | "county";
+  city: string;
+  state: string;
+  zip: string;
+  countyFips: string;
+  radiusKm: number;
+  includeInvasive: boolean;
+}
+
+const EMPTY_PLACE = { city: "", state: "", zip: "", countyFips: "" };
+
 interface TreeSearchFormProps {
-  onSearch: (city: string, state: string) => void;
+  onSearch: (search: SearchLocation) => void;
+  suggestions?: PlaceSuggestion[];
+  // Search shown in the URL, so a shared or reloaded result page fills in the form
+  initialSearch?: SearchLocation | null;
 }
 
-export default function TreeSearchForm({ onSearch }: TreeSearchFormProps) {
+export default function TreeSearchForm({ onSearch, suggestions = [], initialSearch }: TreeSearchFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [locationError, setLocationError] = useState<string | null>(null);
 
-  const form = useForm<SearchLocation>({
+  const form = useForm<SearchFormValues>({
     resolver: zodResolver(searchLocationSchema),
     defaultValues: {
-      city: "",
-      state: "",
+      kind: "city",
+      ...EMPTY_PLACE,
+      radiusKm: DEFAULT_SEARCH_RADIUS_KM,
+      includeInvasive: false,
     },
   });
 
@@ -34,68 +60,257 @@ export default function TreeSearchForm({ onSearch }: TreeSearchFormProps) {
     queryKey: ["/api/states"],
   });
 
-  const handleSubmit = async (data: SearchLocation) => {
+  // County searches only carry the county's FIPS code; its first two digits pick the state so the
+  // county picker can list the state's counties (empty until the states have loaded)
+  const initialCountyState = initialSearch?.kind === "county"
+    ? states.find((state) => state.fips === initialSearch.countyFips.slice(0, 2))?.code ?? ""
+    : "";
+
+  useEffect(() => {
+    if (!initialSearch) return;
+    // Coordinate searches keep the place fields empty
+    const place = initialSearch.kind === "coordinates"
+      ? { kind: "city" as const, ...EMPTY_PLACE }
+      : { ...EMPTY_PLACE, ...initialSearch, ...(initialSearch.kind === "county" ? { state: initialCountyState } : {}) };
+    form.reset({
+      ...place,
+      radiusKm: initialSearch.radiusKm,
+      includeInvasive: initialSearch.includeInvasive,
+    });
+  }, [form, initialSearch, initialCountyState]);
+
+  const kind = form.watch("kind");
+  const selectedState = form.watch("state");
+
+  // Counties of the chosen state for the county picker
+  const { data: counties = [], isLoading: isLoadingCounties } = useQuery<CountyOption[]>({
+    queryKey: [`/api/counties?state=${selectedState}`],
+    enabled: kind === "county" && selectedState.length === 2,
+  });
+
+  const handleSubmit = async (values: SearchFormValues) => {
     setIsSubmitting(true);
     try {
-      onSearch(data.city, data.state);
+      // The resolver has validated the values; parsing again keeps only the chosen kind's fields
+      onSearch(searchLocationSchema.parse(values));
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const handleSuggestion = (suggestion: PlaceSuggestion) => {
+    form.setValue("kind", "city");
+    form.setValue("city", suggestion.city);
+    form.setValue("state", suggestion.state);
+    void form.handleSubmit(handleSubmit)();
+  };
+
+  // Search around coordinates with the radius and filters chosen in the form
+  const searchCoordinates = (lat: number, lon: number) => {
+    setLocationError(null);
+    onSearch({
+      kind: "coordinates",
+      lat,
+      lon,
+      radiusKm: form.getValues("radiusKm"),
+      includeInvasive: form.getValues("includeInvasive"),
+      limit: DEFAULT_PAGE_SIZE,
+    });
+  };
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      setLocationError("Your browser can't share its location. Pick a spot on the map instead.");
+      return;
+    }
+
+    setIsLocating(true);
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        searchCoordinates(position.coords.latitude, position.coords.longitude);
+      },
+      (error) => {
+        setIsLocating(false);
+        setLocationError(error.code === error.PERMISSION_DENIED
+          ? "Location access was denied. Allow it in your browser or pick a spot on the map."
+          : "We couldn't get your location. Please try again or pick a spot on the map.");
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
   return (
     <div className="max-w-2xl mx-auto">
       <Form {...form}>
         <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+          {/* Landscapers and extension offices often work by ZIP code or county rather than city */}
+          <FormField
+            control={form.control}
+            name="kind"
+            render={({ field }) => (
+              <FormItem className="space-y-0">
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  size="sm"
+                  className="justify-start"
+                  value={field.value}
+                  onValueChange={(value) => {
+                    if (!value) return;
+                    field.onChange(value);
+                    form.clearErrors();
+                  }}
+                  data-testid="toggle-place-kind"
+                >
+                  <ToggleGroupItem value="city" data-testid="button-kind-city">City</ToggleGroupItem>
+                  <ToggleGroupItem value="zip" data-testid="button-kind-zip">ZIP code</ToggleGroupItem>
+                  <ToggleGroupItem value="county" data-testid="button-kind-county">County</ToggleGroupItem>
+                </ToggleGroup>
+              </FormItem>
+            )}
+          />
+
           <div className="flex flex-col md:flex-row gap-3">
             {/* City Input */}
-            <FormField
-              control={form.control}
-              name="city"
-              render={({ field }) => (
-                <FormItem className="flex-1">
-                  <FormLabel>City</FormLabel>
-                  <FormControl>
-                    <div className="relative">
-                      <Input
-                        {...field}
-                        placeholder="Enter city name"
-                        className="pr-10"
-                        data-testid="input-city"
+            {kind === "city" && (
+              <FormField
+                control={form.control}
+                name="city"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>City</FormLabel>
+                    <FormControl>
+                      <CityTypeahead
+                        ref={field.ref}
+                        value={field.value}
+                        state={selectedState}
+                        onChange={field.onChange}
+                        onBlur={field.onBlur}
+                        onSelect={(place) => {
+                          form.setValue("city", place.city, { shouldValidate: true });
+                          form.setValue("state", place.state, { shouldValidate: true });
+                        }}
                       />
-                      <MapPin className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-                    </div>
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            {/* State Select */}
-            <FormField
-              control={form.control}
-              name="state"
-              render={({ field }) => (
-                <FormItem className="flex-1">
-                  <FormLabel>State</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value}>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* ZIP Code Input */}
+            {kind === "zip" && (
+              <FormField
+                control={form.control}
+                name="zip"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>ZIP code</FormLabel>
                     <FormControl>
-                      <SelectTrigger data-testid="select-state">
-                        <SelectValue placeholder="Select state" />
-                      </SelectTrigger>
+                      <Input {...field} inputMode="numeric" maxLength={5} placeholder="e.g. 28801" data-testid="input-zip" />
                     </FormControl>
-                    <SelectContent>
-                      {states.map((state) => (
-                        <SelectItem key={state.code} value={state.code}>
-                          {state.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* State Select (also narrows the county list) */}
+            {kind !== "zip" && (
+              <FormField
+                control={form.control}
+                name="state"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>State</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue("countyFips", "");
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-state">
+                          <SelectValue placeholder="Select state" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {states.map((state) => (
+                          <SelectItem key={state.code} value={state.code}>
+                            {state.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* County Select */}
+            {kind === "county" && (
+              <FormField
+                control={form.control}
+                name="countyFips"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>County</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value} disabled={!selectedState}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-county">
+                          <SelectValue placeholder={
+                            !selectedState ? "Select a state first"
+                              : isLoadingCounties ? "Loading counties..."
+                              : counties.length === 0 ? "No counties available"
+                              : "Select county"
+                          } />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {counties.map((county) => (
+                          <SelectItem key={county.countyFips} value={county.countyFips}>
+                            {county.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {/* Radius Select (a county search always covers the whole county) */}
+            {kind !== "county" && (
+              <FormField
+                control={form.control}
+                name="radiusKm"
+                render={({ field }) => (
+                  <FormItem className="md:w-32">
+                    <FormLabel>Radius</FormLabel>
+                    <Select onValueChange={(value) => field.onChange(Number(value))} value={String(field.value)}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-radius">
+                          <SelectValue placeholder="Radius" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SEARCH_RADII_KM.map((radius) => (
+                          <SelectItem key={radius} value={String(radius)}>
+                            {radius} km
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
 
             {/* Search Button */}
             <div className="flex items-end">
@@ -110,8 +325,69 @@ export default function TreeSearchForm({ onSearch }: TreeSearchFormProps) {
               </Button>
             </div>
           </div>
+
+          {/* Invasive species are hidden unless asked for, then shown with their state listing */}
+          <FormField
+            control={form.control}
+            name="includeInvasive"
+            render={({ field }) => (
+              <FormItem className="flex items-center space-x-2 space-y-0">
+                <FormControl>
+                  <Checkbox
+                    checked={field.value}
+                    onCheckedChange={(checked) => field.onChange(checked === true)}
+                    data-testid="checkbox-include-invasive"
+                  />
+                </FormControl>
+                <FormLabel className="font-normal text-muted-foreground">
+                  Also show invasive species listed by the state
+                </FormLabel>
+              </FormItem>
+            )}
+          />
+
+          {/* Searching by coordinates covers rural land, parks and places without a city name */}
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Or search around a point:</span>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleUseMyLocation}
+              disabled={isLocating}
+              data-testid="button-use-my-location"
+            >
+              {isLocating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LocateFixed className="w-4 h-4 mr-2" />}
+              Use my location
+            </Button>
+            <LocationPicker radiusKm={form.watch("radiusKm")} onPick={searchCoordinates} />
+          </div>
+          {locationError && (
+            <p className="text-sm text-destructive" data-testid="text-location-error">{locationError}</p>
+          )}
         </form>
       </Form>
+
+      {/* Did-you-mean suggestions for a city that could not be found */}
+      {suggestions.length > 0 && (
+        <div className="mt-4 flex flex-wrap items-center gap-2 text-sm" data-testid="place-suggestions">
+          <span className="text-muted-foreground">
+            We couldn't find that city. Did you mean:
+          </span>
+          {suggestions.map((suggestion) => (
+            <Button
+              key={`${suggestion.city}-${suggestion.state}`}
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => handleSuggestion(suggestion)}
+              data-testid={`button-suggestion-${suggestion.city}`}
+            >
+              {suggestion.city}, {suggestion.state}
+            </Button>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
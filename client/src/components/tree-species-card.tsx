@@ -1,45 +1,73 @@
+import { Link } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Ruler, Clock, Leaf } from "lucide-react";
-import type { TreeSpecies } from "@shared/schema";
+import { Ruler, Clock, Leaf, AlertTriangle, TreeDeciduous } from "lucide-react";
+import type { GrowthForm, TreeSpecies } from "@shared/schema";
+
+const GROWTH_FORM_LABELS: Record<GrowthForm, string> = {
+  "tree": "Tree",
+  "tree/shrub": "Tree or shrub",
+  "shrub": "Shrub",
+  "other": "Other",
+};
 
 interface TreeSpeciesCardProps {
   species: TreeSpecies;
+  detailsHref?: string; // species page link; the common name links there when set
 }
 
-export default function TreeSpeciesCard({ species }: TreeSpeciesCardProps) {
+export default function TreeSpeciesCard({ species, detailsHref }: TreeSpeciesCardProps) {
   return (
-    <Card className="tree-card transition-all duration-200 hover:-translate-y-1 hover:shadow-lg" data-testid={`card-species-${species.id}`}>
+    <Card className="tree-card transition-all duration-200 hover:-translate-y-1 hover:shadow-lg" data-testid={`card-species-${species.speciesKey}`}>
       {species.imageUrl && (
         <img
           src={species.imageUrl}
           alt={`${species.commonName} in natural habitat`}
           className="w-full h-48 object-cover rounded-t-lg"
-          data-testid={`img-species-${species.id}`}
+          data-testid={`img-species-${species.speciesKey}`}
         />
       )}
       <CardContent className="p-5">
         <div className="flex items-start justify-between mb-3">
           <div className="flex-1 min-w-0">
-            <h4 className="text-lg font-semibold text-card-foreground truncate" data-testid={`text-common-name-${species.id}`}>
-              {species.commonName}
+            <h4 className="text-lg font-semibold text-card-foreground truncate" data-testid={`text-common-name-${species.speciesKey}`}>
+              {detailsHref ? (
+                <Link href={detailsHref} className="hover:underline" data-testid={`link-species-${species.speciesKey}`}>
+                  {species.commonName}
+                </Link>
+              ) : (
+                species.commonName
+              )}
             </h4>
-            <p className="text-sm text-muted-foreground font-mono truncate" data-testid={`text-scientific-name-${species.id}`}>
+            <p className="text-sm text-muted-foreground font-mono truncate" data-testid={`text-scientific-name-${species.speciesKey}`}>
               {species.scientificName}
             </p>
           </div>
-          <Badge variant="secondary" className="ml-2 flex-shrink-0">
-            <Leaf className="w-3 h-3 mr-1" />
-            Native
-          </Badge>
+          {species.invasiveStatus ? (
+            <Badge variant="destructive" className="ml-2 flex-shrink-0" data-testid={`badge-invasive-${species.speciesKey}`}>
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              {species.invasiveStatus === "watch" ? "Invasive watch list" : `Invasive (${species.invasiveStatus})`}
+            </Badge>
+          ) : (
+            <Badge variant="secondary" className="ml-2 flex-shrink-0">
+              <Leaf className="w-3 h-3 mr-1" />
+              Native
+            </Badge>
+          )}
         </div>
         
-        <p className="text-sm text-card-foreground mb-4 leading-relaxed line-clamp-3" data-testid={`text-habitat-${species.id}`}>
+        <p className="text-sm text-card-foreground mb-4 leading-relaxed line-clamp-3" data-testid={`text-habitat-${species.speciesKey}`}>
           {species.habitatDescription}
         </p>
         
-        {(species.maxHeight || species.maxAge) && (
+        {(species.growthForm || species.maxHeight || species.maxAge) && (
           <div className="flex items-center justify-between text-xs text-muted-foreground">
+            {species.growthForm && (
+              <span className="flex items-center" data-testid={`text-growth-form-${species.speciesKey}`}>
+                <TreeDeciduous className="w-3 h-3 mr-1" />
+                {GROWTH_FORM_LABELS[species.growthForm]}
+              </span>
+            )}
             {species.maxHeight && (
               <span className="flex items-center">
                 <Ruler className="w-3 h-3 mr-1" />
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useState } from "react";
+import type {
+  PlaceSuggestion,
+  SearchLocation,
+  SearchProgressEvent,
+  TreeSearchResult,
+  TreeSpecies,
+} from "@shared/schema";
+
+// Search failure carrying "did you mean" places when the city could not be resolved
+export class SearchError extends Error {
+  constructor(message: string, public readonly suggestions: PlaceSuggestion[] = []) {
+    super(message);
+  }
+}
+
+export interface SearchJobState {
+  isLoading: boolean;
+  stage: string;
+  percent: number;
+  partialSpecies: TreeSpecies[];
+  result: TreeSearchResult | null;
+  error: SearchError | null;
+}
+
+const IDLE_STATE: SearchJobState = {
+  isLoading: false,
+  stage: "",
+  percent: 0,
+  partialSpecies: [],
+  result: null,
+  error: null,
+};
+
+// Helper function to fold a progress event into the UI state.
+// Progress bands: geocoding 0-10%, occurrence pages 10-50%, classification 55%, species details 55-100%
+function applyEvent(state: SearchJobState, event: SearchProgressEvent): SearchJobState {
+  switch (event.type) {
+    case "geocoded":
+      return { ...state, stage: `Found ${event.location}, searching biodiversity records...`, percent: 10 };
+    case "occurrences":
+      return {
+        ...state,
+        stage: `Fetched ${event.fetched.toLocaleString()} of ${event.total.toLocaleString()} occurrence records...`,
+        percent: 10 + Math.round(40 * (event.total > 0 ? event.fetched / event.total : 1)),
+      };
+    case "candidates":
+      return {
+        ...state,
+        stage: `Found ${event.natives} native trees among ${event.trees} tree species, loading details...`,
+        percent: 55,
+      };
+    case "species": {
+      // A reconnecting EventSource replays the job's history, so skip species we already have
+      const isNew = event.species && !state.partialSpecies.some(s => s.speciesKey === event.species?.speciesKey);
+      return {
+        ...state,
+        stage: `Loaded ${event.completed} of ${event.total} species...`,
+        percent: 55 + Math.round(45 * (event.completed / event.total)),
+        partialSpecies: isNew && event.species ? [...state.partialSpecies, event.species] : state.partialSpecies,
+      };
+    }
+    case "done":
+      return { ...state, isLoading: false, stage: "", percent: 100, result: event.result };
+    case "error":
+      return { ...state, isLoading: false, stage: "", error: new SearchError(event.message, event.suggestions) };
+  }
+}
+
+// Runs a tree search as a background job and follows its progress over server-sent events
+export function useSearchJob(search: SearchLocation | null) {
+  const [state, setState] = useState<SearchJobState>(IDLE_STATE);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!search) {
+      setState(IDLE_STATE);
+      return;
+    }
+
+    let cancelled = false;
+    let events: EventSource | null = null;
+
+    setState({ ...IDLE_STATE, isLoading: true, stage: "Locating your city..." });
+
+    const start = async () => {
+      const response = await fetch("/api/tree-species/search/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(search),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new SearchError(errorData.message || "Failed to start search");
+      }
+
+      const { jobId } = await response.json();
+      if (cancelled) return;
+
+      events = new EventSource(`/api/tree-species/search/jobs/${jobId}/events`);
+      events.onmessage = (message) => {
+        const event: SearchProgressEvent = JSON.parse(message.data);
+        setState(current => applyEvent(current, event));
+        if (event.type === "done" || event.type === "error") events?.close();
+      };
+
+      // EventSource reconnects on its own; give up only once the browser closes the stream
+      events.onerror = () => {
+        if (events?.readyState === EventSource.CLOSED) {
+          setState(current => current.isLoading
+            ? { ...current, isLoading: false, error: new SearchError("Lost connection to the search. Please try again.") }
+            : current);
+        }
+      };
+    };
+
+    start().catch(error => {
+      if (cancelled) return;
+      setState({
+        ...IDLE_STATE,
+        error: error instanceof SearchError ? error : new SearchError("Failed to fetch tree species"),
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      events?.close();
+    };
+  }, [search, attempt]);
+
+  const retry = useCallback(() => setAttempt(count => count + 1), []);
+
+  return { ...state, retry };
+}
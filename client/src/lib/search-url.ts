@@ -0,0 +1,94 @@
+import { DEFAULT_SEARCH_RADIUS_KM, searchLocationSchema, type SearchLocation, type SearchPlace } from "@shared/schema";
+
+// Shareable result URLs: /trees/<STATE>/<city-slug> for a city, /trees/near/<lat>,<lon> for coordinates,
+// /trees/zip/<zip> for a ZIP code and /trees/county/<fips> for a county, with
+// ?radius=50&invasive=true&cursor=15 when they differ from the defaults, e.g. /trees/NC/asheville
+
+type SearchPathParams = SearchPlace &
+  Pick<SearchLocation, "radiusKm"> &
+  Partial<Pick<SearchLocation, "includeInvasive" | "cursor">>;
+
+// Route parameters of the result paths
+export interface SearchPathSegments {
+  state?: string;
+  city?: string;
+  coordinates?: string;
+  zip?: string;
+  countyFips?: string;
+}
+
+// Helper function to turn a city name into a URL slug ("Saint Louis" -> "st-louis"). Mirrors the
+// server's place name normalization, which redirects any other spelling to this slug
+export function citySlug(city: string): string {
+  return city
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[.'’]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .replace(/^saint\b/, "st")
+    .replace(/^mount\b/, "mt")
+    .replace(/^fort\b/, "ft");
+}
+
+// Helper function to turn a slug back into a searchable, readable city name ("st-louis" -> "St Louis")
+function cityFromSlug(slug: string): string {
+  return slug
+    .split("-")
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+export function searchPath(search: SearchPathParams): string {
+  const query = new URLSearchParams();
+  if (search.radiusKm !== DEFAULT_SEARCH_RADIUS_KM) query.set("radius", String(search.radiusKm));
+  if (search.includeInvasive) query.set("invasive", "true");
+  if (search.cursor) query.set("cursor", search.cursor);
+
+  const queryString = query.toString();
+  return `${placePath(search)}${queryString ? `?${queryString}` : ""}`;
+}
+
+function placePath(place: SearchPlace): string {
+  switch (place.kind) {
+    case "city": return `/trees/${place.state.toUpperCase()}/${citySlug(place.city)}`;
+    // Four decimals (about 10 m) is finer than the server's cache key, so nothing is lost
+    case "coordinates": return `/trees/near/${place.lat.toFixed(4)},${place.lon.toFixed(4)}`;
+    case "zip": return `/trees/zip/${place.zip}`;
+    case "county": return `/trees/county/${place.countyFips}`;
+  }
+}
+
+// The search a result URL describes, or null when the path parameters or query are invalid
+export function searchFromPath({ state, city, coordinates, zip, countyFips }: SearchPathSegments, queryString: string): SearchLocation | null {
+  const [lat, lon] = coordinates?.split(",") ?? [];
+  const place = coordinates ? { kind: "coordinates", lat, lon }
+    : zip ? { kind: "zip", zip }
+    : countyFips ? { kind: "county", countyFips }
+    : state && city ? { kind: "city", state, city: cityFromSlug(city) }
+    : null;
+  if (!place) return null;
+
+  const query = new URLSearchParams(queryString);
+  const parsed = searchLocationSchema.safeParse({
+    ...place,
+    radiusKm: query.get("radius") ?? undefined,
+    includeInvasive: query.get("invasive") === "true",
+    cursor: query.get("cursor") ?? undefined,
+  });
+
+  return parsed.success ? parsed.data : null;
+}
+
+// Query parameters naming a search's place and radius, as the species and occurrence endpoints take them
+export function placeQuery(search: SearchPlace & Pick<SearchLocation, "radiusKm">): URLSearchParams {
+  const place: Record<string, string> =
+    search.kind === "coordinates" ? { lat: String(search.lat), lon: String(search.lon) }
+    : search.kind === "zip" ? { zip: search.zip }
+    : search.kind === "county" ? { countyFips: search.countyFips }
+    : { city: search.city, state: search.state };
+
+  return new URLSearchParams({ ...place, radiusKm: String(search.radiusKm) });
+}
@@ -1,56 +1,66 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMemo, useState } from "react";
+import { useLocation, useParams, useSearch } from "wouter";
+import { format } from "date-fns";
 import Header from "@/components/header";
 import Footer from "@/components/footer";
 import TreeSearchForm from "@/components/tree-search-form";
 import TreeSpeciesCard from "@/components/tree-species-card";
-import { Card } from "@/components/ui/card";
-import { Loader2, AlertTriangle, Sprout, Droplets, Shield } from "lucide-react";
-import type { TreeSpecies } from "@shared/schema";
-
-interface SearchResults {
-  species: TreeSpecies[];
-  location: string;
-  count: number;
-}
+import ResultsPagination from "@/components/results-pagination";
+import ResultsMap from "@/components/results-map";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Progress } from "@/components/ui/progress";
+import { useSearchJob } from "@/hooks/use-search-job";
+import { placeQuery, searchFromPath, searchPath, type SearchPathSegments } from "@/lib/search-url";
+import { Loader2, AlertTriangle, Sprout, Droplets, Shield, LayoutGrid, Map as MapIcon } from "lucide-react";
+import { DEFAULT_PAGE_SIZE, type SearchLocation } from "@shared/schema";
 
 export default function Home() {
-  const [searchParams, setSearchParams] = useState<{ city: string; state: string } | null>(null);
+  // The search lives in the URL (/trees/NC/asheville, /trees/near/35.5951,-82.5515, /trees/zip/28801
+  // or /trees/county/37021), so results can be shared, bookmarked and reloaded; opening such a URL
+  // reruns its search
+  const { state, city, coordinates, zip, countyFips } = useParams<SearchPathSegments>();
+  const query = useSearch();
+  const [, navigate] = useLocation();
+
+  const searchParams = useMemo(
+    () => searchFromPath({ state, city, coordinates, zip, countyFips }, query),
+    [state, city, coordinates, zip, countyFips, query]
+  );
+  const [view, setView] = useState<"cards" | "map">("cards");
 
   const {
-    data: results,
+    result: results,
     isLoading,
     error,
-    refetch
-  } = useQuery<SearchResults>({
-    queryKey: ["/api/tree-species/search", searchParams],
-    enabled: !!searchParams,
-    queryFn: async () => {
-      if (!searchParams) throw new Error("No search parameters");
-      
-      const response = await fetch("/api/tree-species/search", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(searchParams),
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to fetch tree species");
-      }
-      
-      return response.json();
-    },
-  });
+    stage,
+    percent,
+    partialSpecies,
+    retry
+  } = useSearchJob(searchParams);
+
+  const handleSearch = (search: SearchLocation) => {
+    navigate(searchPath({ ...search, cursor: undefined }));
+  };
+
+  // Each page is its own search job; pages after the first fetch their species details on demand
+  const handlePageChange = (cursor: string | undefined) => {
+    if (!searchParams) return;
+    navigate(searchPath({ ...searchParams, cursor }));
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
 
-  const handleSearch = (city: string, state: string) => {
-    setSearchParams({ city, state });
+  // Species pages map occurrences around the searched location
+  const speciesHref = (speciesKey: number) => {
+    if (!searchParams) return `/species/${speciesKey}`;
+    return `/species/${speciesKey}?${placeQuery(searchParams)}`;
   };
 
   const handleRetry = () => {
-    refetch();
+    retry();
   };
 
+  const suggestions = error?.suggestions ?? [];
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -67,24 +77,35 @@ export default function Home() {
             </p>
           </div>
           
-          <TreeSearchForm onSearch={handleSearch} />
+          <TreeSearchForm onSearch={handleSearch} suggestions={suggestions} initialSearch={searchParams} />
         </section>
 
-        {/* Loading State */}
+        {/* Loading State: staged progress with species shown as soon as their details arrive */}
         {isLoading && (
-          <section className="text-center py-12" data-testid="loading-state">
-            <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4 text-primary" />
-            <p className="text-lg text-muted-foreground">
-              Searching for native trees in your area...
-            </p>
-            <p className="text-sm text-muted-foreground mt-2">
-              This may take a few moments while we query biodiversity databases.
-            </p>
+          <section className="py-12" data-testid="loading-state">
+            <div className="text-center max-w-md mx-auto">
+              <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4 text-primary" />
+              <p className="text-lg text-muted-foreground" data-testid="text-search-stage">
+                {stage || "Searching for native trees in your area..."}
+              </p>
+              <Progress value={percent} className="h-2 mt-4" data-testid="progress-search" />
+              <p className="text-sm text-muted-foreground mt-2">
+                This may take a few moments while we query biodiversity databases.
+              </p>
+            </div>
+
+            {partialSpecies.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mt-8" data-testid="partial-results-list">
+                {partialSpecies.map((species) => (
+                  <TreeSpeciesCard key={species.speciesKey} species={species} detailsHref={speciesHref(species.speciesKey)} />
+                ))}
+              </div>
+            )}
           </section>
         )}
 
-        {/* Error State */}
-        {error && !isLoading && (
+        {/* Error State (unknown places are handled by the suggestions in the search form) */}
+        {error && !isLoading && suggestions.length === 0 && (
           <section className="text-center py-12" data-testid="error-state">
             <div className="w-16 h-16 bg-destructive/10 rounded-full flex items-center justify-center mx-auto mb-4">
               <AlertTriangle className="text-destructive text-2xl" />
@@ -114,23 +135,53 @@ export default function Home() {
               <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
                 <div>
                   <h3 className="text-2xl font-bold text-foreground">
-                    Native Trees in {results.location}
+                    Native Trees {searchParams?.kind === "coordinates" || searchParams?.kind === "zip" ? "near" : "in"} {results.location}
                   </h3>
                   <p className="text-muted-foreground">
-                    Found {results.count} native tree species
+                    Found {results.total} native tree species {searchParams?.kind === "county" ? "across the county" : `within ${results.radiusKm} km`}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1" data-testid="text-fetched-at">
+                    Data from {format(new Date(results.fetchedAt), "MMM d, yyyy")}
+                    {results.stale && " · refreshing in the background"}
                   </p>
                 </div>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={view}
+                  onValueChange={(value) => value && setView(value as "cards" | "map")}
+                  data-testid="toggle-results-view"
+                >
+                  <ToggleGroupItem value="cards" aria-label="Show species cards" data-testid="button-view-cards">
+                    <LayoutGrid className="w-4 h-4 mr-2" />
+                    Cards
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="map" aria-label="Show occurrence map" data-testid="button-view-map">
+                    <MapIcon className="w-4 h-4 mr-2" />
+                    Map
+                  </ToggleGroupItem>
+                </ToggleGroup>
               </div>
             </section>
 
             {/* Tree Species List */}
             {results.species.length > 0 ? (
               <section className="mb-8" data-testid="results-list">
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {results.species.map((species) => (
-                    <TreeSpeciesCard key={species.id} species={species} />
-                  ))}
-                </div>
+                {view === "map" && searchParams ? (
+                  <ResultsMap search={searchParams} species={results.species} />
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {results.species.map((species) => (
+                      <TreeSpeciesCard key={species.speciesKey} species={species} detailsHref={speciesHref(species.speciesKey)} />
+                    ))}
+                  </div>
+                )}
+                <ResultsPagination
+                  total={results.total}
+                  limit={searchParams?.limit ?? DEFAULT_PAGE_SIZE}
+                  offset={Number(searchParams?.cursor ?? 0)}
+                  onPageChange={handlePageChange}
+                />
               </section>
             ) : (
               <section className="text-center py-12" data-testid="no-results">
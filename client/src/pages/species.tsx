@@ -0,0 +1,169 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams, useSearch } from "wouter";
+import Header from "@/components/header";
+import Footer from "@/components/footer";
+import OccurrenceMap from "@/components/occurrence-map";
+import { searchPath } from "@/lib/search-url";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertTriangle, ArrowLeft, MapPin } from "lucide-react";
+import { speciesProfileQuerySchema, type SpeciesProfile } from "@shared/schema";
+
+const TAXONOMY_RANKS = ["kingdom", "phylum", "class", "order", "family", "genus"] as const;
+
+// Full profile of one species: every GBIF description and image, taxonomy, synonyms and,
+// when opened from a search, a map of its occurrences around the searched location
+export default function SpeciesPage() {
+  const { speciesKey } = useParams<{ speciesKey: string }>();
+  const search = useSearch();
+
+  const { data: profile, isLoading, error } = useQuery<SpeciesProfile>({
+    queryKey: [`/api/species/${speciesKey}${search ? `?${search}` : ""}`],
+  });
+
+  // Opened from a search: lead back to that search's shareable URL
+  const near = speciesProfileQuerySchema.safeParse(Object.fromEntries(new URLSearchParams(search)));
+  const backHref = near.success && "kind" in near.data ? searchPath(near.data) : "/";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8 max-w-5xl">
+        <Link href={backHref} className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6" data-testid="link-back">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to search
+        </Link>
+
+        {isLoading && (
+          <div className="space-y-4" data-testid="species-loading">
+            <Skeleton className="h-10 w-1/2" />
+            <Skeleton className="h-6 w-1/3" />
+            <Skeleton className="h-64 w-full" />
+          </div>
+        )}
+
+        {error && (
+          <section className="text-center py-12" data-testid="species-error">
+            <AlertTriangle className="w-8 h-8 text-destructive mx-auto mb-4" />
+            <p className="text-muted-foreground">
+              We couldn't load this species. It may not exist in GBIF, or the service may be temporarily unavailable.
+            </p>
+          </section>
+        )}
+
+        {profile && (
+          <article className="space-y-8">
+            <header>
+              <h2 className="text-3xl font-bold text-foreground" data-testid="text-species-common-name">
+                {profile.commonName}
+              </h2>
+              <p className="text-lg text-muted-foreground font-mono" data-testid="text-species-scientific-name">
+                {profile.scientificName}
+                {profile.authorship && <span className="ml-2 text-sm">{profile.authorship}</span>}
+              </p>
+            </header>
+
+            {profile.images.length > 0 && (
+              <section className="grid grid-cols-2 md:grid-cols-3 gap-3" data-testid="species-images">
+                {profile.images.map((image) => (
+                  <figure key={image.url} className="space-y-1">
+                    <img
+                      src={image.url}
+                      alt={image.title || profile.commonName}
+                      loading="lazy"
+                      className="w-full h-40 object-cover rounded-lg"
+                    />
+                    {(image.rightsHolder || image.license) && (
+                      <figcaption className="text-[10px] text-muted-foreground truncate">
+                        {[image.rightsHolder, image.license].filter(Boolean).join(" · ")}
+                      </figcaption>
+                    )}
+                  </figure>
+                ))}
+              </section>
+            )}
+
+            <section className="grid md:grid-cols-2 gap-6">
+              <Card>
+                <CardContent className="p-5">
+                  <h3 className="font-semibold text-card-foreground mb-3">Taxonomy</h3>
+                  <dl className="grid grid-cols-2 gap-y-1 text-sm" data-testid="species-taxonomy">
+                    {TAXONOMY_RANKS.filter((rank) => profile.taxonomy[rank]).map((rank) => (
+                      <div key={rank} className="contents">
+                        <dt className="text-muted-foreground capitalize">{rank}</dt>
+                        <dd className="text-card-foreground">{profile.taxonomy[rank]}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardContent className="p-5">
+                  <h3 className="font-semibold text-card-foreground mb-3">Synonyms</h3>
+                  {profile.synonyms.length > 0 ? (
+                    <div className="flex flex-wrap gap-2" data-testid="species-synonyms">
+                      {profile.synonyms.map((synonym) => (
+                        <Badge key={synonym} variant="outline" className="font-mono font-normal">
+                          {synonym}
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">GBIF lists no synonyms for this species.</p>
+                  )}
+                </CardContent>
+              </Card>
+            </section>
+
+            {profile.near && (
+              <section data-testid="species-occurrences">
+                <h3 className="text-xl font-semibold text-foreground mb-1">
+                  <MapPin className="w-5 h-5 mr-1 inline" />
+                  Records near {profile.near.location}
+                </h3>
+                <p className="text-sm text-muted-foreground mb-3">
+                  {profile.occurrences.length} georeferenced occurrences within about {profile.near.radiusKm} km
+                </p>
+                <OccurrenceMap
+                  lat={profile.near.lat}
+                  lon={profile.near.lon}
+                  radiusKm={profile.near.radiusKm}
+                  points={profile.occurrences}
+                />
+              </section>
+            )}
+
+            <section data-testid="species-descriptions">
+              <h3 className="text-xl font-semibold text-foreground mb-3">Descriptions</h3>
+              {profile.descriptions.length > 0 ? (
+                <div className="space-y-4">
+                  {profile.descriptions.map((description, index) => (
+                    <Card key={index}>
+                      <CardContent className="p-5">
+                        {(description.type || description.source) && (
+                          <p className="text-xs text-muted-foreground mb-2">
+                            {[description.type, description.source].filter(Boolean).join(" · ")}
+                          </p>
+                        )}
+                        <p className="text-sm text-card-foreground leading-relaxed whitespace-pre-line">
+                          {description.text}
+                        </p>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">GBIF has no descriptions for this species.</p>
+              )}
+            </section>
+          </article>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
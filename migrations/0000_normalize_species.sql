@@ -0,0 +1,73 @@
+-- Replaces the denormalized tree_species table (one full species row per city) with
+-- species, locations and location_species. Databases created with db:push before this
+-- migration already have "users"; existing tree_species rows are copied over and the
+-- old table dropped. Legacy statewide rows (radius_km IS NULL) have no location to map to
+-- and are discarded; tables created before the radius search have no radius_km column at
+-- all, so it is added first and all of their rows count as statewide.
+CREATE TABLE "location_species" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"location_id" varchar NOT NULL,
+	"species_key" integer NOT NULL,
+	"occurrence_count" integer DEFAULT 0 NOT NULL,
+	"native_percent" real,
+	"introduced_percent" real
+);
+--> statement-breakpoint
+CREATE TABLE "locations" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"city" text NOT NULL,
+	"state" text NOT NULL,
+	"radius_km" integer NOT NULL,
+	"lat" double precision,
+	"lon" double precision,
+	"place_id" text
+);
+--> statement-breakpoint
+CREATE TABLE "species" (
+	"species_key" integer PRIMARY KEY NOT NULL,
+	"common_name" text NOT NULL,
+	"scientific_name" text NOT NULL,
+	"family" text,
+	"genus" text,
+	"image_url" text,
+	"habitat_description" text NOT NULL,
+	"max_height" integer,
+	"max_age" integer
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "location_species" ADD CONSTRAINT "location_species_location_id_locations_id_fk" FOREIGN KEY ("location_id") REFERENCES "public"."locations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "location_species" ADD CONSTRAINT "location_species_species_key_species_species_key_fk" FOREIGN KEY ("species_key") REFERENCES "public"."species"("species_key") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+DO $$
+BEGIN
+	IF to_regclass('public.tree_species') IS NOT NULL THEN
+		ALTER TABLE "tree_species" ADD COLUMN IF NOT EXISTS "radius_km" integer;
+
+		INSERT INTO "species" ("species_key", "common_name", "scientific_name", "image_url", "habitat_description", "max_height", "max_age")
+		SELECT DISTINCT ON ("external_id"::integer)
+			"external_id"::integer, "common_name", "scientific_name", "image_url", "habitat_description", "max_height", "max_age"
+		FROM "tree_species"
+		WHERE "external_id" ~ '^[0-9]+$'
+		ORDER BY "external_id"::integer, "id"
+		ON CONFLICT ("species_key") DO NOTHING;
+
+		INSERT INTO "locations" ("city", "state", "radius_km")
+		SELECT DISTINCT "city", "state", "radius_km"
+		FROM "tree_species"
+		WHERE "radius_km" IS NOT NULL;
+
+		INSERT INTO "location_species" ("location_id", "species_key")
+		SELECT DISTINCT l."id", t."external_id"::integer
+		FROM "tree_species" t
+		JOIN "locations" l ON l."city" = t."city" AND l."state" = t."state" AND l."radius_km" = t."radius_km"
+		WHERE t."external_id" ~ '^[0-9]+$';
+
+		DROP TABLE "tree_species";
+	END IF;
+END $$;
@@ -0,0 +1,2 @@
+ALTER TABLE "locations" ADD COLUMN "fetched_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "locations" ADD COLUMN "pipeline_version" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
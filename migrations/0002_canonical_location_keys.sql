@@ -0,0 +1,19 @@
+-- Adds a canonical location_key (upper-case state plus normalized city name, mirroring
+-- locationKey() in server/gazetteer.ts) and backfills it for existing rows. Rows that
+-- collapse onto the same key and radius ("Portland", "portland", "Portland ") are merged
+-- by keeping the most recently fetched one.
+ALTER TABLE "locations" ADD COLUMN "location_key" text;--> statement-breakpoint
+UPDATE "locations" SET
+	"state" = upper(trim("state")),
+	"location_key" = upper(trim("state")) || ':' ||
+		regexp_replace(regexp_replace(regexp_replace(
+			trim(regexp_replace(regexp_replace(lower("city"), '[.''’]', '', 'g'), '[^a-z0-9]+', ' ', 'g')),
+			'^saint\M', 'st'), '^mount\M', 'mt'), '^fort\M', 'ft');--> statement-breakpoint
+DELETE FROM "locations" l
+USING "locations" newer
+WHERE l."location_key" = newer."location_key"
+	AND l."radius_km" = newer."radius_km"
+	AND (l."fetched_at", l."id") < (newer."fetched_at", newer."id");--> statement-breakpoint
+ALTER TABLE "locations" ALTER COLUMN "location_key" SET NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "locations_location_key_radius_idx" ON "locations" USING btree ("location_key","radius_km");--> statement-breakpoint
+CREATE INDEX "locations_place_id_radius_idx" ON "locations" USING btree ("place_id","radius_km");
@@ -0,0 +1,7 @@
+-- Removes duplicate (location, species) rows left by concurrent searches before enforcing uniqueness
+DELETE FROM "location_species" a
+USING "location_species" b
+WHERE a."location_id" = b."location_id"
+	AND a."species_key" = b."species_key"
+	AND a."id" > b."id";--> statement-breakpoint
+CREATE UNIQUE INDEX "location_species_location_species_idx" ON "location_species" USING btree ("location_id","species_key");
@@ -0,0 +1,7 @@
+CREATE TABLE "http_responses" (
+	"url" text PRIMARY KEY NOT NULL,
+	"body" jsonb NOT NULL,
+	"etag" text,
+	"last_modified" text,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
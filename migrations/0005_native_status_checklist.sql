@@ -0,0 +1,9 @@
+CREATE TABLE "native_statuses" (
+	"scientific_name" text NOT NULL,
+	"state" text NOT NULL,
+	"status" text NOT NULL,
+	"source" text NOT NULL,
+	CONSTRAINT "native_statuses_scientific_name_state_pk" PRIMARY KEY("scientific_name","state")
+);
+--> statement-breakpoint
+ALTER TABLE "location_species" ADD COLUMN "native_source" text;
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "growth_forms" (
+	"scientific_name" text PRIMARY KEY NOT NULL,
+	"growth_form" text NOT NULL,
+	"source" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "location_species" ADD COLUMN "growth_form" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "location_species" DROP CONSTRAINT "location_species_species_key_species_species_key_fk";
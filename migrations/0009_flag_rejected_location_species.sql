@@ -0,0 +1 @@
+ALTER TABLE "location_species" ADD COLUMN "rejected" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,8 @@
+-- species rows are shared by every location, so they keep only GBIF's description. Clear the
+-- stand-in text earlier versions stored, which named the first city the species was found in;
+-- it is now built per response. Descriptions cut to 300 characters are refreshed the next time
+-- the species' details are fetched.
+ALTER TABLE "species" ALTER COLUMN "habitat_description" DROP NOT NULL;--> statement-breakpoint
+UPDATE "species" SET "habitat_description" = NULL
+WHERE "habitat_description" LIKE 'Native tree species found in the % region. %'
+	OR "habitat_description" LIKE 'Non-native tree species recorded in the % region and listed on the state''s invasive species registry.';
@@ -0,0 +1,123 @@
+import fs from "fs";
+import { US_COUNTIES_TSV, type CountyRow } from "./data/us-counties";
+import { US_COUNTY_OUTLINES_TSV, type CountyOutlineRow } from "./data/us-county-outlines";
+import { US_ZIPS_TSV, type ZipRow } from "./data/us-zips";
+
+export interface CountyArea {
+  fips: string;
+  name: string; // e.g. "Buncombe County"
+  state: string;
+  lat: number; // centroid
+  lon: number;
+  landAreaKm2: number;
+  outline: string | null; // WKT boundary for GBIF geometry queries; null for counties without a bundled outline
+}
+
+export interface ZipArea {
+  zip: string;
+  state: string;
+  countyFips: string;
+  lat: number; // centroid
+  lon: number;
+}
+
+// Helper function to reduce a county name to what GBIF occurrence county fields share with it:
+// "Buncombe County", "Buncombe Co." and "buncombe" all normalize to "buncombe"
+export function normalizeCountyName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[.'’]/g, "")
+    .replace(/\b(county|co|parish|borough|census area|city and borough|municipality)\b/g, " ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/^saint\b/, "st");
+}
+
+// ZIP code and county lookups for ZIP and county searches, backed by local centroid datasets
+export class AreaGazetteer {
+  private readonly zips = new Map<string, ZipArea>();
+  private readonly counties = new Map<string, CountyArea>();
+
+  constructor(zipRows: ZipRow[], countyRows: CountyRow[], outlineRows: CountyOutlineRow[] = []) {
+    for (const [zip, state, countyFips, lat, lon] of zipRows) {
+      this.zips.set(zip, { zip, state, countyFips, lat, lon });
+    }
+
+    const outlines = new Map(outlineRows);
+    for (const [state, fips, name, lat, lon, landAreaKm2] of countyRows) {
+      this.counties.set(fips, { fips, name, state, lat, lon, landAreaKm2, outline: outlines.get(fips) ?? null });
+    }
+  }
+
+  zip(code: string): ZipArea | null {
+    return this.zips.get(code) ?? null;
+  }
+
+  county(fips: string): CountyArea | null {
+    return this.counties.get(fips) ?? null;
+  }
+
+  // Counties of a state in name order, for the search form's county picker
+  countiesInState(state: string): CountyArea[] {
+    const code = state.toUpperCase();
+    return Array.from(this.counties.values())
+      .filter(county => county.state === code)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+// Helper function to split a tab-separated table (header row, same column order as the bundled tables)
+function tsvRows(text: string): string[][] {
+  return text
+    .split(/\r?\n/)
+    .slice(1)
+    .filter(line => line.trim())
+    .map(line => line.split("\t").map(value => value.trim()));
+}
+
+function parseZipRows(text: string): ZipRow[] {
+  return tsvRows(text).map(([zip, state, countyFips, lat, lon]) =>
+    [zip.padStart(5, "0"), state, countyFips.padStart(5, "0"), parseFloat(lat), parseFloat(lon)]);
+}
+
+function parseCountyRows(text: string): CountyRow[] {
+  return tsvRows(text).map(([state, fips, name, lat, lon, landAreaKm2]) =>
+    [state, fips.padStart(5, "0"), name, parseFloat(lat), parseFloat(lon), parseFloat(landAreaKm2) || 0]);
+}
+
+function loadZipRows(): ZipRow[] {
+  const filePath = process.env.ZIP_GAZETTEER_PATH;
+  if (!filePath) return parseZipRows(US_ZIPS_TSV);
+
+  try {
+    const rows = parseZipRows(fs.readFileSync(filePath, "utf-8"));
+    console.log(`Loaded ${rows.length} ZIP codes from ${filePath}`);
+    return rows;
+  } catch (error) {
+    console.error(`Failed to load ZIP gazetteer from ${filePath}, using bundled ZIP codes:`, error);
+    return parseZipRows(US_ZIPS_TSV);
+  }
+}
+
+function loadCountyRows(): CountyRow[] {
+  const filePath = process.env.COUNTY_GAZETTEER_PATH;
+  if (!filePath) return parseCountyRows(US_COUNTIES_TSV);
+
+  try {
+    const rows = parseCountyRows(fs.readFileSync(filePath, "utf-8"));
+    console.log(`Loaded ${rows.length} counties from ${filePath}`);
+    return rows;
+  } catch (error) {
+    console.error(`Failed to load county gazetteer from ${filePath}, using bundled counties:`, error);
+    return parseCountyRows(US_COUNTIES_TSV);
+  }
+}
+
+function parseOutlineRows(text: string): CountyOutlineRow[] {
+  return tsvRows(text).map(([fips, wkt]) => [fips.padStart(5, "0"), wkt]);
+}
+
+// Outlines are always the bundled ones, matched by FIPS code to whichever counties are loaded
+export const areaGazetteer = new AreaGazetteer(loadZipRows(), loadCountyRows(), parseOutlineRows(US_COUNTY_OUTLINES_TSV));
@@ -0,0 +1,3242 @@
+// Offline county gazetteer: every county and county equivalent in the Census cartographic
+// boundary files. Each row is
+//   state, county FIPS, county name, latitude, longitude, area in km²
+// where the point is the centroid of the county boundary.
+// A full Census county gazetteer export in the same column order (tab-separated, with a
+// header row) can be loaded instead by setting COUNTY_GAZETTEER_PATH.
+// Generated by `npm run import:gazetteers`; do not edit by hand.
+export type CountyRow = [string, string, string, number, number, number];
+
+export const US_COUNTIES_TSV = `state	fips	name	lat	lon	land_area_km2
+AL	01001	Autauga County	32.5359	-86.6417	1555
+AL	01003	Baldwin County	30.7265	-87.7232	4377
+AL	01005	Barbour County	31.8695	-85.3925	2355
+AL	01007	Bibb County	32.9976	-87.1284	1614
+AL	01009	Blount County	33.9814	-86.5662	1677
+AL	01011	Bullock County	32.1007	-85.7159	1625
+AL	01013	Butler County	31.7526	-86.6808	2016
+AL	01015	Calhoun County	33.7711	-85.826	1589
+AL	01017	Chambers County	32.9133	-85.3921	1559
+AL	01019	Cherokee County	34.1754	-85.6041	1543
+AL	01021	Chilton County	32.8488	-86.7192	1821
+AL	01023	Choctaw County	32.0198	-88.2636	2395
+AL	01025	Clarke County	31.6771	-87.8317	3249
+AL	01027	Clay County	33.2703	-85.8605	1570
+AL	01029	Cleburne County	33.6754	-85.5181	1459
+AL	01031	Coffee County	31.4021	-85.9879	1762
+AL	01033	Colbert County	34.7011	-87.8041	1615
+AL	01035	Conecuh County	31.4293	-86.9938	2205
+AL	01037	Coosa County	32.9363	-86.2483	1728
+AL	01039	Covington County	31.2479	-86.4515	2715
+AL	01041	Crenshaw County	31.7306	-86.3137	1587
+AL	01043	Cullman County	34.1321	-86.8673	1959
+AL	01045	Dale County	31.4325	-85.611	1455
+AL	01047	Dallas County	32.3268	-87.1055	2583
+AL	01049	DeKalb County	34.4611	-85.803	2027
+AL	01051	Elmore County	32.5973	-86.1501	1690
+AL	01053	Escambia County	31.1264	-87.1627	2468
+AL	01055	Etowah County	34.0441	-86.0351	1426
+AL	01057	Fayette County	33.7216	-87.7385	1635
+AL	01059	Franklin County	34.4422	-87.8437	1676
+AL	01061	Geneva County	31.0955	-85.8376	1497
+AL	01063	Greene County	32.8524	-87.9522	1702
+AL	01065	Hale County	32.7616	-87.6298	1705
+AL	01067	Henry County	31.5148	-85.2415	1473
+AL	01069	Houston County	31.1529	-85.3031	1507
+AL	01071	Jackson County	34.7794	-86.0004	2915
+AL	01073	Jefferson County	33.5546	-86.8958	2896
+AL	01075	Lamar County	33.7796	-88.0969	1572
+AL	01077	Lauderdale County	34.9016	-87.6546	1868
+AL	01079	Lawrence County	34.5212	-87.3109	1849
+AL	01081	Lee County	32.6008	-85.355	1590
+AL	01083	Limestone County	34.8111	-86.9816	1568
+AL	01085	Lowndes County	32.1558	-86.6498	1884
+AL	01087	Macon County	32.386	-85.694	1596
+AL	01089	Madison County	34.7637	-86.5507	2103
+AL	01091	Marengo County	32.2477	-87.7881	2540
+AL	01093	Marion County	34.1368	-87.8873	1928
+AL	01095	Marshall County	34.3664	-86.3066	1628
+AL	01097	Mobile County	30.7803	-88.2077	3316
+AL	01099	Monroe County	31.5705	-87.3662	2686
+AL	01101	Montgomery County	32.2199	-86.2077	2070
+AL	01103	Morgan County	34.4544	-86.8534	1549
+AL	01105	Perry County	32.6391	-87.2944	1865
+AL	01107	Pickens County	33.2795	-88.0896	2313
+AL	01109	Pike County	31.8023	-85.9413	1743
+AL	01111	Randolph County	33.293	-85.4596	1511
+AL	01113	Russell County	32.2882	-85.1851	1678
+AL	01115	St. Clair County	33.7146	-86.3159	1692
+AL	01117	Shelby County	33.264	-86.6628	2106
+AL	01119	Sumter County	32.5906	-88.1981	2360
+AL	01121	Talladega County	33.3793	-86.1668	1960
+AL	01123	Tallapoosa County	32.8625	-85.7978	2001
+AL	01125	Tuscaloosa County	33.2896	-87.5253	3512
+AL	01127	Walker County	33.8025	-87.2957	2088
+AL	01129	Washington County	31.4075	-88.2086	2813
+AL	01131	Wilcox County	31.9896	-87.3075	2356
+AL	01133	Winston County	34.1494	-87.3725	1648
+AK	02013	Aleutians East Borough	55.3674	-162.0044	19022
+AK	02016	Aleutians West Census Area	52.9511	-173.6442	12155
+AK	02020	Anchorage Municipality	61.15	-149.1091	4458
+AK	02050	Bethel Census Area	60.9398	-159.917	109374
+AK	02060	Bristol Bay Borough	58.7446	-156.6979	1315
+AK	02068	Denali Borough	63.6756	-150.0344	32578
+AK	02070	Dillingham Census Area	59.7925	-158.2545	48950
+AK	02090	Fairbanks North Star Borough	64.8102	-146.563	19144
+AK	02100	Haines Borough	59.1094	-135.4835	6381
+AK	02105	Hoonah-Angoon Census Area	58.2846	-135.6125	18053
+AK	02110	Juneau City and Borough	58.4377	-134.148	7179
+AK	02122	Kenai Peninsula Borough	60.257	-151.5674	42714
+AK	02130	Ketchikan Gateway Borough	55.5846	-130.9333	13528
+AK	02150	Kodiak Island Borough	57.6752	-153.7811	18441
+AK	02158	Kusilvak County	62.1539	-163.3982	46660
+AK	02164	Lake and Peninsula Borough	58.6032	-156.2941	68502
+AK	02170	Matanuska-Susitna Borough	62.3179	-149.5925	64352
+AK	02180	Nome Census Area	64.9128	-164.0251	61197
+AK	02185	North Slope Borough	69.401	-153.4753	232295
+AK	02188	Northwest Arctic Borough	67.0511	-159.7436	94708
+AK	02195	Petersburg Census Area	57.1186	-132.9338	7914
+AK	02198	Prince of Wales-Hyder Census Area	55.8095	-133.0414	15857
+AK	02220	Sitka City and Borough	57.2297	-135.3098	8550
+AK	02230	Skagway Municipality	59.5608	-135.3346	1166
+AK	02240	Southeast Fairbanks Census Area	63.8652	-143.2131	64581
+AK	02261	Valdez-Cordova Census Area	61.5435	-144.5092	91600
+AK	02275	Wrangell City and Borough	56.3255	-132.0284	7154
+AK	02282	Yakutat City and Borough	59.8953	-140.3218	20607
+AK	02290	Yukon-Koyukuk Census Area	65.499	-151.8506	380416
+AZ	04001	Apache County	35.3834	-109.4878	29062
+AZ	04003	Cochise County	31.8784	-109.7511	16109
+AZ	04005	Coconino County	35.8355	-111.7687	48372
+AZ	04007	Gila County	33.8	-110.8106	12434
+AZ	04009	Graham County	32.931	-109.8871	12033
+AZ	04011	Greenlee County	33.215	-109.2412	4779
+AZ	04012	La Paz County	33.7283	-113.9828	11690
+AZ	04013	Maricopa County	33.3481	-112.4935	23886
+AZ	04015	Mohave County	35.6985	-113.7623	34867
+AZ	04017	Navajo County	35.3908	-110.3198	25778
+AZ	04019	Pima County	32.0992	-111.7894	23841
+AZ	04021	Pinal County	32.9048	-111.344	13925
+AZ	04023	Santa Cruz County	31.5258	-110.8465	3208
+AZ	04025	Yavapai County	34.5988	-112.553	21061
+AZ	04027	Yuma County	32.7689	-113.9066	14314
+AR	05001	Arkansas County	34.291	-91.3744	2689
+AR	05003	Ashley County	33.1915	-91.7699	2455
+AR	05005	Baxter County	36.2868	-92.337	1532
+AR	05007	Benton County	36.3389	-94.2541	2305
+AR	05009	Boone County	36.3084	-93.0908	1559
+AR	05011	Bradley County	33.4669	-92.1629	1703
+AR	05013	Calhoun County	33.5582	-92.5041	1641
+AR	05015	Carroll County	36.3408	-93.5362	1648
+AR	05017	Chicot County	33.267	-91.2958	1775
+AR	05019	Clark County	34.0512	-93.1757	2301
+AR	05021	Clay County	36.3686	-90.4166	1664
+AR	05023	Cleburne County	35.5381	-92.0265	1534
+AR	05025	Cleveland County	33.8988	-92.1858	1548
+AR	05027	Columbia County	33.2139	-93.2272	1978
+AR	05029	Conway County	35.2614	-92.7006	1467
+AR	05031	Craighead County	35.8312	-90.6329	1839
+AR	05033	Crawford County	35.5883	-94.2441	1552
+AR	05035	Crittenden County	35.2076	-90.3098	1651
+AR	05037	Cross County	35.2961	-90.7719	1608
+AR	05039	Dallas County	33.9701	-92.654	1727
+AR	05041	Desha County	33.8333	-91.2557	2105
+AR	05043	Drew County	33.5902	-91.7187	2156
+AR	05045	Faulkner County	35.1486	-92.3315	1710
+AR	05047	Franklin County	35.5142	-93.8915	1595
+AR	05049	Fulton County	36.382	-91.8176	1609
+AR	05051	Garland County	34.5767	-93.1503	1910
+AR	05053	Grant County	34.29	-92.4242	1639
+AR	05055	Greene County	36.1181	-90.5586	1495
+AR	05057	Hempstead County	33.7348	-93.6685	1919
+AR	05059	Hot Spring County	34.3182	-92.9458	1597
+AR	05061	Howard County	34.0881	-93.9925	1547
+AR	05063	Independence County	35.7419	-91.5698	2005
+AR	05065	Izard County	36.0949	-91.9122	1519
+AR	05067	Jackson County	35.598	-91.2155	1657
+AR	05069	Jefferson County	34.2692	-91.9324	2365
+AR	05071	Johnson County	35.5696	-93.4605	1774
+AR	05073	Lafayette County	33.2413	-93.6072	1426
+AR	05075	Lawrence County	36.0407	-91.106	1548
+AR	05077	Lee County	34.7809	-90.7815	1601
+AR	05079	Lincoln County	33.9571	-91.7341	1487
+AR	05081	Little River County	33.7004	-94.2337	1456
+AR	05083	Logan County	35.2158	-93.7169	1898
+AR	05085	Lonoke County	34.7541	-91.8896	2081
+AR	05087	Madison County	36.0107	-93.7239	2165
+AR	05089	Marion County	36.2686	-92.6843	1650
+AR	05091	Miller County	33.3122	-93.8922	1635
+AR	05093	Mississippi County	35.763	-90.0546	2389
+AR	05095	Monroe County	34.6778	-91.2026	1596
+AR	05097	Montgomery County	34.5387	-93.6593	2071
+AR	05099	Nevada County	33.6636	-93.307	1610
+AR	05101	Newton County	35.9198	-93.2175	2133
+AR	05103	Ouachita County	33.5936	-92.8832	1909
+AR	05105	Perry County	34.9463	-92.9289	1435
+AR	05107	Phillips County	34.4285	-90.8496	1884
+AR	05109	Pike County	34.1635	-93.6559	1583
+AR	05111	Poinsett County	35.5745	-90.6633	1984
+AR	05113	Polk County	34.4862	-94.2271	2240
+AR	05115	Pope County	35.4479	-93.0339	2152
+AR	05117	Prairie County	34.8299	-91.5521	1764
+AR	05119	Pulaski County	34.7702	-92.3128	2101
+AR	05121	Randolph County	36.3419	-91.027	1695
+AR	05123	St. Francis County	35.0222	-90.7481	1662
+AR	05125	Saline County	34.6461	-92.6763	1881
+AR	05127	Scott County	34.8611	-94.0635	2322
+AR	05129	Searcy County	35.9111	-92.6994	1730
+AR	05131	Sebastian County	35.2002	-94.2729	1424
+AR	05133	Sevier County	33.9967	-94.2405	1506
+AR	05135	Sharp County	36.1616	-91.4791	1562
+AR	05137	Stone County	35.8597	-92.1579	1569
+AR	05139	Union County	33.1718	-92.5996	2725
+AR	05141	Van Buren County	35.5808	-92.5159	1877
+AR	05143	Washington County	35.978	-94.216	2465
+AR	05145	White County	35.2564	-91.7467	2689
+AR	05147	Woodruff County	35.1854	-91.2435	1544
+AR	05149	Yell County	35.0024	-93.4092	2478
+CA	06001	Alameda County	37.6458	-121.888	1950
+CA	06003	Alpine County	38.5957	-119.8206	1923
+CA	06005	Amador County	38.4479	-120.6487	1566
+CA	06007	Butte County	39.6657	-121.6019	4346
+CA	06009	Calaveras County	38.2044	-120.5561	2692
+CA	06011	Colusa County	39.1768	-122.2356	2992
+CA	06013	Contra Costa County	37.9197	-121.929	1978
+CA	06015	Del Norte County	41.7429	-123.8968	2647
+CA	06017	El Dorado County	38.779	-120.5249	4611
+CA	06019	Fresno County	36.7584	-119.6545	15556
+CA	06021	Glenn County	39.598	-122.3909	3414
+CA	06023	Humboldt County	40.6976	-123.8766	9349
+CA	06025	Imperial County	33.0403	-115.3662	11606
+CA	06027	Inyo County	36.5112	-117.4071	26483
+CA	06029	Kern County	35.3435	-118.7282	21143
+CA	06031	Kings County	36.075	-119.8159	3602
+CA	06033	Lake County	39.1005	-122.7538	3461
+CA	06035	Lassen County	40.6721	-120.5931	12239
+CA	06037	Los Angeles County	34.3203	-118.2251	10625
+CA	06039	Madera County	37.2182	-119.7642	5583
+CA	06041	Marin County	38.075	-122.724	1409
+CA	06043	Mariposa County	37.5822	-119.9048	3778
+CA	06045	Mendocino County	39.4396	-123.3924	9083
+CA	06047	Merced County	37.1921	-120.7181	5120
+CA	06049	Modoc County	41.5898	-120.7253	10869
+CA	06051	Mono County	37.9393	-118.8845	8100
+CA	06053	Monterey County	36.2176	-121.2376	8583
+CA	06055	Napa County	38.5064	-122.3312	2044
+CA	06057	Nevada County	39.3016	-120.7708	2535
+CA	06059	Orange County	33.703	-117.7611	2074
+CA	06061	Placer County	39.0635	-120.7192	3893
+CA	06063	Plumas County	40.004	-120.8377	6753
+CA	06065	Riverside County	33.7466	-115.9952	18923
+CA	06067	Sacramento County	38.45	-121.3439	2572
+CA	06069	San Benito County	36.606	-121.0737	3600
+CA	06071	San Bernardino County	34.8421	-116.1763	52088
+CA	06073	San Diego County	33.034	-116.7353	11035
+CA	06075	San Francisco County	37.7546	-122.44	122
+CA	06077	San Joaquin County	37.935	-121.2717	3702
+CA	06079	San Luis Obispo County	35.3876	-120.4037	8614
+CA	06081	San Mateo County	37.4243	-122.3307	1201
+CA	06083	Santa Barbara County	34.6738	-120.0165	7126
+CA	06085	Santa Clara County	37.2325	-121.6967	3367
+CA	06087	Santa Cruz County	37.0566	-122.0012	1157
+CA	06089	Shasta County	40.764	-122.041	9945
+CA	06091	Sierra County	39.5808	-120.5177	2487
+CA	06093	Siskiyou County	41.5932	-122.5396	16393
+CA	06095	Solano County	38.2705	-121.9332	2311
+CA	06097	Sonoma County	38.5284	-122.8874	4125
+CA	06099	Stanislaus County	37.5582	-120.9985	3919
+CA	06101	Sutter County	39.0331	-121.6938	1581
+CA	06103	Tehama County	40.1258	-122.2354	7685
+CA	06105	Trinity County	40.6487	-123.115	8297
+CA	06107	Tulare County	36.2199	-118.801	12530
+CA	06109	Tuolumne County	38.0276	-119.9553	5882
+CA	06111	Ventura County	34.4548	-119.0853	4827
+CA	06113	Yolo County	38.6874	-121.9031	2627
+CA	06115	Yuba County	39.2679	-121.3524	1648
+CO	08001	Adams County	39.8739	-104.3385	3072
+CO	08003	Alamosa County	37.5724	-105.7886	1869
+CO	08005	Arapahoe County	39.6507	-104.3388	2067
+CO	08007	Archuleta County	37.1939	-107.0494	3511
+CO	08009	Baca County	37.3193	-102.5603	6618
+CO	08011	Bent County	37.9549	-103.0719	3981
+CO	08013	Boulder County	40.093	-105.3599	1911
+CO	08014	Broomfield County	39.96	-105.0464	100
+CO	08015	Chaffee County	38.7471	-106.1944	2620
+CO	08017	Cheyenne County	38.8284	-102.6035	4588
+CO	08019	Clear Creek County	39.6895	-105.6438	1024
+CO	08021	Conejos County	37.2006	-106.1909	3345
+CO	08023	Costilla County	37.278	-105.4277	3182
+CO	08025	Crowley County	38.3268	-103.7836	2077
+CO	08027	Custer County	38.1092	-105.3676	1915
+CO	08029	Delta County	38.8613	-107.8631	2953
+CO	08031	Denver County	39.7602	-104.8771	392
+CO	08033	Dolores County	37.7526	-108.5174	2751
+CO	08035	Douglas County	39.3296	-104.9281	2171
+CO	08037	Eagle County	39.6276	-106.6943	4381
+CO	08039	Elbert County	39.2871	-104.1369	4787
+CO	08041	El Paso County	38.8321	-104.526	5511
+CO	08043	Fremont County	38.4737	-105.44	3967
+CO	08045	Garfield County	39.6009	-107.9051	7648
+CO	08047	Gilpin County	39.8578	-105.5215	387
+CO	08049	Grand County	40.1024	-106.1186	4838
+CO	08051	Gunnison County	38.6674	-107.0319	8444
+CO	08053	Hinsdale County	37.8199	-107.301	2901
+CO	08055	Huerfano County	37.6849	-104.9598	4131
+CO	08057	Jackson County	40.6664	-106.3428	4190
+CO	08059	Jefferson County	39.5848	-105.2501	2016
+CO	08061	Kiowa County	38.4337	-102.7407	4634
+CO	08063	Kit Carson County	39.3055	-102.602	5603
+CO	08065	Lake County	39.2012	-106.3448	979
+CO	08067	La Plata County	37.2866	-107.8443	4396
+CO	08069	Larimer County	40.6665	-105.461	6816
+CO	08071	Las Animas County	37.3166	-104.0386	12351
+CO	08073	Lincoln County	38.9881	-103.5147	6708
+CO	08075	Logan County	40.7247	-103.1103	4778
+CO	08077	Mesa County	39.0187	-108.4672	8652
+CO	08079	Mineral County	37.67	-106.9251	2278
+CO	08081	Moffat County	40.6194	-108.2088	12273
+CO	08083	Montezuma County	37.3387	-108.5972	5284
+CO	08085	Montrose County	38.4035	-108.2696	5799
+CO	08087	Morgan County	40.2627	-103.8095	3350
+CO	08089	Otero County	37.9022	-103.7168	3286
+CO	08091	Ouray County	38.1544	-107.7676	1413
+CO	08093	Park County	39.1186	-105.717	5715
+CO	08095	Phillips County	40.5945	-102.3579	1774
+CO	08097	Pitkin County	39.2188	-106.9172	2525
+CO	08099	Prowers County	37.9549	-102.3937	4259
+CO	08101	Pueblo County	38.1734	-104.5125	6212
+CO	08103	Rio Blanco County	39.9813	-108.2184	8355
+CO	08105	Rio Grande County	37.5823	-106.383	2371
+CO	08107	Routt County	40.4841	-106.9913	6130
+CO	08109	Saguache County	38.081	-106.2806	8218
+CO	08111	San Juan County	37.7643	-107.6776	1004
+CO	08113	San Miguel County	38.0047	-108.4061	3341
+CO	08115	Sedgwick County	40.8762	-102.3527	1418
+CO	08117	Summit County	39.6329	-106.1149	1607
+CO	08119	Teller County	38.8817	-105.1621	1448
+CO	08121	Washington County	39.9707	-103.2015	6531
+CO	08123	Weld County	40.554	-104.3941	10384
+CO	08125	Yuma County	40.0023	-102.4246	6119
+CT	09001	Fairfield County	41.269	-73.3894	1691
+CT	09003	Hartford County	41.8064	-72.7333	1947
+CT	09005	Litchfield County	41.792	-73.2464	2443
+CT	09007	Middlesex County	41.4633	-72.5335	996
+CT	09009	New Haven County	41.411	-72.9315	1599
+CT	09011	New London County	41.4877	-72.1025	1801
+CT	09013	Tolland County	41.8551	-72.336	1077
+CT	09015	Windham County	41.8305	-71.9871	1345
+DE	10001	Kent County	39.087	-75.5678	1549
+DE	10003	New Castle County	39.5796	-75.6495	1167
+DE	10005	Sussex County	38.6611	-75.3897	2523
+DC	11001	District of Columbia	38.9034	-77.0154	174
+FL	12001	Alachua County	29.6753	-82.3582	2507
+FL	12003	Baker County	30.3311	-82.2846	1540
+FL	12005	Bay County	30.2647	-85.6204	2292
+FL	12007	Bradford County	29.9499	-82.1687	783
+FL	12009	Brevard County	28.2931	-80.7317	3359
+FL	12011	Broward County	26.1521	-80.4872	3167
+FL	12013	Calhoun County	30.4062	-85.1965	1498
+FL	12015	Charlotte County	26.9064	-81.9111	1933
+FL	12017	Citrus County	28.8487	-82.4784	1711
+FL	12019	Clay County	29.9838	-81.8577	1674
+FL	12021	Collier County	26.1108	-81.3474	5474
+FL	12023	Columbia County	30.2244	-82.622	2067
+FL	12027	DeSoto County	27.1869	-81.8099	1656
+FL	12029	Dixie County	29.6088	-83.1579	1867
+FL	12031	Duval County	30.3328	-81.6702	2200
+FL	12033	Escambia County	30.6699	-87.3633	1930
+FL	12035	Flagler County	29.4614	-81.3126	1312
+FL	12037	Franklin County	29.8619	-84.8216	1622
+FL	12039	Gadsden County	30.5795	-84.6122	1378
+FL	12041	Gilchrist County	29.7265	-82.7991	922
+FL	12043	Glades County	26.9563	-81.1899	2549
+FL	12045	Gulf County	29.9504	-85.2298	1518
+FL	12047	Hamilton County	30.4957	-82.9461	1345
+FL	12049	Hardee County	27.4932	-81.8094	1656
+FL	12051	Hendry County	26.5535	-81.1652	3086
+FL	12053	Hernando County	28.5539	-82.4257	1292
+FL	12055	Highlands County	27.3427	-81.3412	2864
+FL	12057	Hillsborough County	27.9292	-82.3083	2804
+FL	12059	Holmes County	30.8675	-85.8155	1262
+FL	12061	Indian River County	27.6946	-80.6059	1405
+FL	12063	Jackson County	30.7956	-85.2172	2462
+FL	12065	Jefferson County	30.4366	-83.8952	1590
+FL	12067	Lafayette County	29.9846	-83.1796	1421
+FL	12069	Lake County	28.7611	-81.7114	2977
+FL	12071	Lee County	26.5777	-81.8392	2347
+FL	12073	Leon County	30.4574	-84.2777	1817
+FL	12075	Levy County	29.3195	-82.7421	2992
+FL	12077	Liberty County	30.2417	-84.883	2175
+FL	12079	Madison County	30.4444	-83.4688	1858
+FL	12081	Manatee County	27.4723	-82.3163	2063
+FL	12083	Marion County	29.2105	-82.0553	4329
+FL	12085	Martin County	27.0777	-80.4318	1764
+FL	12086	Miami-Dade County	25.6145	-80.5588	5275
+FL	12087	Monroe County	25.2751	-81.1172	3896
+FL	12089	Nassau County	30.6109	-81.8015	1728
+FL	12091	Okaloosa County	30.6908	-86.5916	2567
+FL	12093	Okeechobee County	27.3864	-80.8894	2321
+FL	12095	Orange County	28.514	-81.3231	2611
+FL	12097	Osceola County	28.0631	-81.1495	3904
+FL	12099	Palm Beach County	26.6474	-80.4657	5776
+FL	12101	Pasco County	28.3085	-82.3963	2006
+FL	12103	Pinellas County	27.9291	-82.7317	909
+FL	12105	Polk County	27.9487	-81.6971	5217
+FL	12107	Putnam County	29.6093	-81.7434	2142
+FL	12109	St. Johns County	29.9013	-81.4409	1750
+FL	12111	St. Lucie County	27.3777	-80.471	1595
+FL	12113	Santa Rosa County	30.6991	-87.0213	2999
+FL	12115	Sarasota County	27.1843	-82.331	1578
+FL	12117	Seminole County	28.7165	-81.2371	898
+FL	12119	Sumter County	28.7042	-82.0804	1510
+FL	12121	Suwannee County	30.1963	-82.9921	1788
+FL	12123	Taylor County	30.0471	-83.6027	2725
+FL	12125	Union County	30.0431	-82.3721	643
+FL	12127	Volusia County	29.0581	-81.1821	3282
+FL	12129	Wakulla County	30.1655	-84.3994	1653
+FL	12131	Walton County	30.6428	-86.1693	2996
+FL	12133	Washington County	30.6114	-85.6631	1592
+GA	13001	Appling County	31.7485	-82.2873	1319
+GA	13003	Atkinson County	31.2971	-82.8788	893
+GA	13005	Bacon County	31.5526	-82.4511	749
+GA	13007	Baker County	31.3247	-84.4443	909
+GA	13009	Baldwin County	33.0713	-83.252	684
+GA	13011	Banks County	34.3538	-83.4984	604
+GA	13013	Barrow County	33.9944	-83.7123	427
+GA	13015	Bartow County	34.2379	-84.8401	1221
+GA	13017	Ben Hill County	31.7597	-83.2208	660
+GA	13019	Berrien County	31.2763	-83.2288	1187
+GA	13021	Bibb County	32.8062	-83.6992	656
+GA	13023	Bleckley County	32.4347	-83.3282	568
+GA	13025	Brantley County	31.1972	-81.9807	1167
+GA	13027	Brooks County	30.8413	-83.5802	1294
+GA	13029	Bryan County	32.013	-81.442	1175
+GA	13031	Bulloch County	32.3958	-81.7424	1766
+GA	13033	Burke County	33.0607	-81.9996	2171
+GA	13035	Butts County	33.2871	-83.9565	492
+GA	13037	Calhoun County	31.5282	-84.6231	739
+GA	13039	Camden County	30.9296	-81.6706	1762
+GA	13043	Candler County	32.403	-82.0726	652
+GA	13045	Carroll County	33.5823	-85.0809	1297
+GA	13047	Catoosa County	34.904	-85.137	427
+GA	13049	Charlton County	30.7827	-82.1371	2031
+GA	13051	Chatham County	32.0041	-81.1324	1278
+GA	13053	Chattahoochee County	32.347	-84.7867	644
+GA	13055	Chattooga County	34.474	-85.3453	821
+GA	13057	Cherokee County	34.2436	-84.4751	1131
+GA	13059	Clarke County	33.951	-83.3653	314
+GA	13061	Clay County	31.6253	-84.9812	547
+GA	13063	Clayton County	33.5434	-84.3575	373
+GA	13065	Clinch County	30.9165	-82.7076	2134
+GA	13067	Cobb County	33.9416	-84.5766	889
+GA	13069	Coffee County	31.5499	-82.8493	1568
+GA	13071	Colquitt County	31.1891	-83.7687	1439
+GA	13073	Columbia County	33.5436	-82.264	791
+GA	13075	Cook County	31.1537	-83.4314	612
+GA	13077	Coweta County	33.3537	-84.7627	1165
+GA	13079	Crawford County	32.7142	-83.9865	840
+GA	13081	Crisp County	31.9229	-83.7673	727
+GA	13083	Dade County	34.8552	-85.5043	447
+GA	13085	Dawson County	34.4447	-84.1706	555
+GA	13087	Decatur County	30.8783	-84.5793	1618
+GA	13089	DeKalb County	33.7685	-84.2253	707
+GA	13091	Dodge County	32.173	-83.1676	1307
+GA	13093	Dooly County	32.1571	-83.7985	1028
+GA	13095	Dougherty County	31.5331	-84.2169	862
+GA	13097	Douglas County	33.7015	-84.7703	521
+GA	13099	Early County	31.3236	-84.9048	1335
+GA	13101	Echols County	30.7096	-82.8926	1093
+GA	13103	Effingham County	32.3669	-81.3421	1251
+GA	13105	Elbert County	34.1156	-82.8418	975
+GA	13107	Emanuel County	32.5883	-82.3	1770
+GA	13109	Evans County	32.1572	-81.8874	483
+GA	13111	Fannin County	34.8639	-84.3179	1015
+GA	13113	Fayette County	33.4118	-84.4925	514
+GA	13115	Floyd County	34.2628	-85.2147	1330
+GA	13117	Forsyth County	34.2259	-84.1228	641
+GA	13119	Franklin County	34.3752	-83.2299	692
+GA	13121	Fulton County	33.789	-84.4684	1389
+GA	13123	Gilmer County	34.691	-84.4568	1126
+GA	13125	Glascock County	33.2292	-82.6103	375
+GA	13127	Glynn County	31.2292	-81.5383	1228
+GA	13129	Gordon County	34.5043	-84.8759	935
+GA	13131	Grady County	30.8749	-84.2342	1191
+GA	13133	Greene County	33.5789	-83.1661	1047
+GA	13135	Gwinnett County	33.9615	-84.0246	1138
+GA	13137	Habersham County	34.6302	-83.5301	725
+GA	13139	Hall County	34.3182	-83.8199	1104
+GA	13141	Hancock County	33.2699	-83.0028	1231
+GA	13143	Haralson County	33.7943	-85.2115	733
+GA	13145	Harris County	32.7358	-84.9086	1232
+GA	13147	Hart County	34.3522	-82.9643	669
+GA	13149	Heard County	33.297	-85.1288	781
+GA	13151	Henry County	33.4523	-84.1533	844
+GA	13153	Houston County	32.4596	-83.6662	977
+GA	13155	Irwin County	31.6017	-83.2756	938
+GA	13157	Jackson County	34.1344	-83.5656	891
+GA	13159	Jasper County	33.3158	-83.6872	957
+GA	13161	Jeff Davis County	31.8053	-82.6362	875
+GA	13163	Jefferson County	33.0537	-82.4176	1371
+GA	13165	Jenkins County	32.7924	-81.963	917
+GA	13167	Johnson County	32.7008	-82.6574	809
+GA	13169	Jones County	33.0247	-83.5606	1026
+GA	13171	Lamar County	33.0768	-84.1387	475
+GA	13173	Lanier County	31.0383	-83.0639	510
+GA	13175	Laurens County	32.4633	-82.9216	2112
+GA	13177	Lee County	31.7794	-84.1404	937
+GA	13179	Liberty County	31.8281	-81.4948	1414
+GA	13181	Lincoln County	33.7942	-82.451	677
+GA	13183	Long County	31.7519	-81.7451	1045
+GA	13185	Lowndes County	30.8338	-83.2664	1323
+GA	13187	Lumpkin County	34.5726	-84.004	732
+GA	13189	McDuffie County	33.4838	-82.4803	688
+GA	13191	McIntosh County	31.4948	-81.408	1251
+GA	13193	Macon County	32.3567	-84.0412	1056
+GA	13195	Madison County	34.1281	-83.2086	741
+GA	13197	Marion County	32.3527	-84.5254	952
+GA	13199	Meriwether County	33.0415	-84.6895	1296
+GA	13201	Miller County	31.1654	-84.7311	740
+GA	13205	Mitchell County	31.2244	-84.1932	1327
+GA	13207	Monroe County	33.0137	-83.9193	1034
+GA	13209	Montgomery County	32.1737	-82.5351	642
+GA	13211	Morgan County	33.5903	-83.491	921
+GA	13213	Murray County	34.7902	-84.7477	894
+GA	13215	Muscogee County	32.51	-84.8749	574
+GA	13217	Newton County	33.5535	-83.8491	725
+GA	13219	Oconee County	33.8348	-83.4374	480
+GA	13221	Oglethorpe County	33.8794	-83.0824	1130
+GA	13223	Paulding County	33.9193	-84.8675	816
+GA	13225	Peach County	32.5688	-83.8276	394
+GA	13227	Pickens County	34.4634	-84.4656	596
+GA	13229	Pierce County	31.3576	-82.2118	879
+GA	13231	Pike County	33.0919	-84.3886	573
+GA	13233	Polk County	34.0025	-85.1868	815
+GA	13235	Pulaski County	32.2335	-83.476	653
+GA	13237	Putnam County	33.3225	-83.3742	927
+GA	13239	Quitman County	31.8664	-85.0167	414
+GA	13241	Rabun County	34.8819	-83.4022	971
+GA	13243	Randolph County	31.7616	-84.7555	1124
+GA	13245	Richmond County	33.3598	-82.077	842
+GA	13247	Rockdale County	33.6549	-84.0237	338
+GA	13249	Schley County	32.2616	-84.3154	441
+GA	13251	Screven County	32.7498	-81.6117	1705
+GA	13253	Seminole County	30.9381	-84.8705	676
+GA	13255	Spalding County	33.2608	-84.283	515
+GA	13257	Stephens County	34.5536	-83.2929	475
+GA	13259	Stewart County	32.0795	-84.8346	1204
+GA	13261	Sumter County	32.0391	-84.1962	1274
+GA	13263	Talbot County	32.6987	-84.534	1010
+GA	13265	Taliaferro County	33.5659	-82.8797	516
+GA	13267	Tattnall County	32.047	-82.0589	1260
+GA	13269	Taylor County	32.5561	-84.2507	993
+GA	13271	Telfair County	31.9302	-82.9393	1144
+GA	13273	Terrell County	31.7769	-84.4367	881
+GA	13275	Thomas County	30.8637	-83.9194	1433
+GA	13277	Tift County	31.4571	-83.5253	693
+GA	13279	Toombs County	32.1202	-82.3311	962
+GA	13281	Towns County	34.9166	-83.7392	453
+GA	13283	Treutlen County	32.404	-82.5674	524
+GA	13285	Troup County	33.0331	-85.0291	1159
+GA	13287	Turner County	31.7163	-83.6249	753
+GA	13289	Twiggs County	32.6684	-83.4273	950
+GA	13291	Union County	34.8329	-83.9904	846
+GA	13293	Upson County	32.8811	-84.3022	863
+GA	13295	Walker County	34.7352	-85.301	1160
+GA	13297	Walton County	33.7815	-83.733	861
+GA	13299	Ware County	31.0522	-82.4229	2355
+GA	13301	Warren County	33.4084	-82.6765	755
+GA	13303	Washington County	32.9703	-82.7964	1782
+GA	13305	Wayne County	31.5528	-81.9172	1677
+GA	13307	Webster County	32.045	-84.5511	540
+GA	13309	Wheeler County	32.1169	-82.7245	773
+GA	13311	White County	34.6459	-83.747	631
+GA	13313	Whitfield County	34.8053	-84.9668	746
+GA	13315	Wilcox County	31.973	-83.4316	996
+GA	13317	Wilkes County	33.7822	-82.7436	1220
+GA	13319	Wilkinson County	32.8034	-83.1708	1181
+GA	13321	Worth County	31.551	-83.851	1490
+HI	15001	Hawaii County	19.6012	-155.521	10452
+HI	15003	Honolulu County	21.4587	-157.9739	1595
+HI	15005	Kalawao County	21.1735	-156.9534	31
+HI	15007	Kauai County	22.04	-159.5936	1635
+HI	15009	Maui County	20.8645	-156.5697	3031
+ID	16001	Ada County	43.4515	-116.2416	2737
+ID	16003	Adams County	44.8884	-116.455	3534
+ID	16005	Bannock County	42.6684	-112.2237	2969
+ID	16007	Bear Lake County	42.2848	-111.3299	2717
+ID	16009	Benewah County	47.2173	-116.6605	2035
+ID	16011	Bingham County	43.2168	-112.3984	5481
+ID	16013	Blaine County	43.4134	-113.9787	6869
+ID	16015	Boise County	43.989	-115.7303	4959
+ID	16017	Bonner County	48.3002	-116.6006	4947
+ID	16019	Bonneville County	43.3881	-111.6128	4925
+ID	16021	Boundary County	48.7669	-116.4615	3299
+ID	16023	Butte County	43.7219	-113.1725	5785
+ID	16025	Camas County	43.4628	-114.806	2783
+ID	16027	Canyon County	43.6253	-116.71	1556
+ID	16029	Caribou County	42.7703	-111.5629	4649
+ID	16031	Cassia County	42.284	-113.601	6680
+ID	16033	Clark County	44.2842	-112.3525	4560
+ID	16035	Clearwater County	46.6737	-115.6599	6434
+ID	16037	Custer County	44.2413	-114.2801	12744
+ID	16039	Elmore County	43.3521	-115.4701	8005
+ID	16041	Franklin County	42.1799	-111.8141	1722
+ID	16043	Fremont County	44.228	-111.4828	4902
+ID	16045	Gem County	44.0618	-116.3989	1447
+ID	16047	Gooding County	42.9697	-114.8114	1908
+ID	16049	Idaho County	45.8429	-115.4708	21953
+ID	16051	Jefferson County	43.8202	-112.3111	2865
+ID	16053	Jerome County	42.6903	-114.2643	1557
+ID	16055	Kootenai County	47.6743	-116.7029	3376
+ID	16057	Latah County	46.8151	-116.7111	2758
+ID	16059	Lemhi County	44.9421	-113.9286	11834
+ID	16061	Lewis County	46.2366	-116.4263	1228
+ID	16063	Lincoln County	43.0025	-114.1381	3110
+ID	16065	Madison County	43.7844	-111.6575	1215
+ID	16067	Minidoka County	42.8537	-113.638	1978
+ID	16069	Nez Perce County	46.3253	-116.7505	2224
+ID	16071	Oneida County	42.1952	-112.5397	3108
+ID	16073	Owyhee County	42.581	-116.1684	19921
+ID	16075	Payette County	44.0063	-116.7609	1063
+ID	16077	Power County	42.6932	-112.8411	3731
+ID	16079	Shoshone County	47.3517	-115.8915	6838
+ID	16081	Teton County	43.7601	-111.2085	1156
+ID	16083	Twin Falls County	42.3548	-114.6675	4983
+ID	16085	Valley County	44.7665	-115.5681	9665
+ID	16087	Washington County	44.4518	-116.7844	3801
+IL	17001	Adams County	39.988	-91.1884	2250
+IL	17003	Alexander County	37.192	-89.337	651
+IL	17005	Bond County	38.8873	-89.4351	986
+IL	17007	Boone County	42.3228	-88.8239	731
+IL	17009	Brown County	39.9612	-90.7495	798
+IL	17011	Bureau County	41.4046	-89.5289	2255
+IL	17013	Calhoun County	39.1687	-90.6666	737
+IL	17015	Carroll County	42.0681	-89.9333	1207
+IL	17017	Cass County	39.9735	-90.2465	980
+IL	17019	Champaign County	40.1398	-88.1998	2584
+IL	17021	Christian County	39.546	-89.2775	1849
+IL	17023	Clark County	39.3345	-87.7878	1304
+IL	17025	Clay County	38.7537	-88.4894	1207
+IL	17027	Clinton County	38.6075	-89.4221	1301
+IL	17029	Coles County	39.5213	-88.2216	1312
+IL	17031	Cook County	41.8397	-87.8161	2476
+IL	17033	Crawford County	39.004	-87.7603	1164
+IL	17035	Cumberland County	39.2747	-88.2401	904
+IL	17037	DeKalb County	41.8929	-88.7691	1641
+IL	17039	De Witt County	40.1741	-88.9042	1050
+IL	17041	Douglas County	39.7697	-88.2172	1085
+IL	17043	DuPage County	41.852	-88.0864	868
+IL	17045	Edgar County	39.6785	-87.7448	1615
+IL	17047	Edwards County	38.4163	-88.0537	578
+IL	17049	Effingham County	39.0594	-88.5901	1247
+IL	17051	Fayette County	39.0003	-89.024	1876
+IL	17053	Ford County	40.5964	-88.2246	1249
+IL	17055	Franklin County	37.9922	-88.9237	1109
+IL	17057	Fulton County	40.4723	-90.2072	2287
+IL	17059	Gallatin County	37.7619	-88.2318	842
+IL	17061	Greene County	39.3563	-90.3902	1414
+IL	17063	Grundy County	41.286	-88.4192	1115
+IL	17065	Hamilton County	38.0813	-88.5387	1128
+IL	17067	Hancock County	40.4036	-91.1639	2108
+IL	17069	Hardin County	37.5185	-88.2666	471
+IL	17071	Henderson County	40.818	-90.9251	1020
+IL	17073	Henry County	41.3532	-90.1311	2141
+IL	17075	Iroquois County	40.747	-87.8259	2900
+IL	17077	Jackson County	37.7856	-89.3812	1561
+IL	17079	Jasper County	39.0104	-88.155	1286
+IL	17081	Jefferson County	38.3004	-88.9237	1513
+IL	17083	Jersey County	39.0855	-90.3567	972
+IL	17085	Jo Daviess County	42.3651	-90.2122	1592
+IL	17087	Johnson County	37.4609	-88.881	895
+IL	17089	Kane County	41.9393	-88.4281	1352
+IL	17091	Kankakee County	41.1378	-87.8625	1761
+IL	17093	Kendall County	41.5907	-88.4292	831
+IL	17095	Knox County	40.9315	-90.2132	1857
+IL	17097	Lake County	42.3225	-88.003	1215
+IL	17099	LaSalle County	41.3434	-88.887	2968
+IL	17101	Lawrence County	38.7212	-87.7275	964
+IL	17103	Lee County	41.7469	-89.2995	1885
+IL	17105	Livingston County	40.8917	-88.5575	2707
+IL	17107	Logan County	40.1243	-89.367	1592
+IL	17109	McDonough County	40.4568	-90.677	1525
+IL	17111	McHenry County	42.3244	-88.4519	1581
+IL	17113	McLean County	40.4906	-88.8476	3070
+IL	17115	Macon County	39.8598	-88.9618	1519
+IL	17117	Macoupin County	39.2609	-89.9243	2243
+IL	17119	Madison County	38.8303	-89.9053	1923
+IL	17121	Marion County	38.65	-88.9182	1492
+IL	17123	Marshall County	41.0331	-89.3451	1026
+IL	17125	Mason County	40.2386	-89.9169	1459
+IL	17127	Massac County	37.2205	-88.7088	634
+IL	17129	Menard County	40.0277	-89.8012	817
+IL	17131	Mercer County	41.2059	-90.7426	1479
+IL	17133	Monroe County	38.2792	-90.1778	1022
+IL	17135	Montgomery County	39.2312	-89.4781	1840
+IL	17137	Morgan County	39.7162	-90.2015	1487
+IL	17139	Moultrie County	39.6401	-88.6189	894
+IL	17141	Ogle County	42.043	-89.3198	1974
+IL	17143	Peoria County	40.7881	-89.7611	1622
+IL	17145	Perry County	38.0845	-89.3663	1161
+IL	17147	Piatt County	40.0098	-88.5915	1131
+IL	17149	Pike County	39.622	-90.8867	2200
+IL	17151	Pope County	37.4136	-88.561	970
+IL	17153	Pulaski County	37.2219	-89.1263	528
+IL	17155	Putnam County	41.2051	-89.2859	450
+IL	17157	Randolph County	38.0526	-89.8236	1538
+IL	17159	Richland County	38.7126	-88.0852	938
+IL	17161	Rock Island County	41.4661	-90.5699	1159
+IL	17163	St. Clair County	38.4699	-89.928	1747
+IL	17165	Saline County	37.7534	-88.541	1004
+IL	17167	Sangamon County	39.758	-89.6596	2266
+IL	17169	Schuyler County	40.1581	-90.6158	1149
+IL	17171	Scott County	39.6444	-90.4741	653
+IL	17173	Shelby County	39.3914	-88.8058	1981
+IL	17175	Stark County	41.0933	-89.7972	750
+IL	17177	Stephenson County	42.3517	-89.6634	1459
+IL	17179	Tazewell County	40.5078	-89.514	1712
+IL	17181	Union County	37.471	-89.2552	1101
+IL	17183	Vermilion County	40.1837	-87.7329	2334
+IL	17185	Wabash County	38.4464	-87.8443	590
+IL	17187	Warren County	40.8494	-90.6148	1406
+IL	17189	Washington County	38.3531	-89.4111	1463
+IL	17191	Wayne County	38.4296	-88.4261	1850
+IL	17193	White County	38.0872	-88.1791	1304
+IL	17195	Whiteside County	41.7561	-89.9144	1804
+IL	17197	Will County	41.445	-87.9789	2198
+IL	17199	Williamson County	37.7302	-88.9295	1147
+IL	17201	Winnebago County	42.3365	-89.1615	1343
+IL	17203	Woodford County	40.7885	-89.2113	1406
+IN	18001	Adams County	40.746	-84.9373	883
+IN	18003	Allen County	41.0911	-85.0659	1705
+IN	18005	Bartholomew County	39.2048	-85.8975	1065
+IN	18007	Benton County	40.6061	-87.3117	1051
+IN	18009	Blackford County	40.4737	-85.325	426
+IN	18011	Boone County	40.0512	-86.4675	1096
+IN	18013	Brown County	39.1958	-86.2274	815
+IN	18015	Carroll County	40.5829	-86.5631	965
+IN	18017	Cass County	40.7621	-86.3475	1074
+IN	18019	Clark County	38.4784	-85.7095	977
+IN	18021	Clay County	39.393	-87.1153	937
+IN	18023	Clinton County	40.3023	-86.4744	1047
+IN	18025	Crawford County	38.2913	-86.4488	808
+IN	18027	Daviess County	38.7035	-87.0732	1138
+IN	18029	Dearborn County	39.1434	-84.9746	804
+IN	18031	Decatur County	39.3073	-85.5015	961
+IN	18033	DeKalb County	41.3979	-84.9982	940
+IN	18035	Delaware County	40.2279	-85.397	1023
+IN	18037	Dubois County	38.3647	-86.8804	1135
+IN	18039	Elkhart County	41.5975	-85.8586	1208
+IN	18041	Fayette County	39.6395	-85.1787	555
+IN	18043	Floyd County	38.3178	-85.9085	394
+IN	18045	Fountain County	40.1218	-87.2417	1024
+IN	18047	Franklin County	39.4144	-85.0616	1012
+IN	18049	Fulton County	41.0473	-86.264	959
+IN	18051	Gibson County	38.31	-87.5844	1280
+IN	18053	Grant County	40.5159	-85.6547	1076
+IN	18055	Greene County	39.0365	-86.9624	1407
+IN	18057	Hamilton County	40.0725	-86.051	1040
+IN	18059	Hancock County	39.8228	-85.773	795
+IN	18061	Harrison County	38.1937	-86.1101	1247
+IN	18063	Hendricks County	39.7697	-86.5099	1059
+IN	18065	Henry County	39.9312	-85.3953	1023
+IN	18067	Howard County	40.4838	-86.1168	761
+IN	18069	Huntington County	40.8286	-85.4881	1000
+IN	18071	Jackson County	38.9062	-86.0391	1318
+IN	18073	Jasper County	41.0227	-87.1165	1452
+IN	18075	Jay County	40.438	-85.0055	995
+IN	18077	Jefferson County	38.7847	-85.4388	943
+IN	18079	Jennings County	38.9969	-85.6288	983
+IN	18081	Johnson County	39.4899	-86.1021	830
+IN	18083	Knox County	38.687	-87.4225	1359
+IN	18085	Kosciusko County	41.2445	-85.8613	1433
+IN	18087	LaGrange County	41.6423	-85.4267	1000
+IN	18089	Lake County	41.4176	-87.3823	1312
+IN	18091	LaPorte County	41.5457	-86.7401	1562
+IN	18093	Lawrence County	38.8412	-86.484	1171
+IN	18095	Madison County	40.161	-85.7187	1173
+IN	18097	Marion County	39.7817	-86.1382	1043
+IN	18099	Marshall County	41.3246	-86.2627	1165
+IN	18101	Martin County	38.7082	-86.8032	877
+IN	18103	Miami County	40.769	-86.0463	975
+IN	18105	Monroe County	39.1618	-86.5234	1071
+IN	18107	Montgomery County	40.0402	-86.8934	1316
+IN	18109	Morgan County	39.4819	-86.4464	1059
+IN	18111	Newton County	40.9557	-87.3981	1047
+IN	18113	Noble County	41.3982	-85.4169	1080
+IN	18115	Ohio County	38.9488	-84.965	217
+IN	18117	Orange County	38.541	-86.4963	1055
+IN	18119	Owen County	39.3128	-86.8375	999
+IN	18121	Parke County	39.7734	-87.2067	1160
+IN	18123	Perry County	38.0818	-86.637	991
+IN	18125	Pike County	38.3994	-87.2329	888
+IN	18127	Porter County	41.4612	-87.0673	1085
+IN	18129	Posey County	38.0196	-87.8689	1093
+IN	18131	Pulaski County	41.0417	-86.6994	1124
+IN	18133	Putnam County	39.6664	-86.8454	1248
+IN	18135	Randolph County	40.1582	-85.0112	1169
+IN	18137	Ripley County	39.1031	-85.2636	1157
+IN	18139	Rush County	39.6199	-85.4649	1052
+IN	18141	St. Joseph County	41.6164	-86.2896	1193
+IN	18143	Scott County	38.6869	-85.7483	499
+IN	18145	Shelby County	39.5229	-85.7915	1074
+IN	18147	Spencer County	38.0142	-87.0076	1041
+IN	18149	Starke County	41.2809	-86.649	808
+IN	18151	Steuben County	41.6442	-85.0017	833
+IN	18153	Sullivan County	39.0889	-87.4141	1180
+IN	18155	Switzerland County	38.8267	-85.0395	571
+IN	18157	Tippecanoe County	40.3887	-86.8938	1306
+IN	18159	Tipton County	40.3112	-86.0517	673
+IN	18161	Union County	39.6259	-84.9248	431
+IN	18163	Vanderburgh County	38.0287	-87.5854	599
+IN	18165	Vermillion County	39.8531	-87.4631	674
+IN	18167	Vigo County	39.4306	-87.3892	1052
+IN	18169	Wabash County	40.846	-85.7946	1098
+IN	18171	Warren County	40.3465	-87.354	949
+IN	18173	Warrick County	38.0923	-87.2719	1008
+IN	18175	Washington County	38.6005	-86.1074	1340
+IN	18177	Wayne County	39.8644	-85.0101	1047
+IN	18179	Wells County	40.7294	-85.2216	955
+IN	18181	White County	40.7494	-86.8666	1315
+IN	18183	Whitley County	41.1393	-85.5048	880
+IA	19001	Adair County	41.3309	-94.4714	1472
+IA	19003	Adams County	41.0292	-94.7002	1096
+IA	19005	Allamakee County	43.2836	-91.3803	1704
+IA	19007	Appanoose County	40.7429	-92.8686	1340
+IA	19009	Audubon County	41.6849	-94.9063	1143
+IA	19011	Benton County	42.0802	-92.0646	1857
+IA	19013	Black Hawk County	42.4699	-92.309	1484
+IA	19015	Boone County	42.0366	-93.9304	1482
+IA	19017	Bremer County	42.7748	-92.3187	1141
+IA	19019	Buchanan County	42.4711	-91.8376	1479
+IA	19021	Buena Vista County	42.7356	-95.1505	1501
+IA	19023	Butler County	42.732	-92.7906	1499
+IA	19025	Calhoun County	42.385	-94.6403	1481
+IA	19027	Carroll County	42.0363	-94.8608	1469
+IA	19029	Cass County	41.3316	-94.9272	1459
+IA	19031	Cedar County	41.7726	-91.133	1511
+IA	19033	Cerro Gordo County	43.0814	-93.2617	1481
+IA	19035	Cherokee County	42.7353	-95.6237	1493
+IA	19037	Chickasaw County	43.0604	-92.3187	1309
+IA	19039	Clarke County	41.0289	-93.7854	1121
+IA	19041	Clay County	43.0827	-95.1507	1478
+IA	19043	Clayton County	42.8447	-91.3413	2046
+IA	19045	Clinton County	41.8978	-90.5313	1840
+IA	19047	Crawford County	42.0375	-95.3815	1849
+IA	19049	Dallas County	41.685	-94.04	1531
+IA	19051	Davis County	40.7476	-92.4097	1306
+IA	19053	Decatur County	40.7375	-93.7874	1379
+IA	19055	Delaware County	42.4714	-91.3672	1495
+IA	19057	Des Moines County	40.9232	-91.1811	1110
+IA	19059	Dickinson County	43.3779	-95.1507	1042
+IA	19061	Dubuque County	42.4684	-90.882	1598
+IA	19063	Emmet County	43.3782	-94.6786	1038
+IA	19065	Fayette County	42.8628	-91.8443	1894
+IA	19067	Floyd County	43.0604	-92.7907	1299
+IA	19069	Franklin County	42.7326	-93.2627	1508
+IA	19071	Fremont County	40.7458	-95.6051	1347
+IA	19073	Greene County	42.0361	-94.397	1485
+IA	19075	Grundy County	42.4018	-92.7917	1300
+IA	19077	Guthrie County	41.6838	-94.5016	1534
+IA	19079	Hamilton County	42.3838	-93.7065	1490
+IA	19081	Hancock County	43.0818	-93.7339	1481
+IA	19083	Hardin County	42.3839	-93.2407	1478
+IA	19085	Harrison County	41.684	-95.8175	1814
+IA	19087	Henry County	40.9875	-91.5446	1130
+IA	19089	Howard County	43.3569	-92.3168	1223
+IA	19091	Humboldt County	42.7767	-94.2076	1126
+IA	19093	Ida County	42.387	-95.5134	1116
+IA	19095	Iowa County	41.6864	-92.0641	1529
+IA	19097	Jackson County	42.1719	-90.5728	1677
+IA	19099	Jasper County	41.6863	-93.054	1893
+IA	19101	Jefferson County	41.0321	-91.9484	1128
+IA	19103	Johnson County	41.671	-91.5869	1603
+IA	19105	Jones County	42.1211	-91.1316	1498
+IA	19107	Keokuk County	41.3365	-92.1779	1499
+IA	19109	Kossuth County	43.2036	-94.2067	2528
+IA	19111	Lee County	40.6418	-91.4793	1402
+IA	19113	Linn County	42.0792	-91.5993	1866
+IA	19115	Louisa County	41.2182	-91.2602	1074
+IA	19117	Lucas County	41.0296	-93.3273	1126
+IA	19119	Lyon County	43.3808	-96.2084	1510
+IA	19121	Madison County	41.3312	-94.0164	1454
+IA	19123	Mahaska County	41.3349	-92.6408	1490
+IA	19125	Marion County	41.3347	-93.0993	1471
+IA	19127	Marshall County	42.036	-92.9988	1472
+IA	19129	Mills County	41.0336	-95.6212	1143
+IA	19131	Mitchell County	43.3568	-92.7897	1216
+IA	19133	Monona County	42.0524	-95.9589	1808
+IA	19135	Monroe County	41.0296	-92.8689	1120
+IA	19137	Montgomery County	41.0302	-95.1562	1097
+IA	19139	Muscatine County	41.4842	-91.1123	1163
+IA	19141	O'Brien County	43.0833	-95.6246	1483
+IA	19143	Osceola County	43.3787	-95.624	1039
+IA	19145	Page County	40.7392	-95.1493	1384
+IA	19147	Palo Alto County	43.0823	-94.6785	1470
+IA	19149	Plymouth County	42.7377	-96.2147	2239
+IA	19151	Pocahontas County	42.7344	-94.6787	1493
+IA	19153	Polk County	41.6849	-93.5738	1536
+IA	19155	Pottawattamie County	41.3367	-95.5431	2495
+IA	19157	Poweshiek County	41.6868	-92.5319	1520
+IA	19159	Ringgold County	40.7353	-94.2451	1395
+IA	19161	Sac County	42.3866	-95.1057	1496
+IA	19163	Scott County	41.6378	-90.6239	1205
+IA	19165	Shelby County	41.6849	-95.3103	1532
+IA	19167	Sioux County	43.0828	-96.1778	1988
+IA	19169	Story County	42.036	-93.4636	1482
+IA	19171	Tama County	42.0797	-92.5322	1872
+IA	19173	Taylor County	40.7377	-94.6965	1379
+IA	19175	Union County	41.0281	-94.2432	1104
+IA	19177	Van Buren County	40.7533	-91.9498	1270
+IA	19179	Wapello County	41.0308	-92.4092	1129
+IA	19181	Warren County	41.3337	-93.5611	1483
+IA	19183	Washington County	41.3354	-91.7174	1473
+IA	19185	Wayne County	40.7397	-93.3278	1364
+IA	19187	Webster County	42.4278	-94.1812	1862
+IA	19189	Winnebago County	43.3774	-93.7329	1038
+IA	19191	Winneshiek County	43.2906	-91.845	1775
+IA	19193	Woodbury County	42.3898	-96.0454	2268
+IA	19195	Worth County	43.3774	-93.2609	1031
+IA	19197	Wright County	42.7327	-93.7355	1501
+KS	20001	Allen County	37.8854	-95.3014	1316
+KS	20003	Anderson County	38.2142	-95.2935	1513
+KS	20005	Atchison County	39.5316	-95.3143	1130
+KS	20007	Barber County	37.2291	-98.685	2947
+KS	20009	Barton County	38.4791	-98.7572	2323
+KS	20011	Bourbon County	37.8554	-94.8487	1653
+KS	20013	Brown County	39.8268	-95.5652	1479
+KS	20015	Butler County	37.7814	-96.839	3754
+KS	20017	Chase County	38.3021	-96.5936	2017
+KS	20019	Chautauqua County	37.1502	-96.2459	1669
+KS	20021	Cherokee County	37.1695	-94.8466	1530
+KS	20023	Cheyenne County	39.786	-101.7317	2636
+KS	20025	Clark County	37.2354	-99.8199	2538
+KS	20027	Clay County	39.3496	-97.1659	1695
+KS	20029	Cloud County	39.4806	-97.6493	1862
+KS	20031	Coffey County	38.2371	-95.734	1690
+KS	20033	Comanche County	37.1915	-99.2717	2039
+KS	20035	Cowley County	37.2379	-96.8375	2935
+KS	20037	Crawford County	37.5068	-94.8524	1553
+KS	20039	Decatur County	39.7846	-100.4592	2310
+KS	20041	Dickinson County	38.8662	-97.1531	2201
+KS	20043	Doniphan County	39.788	-95.1481	1038
+KS	20045	Douglas County	38.8847	-95.2931	1230
+KS	20047	Edwards County	37.8877	-99.3116	1602
+KS	20049	Elk County	37.4535	-96.2439	1681
+KS	20051	Ellis County	38.9145	-99.3165	2331
+KS	20053	Ellsworth County	38.6969	-98.2054	1877
+KS	20055	Finney County	38.0441	-100.7376	3372
+KS	20057	Ford County	37.6919	-99.8873	2850
+KS	20059	Franklin County	38.5645	-95.2866	1501
+KS	20061	Geary County	39.0029	-96.7525	1057
+KS	20063	Gove County	38.9159	-100.4825	2773
+KS	20065	Graham County	39.3499	-99.8833	2329
+KS	20067	Grant County	37.5628	-101.3089	1489
+KS	20069	Gray County	37.7383	-100.4378	2255
+KS	20071	Greeley County	38.4809	-101.807	2014
+KS	20073	Greenwood County	37.8772	-96.2324	2974
+KS	20075	Hamilton County	37.9993	-101.7919	2577
+KS	20077	Harper County	37.1918	-98.0759	2081
+KS	20079	Harvey County	38.0436	-97.428	1397
+KS	20081	Haskell County	37.5624	-100.872	1497
+KS	20083	Hodgeman County	38.0881	-99.8974	2232
+KS	20085	Jackson County	39.4166	-95.794	1703
+KS	20087	Jefferson County	39.2349	-95.3824	1445
+KS	20089	Jewell County	39.7845	-98.2186	2368
+KS	20091	Johnson County	38.8834	-94.8237	1241
+KS	20093	Kearny County	38.0006	-101.3208	2255
+KS	20095	Kingman County	37.5595	-98.1352	2242
+KS	20097	Kiowa County	37.5588	-99.2851	1871
+KS	20099	Labette County	37.1908	-95.2978	1679
+KS	20101	Lane County	38.4811	-100.4664	1861
+KS	20103	Leavenworth County	39.1998	-95.0371	1201
+KS	20105	Lincoln County	39.0457	-98.2075	1864
+KS	20107	Linn County	38.2121	-94.8425	1573
+KS	20109	Logan County	38.9175	-101.1485	2789
+KS	20111	Lyon County	38.4551	-96.1528	2214
+KS	20113	McPherson County	38.392	-97.6481	2328
+KS	20115	Marion County	38.3589	-97.0971	2472
+KS	20117	Marshall County	39.7837	-96.5219	2341
+KS	20119	Meade County	37.2382	-100.3659	2532
+KS	20121	Miami County	38.5639	-94.8374	1530
+KS	20123	Mitchell County	39.3934	-98.2089	1859
+KS	20125	Montgomery County	37.1926	-95.7428	1693
+KS	20127	Morris County	38.6877	-96.6499	1820
+KS	20129	Morton County	37.1912	-101.7992	1891
+KS	20131	Nemaha County	39.7832	-96.0138	1850
+KS	20133	Neosho County	37.5581	-95.3068	1485
+KS	20135	Ness County	38.48	-99.9147	2784
+KS	20137	Norton County	39.7846	-99.9028	2281
+KS	20139	Osage County	38.6524	-95.7285	1862
+KS	20141	Osborne County	39.3503	-98.7678	2320
+KS	20143	Ottawa County	39.1326	-97.6502	1859
+KS	20145	Pawnee County	38.1816	-99.2361	1956
+KS	20147	Phillips County	39.7849	-99.3467	2310
+KS	20149	Pottawatomie County	39.3789	-96.343	2237
+KS	20151	Pratt County	37.6477	-98.7389	1900
+KS	20153	Rawlins County	39.7853	-101.0758	2776
+KS	20155	Reno County	37.9532	-98.0865	3290
+KS	20157	Republic County	39.8282	-97.6506	1861
+KS	20159	Rice County	38.3473	-98.2013	1892
+KS	20161	Riley County	39.2972	-96.7365	1603
+KS	20163	Rooks County	39.3503	-99.325	2314
+KS	20165	Rush County	38.5232	-99.3078	1849
+KS	20167	Russell County	38.915	-98.7619	2321
+KS	20169	Saline County	38.7843	-97.65	1866
+KS	20171	Scott County	38.4817	-100.9071	1855
+KS	20173	Sedgwick County	37.6852	-97.4611	2609
+KS	20175	Seward County	37.1932	-100.8507	1666
+KS	20177	Shawnee County	39.042	-95.7579	1442
+KS	20179	Sheridan County	39.3503	-100.4422	2319
+KS	20181	Sherman County	39.3517	-101.7198	2731
+KS	20183	Smith County	39.7852	-98.7857	2317
+KS	20185	Stafford County	38.0306	-98.7179	2057
+KS	20187	Stanton County	37.5631	-101.7848	1761
+KS	20189	Stevens County	37.1925	-101.3121	1883
+KS	20191	Sumner County	37.237	-97.4766	3071
+KS	20193	Thomas County	39.3512	-101.0557	2778
+KS	20195	Trego County	38.9146	-99.8722	2331
+KS	20197	Wabaunsee County	38.953	-96.2051	2058
+KS	20199	Wallace County	38.917	-101.7641	2358
+KS	20201	Washington County	39.7842	-97.0871	2328
+KS	20203	Wichita County	38.482	-101.3476	1866
+KS	20205	Wilson County	37.5594	-95.7427	1493
+KS	20207	Woodson County	37.8863	-95.7411	1307
+KS	20209	Wyandotte County	39.1142	-94.7665	401
+KY	21001	Adair County	37.1038	-85.28	1064
+KY	21003	Allen County	36.7506	-86.1892	911
+KY	21005	Anderson County	38.003	-84.9882	524
+KY	21007	Ballard County	37.0577	-88.9987	711
+KY	21009	Barren County	36.9665	-85.9326	1297
+KY	21011	Bath County	38.1429	-83.742	729
+KY	21013	Bell County	36.7311	-83.6739	936
+KY	21015	Boone County	38.9687	-84.7283	678
+KY	21017	Bourbon County	38.2063	-84.2173	742
+KY	21019	Boyd County	38.3597	-82.6873	418
+KY	21021	Boyle County	37.6238	-84.8675	481
+KY	21023	Bracken County	38.6881	-84.0911	549
+KY	21025	Breathitt County	37.5215	-83.3229	1278
+KY	21027	Breckinridge County	37.7741	-86.4289	1514
+KY	21029	Bullitt County	37.9699	-85.6974	773
+KY	21031	Butler County	37.2066	-86.6819	1111
+KY	21033	Caldwell County	37.1447	-87.8681	908
+KY	21035	Calloway County	36.6206	-88.2731	1056
+KY	21037	Campbell County	38.945	-84.3816	414
+KY	21039	Carlisle County	36.853	-88.9693	514
+KY	21041	Carroll County	38.6666	-85.1215	354
+KY	21043	Carter County	38.3192	-83.0488	1062
+KY	21045	Casey County	37.3231	-84.9284	1147
+KY	21047	Christian County	36.8934	-87.4894	1875
+KY	21049	Clark County	37.9707	-84.1483	659
+KY	21051	Clay County	37.1591	-83.7129	1220
+KY	21053	Clinton County	36.7262	-85.1346	539
+KY	21055	Crittenden County	37.3528	-88.0964	977
+KY	21057	Cumberland County	36.7859	-85.3884	798
+KY	21059	Daviess County	37.7319	-87.0863	1236
+KY	21061	Edmonson County	37.2092	-86.2379	801
+KY	21063	Elliott County	38.1191	-83.0977	599
+KY	21065	Estill County	37.6918	-83.9643	661
+KY	21067	Fayette County	38.0429	-84.4587	734
+KY	21069	Fleming County	38.3694	-83.6968	905
+KY	21071	Floyd County	37.5564	-82.7448	1035
+KY	21073	Franklin County	38.2387	-84.8766	556
+KY	21075	Fulton County	36.5538	-89.1839	591
+KY	21077	Gallatin County	38.7571	-84.8598	271
+KY	21079	Garrard County	37.6404	-84.5388	611
+KY	21081	Grant County	38.6479	-84.6234	678
+KY	21083	Graves County	36.7226	-88.6499	1429
+KY	21085	Grayson County	37.4615	-86.3446	1326
+KY	21087	Green County	37.2649	-85.5515	740
+KY	21089	Greenup County	38.5445	-82.9219	909
+KY	21091	Hancock County	37.8415	-86.7758	520
+KY	21093	Hardin County	37.6978	-85.9648	1627
+KY	21095	Harlan County	36.8587	-83.2175	1213
+KY	21097	Harrison County	38.4411	-84.3309	805
+KY	21099	Hart County	37.3	-85.8836	1082
+KY	21101	Henderson County	37.7959	-87.5727	1228
+KY	21103	Henry County	38.4493	-85.122	747
+KY	21105	Hickman County	36.6779	-88.9733	660
+KY	21107	Hopkins County	37.3082	-87.5409	1448
+KY	21109	Jackson County	37.4178	-84.0057	902
+KY	21111	Jefferson County	38.1889	-85.6578	1028
+KY	21113	Jessamine County	37.8733	-84.5789	448
+KY	21115	Johnson County	37.8478	-82.8309	681
+KY	21117	Kenton County	38.936	-84.535	416
+KY	21119	Knott County	37.3536	-82.955	910
+KY	21121	Knox County	36.8891	-83.8554	1020
+KY	21123	Larue County	37.5448	-85.6992	675
+KY	21125	Laurel County	37.1093	-84.1185	1150
+KY	21127	Lawrence County	38.069	-82.736	1082
+KY	21129	Lee County	37.5943	-83.7155	548
+KY	21131	Leslie County	37.0964	-83.3799	1046
+KY	21133	Letcher County	37.1222	-82.853	877
+KY	21135	Lewis County	38.5319	-83.3769	1284
+KY	21137	Lincoln County	37.4539	-84.6597	864
+KY	21139	Livingston County	37.209	-88.3546	874
+KY	21141	Logan County	36.8591	-86.8785	1440
+KY	21143	Lyon County	37.0186	-88.083	664
+KY	21145	McCracken County	37.0535	-88.7113	697
+KY	21147	McCreary County	36.7364	-84.483	1119
+KY	21149	McLean County	37.5286	-87.2615	661
+KY	21151	Madison County	37.7203	-84.2769	1155
+KY	21153	Magoffin County	37.7061	-83.0637	799
+KY	21155	Marion County	37.5529	-85.269	888
+KY	21157	Marshall County	36.8831	-88.3301	881
+KY	21159	Martin County	37.8011	-82.5143	593
+KY	21161	Mason County	38.5947	-83.8229	640
+KY	21163	Meade County	37.968	-86.2148	830
+KY	21165	Menifee County	37.9411	-83.5991	542
+KY	21167	Mercer County	37.812	-84.8735	656
+KY	21169	Metcalfe County	36.9907	-85.6278	760
+KY	21171	Monroe County	36.7123	-85.7163	856
+KY	21173	Montgomery County	38.0328	-83.9145	523
+KY	21175	Morgan County	37.9228	-83.2573	1006
+KY	21177	Muhlenberg County	37.2161	-87.1413	1238
+KY	21179	Nelson County	37.8047	-85.4673	1123
+KY	21181	Nicholas County	38.3336	-84.0145	509
+KY	21183	Ohio County	37.4774	-86.8485	1545
+KY	21185	Oldham County	38.4002	-85.4483	506
+KY	21187	Owen County	38.5188	-84.8273	923
+KY	21189	Owsley County	37.4199	-83.6842	505
+KY	21191	Pendleton County	38.6957	-84.3611	728
+KY	21193	Perry County	37.2463	-83.2229	879
+KY	21195	Pike County	37.4683	-82.3959	2023
+KY	21197	Powell County	37.8298	-83.8221	457
+KY	21199	Pulaski County	37.1042	-84.5773	1753
+KY	21201	Robertson County	38.5161	-84.0494	263
+KY	21203	Rockcastle County	37.3665	-84.3154	820
+KY	21205	Rowan County	38.1975	-83.4199	749
+KY	21207	Russell County	36.9907	-85.058	751
+KY	21209	Scott County	38.2908	-84.5826	736
+KY	21211	Shelby County	38.2149	-85.1938	1001
+KY	21213	Simpson County	36.7416	-86.5813	614
+KY	21215	Spencer County	38.0333	-85.328	500
+KY	21217	Taylor County	37.3674	-85.3273	725
+KY	21219	Todd County	36.835	-87.179	973
+KY	21221	Trigg County	36.8058	-87.8747	1252
+KY	21223	Trimble County	38.6129	-85.3355	406
+KY	21225	Union County	37.6586	-87.9461	923
+KY	21227	Warren County	36.9939	-86.4228	1424
+KY	21229	Washington County	37.7531	-85.1732	780
+KY	21231	Wayne County	36.8009	-84.8264	1244
+KY	21233	Webster County	37.52	-87.6812	864
+KY	21235	Whitley County	36.7583	-84.1467	1131
+KY	21237	Wolfe County	37.7378	-83.4937	580
+KY	21239	Woodford County	38.043	-84.7412	489
+LA	22001	Acadia Parish	30.2909	-92.4124	1701
+LA	22003	Allen Parish	30.6524	-92.8286	1981
+LA	22005	Ascension Parish	30.203	-90.9126	771
+LA	22007	Assumption Parish	29.901	-91.0624	941
+LA	22009	Avoyelles Parish	31.0762	-92.0014	2240
+LA	22011	Beauregard Parish	30.6482	-93.3438	3018
+LA	22013	Bienville Parish	32.3472	-93.0575	2138
+LA	22015	Bossier Parish	32.6794	-93.6041	2224
+LA	22017	Caddo Parish	32.58	-93.8807	2432
+LA	22019	Calcasieu Parish	30.2295	-93.3578	2835
+LA	22021	Caldwell Parish	32.0923	-92.1164	1399
+LA	22023	Cameron Parish	29.8754	-93.1934	4255
+LA	22025	Catahoula Parish	31.6658	-91.8486	1919
+LA	22027	Claiborne Parish	32.8227	-92.9946	1989
+LA	22029	Concordia Parish	31.4471	-91.6401	1933
+LA	22031	De Soto Parish	32.055	-93.7374	2322
+LA	22033	East Baton Rouge Parish	30.5382	-91.0969	1218
+LA	22035	East Carroll Parish	32.7327	-91.2377	1141
+LA	22037	East Feliciana Parish	30.8442	-91.0454	1178
+LA	22039	Evangeline Parish	30.7282	-92.4051	1771
+LA	22041	Franklin Parish	32.1338	-91.6728	1660
+LA	22043	Grant Parish	31.5999	-92.5582	1730
+LA	22045	Iberia Parish	29.8943	-91.7315	1616
+LA	22047	Iberville Parish	30.2585	-91.347	1700
+LA	22049	Jackson Parish	32.302	-92.5582	1509
+LA	22051	Jefferson Parish	29.7413	-90.1126	1470
+LA	22053	Jefferson Davis Parish	30.2673	-92.8145	1704
+LA	22055	Lafayette Parish	30.2059	-92.0627	694
+LA	22057	Lafourche Parish	29.558	-90.4181	3307
+LA	22059	La Salle Parish	31.6781	-92.1603	1698
+LA	22061	Lincoln Parish	32.6014	-92.6648	1222
+LA	22063	Livingston Parish	30.4395	-90.7286	1793
+LA	22065	Madison Parish	32.3655	-91.2405	1688
+LA	22067	Morehouse Parish	32.8208	-91.8041	2086
+LA	22069	Natchitoches Parish	31.7223	-93.0962	3372
+LA	22071	Orleans Parish	30.0701	-89.9273	911
+LA	22073	Ouachita Parish	32.478	-92.1555	1625
+LA	22075	Plaquemines Parish	29.4334	-89.6221	3432
+LA	22077	Pointe Coupee Parish	30.7107	-91.6022	1529
+LA	22079	Rapides Parish	31.1978	-92.5329	3550
+LA	22081	Red River Parish	32.0929	-93.3403	1041
+LA	22083	Richland Parish	32.4173	-91.7647	1470
+LA	22085	Sabine Parish	31.564	-93.555	2619
+LA	22087	St. Bernard Parish	29.8759	-89.5416	1694
+LA	22089	St. Charles Parish	29.9053	-90.3583	1028
+LA	22091	St. Helena Parish	30.8213	-90.711	1064
+LA	22093	St. James Parish	30.0269	-90.7962	671
+LA	22095	St. John the Baptist Parish	30.1264	-90.471	1063
+LA	22097	St. Landry Parish	30.597	-92.0037	2438
+LA	22099	St. Martin Parish	30.1274	-91.6057	2115
+LA	22101	St. Mary Parish	29.7046	-91.4434	1923
+LA	22103	St. Tammany Parish	30.4102	-89.9572	2809
+LA	22105	Tangipahoa Parish	30.6259	-90.4049	2210
+LA	22107	Tensas Parish	32.0008	-91.3411	1663
+LA	22109	Terrebonne Parish	29.4101	-90.8648	3920
+LA	22111	Union Parish	32.8314	-92.3744	2346
+LA	22113	Vermilion Parish	29.8462	-92.3236	3384
+LA	22115	Vernon Parish	31.1082	-93.1846	3473
+LA	22117	Washington Parish	30.854	-90.0398	1741
+LA	22119	Webster Parish	32.7139	-93.3354	1596
+LA	22121	West Baton Rouge Parish	30.4638	-91.3147	519
+LA	22123	West Carroll Parish	32.788	-91.4589	938
+LA	22125	West Feliciana Parish	30.8796	-91.4166	1109
+LA	22127	Winn Parish	31.9441	-92.6371	2483
+ME	23001	Androscoggin County	44.1643	-70.2064	1288
+ME	23003	Aroostook County	46.6573	-68.5945	17628
+ME	23005	Cumberland County	43.8387	-70.3753	2643
+ME	23007	Franklin County	44.9743	-70.4433	4499
+ME	23009	Hancock County	44.6456	-68.3583	4813
+ME	23011	Kennebec County	44.4094	-69.7676	2466
+ME	23013	Knox County	44.1246	-69.1502	1210
+ME	23015	Lincoln County	44.0628	-69.5431	1367
+ME	23017	Oxford County	44.4982	-70.7551	5635
+ME	23019	Penobscot County	45.3976	-68.6505	9209
+ME	23021	Piscataquis County	45.834	-69.2849	11320
+ME	23023	Sagadahoc County	43.9596	-69.8537	777
+ME	23025	Somerset County	45.5102	-69.9577	10581
+ME	23027	Waldo County	44.5009	-69.1439	1982
+ME	23029	Washington County	45.0198	-67.6289	7447
+ME	23031	York County	43.4789	-70.7145	2660
+MD	24001	Allegany County	39.6197	-78.6967	1132
+MD	24003	Anne Arundel County	39.0069	-76.6039	1164
+MD	24005	Baltimore County	39.4593	-76.6356	1638
+MD	24009	Calvert County	38.5412	-76.5686	616
+MD	24011	Caroline County	38.8696	-75.8308	845
+MD	24013	Carroll County	39.5635	-77.0223	1165
+MD	24015	Cecil County	39.5705	-75.9432	993
+MD	24017	Charles County	38.5068	-76.9932	1272
+MD	24019	Dorchester County	38.4691	-76.0241	1672
+MD	24021	Frederick County	39.4727	-77.3972	1729
+MD	24023	Garrett County	39.5293	-79.2722	1701
+MD	24025	Harford County	39.5618	-76.3162	1165
+MD	24027	Howard County	39.2523	-76.9318	648
+MD	24029	Kent County	39.2538	-76.0406	786
+MD	24031	Montgomery County	39.1368	-77.2022	1318
+MD	24033	Prince George's County	38.8296	-76.8463	1302
+MD	24035	Queen Anne's County	39.0653	-76.0237	1042
+MD	24037	St. Mary's County	38.3011	-76.6042	1036
+MD	24039	Somerset County	38.1138	-75.7577	954
+MD	24041	Talbot County	38.7704	-76.1028	833
+MD	24043	Washington County	39.605	-77.8155	1214
+MD	24045	Wicomico County	38.3738	-75.6228	1010
+MD	24047	Worcester County	38.2125	-75.3352	1520
+MD	24510	Baltimore city	39.306	-76.6154	225
+MA	25001	Barnstable County	41.7218	-70.2914	1165
+MA	25003	Berkshire County	42.3704	-73.2062	2447
+MA	25005	Bristol County	41.7965	-71.1138	1528
+MA	25007	Dukes County	41.3991	-70.6558	316
+MA	25009	Essex County	42.6716	-70.9517	1367
+MA	25011	Franklin County	42.5832	-72.5911	1872
+MA	25013	Hampden County	42.1352	-72.6312	1641
+MA	25015	Hampshire County	42.3405	-72.6631	1408
+MA	25017	Middlesex County	42.4859	-71.3914	2189
+MA	25019	Nantucket County	41.2829	-70.0687	149
+MA	25021	Norfolk County	42.1622	-71.2079	1074
+MA	25023	Plymouth County	41.9534	-70.8122	1834
+MA	25025	Suffolk County	42.3369	-71.0679	195
+MA	25027	Worcester County	42.3511	-71.9068	4086
+MI	26001	Alcona County	44.6847	-83.5942	1792
+MI	26003	Alger County	46.4075	-86.6082	2423
+MI	26005	Allegan County	42.5914	-85.888	2176
+MI	26007	Alpena County	45.0341	-83.6253	1548
+MI	26009	Antrim County	44.9996	-85.1407	1350
+MI	26011	Arenac County	44.0652	-83.8946	959
+MI	26013	Baraga County	46.6622	-88.3659	2372
+MI	26015	Barry County	42.595	-85.3085	1495
+MI	26017	Bay County	43.707	-83.9899	1177
+MI	26019	Benzie County	44.6388	-86.0161	897
+MI	26021	Berrien County	41.9553	-86.4141	1505
+MI	26023	Branch County	41.9159	-85.0593	1341
+MI	26025	Calhoun County	42.246	-85.006	1853
+MI	26027	Cass County	41.9152	-85.9953	1318
+MI	26029	Charlevoix County	45.2955	-85.1167	1155
+MI	26031	Cheboygan County	45.4464	-84.5007	2048
+MI	26033	Chippewa County	46.3016	-84.5634	4305
+MI	26035	Clare County	43.9879	-84.8482	1486
+MI	26037	Clinton County	42.944	-84.6026	1488
+MI	26039	Crawford County	44.6833	-84.6099	1448
+MI	26041	Delta County	45.9191	-86.9238	3095
+MI	26043	Dickinson County	46.0084	-87.8695	2003
+MI	26045	Eaton County	42.5961	-84.8379	1501
+MI	26047	Emmet County	45.5207	-84.8891	1243
+MI	26049	Genesee County	43.022	-83.7066	1674
+MI	26051	Gladwin County	43.9907	-84.3891	1333
+MI	26053	Gogebic County	46.4101	-89.6952	2965
+MI	26055	Grand Traverse County	44.6674	-85.5607	1259
+MI	26057	Gratiot County	43.2928	-84.6048	1478
+MI	26059	Hillsdale County	41.8875	-84.5938	1569
+MI	26061	Houghton County	46.8974	-88.6883	2691
+MI	26063	Huron County	43.8326	-83.0307	2221
+MI	26065	Ingham County	42.5971	-84.3739	1445
+MI	26067	Ionia County	42.9449	-85.0747	1488
+MI	26069	Iosco County	44.3555	-83.6362	1470
+MI	26071	Iron County	46.2089	-88.5297	3137
+MI	26073	Isabella County	43.6406	-84.8474	1502
+MI	26075	Jackson County	42.2482	-84.4235	1878
+MI	26077	Kalamazoo County	42.2452	-85.5309	1501
+MI	26079	Kalkaska County	44.6854	-85.0904	1483
+MI	26081	Kent County	43.0315	-85.5492	2258
+MI	26083	Keweenaw County	47.6249	-88.4349	1510
+MI	26085	Lake County	43.9907	-85.8025	1484
+MI	26087	Lapeer County	43.0902	-83.2223	1711
+MI	26089	Leelanau County	44.9316	-85.8065	956
+MI	26091	Lenawee County	41.8952	-84.0657	1981
+MI	26093	Livingston County	42.603	-83.9117	1524
+MI	26095	Luce County	46.4704	-85.5439	2401
+MI	26097	Mackinac County	46.0813	-85.0824	2805
+MI	26099	Macomb County	42.6946	-82.9315	1256
+MI	26101	Manistee County	44.333	-86.057	1444
+MI	26103	Marquette County	46.4313	-87.6407	4832
+MI	26105	Mason County	43.995	-86.2504	1312
+MI	26107	Mecosta County	43.6407	-85.3258	1479
+MI	26109	Menominee County	45.578	-87.5562	2715
+MI	26111	Midland County	43.6464	-84.3882	1364
+MI	26113	Missaukee County	44.3379	-85.0948	1481
+MI	26115	Monroe County	41.928	-83.5374	1451
+MI	26117	Montcalm County	43.3105	-85.1529	1865
+MI	26119	Montmorency County	45.0281	-84.1264	1454
+MI	26121	Muskegon County	43.2913	-86.1521	1364
+MI	26123	Newaygo County	43.554	-85.8015	2225
+MI	26125	Oakland County	42.6603	-83.385	2351
+MI	26127	Oceana County	43.6413	-86.2677	1414
+MI	26129	Ogemaw County	44.3346	-84.1279	1485
+MI	26131	Ontonagon County	46.6647	-89.3141	3433
+MI	26133	Osceola County	43.9899	-85.3258	1481
+MI	26135	Oscoda County	44.6818	-84.1298	1482
+MI	26137	Otsego County	45.0211	-84.5989	1368
+MI	26139	Ottawa County	42.9599	-85.9968	1494
+MI	26141	Presque Isle County	45.3414	-83.9173	1794
+MI	26143	Roscommon County	44.3354	-84.6126	1496
+MI	26145	Saginaw County	43.3352	-84.052	2111
+MI	26147	St. Clair County	42.9315	-82.6806	1946
+MI	26149	St. Joseph County	41.9142	-85.5284	1351
+MI	26151	Sanilac County	43.4238	-82.8202	2504
+MI	26153	Schoolcraft County	46.1962	-86.1992	3158
+MI	26155	Shiawassee County	42.9538	-84.1469	1404
+MI	26157	Tuscola County	43.4651	-83.4181	2105
+MI	26159	Van Buren County	42.2516	-86.0192	1616
+MI	26161	Washtenaw County	42.2535	-83.8381	1864
+MI	26163	Wayne County	42.2809	-83.2819	1646
+MI	26165	Wexford County	44.3384	-85.5782	1491
+MN	27001	Aitkin County	46.6076	-93.4155	5169
+MN	27003	Anoka County	45.2741	-93.2465	1154
+MN	27005	Becker County	46.9353	-95.6729	3735
+MN	27007	Beltrami County	47.9722	-94.9363	7881
+MN	27009	Benton County	45.6981	-93.9981	1063
+MN	27011	Big Stone County	45.4263	-96.4117	1370
+MN	27013	Blue Earth County	44.0348	-94.0672	1975
+MN	27015	Brown County	44.2428	-94.7284	1606
+MN	27017	Carlton County	46.5926	-92.6765	2252
+MN	27019	Carver County	44.8211	-93.8032	967
+MN	27021	Cass County	46.9486	-94.3268	6236
+MN	27023	Chippewa County	45.0221	-95.5668	1528
+MN	27025	Chisago County	45.5023	-92.907	1143
+MN	27027	Clay County	46.8915	-96.4905	2723
+MN	27029	Clearwater County	47.577	-95.379	2659
+MN	27031	Cook County	47.9034	-90.5327	4158
+MN	27033	Cottonwood County	44.0072	-95.1817	1673
+MN	27035	Crow Wing County	46.4827	-94.0716	2989
+MN	27037	Dakota County	44.6722	-93.0645	1526
+MN	27039	Dodge County	44.0224	-92.8618	1137
+MN	27041	Douglas County	45.9338	-95.4538	1845
+MN	27043	Faribault County	43.6738	-93.9464	1869
+MN	27045	Fillmore County	43.6742	-92.0893	2225
+MN	27047	Freeborn County	43.6737	-93.3489	1858
+MN	27049	Goodhue County	44.4098	-92.7221	2015
+MN	27051	Grant County	45.9342	-96.0114	1487
+MN	27053	Hennepin County	45.0051	-93.4765	1573
+MN	27055	Houston County	43.6717	-91.4924	1473
+MN	27057	Hubbard County	47.1085	-94.9158	2586
+MN	27059	Isanti County	45.5624	-93.2946	1170
+MN	27061	Itasca County	47.5097	-93.6309	7546
+MN	27063	Jackson County	43.6741	-95.1534	1871
+MN	27065	Kanabec County	45.9456	-93.2927	1372
+MN	27067	Kandiyohi County	45.1524	-95.006	2223
+MN	27069	Kittson County	48.7771	-96.7826	2838
+MN	27071	Koochiching County	48.2455	-93.7834	8167
+MN	27073	Lac qui Parle County	44.9959	-96.1737	2010
+MN	27075	Lake County	47.639	-91.4442	5888
+MN	27077	Lake of the Woods County	48.7702	-94.9041	4595
+MN	27079	Le Sueur County	44.3718	-93.7299	1226
+MN	27081	Lincoln County	44.4123	-96.2682	1419
+MN	27083	Lyon County	44.4135	-95.8391	1872
+MN	27085	McLeod County	44.8235	-94.2729	1308
+MN	27087	Mahnomen County	47.3256	-95.8091	1497
+MN	27089	Marshall County	48.3588	-96.3687	4683
+MN	27091	Martin County	43.6745	-94.5494	1884
+MN	27093	Meeker County	45.1231	-94.5297	1673
+MN	27095	Mille Lacs County	45.9369	-93.6303	1767
+MN	27097	Morrison County	46.0118	-94.2685	2989
+MN	27099	Mower County	43.6713	-92.7526	1849
+MN	27101	Murray County	44.0222	-95.7637	1856
+MN	27103	Nicollet County	44.3499	-94.2466	1210
+MN	27105	Nobles County	43.6747	-95.7531	1861
+MN	27107	Norman County	47.3265	-96.4553	2272
+MN	27109	Olmsted County	44.0037	-92.4012	1693
+MN	27111	Otter Tail County	46.4089	-95.7076	5762
+MN	27113	Pennington County	48.0667	-96.0352	1590
+MN	27115	Pine County	46.1204	-92.7419	3713
+MN	27117	Pipestone County	44.0233	-96.2588	1203
+MN	27119	Polk County	47.7747	-96.4001	5166
+MN	27121	Pope County	45.5863	-95.4444	1849
+MN	27123	Ramsey County	45.0178	-93.0993	435
+MN	27125	Red Lake County	47.8724	-96.096	1121
+MN	27127	Redwood County	44.4036	-95.2547	2274
+MN	27129	Renville County	44.7268	-94.9471	2550
+MN	27131	Rice County	44.3543	-93.2965	1335
+MN	27133	Rock County	43.6747	-96.2527	1255
+MN	27135	Roseau County	48.7754	-95.8112	4343
+MN	27137	St. Louis County	47.599	-92.469	17432
+MN	27139	Scott County	44.6485	-93.5384	964
+MN	27141	Sherburne County	45.4435	-93.7747	1168
+MN	27143	Sibley County	44.58	-94.2337	1538
+MN	27145	Stearns County	45.5524	-94.6135	3585
+MN	27147	Steele County	44.022	-93.2258	1117
+MN	27149	Stevens County	45.5862	-95.9995	1490
+MN	27151	Swift County	45.2833	-95.6828	1941
+MN	27153	Todd County	46.0695	-94.8985	2531
+MN	27155	Traverse County	45.7721	-96.472	1520
+MN	27157	Wabasha County	44.2841	-92.2308	1420
+MN	27159	Wadena County	46.5856	-94.9691	1393
+MN	27161	Waseca County	44.0219	-93.5876	1121
+MN	27163	Washington County	45.0395	-92.8842	1088
+MN	27165	Watonwan County	43.9784	-94.6141	1139
+MN	27167	Wilkin County	46.3561	-96.4696	1953
+MN	27169	Winona County	43.9868	-91.7785	1652
+MN	27171	Wright County	45.1732	-93.9653	1847
+MN	27173	Yellow Medicine County	44.7166	-95.8687	1965
+MS	28001	Adams County	31.4797	-91.3532	1269
+MS	28003	Alcorn County	34.8808	-88.5805	1040
+MS	28005	Amite County	31.1743	-90.8044	1888
+MS	28007	Attala County	33.0867	-89.5813	1906
+MS	28009	Benton County	34.8178	-89.1878	1064
+MS	28011	Bolivar County	33.7953	-90.8815	2363
+MS	28013	Calhoun County	33.9363	-89.3368	1524
+MS	28015	Carroll County	33.4482	-89.92	1641
+MS	28017	Chickasaw County	33.9207	-88.9477	1310
+MS	28019	Choctaw County	33.3472	-89.2482	1086
+MS	28021	Claiborne County	31.9742	-90.9115	1315
+MS	28023	Clarke County	32.0413	-88.6896	1793
+MS	28025	Clay County	33.6556	-88.7822	1081
+MS	28027	Coahoma County	34.2299	-90.6023	1507
+MS	28029	Copiah County	31.8698	-90.4494	2002
+MS	28031	Covington County	31.6332	-89.5537	1081
+MS	28033	DeSoto County	34.8762	-89.9905	1286
+MS	28035	Forrest County	31.1892	-89.258	1213
+MS	28037	Franklin County	31.4771	-90.8971	1471
+MS	28039	George County	30.8631	-88.6436	1250
+MS	28041	Greene County	31.2142	-88.6387	1862
+MS	28043	Grenada County	33.7699	-89.8008	1154
+MS	28045	Hancock County	30.4161	-89.4888	1258
+MS	28047	Harrison County	30.5052	-89.1127	1577
+MS	28049	Hinds County	32.2665	-90.4429	2270
+MS	28051	Holmes County	33.1231	-90.0916	1979
+MS	28053	Humphreys County	33.1274	-90.528	1115
+MS	28055	Issaquena County	32.7388	-90.9885	1159
+MS	28057	Itawamba County	34.2802	-88.361	1395
+MS	28059	Jackson County	30.5364	-88.6362	1982
+MS	28061	Jasper County	32.0189	-89.1186	1756
+MS	28063	Jefferson County	31.7337	-91.0367	1367
+MS	28065	Jefferson Davis County	31.5694	-89.8239	1056
+MS	28067	Jones County	31.6225	-89.17	1811
+MS	28069	Kemper County	32.7548	-88.6413	1995
+MS	28071	Lafayette County	34.3567	-89.4845	1754
+MS	28073	Lamar County	31.2053	-89.5095	1308
+MS	28075	Lauderdale County	32.4046	-88.6621	1853
+MS	28077	Lawrence County	31.5498	-90.1068	1127
+MS	28079	Leake County	32.754	-89.5242	1521
+MS	28081	Lee County	34.2905	-88.6804	1181
+MS	28083	Leflore County	33.5494	-90.3012	1588
+MS	28085	Lincoln County	31.5334	-90.4529	1529
+MS	28087	Lowndes County	33.4735	-88.4431	1340
+MS	28089	Madison County	32.6341	-90.0326	1916
+MS	28091	Marion County	31.2306	-89.8226	1411
+MS	28093	Marshall County	34.7617	-89.5032	1840
+MS	28095	Monroe County	33.8921	-88.4803	1992
+MS	28097	Montgomery County	33.4943	-89.6163	1058
+MS	28099	Neshoba County	32.7533	-89.118	1476
+MS	28101	Newton County	32.4	-89.118	1502
+MS	28103	Noxubee County	33.1103	-88.5698	1804
+MS	28105	Oktibbeha County	33.4248	-88.8792	1195
+MS	28107	Panola County	34.3639	-89.9501	1830
+MS	28109	Pearl River County	30.7682	-89.5896	2125
+MS	28111	Perry County	31.1714	-88.9924	1693
+MS	28113	Pike County	31.1746	-90.4047	1070
+MS	28115	Pontotoc County	34.2252	-89.0371	1298
+MS	28117	Prentiss County	34.618	-88.5197	1089
+MS	28119	Quitman County	34.2514	-90.2897	1055
+MS	28121	Rankin County	32.2634	-89.9465	2085
+MS	28123	Scott County	32.406	-89.5374	1591
+MS	28125	Sharkey County	32.8803	-90.8136	1134
+MS	28127	Simpson County	31.9132	-89.9209	1534
+MS	28129	Smith County	32.0176	-89.5069	1652
+MS	28131	Stone County	30.79	-89.1164	1159
+MS	28133	Sunflower County	33.6013	-90.5895	1837
+MS	28135	Tallahatchie County	33.9508	-90.1722	1700
+MS	28137	Tate County	34.6507	-89.9454	1063
+MS	28139	Tippah County	34.7681	-88.9086	1183
+MS	28141	Tishomingo County	34.7405	-88.2394	1145
+MS	28143	Tunica County	34.6522	-90.3747	1253
+MS	28145	Union County	34.4906	-89.0052	1077
+MS	28147	Walthall County	31.149	-90.1057	1051
+MS	28149	Warren County	32.3572	-90.848	1588
+MS	28151	Washington County	33.2832	-90.9493	1975
+MS	28153	Wayne County	31.6407	-88.6966	2114
+MS	28155	Webster County	33.6133	-89.2854	1097
+MS	28157	Wilkinson County	31.1598	-91.3113	1784
+MS	28159	Winston County	33.0888	-89.0338	1586
+MS	28161	Yalobusha County	34.0285	-89.707	1279
+MS	28163	Yazoo County	32.7805	-90.3954	2421
+MO	29001	Adair County	40.1906	-92.6011	1481
+MO	29003	Andrew County	39.9835	-94.8002	1126
+MO	29005	Atchison County	40.4313	-95.4285	1426
+MO	29007	Audrain County	39.2159	-91.8424	1801
+MO	29009	Barry County	36.71	-93.8296	2046
+MO	29011	Barton County	37.5021	-94.3461	1534
+MO	29013	Bates County	38.2568	-94.3392	2205
+MO	29015	Benton County	38.295	-93.2877	1937
+MO	29017	Bollinger County	37.3216	-90.0259	1615
+MO	29019	Boone County	38.9898	-92.3092	1795
+MO	29021	Buchanan County	39.6596	-94.8052	1075
+MO	29023	Butler County	36.7157	-90.4059	1809
+MO	29025	Caldwell County	39.6564	-93.9826	1115
+MO	29027	Callaway County	38.8358	-91.9253	2188
+MO	29029	Camden County	38.0267	-92.7653	1835
+MO	29031	Cape Girardeau County	37.3836	-89.6851	1517
+MO	29033	Carroll County	39.4275	-93.5041	1808
+MO	29035	Carter County	36.941	-90.9613	1330
+MO	29037	Cass County	38.6472	-94.3543	1819
+MO	29039	Cedar County	37.7237	-93.8571	1297
+MO	29041	Chariton County	39.515	-92.9618	1987
+MO	29043	Christian County	36.9694	-93.1888	1454
+MO	29045	Clark County	40.4098	-91.7389	1316
+MO	29047	Clay County	39.3112	-94.4215	1057
+MO	29049	Clinton County	39.6013	-94.4042	1093
+MO	29051	Cole County	38.505	-92.2803	1035
+MO	29053	Cooper County	38.8435	-92.81	1475
+MO	29055	Crawford County	37.9762	-91.3039	1929
+MO	29057	Dade County	37.4318	-93.8497	1307
+MO	29059	Dallas County	37.6801	-93.0239	1404
+MO	29061	Daviess County	39.9613	-93.9851	1473
+MO	29063	DeKalb County	39.8929	-94.4043	1101
+MO	29065	Dent County	37.6069	-91.5079	1951
+MO	29067	Douglas County	36.9329	-92.4997	2111
+MO	29069	Dunklin County	36.2715	-90.0903	1420
+MO	29071	Franklin County	38.4106	-91.0751	2410
+MO	29073	Gasconade County	38.442	-91.5078	1362
+MO	29075	Gentry County	40.2117	-94.4093	1267
+MO	29077	Greene County	37.258	-93.3413	1755
+MO	29079	Grundy County	40.1144	-93.5646	1137
+MO	29081	Harrison County	40.3547	-93.9919	1876
+MO	29083	Henry County	38.3852	-93.792	1896
+MO	29085	Hickory County	37.9415	-93.3205	1069
+MO	29087	Holt County	40.0937	-95.2136	1222
+MO	29089	Howard County	39.1426	-92.6968	1226
+MO	29091	Howell County	36.7745	-91.8872	2405
+MO	29093	Iron County	37.554	-90.7728	1423
+MO	29095	Jackson County	39.0089	-94.3475	1599
+MO	29097	Jasper County	37.2035	-94.3401	1665
+MO	29099	Jefferson County	38.262	-90.5364	1717
+MO	29101	Johnson County	38.7441	-93.8063	2155
+MO	29103	Knox County	40.1271	-92.1478	1308
+MO	29105	Laclede County	37.6587	-92.5908	1984
+MO	29107	Lafayette County	39.0657	-93.7855	1660
+MO	29109	Lawrence County	37.1066	-93.8326	1591
+MO	29111	Lewis County	40.0968	-91.7216	1326
+MO	29113	Lincoln County	39.0572	-90.9597	1665
+MO	29115	Linn County	39.8702	-93.1065	1608
+MO	29117	Livingston County	39.7818	-93.5478	1393
+MO	29119	McDonald County	36.629	-94.3489	1403
+MO	29121	Macon County	39.8306	-92.564	2097
+MO	29123	Madison County	37.4787	-90.3451	1291
+MO	29125	Maries County	38.1615	-91.9244	1383
+MO	29127	Marion County	39.806	-91.6228	1151
+MO	29129	Mercer County	40.4231	-93.5684	1179
+MO	29131	Miller County	38.2141	-92.4281	1549
+MO	29133	Mississippi County	36.8275	-89.2907	1109
+MO	29135	Moniteau County	38.6323	-92.583	1081
+MO	29137	Monroe County	39.4959	-92.0019	1734
+MO	29139	Montgomery County	38.9419	-91.4694	1394
+MO	29141	Morgan County	38.4243	-92.8855	1599
+MO	29143	New Madrid County	36.5965	-89.6507	1796
+MO	29145	Newton County	36.9056	-94.3405	1620
+MO	29147	Nodaway County	40.3606	-94.8831	2276
+MO	29149	Oregon County	36.6864	-91.4037	2055
+MO	29151	Osage County	38.4603	-91.8611	1584
+MO	29153	Ozark County	36.6497	-92.4448	1946
+MO	29155	Pemiscot County	36.2119	-89.785	1335
+MO	29157	Perry County	37.7077	-89.8246	1258
+MO	29159	Pettis County	38.7279	-93.2857	1772
+MO	29161	Phelps County	37.8766	-91.7924	1733
+MO	29163	Pike County	39.3442	-91.173	1773
+MO	29165	Platte County	39.3799	-94.7734	1102
+MO	29167	Polk County	37.6167	-93.4003	1663
+MO	29169	Pulaski County	37.8241	-92.2068	1431
+MO	29171	Putnam County	40.4787	-93.0156	1347
+MO	29173	Ralls County	39.5271	-91.5232	1255
+MO	29175	Randolph County	39.4401	-92.497	1256
+MO	29177	Ray County	39.3526	-93.9899	1489
+MO	29179	Reynolds County	37.3628	-90.9687	2108
+MO	29181	Ripley County	36.6526	-90.8634	1629
+MO	29183	St. Charles County	38.7821	-90.6742	1518
+MO	29185	St. Clair County	38.0372	-93.7761	1820
+MO	29186	Ste. Genevieve County	37.8952	-90.1947	1326
+MO	29187	St. Francois County	37.8116	-90.4736	1173
+MO	29189	St. Louis County	38.6409	-90.4457	1355
+MO	29195	Saline County	39.1365	-93.2035	1981
+MO	29197	Schuyler County	40.47	-92.5201	792
+MO	29199	Scotland County	40.4523	-92.1469	1143
+MO	29201	Scott County	37.0534	-89.5677	1101
+MO	29203	Shannon County	37.1576	-91.3996	2599
+MO	29205	Shelby County	39.7975	-92.0769	1291
+MO	29207	Stoddard County	36.855	-89.9439	2145
+MO	29209	Stone County	36.747	-93.4566	1326
+MO	29211	Sullivan County	40.2101	-93.1114	1677
+MO	29213	Taney County	36.6546	-93.0408	1691
+MO	29215	Texas County	37.3167	-91.965	3060
+MO	29217	Vernon County	37.8495	-94.3431	2161
+MO	29219	Warren County	38.7641	-91.1597	1132
+MO	29221	Washington County	37.9611	-90.8768	1975
+MO	29223	Wayne County	37.1127	-90.4609	2000
+MO	29225	Webster County	37.2806	-92.8757	1537
+MO	29227	Worth County	40.4788	-94.4219	693
+MO	29229	Wright County	37.2711	-92.4693	1767
+MO	29510	St. Louis city	38.6356	-90.2458	172
+MT	30001	Beaverhead County	45.131	-112.8937	14365
+MT	30003	Big Horn County	45.4234	-107.4884	12950
+MT	30005	Blaine County	48.4302	-108.9594	10963
+MT	30007	Broadwater County	46.331	-111.496	3209
+MT	30009	Carbon County	45.2277	-109.0267	5338
+MT	30011	Carter County	45.5158	-104.5367	8664
+MT	30013	Cascade County	47.3077	-111.3459	7021
+MT	30015	Chouteau County	47.8808	-110.4357	10324
+MT	30017	Custer County	46.2519	-105.571	9795
+MT	30019	Daniels County	48.7843	-105.5494	3682
+MT	30021	Dawson County	47.2655	-104.8985	6148
+MT	30023	Deer Lodge County	46.0596	-113.069	1904
+MT	30025	Fallon County	46.3348	-104.4174	4192
+MT	30027	Fergus County	47.2629	-109.224	11231
+MT	30029	Flathead County	48.2942	-114.0453	13569
+MT	30031	Gallatin County	45.536	-111.1703	6801
+MT	30033	Garfield County	47.2778	-106.9941	12535
+MT	30035	Glacier County	48.7056	-112.9928	7831
+MT	30037	Golden Valley County	46.3806	-109.1759	3036
+MT	30039	Granite County	46.4031	-113.4405	4482
+MT	30041	Hill County	48.6279	-110.1092	7515
+MT	30043	Jefferson County	46.1489	-112.0938	4288
+MT	30045	Judith Basin County	47.0452	-110.2645	4828
+MT	30047	Lake County	47.6459	-114.0882	4292
+MT	30049	Lewis and Clark County	47.1208	-112.3874	8997
+MT	30051	Liberty County	48.5618	-111.0234	3755
+MT	30053	Lincoln County	48.5408	-115.4043	9499
+MT	30055	McCone County	47.6445	-105.795	6937
+MT	30057	Madison County	45.3	-111.9205	9318
+MT	30059	Meagher County	46.598	-110.8855	6195
+MT	30061	Mineral County	47.1465	-114.9962	3172
+MT	30063	Missoula County	47.0359	-113.9245	6766
+MT	30065	Musselshell County	46.4966	-108.399	4836
+MT	30067	Park County	45.4868	-110.5257	7250
+MT	30069	Petroleum County	47.1181	-108.251	4323
+MT	30071	Phillips County	48.2574	-107.9148	13425
+MT	30073	Pondera County	48.2287	-112.2272	4246
+MT	30075	Powder River County	45.3947	-105.631	8507
+MT	30077	Powell County	46.8538	-112.9329	6024
+MT	30079	Prairie County	46.8606	-105.3768	4502
+MT	30081	Ravalli County	46.0809	-114.1203	6216
+MT	30083	Richland County	47.7879	-104.5622	5422
+MT	30085	Roosevelt County	48.2955	-105.0148	6120
+MT	30087	Rosebud County	46.2271	-106.7277	12987
+MT	30089	Sanders County	47.675	-115.1307	7197
+MT	30091	Sheridan County	48.7211	-104.5047	4405
+MT	30093	Silver Bow County	45.9031	-112.6545	1863
+MT	30095	Stillwater County	45.6687	-109.3968	4663
+MT	30097	Sweet Grass County	45.8131	-109.9419	4823
+MT	30099	Teton County	47.8372	-112.2403	5908
+MT	30101	Toole County	48.6545	-111.695	5024
+MT	30103	Treasure County	46.2118	-107.2707	2548
+MT	30105	Valley County	48.3639	-106.6693	13062
+MT	30107	Wheatland County	46.4661	-109.845	3685
+MT	30109	Wibaux County	46.966	-104.2489	2301
+MT	30111	Yellowstone County	45.9367	-108.2755	6848
+NE	31001	Adams County	40.5244	-98.5013	1467
+NE	31003	Antelope County	42.1764	-98.0667	2215
+NE	31005	Arthur County	41.5692	-101.6958	1860
+NE	31007	Banner County	41.5467	-103.7114	1923
+NE	31009	Blaine County	41.9128	-99.9774	1851
+NE	31011	Boone County	41.7062	-98.0664	1785
+NE	31013	Box Butte County	42.22	-103.0866	2797
+NE	31015	Boyd County	42.9	-98.7641	1420
+NE	31017	Brown County	42.4293	-99.9291	3167
+NE	31019	Buffalo County	40.8552	-99.0747	2518
+NE	31021	Burt County	41.8511	-96.3287	1278
+NE	31023	Butler County	41.225	-97.1334	1522
+NE	31025	Cass County	40.9086	-96.1425	1447
+NE	31027	Cedar County	42.5986	-97.2524	1916
+NE	31029	Chase County	40.5242	-101.6987	2318
+NE	31031	Cherry County	42.5452	-101.1181	15528
+NE	31033	Cheyenne County	41.2198	-102.9946	3103
+NE	31035	Clay County	40.5244	-98.0508	1479
+NE	31037	Colfax County	41.573	-97.0868	1090
+NE	31039	Cuming County	41.9162	-96.7873	1493
+NE	31041	Custer County	41.3937	-99.7262	6648
+NE	31043	Dakota County	42.3906	-96.5649	687
+NE	31045	Dawes County	42.7201	-103.1362	3618
+NE	31047	Dawson County	40.8703	-99.8195	2641
+NE	31049	Deuel County	41.1121	-102.3323	1136
+NE	31051	Dixon County	42.4942	-96.8676	1260
+NE	31053	Dodge County	41.5769	-96.6539	1409
+NE	31055	Douglas County	41.2948	-96.1566	866
+NE	31057	Dundy County	40.1766	-101.6881	2393
+NE	31059	Fillmore County	40.5248	-97.5968	1491
+NE	31061	Franklin County	40.1765	-98.9518	1490
+NE	31063	Frontier County	40.5302	-100.3943	2537
+NE	31065	Furnas County	40.1765	-99.912	1872
+NE	31067	Gage County	40.2617	-96.6903	2224
+NE	31069	Garden County	41.6189	-102.3354	4472
+NE	31071	Garfield County	41.9144	-98.9902	1475
+NE	31073	Gosper County	40.5145	-99.8302	1199
+NE	31075	Grant County	41.9157	-101.7401	2031
+NE	31077	Greeley County	41.5675	-98.5209	1473
+NE	31079	Hall County	40.8723	-98.5034	1423
+NE	31081	Hamilton County	40.8738	-98.0224	1421
+NE	31083	Harlan County	40.1767	-99.4031	1484
+NE	31085	Hayes County	40.5246	-101.0616	1848
+NE	31087	Hitchcock County	40.1764	-101.0417	1855
+NE	31089	Holt County	42.4551	-98.7841	6249
+NE	31091	Hooker County	41.9161	-101.1352	1855
+NE	31093	Howard County	41.2202	-98.5166	1479
+NE	31095	Jefferson County	40.1761	-97.1427	1490
+NE	31097	Johnson County	40.3928	-96.265	978
+NE	31099	Kearney County	40.5069	-98.948	1324
+NE	31101	Keith County	41.1993	-101.6617	2864
+NE	31103	Keya Paha County	42.8791	-99.7115	2011
+NE	31105	Kimball County	41.1979	-103.7147	2462
+NE	31107	Knox County	42.637	-97.8917	2961
+NE	31109	Lancaster County	40.7836	-96.6875	2182
+NE	31111	Lincoln County	41.0476	-100.7455	6661
+NE	31113	Logan County	41.5667	-100.4817	1477
+NE	31115	Loup County	41.9137	-99.4541	1488
+NE	31117	McPherson County	41.5684	-101.0599	2232
+NE	31119	Madison County	41.917	-97.6007	1483
+NE	31121	Merrick County	41.168	-98.0413	1283
+NE	31123	Morrill County	41.7158	-103.0109	3699
+NE	31125	Nance County	41.3968	-97.9928	1158
+NE	31127	Nemaha County	40.3868	-95.8504	1053
+NE	31129	Nuckolls County	40.1764	-98.047	1487
+NE	31131	Otoe County	40.6486	-96.1354	1600
+NE	31133	Pawnee County	40.1316	-96.2373	1124
+NE	31135	Perkins County	40.8513	-101.6508	2301
+NE	31137	Phelps County	40.5117	-99.4132	1402
+NE	31139	Pierce County	42.2643	-97.6022	1484
+NE	31141	Platte County	41.5719	-97.5215	1761
+NE	31143	Polk County	41.1876	-97.5691	1143
+NE	31145	Red Willow County	40.1756	-100.477	1852
+NE	31147	Richardson County	40.1252	-95.7181	1435
+NE	31149	Rock County	42.4207	-99.45	2605
+NE	31151	Saline County	40.5246	-97.1414	1488
+NE	31153	Sarpy County	41.1121	-96.1109	645
+NE	31155	Saunders County	41.2251	-96.6367	1969
+NE	31157	Scotts Bluff County	41.8512	-103.7078	1929
+NE	31159	Seward County	40.8723	-97.1391	1494
+NE	31161	Sheridan County	42.5036	-102.409	6397
+NE	31163	Sherman County	41.2203	-98.9751	1483
+NE	31165	Sioux County	42.4871	-103.7588	5324
+NE	31167	Stanton County	41.917	-97.1949	1113
+NE	31169	Thayer County	40.1765	-97.595	1490
+NE	31171	Thomas County	41.9136	-100.5563	1845
+NE	31173	Thurston County	42.1575	-96.5439	1025
+NE	31175	Valley County	41.5673	-98.9823	1487
+NE	31177	Washington County	41.5309	-96.2215	1025
+NE	31179	Wayne County	42.2095	-97.1195	1149
+NE	31181	Webster County	40.1763	-98.4997	1488
+NE	31183	Wheeler County	41.915	-98.5273	1488
+NE	31185	York County	40.8728	-97.5968	1483
+NV	32001	Churchill County	39.5816	-118.3367	12993
+NV	32003	Clark County	36.2135	-115.0146	20877
+NV	32005	Douglas County	38.9116	-119.6161	1912
+NV	32007	Elko County	41.1444	-115.3543	44457
+NV	32009	Esmeralda County	37.784	-117.6305	9301
+NV	32011	Eureka County	39.9799	-116.2686	10842
+NV	32013	Humboldt County	41.4066	-118.11	25008
+NV	32015	Lander County	39.9302	-117.0409	14262
+NV	32017	Lincoln County	37.6418	-114.8784	27504
+NV	32019	Lyon County	39.0208	-119.1891	5241
+NV	32021	Mineral County	38.5384	-118.4352	9877
+NV	32023	Nye County	38.0359	-116.4694	47117
+NV	32027	Pershing County	40.4411	-118.4046	15672
+NV	32029	Storey County	39.4468	-119.5296	679
+NV	32031	Washoe County	40.6565	-119.6645	16909
+NV	32033	White Pine County	39.4415	-114.901	23023
+NV	32510	Carson City	39.1513	-119.7477	405
+NH	33001	Belknap County	43.5181	-71.4223	1217
+NH	33003	Carroll County	43.8738	-71.2024	2562
+NH	33005	Cheshire County	42.919	-72.2505	1876
+NH	33007	Coos County	44.6871	-71.307	4740
+NH	33009	Grafton County	43.9405	-71.8211	4525
+NH	33011	Hillsborough County	42.9154	-71.7162	2302
+NH	33013	Merrimack County	43.2966	-71.6794	2468
+NH	33015	Rockingham County	42.9871	-71.1246	1890
+NH	33017	Strafford County	43.298	-71.0291	983
+NH	33019	Sullivan County	43.3624	-72.2213	1435
+NJ	34001	Atlantic County	39.4779	-74.662	1563
+NJ	34003	Bergen County	40.9597	-74.0745	632
+NJ	34005	Burlington County	39.8769	-74.6667	2124
+NJ	34007	Camden County	39.8042	-74.9589	591
+NJ	34009	Cape May County	39.1493	-74.8003	745
+NJ	34011	Cumberland County	39.372	-75.1092	1308
+NJ	34013	Essex County	40.7855	-74.2455	339
+NJ	34015	Gloucester County	39.7172	-75.1412	871
+NJ	34017	Hudson County	40.7372	-74.0749	148
+NJ	34019	Hunterdon County	40.5661	-74.9128	1129
+NJ	34021	Mercer County	40.2837	-74.7031	593
+NJ	34023	Middlesex County	40.4408	-74.4099	827
+NJ	34025	Monmouth County	40.2599	-74.223	1258
+NJ	34027	Morris County	40.8623	-74.5454	1248
+NJ	34029	Ocean County	39.8851	-74.2814	1960
+NJ	34031	Passaic County	41.0356	-74.3013	507
+NJ	34033	Salem County	39.5872	-75.3486	898
+NJ	34035	Somerset County	40.5642	-74.6161	790
+NJ	34037	Sussex County	41.1389	-74.6905	1384
+NJ	34039	Union County	40.6607	-74.3092	274
+NJ	34041	Warren County	40.8552	-74.9978	931
+NM	35001	Bernalillo County	35.0515	-106.6711	3021
+NM	35003	Catron County	33.9143	-108.4052	17975
+NM	35005	Chaves County	33.3622	-104.4688	15750
+NM	35006	Cibola County	34.9135	-107.9995	11758
+NM	35007	Colfax County	36.6062	-104.6478	9758
+NM	35009	Curry County	34.574	-103.3477	3648
+NM	35011	De Baca County	34.3425	-104.4117	6049
+NM	35013	Dona Ana County	32.3519	-106.8335	9882
+NM	35015	Eddy County	32.4708	-104.3043	10888
+NM	35017	Grant County	32.7379	-108.3825	10285
+NM	35019	Guadalupe County	34.8632	-104.7904	7856
+NM	35021	Harding County	35.8584	-103.8212	5507
+NM	35023	Hidalgo County	31.9133	-108.7139	8926
+NM	35025	Lea County	32.7903	-103.4125	11376
+NM	35027	Lincoln County	33.7451	-105.4593	12512
+NM	35028	Los Alamos County	35.8704	-106.3059	283
+NM	35029	Luna County	32.1823	-107.7496	7685
+NM	35031	McKinley County	35.5813	-108.262	14127
+NM	35033	Mora County	36.0112	-104.9469	4990
+NM	35035	Otero County	32.6127	-105.7417	17185
+NM	35037	Quay County	35.1048	-103.5502	7457
+NM	35039	Rio Arriba County	36.5101	-106.693	15280
+NM	35041	Roosevelt County	34.0206	-103.4789	6353
+NM	35043	Sandoval County	35.688	-106.8643	9609
+NM	35045	San Juan County	36.5083	-108.3208	14319
+NM	35047	San Miguel County	35.4816	-104.8157	12289
+NM	35049	Santa Fe County	35.5055	-105.9766	4945
+NM	35051	Sierra County	33.1311	-107.193	10971
+NM	35053	Socorro County	34.007	-106.93	17216
+NM	35055	Taos County	36.5775	-105.6313	5699
+NM	35057	Torrance County	34.6405	-105.8508	8673
+NM	35059	Union County	36.4809	-103.4701	9944
+NM	35061	Valencia County	34.7154	-106.809	2767
+NY	36001	Albany County	42.6003	-73.9731	1382
+NY	36003	Allegany County	42.2576	-78.0276	2686
+NY	36005	Bronx County	40.8517	-73.8581	132
+NY	36007	Broome County	42.1598	-75.8195	1851
+NY	36009	Cattaraugus County	42.248	-78.6788	3407
+NY	36011	Cayuga County	42.9179	-76.5536	1899
+NY	36013	Chautauqua County	42.2285	-79.3668	2808
+NY	36015	Chemung County	42.1404	-76.7587	1064
+NY	36017	Chenango County	42.4926	-75.6121	2317
+NY	36019	Clinton County	44.7456	-73.6781	2887
+NY	36021	Columbia County	42.2498	-73.6326	1684
+NY	36023	Cortland County	42.5949	-76.07	1297
+NY	36025	Delaware County	42.1977	-74.967	3795
+NY	36027	Dutchess County	41.7639	-73.7424	2138
+NY	36029	Erie County	42.763	-78.7319	2718
+NY	36031	Essex County	44.1163	-73.7733	4958
+NY	36033	Franklin County	44.5912	-74.3037	4382
+NY	36035	Fulton County	43.1136	-74.42	1373
+NY	36037	Genesee County	43.0011	-78.1939	1278
+NY	36039	Greene County	42.2771	-74.1243	1697
+NY	36041	Hamilton County	43.6599	-74.4969	4667
+NY	36043	Herkimer County	43.4184	-74.9626	3781
+NY	36045	Jefferson County	44.0484	-75.9302	3594
+NY	36047	Kings County	40.6407	-73.94	209
+NY	36049	Lewis County	43.7841	-75.4499	3340
+NY	36051	Livingston County	42.7283	-77.7753	1650
+NY	36053	Madison County	42.9132	-75.6719	1715
+NY	36055	Monroe County	43.1462	-77.6956	1712
+NY	36057	Montgomery County	42.9028	-74.441	1067
+NY	36059	Nassau County	40.7383	-73.5861	849
+NY	36061	New York County	40.7749	-73.9695	92
+NY	36063	Niagara County	43.1998	-78.7452	1378
+NY	36065	Oneida County	43.2411	-75.436	3251
+NY	36067	Onondaga County	43.0064	-76.1942	2081
+NY	36069	Ontario County	42.8525	-77.3009	1722
+NY	36071	Orange County	41.4016	-74.3074	2169
+NY	36073	Orleans County	43.2519	-78.2312	1016
+NY	36075	Oswego County	43.428	-76.1427	2621
+NY	36077	Otsego County	42.6341	-75.0337	2634
+NY	36079	Putnam County	41.4255	-73.7504	636
+NY	36081	Queens County	40.7023	-73.8218	333
+NY	36083	Rensselaer County	42.7105	-73.5078	1711
+NY	36085	Richmond County	40.5854	-74.1522	161
+NY	36087	Rockland County	41.1529	-74.0239	522
+NY	36089	St. Lawrence County	44.4957	-75.0688	7277
+NY	36091	Saratoga County	43.1066	-73.8625	2193
+NY	36093	Schenectady County	42.8169	-74.0592	541
+NY	36095	Schoharie County	42.5872	-74.4432	1616
+NY	36097	Schuyler County	42.3927	-76.876	883
+NY	36099	Seneca County	42.7805	-76.8227	1013
+NY	36101	Steuben County	42.2676	-77.3832	3632
+NY	36103	Suffolk County	40.8698	-72.8472	2992
+NY	36105	Sullivan County	41.7167	-74.7681	2569
+NY	36107	Tioga County	42.1705	-76.3059	1343
+NY	36109	Tompkins County	42.4523	-76.4731	1276
+NY	36111	Ulster County	41.8881	-74.2579	3015
+NY	36113	Warren County	43.5612	-73.8463	2405
+NY	36115	Washington County	43.311	-73.4312	2173
+NY	36117	Wayne County	43.156	-77.0288	1585
+NY	36119	Westchester County	41.1607	-73.7551	1238
+NY	36121	Wyoming County	42.7023	-78.2244	1548
+NY	36123	Yates County	42.6333	-77.1034	969
+NC	37001	Alamance County	36.0436	-79.3987	1122
+NC	37003	Alexander County	35.9228	-81.1764	679
+NC	37005	Alleghany County	36.4923	-81.1263	611
+NC	37007	Anson County	34.9735	-80.1034	1378
+NC	37009	Ashe County	36.4346	-81.5006	1113
+NC	37011	Avery County	36.076	-81.9216	639
+NC	37013	Beaufort County	35.4939	-76.8588	2236
+NC	37015	Bertie County	36.0656	-76.9758	1847
+NC	37017	Bladen County	34.6154	-78.5629	2301
+NC	37019	Brunswick County	34.0704	-78.2381	2312
+NC	37021	Buncombe County	35.6119	-82.5315	1713
+NC	37023	Burke County	35.7501	-81.7042	1335
+NC	37025	Cabarrus County	35.3869	-80.5496	939
+NC	37027	Caldwell County	35.9535	-81.5446	1233
+NC	37029	Camden County	36.3873	-76.2059	640
+NC	37031	Carteret County	34.8268	-76.655	1706
+NC	37033	Caswell County	36.3931	-79.3326	1104
+NC	37035	Catawba County	35.6623	-81.2141	1082
+NC	37037	Chatham County	35.7028	-79.2559	1822
+NC	37039	Cherokee County	35.133	-84.0639	1202
+NC	37041	Chowan County	36.1507	-76.6075	470
+NC	37043	Clay County	35.0569	-83.7494	568
+NC	37045	Cleveland County	35.3325	-81.5551	1207
+NC	37047	Columbus County	34.2659	-78.6556	2477
+NC	37049	Craven County	35.1244	-77.0918	1931
+NC	37051	Cumberland County	35.0494	-78.8275	1731
+NC	37053	Currituck County	36.4069	-76.0068	762
+NC	37055	Dare County	35.762	-75.7838	1179
+NC	37057	Davidson County	35.7938	-80.2124	1467
+NC	37059	Davie County	35.9297	-80.5435	701
+NC	37061	Duplin County	34.9356	-77.933	2128
+NC	37063	Durham County	36.0364	-78.8759	774
+NC	37065	Edgecombe County	35.9132	-77.5962	1323
+NC	37067	Forsyth County	36.132	-80.2556	1061
+NC	37069	Franklin County	36.0825	-78.2845	1298
+NC	37071	Gaston County	35.2942	-81.1809	934
+NC	37073	Gates County	36.4456	-76.7002	895
+NC	37075	Graham County	35.3496	-83.8344	793
+NC	37077	Granville County	36.304	-78.652	1390
+NC	37079	Greene County	35.4845	-77.6761	685
+NC	37081	Guilford County	36.0797	-79.7887	1708
+NC	37083	Halifax County	36.2565	-77.6504	1876
+NC	37085	Harnett County	35.3698	-78.869	1554
+NC	37087	Haywood County	35.5561	-82.9824	1432
+NC	37089	Henderson County	35.3364	-82.4802	966
+NC	37091	Hertford County	36.3591	-76.9807	933
+NC	37093	Hoke County	35.0175	-79.2378	1013
+NC	37095	Hyde County	35.5187	-76.2448	1954
+NC	37097	Iredell County	35.8084	-80.8735	1539
+NC	37099	Jackson County	35.2885	-83.1422	1287
+NC	37101	Johnston County	35.5183	-78.3651	2057
+NC	37103	Jones County	35.0208	-77.3547	1231
+NC	37105	Lee County	35.4753	-79.1731	678
+NC	37107	Lenoir County	35.2383	-77.6428	1038
+NC	37109	Lincoln County	35.4857	-81.2228	806
+NC	37111	McDowell County	35.6816	-82.0498	1163
+NC	37113	Macon County	35.1499	-83.422	1346
+NC	37115	Madison County	35.8574	-82.7062	1154
+NC	37117	Martin County	35.8428	-77.1084	1175
+NC	37119	Mecklenburg County	35.2473	-80.8322	1419
+NC	37121	Mitchell County	36.017	-82.164	571
+NC	37123	Montgomery County	35.3324	-79.9067	1303
+NC	37125	Moore County	35.3113	-79.4819	1816
+NC	37127	Nash County	35.9688	-77.9849	1395
+NC	37129	New Hanover County	34.2338	-77.8852	575
+NC	37131	Northampton County	36.4176	-77.3977	1432
+NC	37133	Onslow County	34.7291	-77.4265	2124
+NC	37135	Orange County	36.061	-79.1205	1039
+NC	37137	Pamlico County	35.1469	-76.7292	1008
+NC	37139	Pasquotank County	36.295	-76.2834	601
+NC	37141	Pender County	34.5243	-77.9056	2289
+NC	37143	Perquimans County	36.2043	-76.4406	658
+NC	37145	Person County	36.39	-78.9714	1049
+NC	37147	Pitt County	35.593	-77.3755	1701
+NC	37149	Polk County	35.2786	-82.1697	614
+NC	37151	Randolph County	35.7103	-79.8056	2051
+NC	37153	Richmond County	35.0061	-79.7474	1262
+NC	37155	Robeson County	34.6399	-79.1045	2459
+NC	37157	Rockingham County	36.3961	-79.7748	1489
+NC	37159	Rowan County	35.6394	-80.525	1357
+NC	37161	Rutherford County	35.4028	-81.9206	1479
+NC	37163	Sampson County	34.9922	-78.3709	2435
+NC	37165	Scotland County	34.841	-79.4806	824
+NC	37167	Stanly County	35.3109	-80.2526	1050
+NC	37169	Stokes County	36.402	-80.2402	1177
+NC	37171	Surry County	36.414	-80.6877	1391
+NC	37173	Swain County	35.4877	-83.4924	1394
+NC	37175	Transylvania County	35.2024	-82.7969	997
+NC	37177	Tyrrell County	35.8178	-76.2082	1078
+NC	37179	Union County	34.988	-80.5306	1654
+NC	37181	Vance County	36.3657	-78.4079	694
+NC	37183	Wake County	35.7898	-78.6522	2217
+NC	37185	Warren County	36.3978	-78.1053	1147
+NC	37187	Washington County	35.8225	-76.5778	978
+NC	37189	Watauga County	36.2307	-81.6961	803
+NC	37191	Wayne County	35.3637	-78.004	1449
+NC	37193	Wilkes County	36.2074	-81.1629	1957
+NC	37195	Wilson County	35.7057	-77.9193	974
+NC	37197	Yadkin County	36.1594	-80.6658	866
+NC	37199	Yancey County	35.8985	-82.3058	809
+ND	38001	Adams County	46.0974	-102.5295	2558
+ND	38003	Barnes County	46.9356	-98.0712	3907
+ND	38005	Benson County	48.0698	-99.3675	3702
+ND	38007	Billings County	47.0228	-103.3769	2992
+ND	38009	Bottineau County	48.7928	-100.8333	4381
+ND	38011	Bowman County	46.113	-103.5217	3017
+ND	38013	Burke County	48.7915	-102.518	2923
+ND	38015	Burleigh County	46.9775	-100.4681	4296
+ND	38017	Cass County	46.933	-97.2482	4560
+ND	38019	Cavalier County	48.7729	-98.4643	3893
+ND	38021	Dickey County	46.1103	-98.5048	2946
+ND	38023	Divide County	48.8157	-103.4872	3336
+ND	38025	Dunn County	47.3564	-102.6187	5374
+ND	38027	Eddy County	47.7182	-98.9013	1664
+ND	38029	Emmons County	46.2843	-100.239	4015
+ND	38031	Foster County	47.4577	-98.8833	1674
+ND	38033	Golden Valley County	46.9393	-103.8469	2579
+ND	38035	Grand Forks County	47.9218	-97.4569	3717
+ND	38037	Grant County	46.3577	-101.6388	4302
+ND	38039	Griggs County	47.4573	-98.2365	1854
+ND	38041	Hettinger County	46.4333	-102.4602	2937
+ND	38043	Kidder County	46.9801	-99.7802	3708
+ND	38045	LaMoure County	46.4572	-98.5354	2982
+ND	38047	Logan County	46.4578	-99.4783	2609
+ND	38049	McHenry County	48.2338	-100.6357	4937
+ND	38051	McIntosh County	46.1122	-99.4413	2573
+ND	38053	McKenzie County	47.7398	-103.3968	7395
+ND	38055	McLean County	47.6074	-101.3215	6035
+ND	38057	Mercer County	47.3086	-101.8328	2869
+ND	38059	Morton County	46.7157	-101.2777	5051
+ND	38061	Mountrail County	48.2016	-102.3554	4999
+ND	38063	Nelson County	47.9216	-98.1919	2602
+ND	38065	Oliver County	47.1154	-101.342	1880
+ND	38067	Pembina County	48.7675	-97.5517	2904
+ND	38069	Pierce County	48.2492	-99.9721	2794
+ND	38071	Ramsey County	48.2679	-98.72	3375
+ND	38073	Ransom County	46.4565	-97.6562	2228
+ND	38075	Renville County	48.7191	-101.6564	2302
+ND	38077	Richland County	46.264	-96.949	3716
+ND	38079	Rolette County	48.7724	-99.8413	2425
+ND	38081	Sargent County	46.1086	-97.6309	2242
+ND	38083	Sheridan County	47.5753	-100.3451	2601
+ND	38085	Sioux County	46.1123	-101.0426	2898
+ND	38087	Slope County	46.4476	-103.4605	3142
+ND	38089	Stark County	46.8112	-102.6546	3454
+ND	38091	Steele County	47.4558	-97.7241	1849
+ND	38093	Stutsman County	46.9789	-98.9585	5937
+ND	38095	Towner County	48.6852	-99.2452	2698
+ND	38097	Traill County	47.4541	-97.1612	2226
+ND	38099	Walsh County	48.37	-97.7213	3339
+ND	38101	Ward County	48.2219	-101.541	5313
+ND	38103	Wells County	47.5876	-99.6605	3325
+ND	38105	Williams County	48.3441	-103.4802	5559
+OH	39001	Adams County	38.8457	-83.4719	1517
+OH	39003	Allen County	40.7716	-84.1059	1053
+OH	39005	Ashland County	40.8458	-82.2713	1111
+OH	39007	Ashtabula County	41.7076	-80.7495	1825
+OH	39009	Athens County	39.3341	-82.0454	1312
+OH	39011	Auglaize County	40.5613	-84.2221	1032
+OH	39013	Belmont County	40.0156	-80.9877	1408
+OH	39015	Brown County	38.9337	-83.8677	1279
+OH	39017	Butler County	39.4388	-84.5756	1226
+OH	39019	Carroll County	40.5789	-81.0893	1036
+OH	39021	Champaign County	40.1376	-83.7697	1111
+OH	39023	Clark County	39.9164	-83.7837	1042
+OH	39025	Clermont County	39.0476	-84.1528	1188
+OH	39027	Clinton County	39.4149	-83.8076	1070
+OH	39029	Columbiana County	40.7684	-80.7777	1383
+OH	39031	Coshocton County	40.3024	-81.9202	1469
+OH	39033	Crawford County	40.8507	-82.9202	1038
+OH	39035	Cuyahoga County	41.4247	-81.6596	1188
+OH	39037	Darke County	40.1339	-84.6195	1553
+OH	39039	Defiance County	41.324	-84.4901	1067
+OH	39041	Delaware County	40.2784	-83.0041	1186
+OH	39043	Erie County	41.3734	-82.6399	736
+OH	39045	Fairfield County	39.7499	-82.6291	1302
+OH	39047	Fayette County	39.5605	-83.4558	1051
+OH	39049	Franklin County	39.9684	-83.0079	1421
+OH	39051	Fulton County	41.6019	-84.1307	1050
+OH	39053	Gallia County	38.8237	-82.3165	1218
+OH	39055	Geauga County	41.4993	-81.1791	1058
+OH	39057	Greene County	39.6915	-83.8905	1081
+OH	39059	Guernsey County	40.0519	-81.4942	1371
+OH	39061	Hamilton County	39.1953	-84.5425	1064
+OH	39063	Hancock County	41.0017	-83.6661	1381
+OH	39065	Hardin County	40.6613	-83.6593	1220
+OH	39067	Harrison County	40.2937	-81.0908	1064
+OH	39069	Henry County	41.334	-84.0686	1090
+OH	39071	Highland County	39.1842	-83.6011	1447
+OH	39073	Hocking County	39.4971	-82.4796	1099
+OH	39075	Holmes County	40.5614	-81.9306	1091
+OH	39077	Huron County	41.1467	-82.5979	1281
+OH	39079	Jackson County	39.0203	-82.6184	1095
+OH	39081	Jefferson County	40.3854	-80.7598	1059
+OH	39083	Knox County	40.3995	-82.4236	1370
+OH	39085	Lake County	41.697	-81.2369	598
+OH	39087	Lawrence County	38.5999	-82.5366	1185
+OH	39089	Licking County	40.0917	-82.4829	1782
+OH	39091	Logan County	40.3888	-83.7659	1208
+OH	39093	Lorain County	41.295	-82.1512	1280
+OH	39095	Lucas County	41.621	-83.6552	917
+OH	39097	Madison County	39.8943	-83.4004	1203
+OH	39099	Mahoning County	41.0147	-80.7775	1096
+OH	39101	Marion County	40.5877	-83.1599	1049
+OH	39103	Medina County	41.1178	-81.8989	1093
+OH	39105	Meigs County	39.0828	-82.0256	1117
+OH	39107	Mercer County	40.5405	-84.6287	1226
+OH	39109	Miami County	40.0543	-84.2287	1064
+OH	39111	Monroe County	39.7274	-81.0827	1180
+OH	39113	Montgomery County	39.7543	-84.2914	1207
+OH	39115	Morgan County	39.6208	-81.8532	1094
+OH	39117	Morrow County	40.5245	-82.7939	1046
+OH	39119	Muskingum County	39.9658	-81.9448	1742
+OH	39121	Noble County	39.7658	-81.4562	1044
+OH	39123	Ottawa County	41.5365	-83.11	767
+OH	39125	Paulding County	41.1167	-84.5807	1081
+OH	39127	Perry County	39.7378	-82.2367	1063
+OH	39129	Pickaway County	39.6416	-83.0245	1308
+OH	39131	Pike County	39.0773	-83.0664	1148
+OH	39133	Portage County	41.1681	-81.1973	1311
+OH	39135	Preble County	39.7423	-84.6483	1098
+OH	39137	Putnam County	41.0225	-84.1318	1255
+OH	39139	Richland County	40.7748	-82.5371	1287
+OH	39141	Ross County	39.338	-83.0583	1786
+OH	39143	Sandusky County	41.3574	-83.1446	1082
+OH	39145	Scioto County	38.8041	-82.9921	1594
+OH	39147	Seneca County	41.1237	-83.1271	1432
+OH	39149	Shelby County	40.3321	-84.2042	1061
+OH	39151	Stark County	40.8137	-81.3666	1505
+OH	39153	Summit County	41.1256	-81.5321	1079
+OH	39155	Trumbull County	41.3174	-80.7604	1646
+OH	39157	Tuscarawas County	40.4413	-81.4745	1482
+OH	39159	Union County	40.2991	-83.3713	1132
+OH	39161	Van Wert County	40.8554	-84.5861	1061
+OH	39163	Vinton County	39.2513	-82.4861	1073
+OH	39165	Warren County	39.4265	-84.1661	1049
+OH	39167	Washington County	39.4549	-81.4964	1665
+OH	39169	Wayne County	40.8293	-81.8885	1439
+OH	39171	Williams County	41.5602	-84.5885	1093
+OH	39173	Wood County	41.3611	-83.6237	1599
+OH	39175	Wyandot County	40.8425	-83.3041	1051
+OK	40001	Adair County	35.8849	-94.6587	1493
+OK	40003	Alfalfa County	36.7305	-98.3222	2263
+OK	40005	Atoka County	34.3734	-96.0377	2562
+OK	40007	Beaver County	36.7496	-100.4767	4701
+OK	40009	Beckham County	35.2682	-99.6805	2354
+OK	40011	Blaine County	35.8749	-98.4327	2441
+OK	40013	Bryan County	33.9616	-96.2587	2451
+OK	40015	Caddo County	35.174	-98.376	3356
+OK	40017	Canadian County	35.5423	-97.9818	2345
+OK	40019	Carter County	34.2512	-97.2859	2152
+OK	40021	Cherokee County	35.9062	-95	2011
+OK	40023	Choctaw County	34.0274	-95.5513	2073
+OK	40025	Cimarron County	36.7485	-102.5171	4757
+OK	40027	Cleveland County	35.2034	-97.3272	1443
+OK	40029	Coal County	34.5885	-96.2977	1358
+OK	40031	Comanche County	34.6619	-98.4716	2799
+OK	40033	Cotton County	34.2904	-98.3741	1658
+OK	40035	Craig County	36.7618	-95.2083	1972
+OK	40037	Creek County	35.9018	-96.372	2516
+OK	40039	Custer County	35.6391	-99.0015	2595
+OK	40041	Delaware County	36.4079	-94.803	2051
+OK	40043	Dewey County	35.988	-99.0086	2614
+OK	40045	Ellis County	36.2177	-99.754	3190
+OK	40047	Garfield County	36.3791	-97.7834	2743
+OK	40049	Garvin County	34.7044	-97.3085	2115
+OK	40051	Grady County	35.0155	-97.8843	2873
+OK	40053	Grant County	36.7963	-97.786	2598
+OK	40055	Greer County	34.9347	-99.5598	1660
+OK	40057	Harmon County	34.7443	-99.8451	1398
+OK	40059	Harper County	36.7885	-99.6676	2692
+OK	40061	Haskell County	35.2249	-95.1162	1616
+OK	40063	Hughes County	35.0485	-96.2505	2113
+OK	40065	Jackson County	34.5874	-99.4154	2088
+OK	40067	Jefferson County	34.1111	-97.8366	2023
+OK	40069	Johnston County	34.3164	-96.6607	1706
+OK	40071	Kay County	36.8178	-97.1441	2447
+OK	40073	Kingfisher County	35.9451	-97.9405	2344
+OK	40075	Kiowa County	34.9159	-98.98	2659
+OK	40077	Latimer County	34.8766	-95.2489	1875
+OK	40079	Le Flore County	34.8993	-94.7038	4170
+OK	40081	Lincoln County	35.7024	-96.8824	2493
+OK	40083	Logan County	35.9187	-97.443	1929
+OK	40085	Love County	33.9512	-97.2459	1374
+OK	40087	McClain County	35.0085	-97.4432	1498
+OK	40089	McCurtain County	34.1155	-94.7711	4931
+OK	40091	McIntosh County	35.3741	-95.666	1845
+OK	40093	Major County	36.3118	-98.5368	2485
+OK	40095	Marshall County	34.0258	-96.7688	1108
+OK	40097	Mayes County	36.301	-95.231	1767
+OK	40099	Murray County	34.4822	-97.067	1101
+OK	40101	Muskogee County	35.6158	-95.379	2182
+OK	40103	Noble County	36.3883	-97.2304	1933
+OK	40105	Nowata County	36.7983	-95.6176	1512
+OK	40107	Okfuskee County	35.4658	-96.3219	1627
+OK	40109	Oklahoma County	35.5514	-97.4076	1855
+OK	40111	Okmulgee County	35.6465	-95.9642	1813
+OK	40113	Osage County	36.629	-96.3979	5955
+OK	40115	Ottawa County	36.8355	-94.8112	1252
+OK	40117	Pawnee County	36.3164	-96.699	1541
+OK	40119	Payne County	36.0772	-96.9762	1807
+OK	40121	Pittsburg County	34.9233	-95.7479	3582
+OK	40123	Pontotoc County	34.7283	-96.6843	1874
+OK	40125	Pottawatomie County	35.2068	-96.9495	2052
+OK	40127	Pushmataha County	34.4165	-95.3761	3677
+OK	40129	Roger Mills County	35.6877	-99.696	2958
+OK	40131	Rogers County	36.3723	-95.6045	1842
+OK	40133	Seminole County	35.1689	-96.6159	1665
+OK	40135	Sequoyah County	35.4961	-94.755	1853
+OK	40137	Stephens County	34.4853	-97.8517	2302
+OK	40139	Texas County	36.7484	-101.49	5302
+OK	40141	Tillman County	34.3743	-98.9245	2270
+OK	40143	Tulsa County	36.1195	-95.9421	1523
+OK	40145	Wagoner County	35.9616	-95.522	1524
+OK	40147	Washington County	36.7144	-95.9048	1099
+OK	40149	Washita County	35.2908	-98.9932	2601
+OK	40151	Woods County	36.7674	-98.863	3354
+OK	40153	Woodward County	36.4231	-99.2649	3229
+OR	41001	Baker County	44.7091	-117.6766	7982
+OR	41003	Benton County	44.4916	-123.4294	1764
+OR	41005	Clackamas County	45.1882	-122.2198	4868
+OR	41007	Clatsop County	45.9949	-123.656	2212
+OR	41009	Columbia County	45.9434	-123.0886	1792
+OR	41011	Coos County	43.1738	-124.0605	4205
+OR	41013	Crook County	44.1424	-120.3561	7724
+OR	41015	Curry County	42.4566	-124.156	4254
+OR	41017	Deschutes County	43.9149	-121.2259	7903
+OR	41019	Douglas County	43.2802	-123.1661	13107
+OR	41021	Gilliam County	45.3769	-120.2121	3157
+OR	41023	Grant County	44.4905	-119.0074	11701
+OR	41025	Harney County	43.0595	-118.9665	26437
+OR	41027	Hood River County	45.5183	-121.6525	1381
+OR	41029	Jackson County	42.4319	-122.7286	7259
+OR	41031	Jefferson County	44.6297	-121.1779	4627
+OR	41033	Josephine County	42.3648	-123.554	4241
+OR	41035	Klamath County	42.6833	-121.6484	15874
+OR	41037	Lake County	42.791	-120.3837	21597
+OR	41039	Lane County	43.9397	-122.8452	11958
+OR	41041	Lincoln County	44.6411	-123.8691	2562
+OR	41043	Linn County	44.4899	-122.5344	5940
+OR	41045	Malheur County	43.1866	-117.6236	25662
+OR	41047	Marion County	44.9043	-122.585	3085
+OR	41049	Morrow County	45.4183	-119.5841	5301
+OR	41051	Multnomah County	45.5476	-122.4193	1195
+OR	41053	Polk County	44.9034	-123.4142	1919
+OR	41055	Sherman County	45.4051	-120.6909	2139
+OR	41057	Tillamook County	45.4643	-123.7123	2910
+OR	41059	Umatilla County	45.5911	-118.7372	8359
+OR	41061	Union County	45.3103	-118.009	5259
+OR	41063	Wallowa County	45.5788	-117.1805	8138
+OR	41065	Wasco County	45.1598	-121.1669	6194
+OR	41067	Washington County	45.5596	-123.0972	1860
+OR	41069	Wheeler County	44.7254	-120.0271	4441
+OR	41071	Yamhill County	45.2323	-123.3089	1861
+PA	42001	Adams County	39.8708	-77.2181	1341
+PA	42003	Allegheny County	40.4697	-79.982	1916
+PA	42005	Armstrong County	40.8119	-79.4653	1723
+PA	42007	Beaver County	40.6825	-80.3502	1156
+PA	42009	Bedford County	40.006	-78.4906	2627
+PA	42011	Berks County	40.4159	-75.9265	2253
+PA	42013	Blair County	40.4805	-78.3488	1362
+PA	42015	Bradford County	41.7893	-76.5147	2999
+PA	42017	Bucks County	40.3357	-75.107	1606
+PA	42019	Butler County	40.9115	-79.9133	2054
+PA	42021	Cambria County	40.4941	-78.7144	1794
+PA	42023	Cameron County	41.4367	-78.2041	1027
+PA	42025	Carbon County	40.9183	-75.71	1012
+PA	42027	Centre County	40.919	-77.8208	2873
+PA	42029	Chester County	39.973	-75.7483	1945
+PA	42031	Clarion County	41.1928	-79.4211	1575
+PA	42033	Clearfield County	41.0003	-78.4744	2983
+PA	42035	Clinton County	41.234	-77.6386	2329
+PA	42037	Columbia County	41.0487	-76.405	1277
+PA	42039	Crawford County	41.6845	-80.1073	2691
+PA	42041	Cumberland County	40.1641	-77.2663	1430
+PA	42043	Dauphin County	40.4159	-76.7779	1430
+PA	42045	Delaware County	39.9162	-75.401	506
+PA	42047	Elk County	41.4252	-78.6508	2159
+PA	42049	Erie County	41.9926	-80.0337	2091
+PA	42051	Fayette County	39.9197	-79.6452	2061
+PA	42053	Forest County	41.5121	-79.2363	1104
+PA	42055	Franklin County	39.9273	-77.7217	2001
+PA	42057	Fulton County	39.9252	-78.1135	1131
+PA	42059	Greene County	39.8539	-80.2217	1499
+PA	42061	Huntingdon County	40.4165	-77.9815	2294
+PA	42063	Indiana County	40.6527	-79.0864	2157
+PA	42065	Jefferson County	41.1267	-78.9996	1692
+PA	42067	Juniata County	40.5299	-77.4033	1021
+PA	42069	Lackawanna County	41.4373	-75.6095	1195
+PA	42071	Lancaster County	40.0418	-76.2475	2553
+PA	42073	Lawrence County	40.9914	-80.3351	941
+PA	42075	Lebanon County	40.3676	-76.4586	929
+PA	42077	Lehigh County	40.613	-75.5923	903
+PA	42079	Luzerne County	41.178	-75.9889	2334
+PA	42081	Lycoming County	41.3442	-77.065	3223
+PA	42083	McKean County	41.8079	-78.5687	2554
+PA	42085	Mercer County	41.302	-80.2583	1759
+PA	42087	Mifflin County	40.6088	-77.619	1084
+PA	42089	Monroe County	41.0584	-75.3396	1604
+PA	42091	Montgomery County	40.2107	-75.3675	1259
+PA	42093	Montour County	41.0295	-76.6606	342
+PA	42095	Northampton County	40.755	-75.3059	978
+PA	42097	Northumberland County	40.8516	-76.7097	1236
+PA	42099	Perry County	40.3988	-77.2601	1427
+PA	42101	Philadelphia County	40.0069	-75.1357	368
+PA	42103	Pike County	41.3317	-75.0338	1465
+PA	42105	Potter County	41.7444	-77.8951	2793
+PA	42107	Schuylkill County	40.7058	-76.2176	2024
+PA	42109	Snyder County	40.7695	-77.0702	858
+PA	42111	Somerset County	39.9728	-79.0282	2795
+PA	42113	Sullivan County	41.4465	-76.5125	1170
+PA	42115	Susquehanna County	41.8211	-75.8009	2143
+PA	42117	Tioga County	41.7725	-77.2536	2932
+PA	42119	Union County	40.9626	-77.0634	825
+PA	42121	Venango County	41.401	-79.7579	1769
+PA	42123	Warren County	41.8142	-79.2747	2335
+PA	42125	Washington County	40.189	-80.2477	2241
+PA	42127	Wayne County	41.6474	-75.3035	1950
+PA	42129	Westmoreland County	40.311	-79.4672	2685
+PA	42131	Wyoming County	41.5184	-76.0176	1051
+PA	42133	York County	39.9213	-76.7276	2366
+RI	44001	Bristol County	41.7135	-71.2824	81
+RI	44003	Kent County	41.6716	-71.5924	460
+RI	44005	Newport County	41.5589	-71.2302	289
+RI	44007	Providence County	41.8718	-71.5793	1123
+RI	44009	Washington County	41.4689	-71.6245	906
+SC	45001	Abbeville County	34.2224	-82.4608	1314
+SC	45003	Aiken County	33.5431	-81.6359	2815
+SC	45005	Allendale County	32.9874	-81.3569	1063
+SC	45007	Anderson County	34.5188	-82.6381	1959
+SC	45009	Bamberg County	33.2147	-81.0532	1032
+SC	45011	Barnwell County	33.2666	-81.4339	1444
+SC	45013	Beaufort County	32.3868	-80.7289	1828
+SC	45015	Berkeley County	33.1978	-79.9535	3176
+SC	45017	Calhoun County	33.6746	-80.7783	1019
+SC	45019	Charleston County	32.834	-79.9529	2656
+SC	45021	Cherokee County	35.0487	-81.6207	1024
+SC	45023	Chester County	34.6923	-81.1595	1514
+SC	45025	Chesterfield County	34.6399	-80.1573	2083
+SC	45027	Clarendon County	33.6659	-80.2161	1796
+SC	45029	Colleton County	32.8634	-80.666	2791
+SC	45031	Darlington County	34.332	-79.9599	1457
+SC	45033	Dillon County	34.3905	-79.3802	1063
+SC	45035	Dorchester County	33.0781	-80.4041	1489
+SC	45037	Edgefield County	33.7716	-81.9671	1317
+SC	45039	Fairfield County	34.3948	-81.1211	1840
+SC	45041	Florence County	34.0234	-79.7035	2072
+SC	45043	Georgetown County	33.4309	-79.3331	2280
+SC	45045	Greenville County	34.8927	-82.3696	2055
+SC	45047	Greenwood County	34.1543	-82.1266	1197
+SC	45049	Hampton County	32.7757	-81.1401	1452
+SC	45051	Horry County	33.9212	-78.9969	2981
+SC	45053	Jasper County	32.4359	-81.0318	1765
+SC	45055	Kershaw County	34.3389	-80.5896	1925
+SC	45057	Lancaster County	34.688	-80.7061	1449
+SC	45059	Laurens County	34.4828	-82.0066	1868
+SC	45061	Lee County	34.1627	-80.2553	1064
+SC	45063	Lexington County	33.9026	-81.2728	1962
+SC	45065	McCormick County	33.9018	-82.3098	1022
+SC	45067	Marion County	34.0778	-79.3637	1285
+SC	45069	Marlboro County	34.6006	-79.6784	1263
+SC	45071	Newberry County	34.29	-81.6014	1673
+SC	45073	Oconee County	34.7539	-83.0663	1743
+SC	45075	Orangeburg County	33.4396	-80.7988	2917
+SC	45077	Pickens County	34.8882	-82.7257	1326
+SC	45079	Richland County	34.022	-80.9048	1994
+SC	45081	Saluda County	34.0065	-81.7272	1201
+SC	45083	Spartanburg County	34.93	-81.9909	2134
+SC	45085	Sumter County	33.9165	-80.3811	1778
+SC	45087	Union County	34.6893	-81.6187	1342
+SC	45089	Williamsburg County	33.6189	-79.728	2420
+SC	45091	York County	34.9748	-81.1853	1802
+SD	46003	Aurora County	43.7181	-98.5607	1853
+SD	46005	Beadle County	44.4148	-98.2783	3271
+SD	46007	Bennett County	43.1953	-101.6639	3094
+SD	46009	Bon Homme County	42.9891	-97.8841	1495
+SD	46011	Brookings County	44.3701	-96.791	2072
+SD	46013	Brown County	45.5901	-98.3518	4469
+SD	46015	Brule County	43.7182	-99.081	2184
+SD	46017	Buffalo County	44.0761	-99.205	1261
+SD	46019	Butte County	44.9059	-103.5089	5862
+SD	46021	Campbell County	45.7712	-100.0512	1987
+SD	46023	Charles Mix County	43.2087	-98.5873	2971
+SD	46025	Clark County	44.858	-97.729	2505
+SD	46027	Clay County	42.9143	-96.9759	1083
+SD	46029	Codington County	44.9781	-97.1877	1852
+SD	46031	Corson County	45.7095	-101.1959	6533
+SD	46033	Custer County	43.6782	-103.4512	4035
+SD	46035	Davison County	43.6746	-98.145	1125
+SD	46037	Day County	45.3671	-97.6077	2823
+SD	46039	Deuel County	44.7601	-96.6673	1646
+SD	46041	Dewey County	45.1565	-100.8717	6318
+SD	46043	Douglas County	43.3872	-98.3649	1120
+SD	46045	Edmunds County	45.4194	-99.2158	2978
+SD	46047	Fall River County	43.2398	-103.5266	4523
+SD	46049	Faulk County	45.0712	-99.1451	2603
+SD	46051	Grant County	45.1722	-96.7682	1767
+SD	46053	Gregory County	43.1927	-99.1854	2715
+SD	46055	Haakon County	44.2952	-101.5402	4728
+SD	46057	Hamlin County	44.674	-97.1876	1392
+SD	46059	Hand County	44.5476	-99.0047	3725
+SD	46061	Hanson County	43.6746	-97.7872	1123
+SD	46063	Harding County	45.5799	-103.4947	6934
+SD	46065	Hughes County	44.3905	-99.9952	2060
+SD	46067	Hutchinson County	43.3346	-97.7539	2111
+SD	46069	Hyde County	44.5461	-99.4869	2238
+SD	46071	Jackson County	43.6945	-101.6287	4830
+SD	46073	Jerauld County	44.0665	-98.6293	1381
+SD	46075	Jones County	43.9609	-100.6901	2519
+SD	46077	Kingsbury County	44.3697	-97.4913	2234
+SD	46079	Lake County	44.022	-97.1282	1486
+SD	46081	Lawrence County	44.3581	-103.7925	2061
+SD	46083	Lincoln County	43.2788	-96.7206	1500
+SD	46085	Lyman County	43.8957	-99.8473	4413
+SD	46087	McCook County	43.6745	-97.368	1495
+SD	46089	McPherson County	45.767	-99.2217	2972
+SD	46091	Marshall County	45.7592	-97.599	2286
+SD	46093	Meade County	44.5673	-102.7183	9005
+SD	46095	Mellette County	43.5819	-100.7597	3381
+SD	46097	Miner County	44.0221	-97.6092	1480
+SD	46099	Minnehaha County	43.6744	-96.7908	2104
+SD	46101	Moody County	44.0227	-96.6708	1342
+SD	46102	Oglala Lakota County	43.3353	-102.5515	5411
+SD	46103	Pennington County	44.0052	-102.825	7206
+SD	46105	Perkins County	45.4899	-102.4741	7460
+SD	46107	Potter County	45.065	-99.9571	2322
+SD	46109	Roberts County	45.6295	-96.9476	2931
+SD	46111	Sanborn County	44.0237	-98.0899	1473
+SD	46115	Spink County	44.9385	-98.3459	3899
+SD	46117	Stanley County	44.4124	-100.7348	3927
+SD	46119	Sully County	44.7161	-100.1314	2767
+SD	46121	Todd County	43.1937	-100.7184	3601
+SD	46123	Tripp County	43.3456	-99.8833	4183
+SD	46125	Turner County	43.3109	-97.1478	1595
+SD	46127	Union County	42.8327	-96.6561	1198
+SD	46129	Walworth County	45.4301	-100.0313	1923
+SD	46135	Yankton County	43.009	-97.3954	1377
+SD	46137	Ziebach County	44.9804	-101.6656	5078
+TN	47001	Anderson County	36.1193	-84.1995	897
+TN	47003	Bedford County	35.5137	-86.4596	1242
+TN	47005	Benton County	36.0701	-88.0679	1138
+TN	47007	Bledsoe County	35.5971	-85.2055	1061
+TN	47009	Blount County	35.6876	-83.9256	1465
+TN	47011	Bradley County	35.1529	-84.8607	856
+TN	47013	Campbell County	36.4042	-84.1506	1283
+TN	47015	Cannon County	35.8081	-86.0613	684
+TN	47017	Carroll County	35.9729	-88.45	1557
+TN	47019	Carter County	36.2929	-82.128	902
+TN	47021	Cheatham County	36.262	-87.0883	785
+TN	47023	Chester County	35.422	-88.6137	746
+TN	47025	Claiborne County	36.4866	-83.6619	1138
+TN	47027	Clay County	36.5514	-85.5404	671
+TN	47029	Cocke County	35.9264	-83.1216	1154
+TN	47031	Coffee County	35.4909	-86.0761	1128
+TN	47033	Crockett County	35.8134	-89.1407	689
+TN	47035	Cumberland County	35.9502	-84.9976	1770
+TN	47037	Davidson County	36.1698	-86.7844	1370
+TN	47039	Decatur County	35.6014	-88.1096	892
+TN	47041	DeKalb County	35.9802	-85.8318	849
+TN	47043	Dickson County	36.1495	-87.3561	1261
+TN	47045	Dyer County	36.0586	-89.4139	1378
+TN	47047	Fayette County	35.1965	-89.4143	1829
+TN	47049	Fentress County	36.3799	-84.9324	1285
+TN	47051	Franklin County	35.1561	-86.0921	1495
+TN	47053	Gibson County	35.9965	-88.9313	1570
+TN	47055	Giles County	35.2025	-87.0351	1580
+TN	47057	Grainger County	36.2782	-83.511	782
+TN	47059	Greene County	36.1739	-82.8454	1615
+TN	47061	Grundy County	35.3883	-85.7211	928
+TN	47063	Hamblen County	36.218	-83.2694	459
+TN	47065	Hamilton County	35.181	-85.1649	1488
+TN	47067	Hancock County	36.5257	-83.2229	578
+TN	47069	Hardeman County	35.2069	-88.993	1737
+TN	47071	Hardin County	35.1985	-88.1851	1541
+TN	47073	Hawkins County	36.4415	-82.9447	1302
+TN	47075	Haywood County	35.583	-89.2842	1375
+TN	47077	Henderson County	35.6541	-88.3886	1362
+TN	47079	Henry County	36.3315	-88.3032	1536
+TN	47081	Hickman County	35.8034	-87.4742	1595
+TN	47083	Houston County	36.2854	-87.7178	544
+TN	47085	Humphreys County	36.0397	-87.7748	1433
+TN	47087	Jackson County	36.359	-85.6753	841
+TN	47089	Jefferson County	36.052	-83.4458	820
+TN	47091	Johnson County	36.4535	-81.8532	793
+TN	47093	Knox County	35.9932	-83.9388	1358
+TN	47095	Lake County	36.3373	-89.4925	503
+TN	47097	Lauderdale County	35.7605	-89.6312	1305
+TN	47099	Lawrence County	35.2172	-87.3945	1601
+TN	47101	Lewis County	35.5276	-87.4945	721
+TN	47103	Lincoln County	35.14	-86.5881	1478
+TN	47105	Loudon County	35.736	-84.308	625
+TN	47107	McMinn County	35.424	-84.6167	1128
+TN	47109	McNairy County	35.1752	-88.5635	1456
+TN	47111	Macon County	36.5323	-86.0069	799
+TN	47113	Madison County	35.6082	-88.8398	1441
+TN	47115	Marion County	35.1302	-85.622	1337
+TN	47117	Marshall County	35.4679	-86.7654	982
+TN	47119	Maury County	35.6173	-87.0785	1590
+TN	47121	Meigs County	35.513	-84.8123	571
+TN	47123	Monroe County	35.4429	-84.2524	1699
+TN	47125	Montgomery County	36.4967	-87.381	1413
+TN	47127	Moore County	35.2817	-86.3595	321
+TN	47129	Morgan County	36.1339	-84.6487	1354
+TN	47131	Obion County	36.3583	-89.1487	1443
+TN	47133	Overton County	36.3446	-85.2874	1127
+TN	47135	Perry County	35.6435	-87.859	1084
+TN	47137	Pickett County	36.559	-85.07	452
+TN	47139	Polk County	35.1198	-84.5238	1140
+TN	47141	Putnam County	36.1406	-85.4914	1037
+TN	47143	Rhea County	35.6091	-84.9245	868
+TN	47145	Roane County	35.8467	-84.5226	1017
+TN	47147	Robertson County	36.5252	-86.869	1232
+TN	47149	Rutherford County	35.8432	-86.416	1605
+TN	47151	Scott County	36.4278	-84.5044	1375
+TN	47153	Sequatchie County	35.3692	-85.4082	674
+TN	47155	Sevier County	35.7862	-83.5249	1549
+TN	47157	Shelby County	35.1848	-89.8957	2025
+TN	47159	Smith County	36.2499	-85.9578	846
+TN	47161	Stewart County	36.5008	-87.8387	1282
+TN	47163	Sullivan County	36.5133	-82.3043	1105
+TN	47165	Sumner County	36.4694	-86.4591	1406
+TN	47167	Tipton County	35.4961	-89.7564	1228
+TN	47169	Trousdale County	36.3928	-86.1558	296
+TN	47171	Unicoi County	36.1073	-82.4358	477
+TN	47173	Union County	36.2894	-83.8387	643
+TN	47175	Van Buren County	35.6944	-85.4532	712
+TN	47177	Warren County	35.6775	-85.7792	1129
+TN	47179	Washington County	36.2925	-82.4976	866
+TN	47181	Wayne County	35.241	-87.788	1922
+TN	47183	Weakley County	36.2988	-88.7177	1489
+TN	47185	White County	35.9257	-85.456	989
+TN	47187	Williamson County	35.8941	-86.8982	1526
+TN	47189	Wilson County	36.1535	-86.2973	1508
+TX	48001	Anderson County	31.8138	-95.6514	2809
+TX	48003	Andrews County	32.3048	-102.6379	3899
+TX	48005	Angelina County	31.2543	-94.6118	2223
+TX	48007	Aransas County	28.1201	-96.9981	837
+TX	48009	Archer County	33.6154	-98.6874	2398
+TX	48011	Armstrong County	34.9647	-101.3576	2364
+TX	48013	Atascosa County	28.8934	-98.5269	3170
+TX	48015	Austin County	29.8862	-96.2779	1685
+TX	48017	Bailey County	34.0685	-102.8303	2135
+TX	48019	Bandera County	29.7473	-99.2463	2058
+TX	48021	Bastrop County	30.1038	-97.3116	2315
+TX	48023	Baylor County	33.6168	-99.2138	2336
+TX	48025	Bee County	28.4173	-97.7416	2288
+TX	48027	Bell County	31.0374	-97.479	2825
+TX	48029	Bexar County	29.4493	-98.52	3255
+TX	48031	Blanco County	30.2663	-98.4007	1855
+TX	48033	Borden County	32.7436	-101.4315	2351
+TX	48035	Bosque County	31.9006	-97.633	2607
+TX	48037	Bowie County	33.4462	-94.4243	2396
+TX	48039	Brazoria County	29.1888	-95.452	3788
+TX	48041	Brazos County	30.6608	-96.3019	1533
+TX	48043	Brewster County	29.8109	-103.252	16072
+TX	48045	Briscoe County	34.5303	-101.2084	2331
+TX	48047	Brooks County	27.031	-98.2185	2442
+TX	48049	Brown County	31.7749	-98.9984	2466
+TX	48051	Burleson County	30.4926	-96.6183	1750
+TX	48053	Burnet County	30.7887	-98.1831	2649
+TX	48055	Caldwell County	29.8371	-97.6183	1410
+TX	48057	Calhoun County	28.5025	-96.6046	1966
+TX	48059	Callahan County	32.2978	-99.3732	2330
+TX	48061	Cameron County	26.1343	-97.5134	2647
+TX	48063	Camp County	32.9736	-94.9798	514
+TX	48065	Carson County	35.4036	-101.3546	2385
+TX	48067	Cass County	33.078	-94.3424	2497
+TX	48069	Castro County	34.5303	-102.2628	2332
+TX	48071	Chambers County	29.7386	-94.6069	1639
+TX	48073	Cherokee County	31.8361	-95.1643	2739
+TX	48075	Childress County	34.5293	-100.2065	1854
+TX	48077	Clay County	33.7853	-98.2086	2883
+TX	48079	Cochran County	33.6039	-102.8292	2012
+TX	48081	Coke County	31.8895	-100.5304	2403
+TX	48083	Coleman County	31.7718	-99.4533	3351
+TX	48085	Collin County	33.188	-96.5725	2298
+TX	48087	Collingsworth County	34.9648	-100.2699	2388
+TX	48089	Colorado County	29.6204	-96.5256	2529
+TX	48091	Comal County	29.8087	-98.2784	1488
+TX	48093	Comanche County	31.9484	-98.5576	2462
+TX	48095	Concho County	31.3268	-99.8648	2564
+TX	48097	Cooke County	33.6397	-97.2134	2334
+TX	48099	Coryell County	31.3912	-97.7997	2739
+TX	48101	Cottle County	34.0776	-100.279	2338
+TX	48103	Crane County	31.4291	-102.5151	2036
+TX	48105	Crockett County	30.7229	-101.4128	7287
+TX	48107	Crosby County	33.6146	-101.3	2345
+TX	48109	Culberson County	31.4458	-104.5181	9908
+TX	48111	Dallam County	36.2787	-102.6024	3887
+TX	48113	Dallas County	32.7666	-96.7775	2356
+TX	48115	Dawson County	32.7426	-101.9478	2335
+TX	48117	Deaf Smith County	34.9658	-102.6056	3876
+TX	48119	Delta County	33.3855	-95.6702	726
+TX	48121	Denton County	33.2052	-97.1175	2465
+TX	48123	DeWitt County	29.0818	-97.3575	2357
+TX	48125	Dickens County	33.6163	-100.7785	2343
+TX	48127	Dimmit County	28.423	-99.7575	3461
+TX	48129	Donley County	34.9654	-100.8144	2419
+TX	48131	Duval County	27.682	-98.5086	4653
+TX	48133	Eastland County	32.3271	-98.8323	2414
+TX	48135	Ector County	31.8689	-102.5427	2343
+TX	48137	Edwards County	29.9825	-100.3057	5491
+TX	48139	Ellis County	32.3487	-96.7941	2461
+TX	48141	El Paso County	31.7679	-106.2338	2623
+TX	48143	Erath County	32.2358	-98.2173	2818
+TX	48145	Falls County	31.2537	-96.9371	2010
+TX	48147	Fannin County	33.5925	-96.1069	2317
+TX	48149	Fayette County	29.876	-96.9202	2493
+TX	48151	Fisher County	32.7432	-100.4019	2336
+TX	48153	Floyd County	34.0724	-101.303	2577
+TX	48155	Foard County	33.9745	-99.7786	1831
+TX	48157	Fort Bend County	29.5273	-95.7686	2274
+TX	48159	Franklin County	33.1747	-95.2185	764
+TX	48161	Freestone County	31.705	-96.15	2316
+TX	48163	Frio County	28.8679	-99.1079	2941
+TX	48165	Gaines County	32.741	-102.6356	3897
+TX	48167	Galveston County	29.3892	-94.961	1111
+TX	48169	Garza County	33.18	-101.2978	2330
+TX	48171	Gillespie County	30.3183	-98.9477	2748
+TX	48173	Glasscock County	31.8696	-101.5207	2343
+TX	48175	Goliad County	28.6577	-97.4252	2240
+TX	48177	Gonzales County	29.4568	-97.4929	2770
+TX	48179	Gray County	35.4008	-100.8139	2407
+TX	48181	Grayson County	33.6268	-96.6784	2550
+TX	48183	Gregg County	32.4808	-94.8175	704
+TX	48185	Grimes County	30.5446	-95.9854	2088
+TX	48187	Guadalupe County	29.5829	-97.9482	1850
+TX	48189	Hale County	34.0705	-101.8265	2596
+TX	48191	Hall County	34.5304	-100.6811	2343
+TX	48193	Hamilton County	31.705	-98.1107	2163
+TX	48195	Hansford County	36.2779	-101.3539	2375
+TX	48197	Hardeman County	34.2891	-99.7442	1798
+TX	48199	Hardin County	30.3317	-94.3903	2338
+TX	48201	Harris County	29.8567	-95.3925	4611
+TX	48203	Harrison County	32.5476	-94.3711	2387
+TX	48205	Hartley County	35.8409	-102.6029	3778
+TX	48207	Haskell County	33.1786	-99.731	2364
+TX	48209	Hays County	30.0569	-98.0302	1773
+TX	48211	Hemphill County	35.8376	-100.2709	2373
+TX	48213	Henderson County	32.2126	-95.8514	2452
+TX	48215	Hidalgo County	26.3965	-98.1803	4100
+TX	48217	Hill County	31.9908	-97.1308	2546
+TX	48219	Hockley County	33.6078	-102.343	2361
+TX	48221	Hood County	32.4301	-97.8328	1134
+TX	48223	Hopkins County	33.149	-95.564	2047
+TX	48225	Houston County	31.3177	-95.423	3204
+TX	48227	Howard County	32.3067	-101.4357	2346
+TX	48229	Hudspeth County	31.4564	-105.3863	11828
+TX	48231	Hunt County	33.1238	-96.0852	2284
+TX	48233	Hutchinson County	35.8402	-101.3549	2309
+TX	48235	Irion County	31.3037	-100.9819	2718
+TX	48237	Jack County	33.2337	-98.1731	2390
+TX	48239	Jackson County	28.9538	-96.5777	2216
+TX	48241	Jasper County	30.7454	-94.0265	2493
+TX	48243	Jeff Davis County	30.7157	-104.1396	5868
+TX	48245	Jefferson County	29.8826	-94.1625	2559
+TX	48247	Jim Hogg County	27.0442	-98.6974	2959
+TX	48249	Jim Wells County	27.7293	-98.0904	2253
+TX	48251	Johnson County	32.379	-97.366	1912
+TX	48253	Jones County	32.7401	-99.8787	2425
+TX	48255	Karnes County	28.9056	-97.8592	1955
+TX	48257	Kaufman County	32.599	-96.288	2087
+TX	48259	Kendall County	29.9444	-98.7116	1718
+TX	48261	Kenedy County	26.9296	-97.6976	4067
+TX	48263	Kent County	33.1812	-100.7775	2326
+TX	48265	Kerr County	30.0615	-99.3498	2881
+TX	48267	Kimble County	30.487	-99.7477	3237
+TX	48269	King County	33.6167	-100.2565	2364
+TX	48271	Kinney County	29.3502	-100.4175	3542
+TX	48273	Kleberg County	27.431	-97.723	2416
+TX	48275	Knox County	33.6062	-99.742	2217
+TX	48277	Lamar County	33.6676	-95.5722	2419
+TX	48279	Lamb County	34.0689	-102.3516	2647
+TX	48281	Lampasas County	31.196	-98.2423	1855
+TX	48283	La Salle County	28.3449	-99.1	3880
+TX	48285	Lavaca County	29.3835	-96.9307	2521
+TX	48287	Lee County	30.3116	-96.9639	1661
+TX	48289	Leon County	31.2964	-95.9971	2809
+TX	48291	Liberty County	30.1506	-94.8124	3056
+TX	48293	Limestone County	31.5455	-96.5812	2413
+TX	48295	Lipscomb County	36.2779	-100.2725	2413
+TX	48297	Live Oak County	28.351	-98.1251	2793
+TX	48299	Llano County	30.7063	-98.6844	2509
+TX	48301	Loving County	31.8489	-103.5783	1747
+TX	48303	Lubbock County	33.6103	-101.8204	2324
+TX	48305	Lynn County	33.1767	-101.8157	2308
+TX	48307	McCulloch County	31.1977	-99.3477	2783
+TX	48309	McLennan County	31.5527	-97.2025	2743
+TX	48311	McMullen County	28.3525	-98.5678	2999
+TX	48313	Madison County	30.9668	-95.9278	1220
+TX	48315	Marion County	32.7986	-94.3577	1099
+TX	48317	Martin County	32.3058	-101.9513	2372
+TX	48319	Mason County	30.7178	-99.226	2412
+TX	48321	Matagorda County	28.8212	-96.0128	3593
+TX	48323	Maverick County	28.7427	-100.3144	3344
+TX	48325	Medina County	29.3554	-99.11	3466
+TX	48327	Menard County	30.8899	-99.8202	2332
+TX	48329	Midland County	31.8689	-102.0313	2331
+TX	48331	Milam County	30.7861	-96.9776	2642
+TX	48333	Mills County	31.4957	-98.5949	1939
+TX	48335	Mitchell County	32.3062	-100.9205	2375
+TX	48337	Montague County	33.6747	-97.7249	2425
+TX	48339	Montgomery County	30.3003	-95.5028	2801
+TX	48341	Moore County	35.8378	-101.8932	2366
+TX	48343	Morris County	33.1138	-94.7335	683
+TX	48345	Motley County	34.0743	-100.7796	2558
+TX	48347	Nacogdoches County	31.6157	-94.6167	2560
+TX	48349	Navarro County	32.0474	-96.472	2822
+TX	48351	Newton County	30.7845	-93.7457	2467
+TX	48353	Nolan County	32.3041	-100.4053	2364
+TX	48355	Nueces County	27.725	-97.6098	2274
+TX	48357	Ochiltree County	36.278	-100.8154	2384
+TX	48359	Oldham County	35.4049	-102.603	3897
+TX	48361	Orange County	30.1195	-93.893	988
+TX	48363	Palo Pinto County	32.7532	-98.312	2556
+TX	48365	Panola County	32.1622	-94.3053	2124
+TX	48367	Parker County	32.7778	-97.8046	2349
+TX	48369	Parmer County	34.5299	-102.7851	2289
+TX	48371	Pecos County	30.7809	-102.7234	12333
+TX	48373	Polk County	30.7923	-94.8297	2882
+TX	48375	Potter County	35.4014	-101.894	2394
+TX	48377	Presidio County	29.9992	-104.2403	9993
+TX	48379	Rains County	32.8707	-95.793	669
+TX	48381	Randall County	34.966	-101.8969	2391
+TX	48383	Reagan County	31.366	-101.523	3059
+TX	48385	Real County	29.8325	-99.8217	1822
+TX	48387	Red River County	33.6205	-95.0504	2740
+TX	48389	Reeves County	31.3226	-103.692	6858
+TX	48391	Refugio County	28.3248	-97.162	2091
+TX	48393	Roberts County	35.8381	-100.8147	2393
+TX	48395	Robertson County	31.0264	-96.5145	2244
+TX	48397	Rockwall County	32.8981	-96.4071	389
+TX	48399	Runnels County	31.8318	-99.9767	2739
+TX	48401	Rusk County	32.108	-94.7617	2434
+TX	48403	Sabine County	31.3444	-93.853	1486
+TX	48405	San Augustine County	31.3929	-94.1679	1536
+TX	48407	San Jacinto County	30.5795	-95.1671	1616
+TX	48409	San Patricio County	28.0085	-97.5195	1826
+TX	48411	San Saba County	31.1565	-98.8187	2947
+TX	48413	Schleicher County	30.8977	-100.5382	3395
+TX	48415	Scurry County	32.7462	-100.9162	2350
+TX	48417	Shackelford County	32.7357	-99.3537	2378
+TX	48419	Shelby County	31.7922	-94.1459	2163
+TX	48421	Sherman County	36.2779	-101.8933	2402
+TX	48423	Smith County	32.376	-95.2688	2465
+TX	48425	Somervell County	32.2225	-97.7751	494
+TX	48427	Starr County	26.5621	-98.7381	3201
+TX	48429	Stephens County	32.7355	-98.8355	2387
+TX	48431	Sterling County	31.8278	-101.0498	2390
+TX	48433	Stonewall County	33.179	-100.2544	2383
+TX	48435	Sutton County	30.4991	-100.538	3786
+TX	48437	Swisher County	34.5304	-101.7352	2338
+TX	48439	Tarrant County	32.7717	-97.2914	2341
+TX	48441	Taylor County	32.3018	-99.8897	2383
+TX	48443	Terrell County	30.2252	-102.0773	6105
+TX	48445	Terry County	33.1739	-102.3345	2318
+TX	48447	Throckmorton County	33.1774	-99.213	2371
+TX	48449	Titus County	33.216	-94.9672	1099
+TX	48451	Tom Green County	31.4046	-100.4621	4009
+TX	48453	Travis County	30.3353	-97.7822	2670
+TX	48455	Trinity County	31.0889	-95.1353	1854
+TX	48457	Tyler County	30.7708	-94.3761	2426
+TX	48459	Upshur County	32.736	-94.9421	1535
+TX	48461	Upton County	31.3684	-102.0434	3208
+TX	48463	Uvalde County	29.3574	-99.7621	4039
+TX	48465	Val Verde County	29.8923	-101.1518	8405
+TX	48467	Van Zandt County	32.5637	-95.837	2229
+TX	48469	Victoria County	28.7958	-96.9696	2297
+TX	48471	Walker County	30.7394	-95.5718	2077
+TX	48473	Waller County	30.0089	-95.9883	1354
+TX	48475	Ward County	31.5097	-103.1018	2169
+TX	48477	Washington County	30.2131	-96.4039	1612
+TX	48479	Webb County	27.761	-99.3309	8761
+TX	48481	Wharton County	29.2787	-96.222	2847
+TX	48483	Wheeler County	35.4015	-100.2698	2374
+TX	48485	Wichita County	33.9887	-98.7032	1640
+TX	48487	Wilbarger County	34.0794	-99.2396	2536
+TX	48489	Willacy County	26.4708	-97.6578	1654
+TX	48491	Williamson County	30.6479	-97.5994	2931
+TX	48493	Wilson County	29.1747	-98.0865	2103
+TX	48495	Winkler County	31.85	-103.0491	2173
+TX	48497	Wise County	33.2155	-97.6549	2388
+TX	48499	Wood County	32.7871	-95.382	1800
+TX	48501	Yoakum County	33.173	-102.8276	2067
+TX	48503	Young County	33.1767	-98.6888	2419
+TX	48505	Zapata County	27.0015	-99.169	2734
+TX	48507	Zavala County	28.8662	-99.7604	3375
+UT	49001	Beaver County	38.3583	-113.2348	6689
+UT	49003	Box Elder County	41.5216	-113.0823	17406
+UT	49005	Cache County	41.7216	-111.7442	3018
+UT	49007	Carbon County	39.6486	-110.5877	3850
+UT	49009	Daggett County	40.8865	-109.5072	1876
+UT	49011	Davis County	40.9906	-112.1139	1632
+UT	49013	Duchesne County	40.297	-110.4263	8397
+UT	49015	Emery County	38.996	-110.6998	11578
+UT	49017	Garfield County	37.8568	-111.4434	13463
+UT	49019	Grand County	38.9835	-109.5694	9554
+UT	49021	Iron County	37.8598	-113.2894	8554
+UT	49023	Juab County	39.7054	-112.7853	8803
+UT	49025	Kane County	37.2865	-111.8878	10645
+UT	49027	Millard County	39.074	-113.1001	17709
+UT	49029	Morgan County	41.0896	-111.5759	1588
+UT	49031	Piute County	38.3361	-112.127	1985
+UT	49033	Rich County	41.6311	-111.2446	2829
+UT	49035	Salt Lake County	40.6685	-111.9235	2062
+UT	49037	San Juan County	37.6249	-109.8058	20547
+UT	49039	Sanpete County	39.373	-111.5771	4142
+UT	49041	Sevier County	38.7479	-111.8042	4963
+UT	49043	Summit County	40.8679	-110.9567	4875
+UT	49045	Tooele County	40.4491	-113.1308	18858
+UT	49047	Uintah County	40.1244	-109.519	11602
+UT	49049	Utah County	40.12	-111.6693	5567
+UT	49051	Wasatch County	40.3315	-111.1683	3110
+UT	49053	Washington County	37.2807	-113.5043	6284
+UT	49055	Wayne County	38.3259	-110.9025	6386
+UT	49057	Weber County	41.2697	-111.9139	1699
+VT	50001	Addison County	44.0314	-73.1406	2088
+VT	50003	Bennington County	43.0361	-73.0929	1754
+VT	50005	Caledonia County	44.4649	-72.1033	1690
+VT	50007	Chittenden County	44.4603	-73.0822	1595
+VT	50009	Essex County	44.7274	-71.7372	1738
+VT	50011	Franklin County	44.8572	-72.9107	1779
+VT	50013	Grand Isle County	44.7972	-73.2935	509
+VT	50015	Lamoille County	44.6052	-72.6423	1214
+VT	50017	Orange County	44.005	-72.3781	1803
+VT	50019	Orleans County	44.8287	-72.2428	1857
+VT	50021	Rutland County	43.5801	-73.0373	2451
+VT	50023	Washington County	44.2733	-72.6147	1787
+VT	50025	Windham County	42.9904	-72.7134	2071
+VT	50027	Windsor County	43.5778	-72.5863	2512
+VA	51001	Accomack County	37.7656	-75.6348	1521
+VA	51003	Albemarle County	38.0241	-78.5559	1873
+VA	51005	Alleghany County	37.7881	-80.0069	1177
+VA	51007	Amelia County	37.3367	-77.9779	921
+VA	51009	Amherst County	37.6053	-79.1451	1235
+VA	51011	Appomattox County	37.3723	-78.8105	870
+VA	51013	Arlington County	38.8808	-77.1017	68
+VA	51015	Augusta County	38.1647	-79.1331	2515
+VA	51017	Bath County	38.0595	-79.7408	1390
+VA	51019	Bedford County	37.3147	-79.5243	2023
+VA	51021	Bland County	37.1334	-81.1334	925
+VA	51023	Botetourt County	37.5558	-79.8128	1410
+VA	51025	Brunswick County	36.7646	-77.8592	1474
+VA	51027	Buchanan County	37.2678	-82.0356	1295
+VA	51029	Buckingham County	37.5704	-78.5272	1500
+VA	51031	Campbell County	37.2066	-79.0966	1316
+VA	51033	Caroline County	38.0267	-77.3465	1385
+VA	51035	Carroll County	36.7313	-80.7344	1234
+VA	51036	Charles City County	37.3571	-77.063	525
+VA	51037	Charlotte County	37.0117	-78.662	1244
+VA	51041	Chesterfield County	37.379	-77.5895	1139
+VA	51043	Clarke County	39.1132	-77.9964	466
+VA	51045	Craig County	37.4827	-80.2106	846
+VA	51047	Culpeper County	38.4872	-77.9553	998
+VA	51049	Cumberland County	37.5108	-78.2454	770
+VA	51051	Dickenson County	37.126	-82.3496	868
+VA	51053	Dinwiddie County	37.0764	-77.6343	1315
+VA	51057	Essex County	37.9424	-76.9494	698
+VA	51059	Fairfax County	38.8349	-77.2757	1065
+VA	51061	Fauquier County	38.7393	-77.8082	1669
+VA	51063	Floyd County	36.9318	-80.3614	996
+VA	51065	Fluvanna County	37.8425	-78.2771	767
+VA	51067	Franklin County	36.9918	-79.8801	1835
+VA	51069	Frederick County	39.2045	-78.2626	1089
+VA	51071	Giles County	37.3137	-80.705	941
+VA	51073	Gloucester County	37.4158	-76.5429	652
+VA	51075	Goochland County	37.7222	-77.9162	751
+VA	51077	Grayson County	36.6565	-81.2256	1167
+VA	51079	Greene County	38.2979	-78.4652	395
+VA	51081	Greensville County	36.675	-77.5607	764
+VA	51083	Halifax County	36.7663	-78.9371	2142
+VA	51085	Hanover County	37.761	-77.4918	1231
+VA	51087	Henrico County	37.538	-77.4051	626
+VA	51089	Henry County	36.6816	-79.8748	992
+VA	51091	Highland County	38.3625	-79.5693	1085
+VA	51093	Isle of Wight County	36.8906	-76.7251	838
+VA	51095	James City County	37.3253	-76.7745	418
+VA	51097	King and Queen County	37.7187	-76.8943	835
+VA	51099	King George County	38.2733	-77.1572	486
+VA	51101	King William County	37.7105	-77.0899	731
+VA	51103	Lancaster County	37.7321	-76.462	374
+VA	51105	Lee County	36.7066	-83.1285	1142
+VA	51107	Loudoun County	39.0912	-77.6356	1348
+VA	51109	Louisa County	37.9784	-77.9608	1314
+VA	51111	Lunenburg County	36.9475	-78.241	1118
+VA	51113	Madison County	38.4134	-78.2794	836
+VA	51115	Mathews County	37.4379	-76.3431	277
+VA	51117	Mecklenburg County	36.6811	-78.3617	1765
+VA	51119	Middlesex County	37.6308	-76.5678	357
+VA	51121	Montgomery County	37.1745	-80.389	1026
+VA	51125	Nelson County	37.7865	-78.8843	1246
+VA	51127	New Kent County	37.5069	-76.9966	602
+VA	51131	Northampton County	37.3417	-75.8786	905
+VA	51133	Northumberland County	37.8907	-76.4233	563
+VA	51135	Nottoway County	37.1428	-78.0526	808
+VA	51137	Orange County	38.2459	-78.0146	887
+VA	51139	Page County	38.6191	-78.4849	809
+VA	51141	Patrick County	36.6791	-80.2841	1262
+VA	51143	Pittsylvania County	36.8205	-79.3968	2537
+VA	51145	Powhatan County	37.5513	-77.916	679
+VA	51147	Prince Edward County	37.2243	-78.4396	906
+VA	51149	Prince George County	37.1859	-77.2258	735
+VA	51153	Prince William County	38.7044	-77.4815	898
+VA	51155	Pulaski County	37.063	-80.7159	857
+VA	51157	Rappahannock County	38.685	-78.1598	699
+VA	51159	Richmond County	37.9437	-76.7284	515
+VA	51161	Roanoke County	37.2693	-80.0697	640
+VA	51163	Rockbridge County	37.8144	-79.4477	1556
+VA	51165	Rockingham County	38.5113	-78.8746	2210
+VA	51167	Russell County	36.934	-82.0954	1240
+VA	51169	Scott County	36.7138	-82.6019	1390
+VA	51171	Shenandoah County	38.8577	-78.5719	1318
+VA	51173	Smyth County	36.8448	-81.5371	1171
+VA	51175	Southampton County	36.7199	-77.1069	1563
+VA	51177	Spotsylvania County	38.1861	-77.6556	1077
+VA	51179	Stafford County	38.4207	-77.4579	727
+VA	51181	Surry County	37.1102	-76.8997	738
+VA	51183	Sussex County	36.9212	-77.2624	1283
+VA	51185	Tazewell County	37.1256	-81.562	1338
+VA	51187	Warren County	38.9079	-78.208	562
+VA	51191	Washington County	36.7247	-81.96	1463
+VA	51193	Westmoreland County	38.1123	-76.8015	627
+VA	51195	Wise County	36.9742	-82.6204	1055
+VA	51197	Wythe County	36.9168	-81.0792	1205
+VA	51199	York County	37.2447	-76.5617	313
+VA	51510	Alexandria city	38.8183	-77.0864	40
+VA	51520	Bristol city	36.6123	-82.1706	27
+VA	51530	Buena Vista city	37.7326	-79.3567	18
+VA	51540	Charlottesville city	38.0381	-78.4829	27
+VA	51550	Chesapeake city	36.6779	-76.3006	912
+VA	51570	Colonial Heights city	37.2655	-77.3996	22
+VA	51580	Covington city	37.782	-79.9883	11
+VA	51590	Danville city	36.5814	-79.4058	109
+VA	51595	Emporia city	36.6951	-77.536	14
+VA	51600	Fairfax city	38.8509	-77.3022	13
+VA	51610	Falls Church city	38.8844	-77.1611	0
+VA	51620	Franklin city	36.6809	-76.9402	21
+VA	51630	Fredericksburg city	38.3013	-77.4907	25
+VA	51640	Galax city	36.6768	-80.91	12
+VA	51650	Hampton city	37.0559	-76.3613	155
+VA	51660	Harrisonburg city	38.4363	-78.8743	43
+VA	51670	Hopewell city	37.2908	-77.3004	27
+VA	51678	Lexington city	37.7799	-79.4439	5
+VA	51680	Lynchburg city	37.3991	-79.1918	128
+VA	51683	Manassas city	38.7522	-77.4829	19
+VA	51685	Manassas Park city	38.7779	-77.4567	2
+VA	51690	Martinsville city	36.6807	-79.8626	30
+VA	51700	Newport News city	37.1075	-76.5207	199
+VA	51710	Norfolk city	36.8958	-76.2579	156
+VA	51720	Norton city	36.932	-82.627	19
+VA	51730	Petersburg city	37.2036	-77.3936	63
+VA	51735	Poquoson city	37.1329	-76.3596	52
+VA	51740	Portsmouth city	36.8504	-76.3566	112
+VA	51750	Radford city	37.1223	-80.5659	16
+VA	51760	Richmond city	37.5274	-77.4727	157
+VA	51770	Roanoke city	37.282	-79.9569	114
+VA	51775	Salem city	37.2875	-80.0613	37
+VA	51790	Staunton city	38.1607	-79.0592	53
+VA	51800	Suffolk city	36.6961	-76.6386	1080
+VA	51810	Virginia Beach city	36.7331	-76.0428	789
+VA	51820	Waynesboro city	38.0663	-78.9031	38
+VA	51830	Williamsburg city	37.269	-76.699	21
+VA	51840	Winchester city	39.1732	-78.1702	18
+WA	53001	Adams County	46.9842	-118.5622	4966
+WA	53003	Asotin County	46.1911	-117.2028	1650
+WA	53005	Benton County	46.2394	-119.5114	4547
+WA	53007	Chelan County	47.8666	-120.6178	7725
+WA	53009	Clallam County	48.0503	-123.9259	4571
+WA	53011	Clark County	45.7784	-122.4817	1683
+WA	53013	Columbia County	46.2976	-117.9083	2267
+WA	53015	Cowlitz County	46.1926	-122.6798	3018
+WA	53017	Douglas County	47.7362	-119.6929	4762
+WA	53019	Ferry County	48.4689	-118.5172	5825
+WA	53021	Franklin County	46.5349	-118.8981	3286
+WA	53023	Garfield County	46.4308	-117.5458	1854
+WA	53025	Grant County	47.2053	-119.4525	7209
+WA	53027	Grays Harbor County	47.1489	-123.7729	5017
+WA	53029	Island County	48.1642	-122.5488	563
+WA	53031	Jefferson County	47.7503	-123.5948	4728
+WA	53033	King County	47.4892	-121.8072	5703
+WA	53035	Kitsap County	47.6121	-122.6769	1121
+WA	53037	Kittitas County	47.1243	-120.6764	6016
+WA	53039	Klickitat County	45.8748	-120.7879	4921
+WA	53041	Lewis County	46.5786	-122.3927	6291
+WA	53043	Lincoln County	47.5766	-118.4185	6034
+WA	53045	Mason County	47.348	-123.1917	2594
+WA	53047	Okanogan County	48.549	-119.7419	13751
+WA	53049	Pacific County	46.5554	-123.7047	2436
+WA	53051	Pend Oreille County	48.5311	-117.2737	3684
+WA	53053	Pierce County	47.0272	-122.1136	4463
+WA	53055	San Juan County	48.576	-122.9477	667
+WA	53057	Skagit County	48.4802	-121.7291	4544
+WA	53059	Skamania County	46.0219	-121.9149	4359
+WA	53061	Snohomish County	48.0481	-121.6971	5463
+WA	53063	Spokane County	47.6202	-117.4047	4590
+WA	53065	Stevens County	48.3972	-117.8551	6573
+WA	53067	Thurston County	46.9273	-122.835	1970
+WA	53069	Wahkiakum County	46.2923	-123.4252	720
+WA	53071	Walla Walla County	46.2293	-118.4789	3338
+WA	53073	Whatcom County	48.8273	-121.7223	5574
+WA	53075	Whitman County	46.9011	-117.5224	5654
+WA	53077	Yakima County	46.4571	-120.7371	11139
+WV	54001	Barbour County	39.1334	-80.0041	887
+WV	54003	Berkeley County	39.4648	-78.0264	829
+WV	54005	Boone County	38.0228	-81.7098	1319
+WV	54007	Braxton County	38.6987	-80.72	1339
+WV	54009	Brooke County	40.2726	-80.5759	234
+WV	54011	Cabell County	38.4192	-82.2411	747
+WV	54013	Calhoun County	38.8454	-81.1169	727
+WV	54015	Clay County	38.4621	-81.0768	878
+WV	54017	Doddridge County	39.2687	-80.7087	824
+WV	54019	Fayette County	38.0283	-81.0815	1722
+WV	54021	Gilmer County	38.9234	-80.8566	876
+WV	54023	Grant County	39.1046	-79.1961	1254
+WV	54025	Greenbrier County	37.947	-80.4531	2644
+WV	54027	Hampshire County	39.3169	-78.6142	1666
+WV	54029	Hancock County	40.5188	-80.5742	224
+WV	54031	Hardy County	39.0074	-78.857	1512
+WV	54033	Harrison County	39.2839	-80.3801	1082
+WV	54035	Jackson County	38.8358	-81.676	1219
+WV	54037	Jefferson County	39.307	-77.863	550
+WV	54039	Kanawha County	38.3386	-81.527	2359
+WV	54041	Lewis County	38.9964	-80.5034	1007
+WV	54043	Lincoln County	38.1749	-82.0702	1141
+WV	54045	Logan County	37.8319	-81.9355	1174
+WV	54047	McDowell County	37.3778	-81.6536	1375
+WV	54049	Marion County	39.5094	-80.2406	814
+WV	54051	Marshall County	39.86	-80.6623	801
+WV	54053	Mason County	38.7683	-82.0265	1151
+WV	54055	Mercer County	37.4061	-81.1125	1095
+WV	54057	Mineral County	39.412	-78.9455	839
+WV	54059	Mingo County	37.727	-82.1355	1122
+WV	54061	Monongalia County	39.6309	-80.0467	945
+WV	54063	Monroe County	37.5606	-80.5491	1225
+WV	54065	Morgan County	39.5597	-78.2538	576
+WV	54067	Nicholas County	38.2913	-80.8002	1701
+WV	54069	Ohio County	40.0972	-80.6198	281
+WV	54071	Pendleton County	38.6805	-79.3517	1813
+WV	54073	Pleasants County	39.3705	-81.1614	357
+WV	54075	Pocahontas County	38.3309	-80.0098	2417
+WV	54077	Preston County	39.4684	-79.6684	1694
+WV	54079	Putnam County	38.508	-81.9106	895
+WV	54081	Raleigh County	37.7713	-81.2478	1572
+WV	54083	Randolph County	38.7748	-79.8767	2690
+WV	54085	Ritchie County	39.1775	-81.063	1172
+WV	54087	Roane County	38.715	-81.3476	1263
+WV	54089	Summers County	37.6556	-80.8584	957
+WV	54091	Taylor County	39.3353	-80.0458	441
+WV	54093	Tucker County	39.1131	-79.5667	1084
+WV	54095	Tyler County	39.4647	-80.8831	672
+WV	54097	Upshur County	38.8981	-80.2342	921
+WV	54099	Wayne County	38.1466	-82.4279	1325
+WV	54101	Webster County	38.4943	-80.422	1445
+WV	54103	Wetzel County	39.6055	-80.64	939
+WV	54105	Wirt County	39.0233	-81.3787	601
+WV	54107	Wood County	39.2102	-81.516	974
+WV	54109	Wyoming County	37.6091	-81.5506	1299
+WI	55001	Adams County	43.9681	-89.7704	1784
+WI	55003	Ashland County	46.3272	-90.6783	2779
+WI	55005	Barron County	45.4236	-91.8478	2299
+WI	55007	Bayfield County	46.5236	-91.2017	3893
+WI	55009	Brown County	44.4531	-88.0035	1388
+WI	55011	Buffalo County	44.3785	-91.7537	1834
+WI	55013	Burnett County	45.8628	-92.3682	2264
+WI	55015	Calumet County	44.0816	-88.2176	1021
+WI	55017	Chippewa County	45.0695	-91.2798	2696
+WI	55019	Clark County	44.7344	-90.612	3149
+WI	55021	Columbia County	43.4665	-89.3334	2059
+WI	55023	Crawford County	43.2398	-90.9317	1546
+WI	55025	Dane County	43.0675	-89.4182	3208
+WI	55027	Dodge County	43.4156	-88.7071	2346
+WI	55029	Door County	44.9491	-87.314	1317
+WI	55031	Douglas County	46.4322	-91.9164	3474
+WI	55033	Dunn County	44.947	-91.8965	2229
+WI	55035	Eau Claire County	44.7269	-91.2865	1666
+WI	55037	Florence County	45.8482	-88.3975	1291
+WI	55039	Fond du Lac County	43.7537	-88.4901	1979
+WI	55041	Forest County	45.6675	-88.7702	2705
+WI	55043	Grant County	42.8677	-90.7072	3064
+WI	55045	Green County	42.6797	-89.602	1521
+WI	55047	Green Lake County	43.8	-89.0455	974
+WI	55049	Iowa County	43.0009	-90.1356	1995
+WI	55051	Iron County	46.2616	-90.242	2077
+WI	55053	Jackson County	44.3194	-90.8055	2590
+WI	55055	Jefferson County	43.0207	-88.7758	1500
+WI	55057	Juneau County	43.9241	-90.1144	2076
+WI	55059	Kenosha County	42.576	-88.0419	723
+WI	55061	Kewaunee County	44.516	-87.6174	884
+WI	55063	La Crosse County	43.9067	-91.1141	1230
+WI	55065	Lafayette County	42.6601	-90.1325	1643
+WI	55067	Langlade County	45.2622	-89.0721	2296
+WI	55069	Lincoln County	45.3374	-89.7351	2337
+WI	55071	Manitowoc County	44.1196	-87.8103	1541
+WI	55073	Marathon County	44.8986	-89.7596	4070
+WI	55075	Marinette County	45.3827	-88.033	3693
+WI	55077	Marquette County	43.8199	-89.3981	1202
+WI	55078	Menominee County	45.0043	-88.7095	943
+WI	55079	Milwaukee County	43.0053	-87.9675	621
+WI	55081	Monroe County	43.9454	-90.6178	2349
+WI	55083	Oconto County	45.0253	-88.267	2637
+WI	55085	Oneida County	45.7053	-89.5209	3195
+WI	55087	Outagamie County	44.4156	-88.4654	1666
+WI	55089	Ozaukee County	43.3834	-87.9514	601
+WI	55091	Pepin County	44.583	-92.0019	650
+WI	55093	Pierce County	44.72	-92.4218	1528
+WI	55095	Polk County	45.4615	-92.4407	2472
+WI	55097	Portage County	44.4763	-89.5019	2125
+WI	55099	Price County	45.6798	-90.3612	3308
+WI	55101	Racine County	42.7472	-88.06	881
+WI	55103	Richland County	43.3761	-90.4296	1522
+WI	55105	Rock County	42.6712	-89.0713	1868
+WI	55107	Rusk County	45.4756	-91.1328	2399
+WI	55109	St. Croix County	45.0342	-92.4531	1903
+WI	55111	Sauk County	43.4275	-89.9486	2182
+WI	55113	Sawyer County	45.88	-91.1448	3493
+WI	55115	Shawano County	44.7893	-88.7644	2354
+WI	55117	Sheboygan County	43.721	-87.9459	1346
+WI	55119	Taylor County	45.2115	-90.5017	2543
+WI	55121	Trempealeau County	44.3029	-91.3589	1922
+WI	55123	Vernon County	43.5938	-90.8355	2116
+WI	55125	Vilas County	46.0532	-89.5149	2630
+WI	55127	Walworth County	42.6685	-88.5423	1496
+WI	55129	Washburn County	45.8987	-91.7915	2204
+WI	55131	Washington County	43.3686	-88.23	1127
+WI	55133	Waukesha County	43.018	-88.3045	1504
+WI	55135	Waupaca County	44.4708	-88.9655	1983
+WI	55137	Waushara County	44.1134	-89.2437	1647
+WI	55139	Winnebago County	44.0687	-88.6446	1503
+WI	55141	Wood County	44.4548	-90.0416	2091
+WY	56001	Albany County	41.6528	-105.7246	11144
+WY	56003	Big Horn County	44.5263	-107.9943	8160
+WY	56005	Campbell County	44.2457	-105.5488	12427
+WY	56007	Carbon County	41.6928	-106.932	20582
+WY	56009	Converse County	42.971	-105.5075	11019
+WY	56011	Crook County	44.588	-104.57	7403
+WY	56013	Fremont County	43.0394	-108.6247	23946
+WY	56015	Goshen County	42.0867	-104.3534	5785
+WY	56017	Hot Springs County	43.7195	-108.4408	5179
+WY	56019	Johnson County	44.0385	-106.5848	10786
+WY	56021	Laramie County	41.3073	-104.6892	6962
+WY	56023	Lincoln County	42.2608	-110.6538	10593
+WY	56025	Natrona County	42.9613	-106.798	13902
+WY	56027	Niobrara County	43.0557	-104.4751	6808
+WY	56029	Park County	44.5203	-109.5865	18017
+WY	56031	Platte County	42.1318	-104.9664	5447
+WY	56033	Sheridan County	44.7915	-106.8791	6528
+WY	56035	Sublette County	42.7662	-109.9137	12749
+WY	56037	Sweetwater County	41.6597	-108.8799	27141
+WY	56039	Teton County	43.9325	-110.5886	10920
+WY	56041	Uinta County	41.2877	-110.5474	5411
+WY	56043	Washakie County	43.9049	-107.6813	5803
+WY	56045	Weston County	43.8401	-104.5688	6206
+AS	60010	Eastern District	-14.2733	-170.6574	98
+AS	60020	Manu'a District	-14.2191	-169.5153	56
+AS	60050	Western District	-14.3235	-170.7678	74
+GU	66010	Guam	13.4437	144.7745	578
+MP	69085	Northern Islands Municipality	17.7215	145.747	136
+MP	69100	Rota Municipality	14.1567	145.2088	91
+MP	69110	Saipan Municipality	15.1904	145.7504	144
+MP	69120	Tinian Municipality	15.0098	145.6316	109
+PR	72001	Adjuntas Municipio	18.1796	-66.7526	172
+PR	72003	Aguada Municipio	18.3618	-67.1738	86
+PR	72005	Aguadilla Municipio	18.4608	-67.1202	97
+PR	72007	Aguas Buenas Municipio	18.2505	-66.1272	73
+PR	72009	Aibonito Municipio	18.1295	-66.2637	80
+PR	72011	Anasco Municipio	18.2863	-67.1241	100
+PR	72013	Arecibo Municipio	18.4051	-66.6759	330
+PR	72015	Arroyo Municipio	17.9962	-66.054	36
+PR	72017	Barceloneta Municipio	18.4418	-66.5594	56
+PR	72019	Barranquitas Municipio	18.201	-66.3093	92
+PR	72021	Bayamon Municipio	18.3507	-66.1686	117
+PR	72023	Cabo Rojo Municipio	18.0441	-67.1536	201
+PR	72025	Caguas Municipio	18.2165	-66.0522	150
+PR	72027	Camuy Municipio	18.4175	-66.8608	117
+PR	72029	Canovanas Municipio	18.3286	-65.886	78
+PR	72031	Carolina Municipio	18.3768	-65.9566	133
+PR	72033	Catano Municipio	18.445	-66.1388	20
+PR	72035	Cayey Municipio	18.1048	-66.1493	137
+PR	72037	Ceiba Municipio	18.2546	-65.6543	97
+PR	72039	Ciales Municipio	18.2912	-66.5189	175
+PR	72041	Cidra Municipio	18.175	-66.1631	97
+PR	72043	Coamo Municipio	18.0968	-66.3603	195
+PR	72045	Comerio Municipio	18.223	-66.2237	69
+PR	72047	Corozal Municipio	18.3032	-66.3303	107
+PR	72049	Culebra Municipio	18.3136	-65.2852	53
+PR	72051	Dorado Municipio	18.4387	-66.2753	59
+PR	72053	Fajardo Municipio	18.3225	-65.6613	78
+PR	72054	Florida Municipio	18.3701	-66.5632	32
+PR	72055	Guanica Municipio	17.9825	-66.9193	100
+PR	72057	Guayama Municipio	18.0058	-66.1364	196
+PR	72059	Guayanilla Municipio	18.0338	-66.7933	112
+PR	72061	Guaynabo Municipio	18.3388	-66.1152	74
+PR	72063	Gurabo Municipio	18.2637	-65.9772	81
+PR	72065	Hatillo Municipio	18.4104	-66.7971	106
+PR	72067	Hormigueros Municipio	18.1367	-67.1159	20
+PR	72069	Humacao Municipio	18.1455	-65.812	123
+PR	72071	Isabela Municipio	18.4477	-67.0034	145
+PR	72073	Jayuya Municipio	18.2125	-66.5883	106
+PR	72075	Juana Diaz Municipio	18.0542	-66.4947	165
+PR	72077	Juncos Municipio	18.2249	-65.9081	63
+PR	72079	Lajas Municipio	18.0124	-67.0378	154
+PR	72081	Lares Municipio	18.268	-66.8659	160
+PR	72083	Las Marias Municipio	18.2367	-66.9797	122
+PR	72085	Las Piedras Municipio	18.1881	-65.8714	91
+PR	72087	Loiza Municipio	18.4278	-65.9027	56
+PR	72089	Luquillo Municipio	18.341	-65.7242	66
+PR	72091	Manati Municipio	18.4181	-66.4896	121
+PR	72093	Maricao Municipio	18.1718	-66.9444	100
+PR	72095	Maunabo Municipio	18.0152	-65.9189	46
+PR	72097	Mayaguez Municipio	18.1767	-67.3095	201
+PR	72099	Moca Municipio	18.3771	-67.0813	134
+PR	72101	Morovis Municipio	18.3192	-66.4187	99
+PR	72103	Naguabo Municipio	18.2294	-65.752	139
+PR	72105	Naranjito Municipio	18.2859	-66.2518	70
+PR	72107	Orocovis Municipio	18.2147	-66.4358	178
+PR	72109	Patillas Municipio	18.0327	-66.0112	130
+PR	72111	Penuelas Municipio	18.0625	-66.7226	116
+PR	72113	Ponce Municipio	18.0614	-66.6154	313
+PR	72115	Quebradillas Municipio	18.4426	-66.9275	58
+PR	72117	Rincon Municipio	18.3355	-67.2292	37
+PR	72119	Rio Grande Municipio	18.3468	-65.8127	165
+PR	72121	Sabana Grande Municipio	18.0845	-66.9436	93
+PR	72123	Salinas Municipio	18.0059	-66.2577	185
+PR	72125	San German Municipio	18.1088	-67.039	139
+PR	72127	San Juan Municipio	18.393	-66.0628	135
+PR	72129	San Lorenzo Municipio	18.1488	-65.9771	138
+PR	72131	San Sebastian Municipio	18.3278	-66.9719	186
+PR	72133	Santa Isabel Municipio	17.9954	-66.3875	92
+PR	72135	Toa Alta Municipio	18.3589	-66.2485	80
+PR	72137	Toa Baja Municipio	18.4303	-66.2158	60
+PR	72139	Trujillo Alto Municipio	18.3362	-66.0026	53
+PR	72141	Utuado Municipio	18.2703	-66.7048	293
+PR	72143	Vega Alta Municipio	18.414	-66.3363	80
+PR	72145	Vega Baja Municipio	18.4282	-66.4001	114
+PR	72147	Vieques Municipio	18.1227	-65.4342	139
+PR	72149	Villalba Municipio	18.1304	-66.47	89
+PR	72151	Yabucoa Municipio	18.07	-65.8977	141
+PR	72153	Yauco Municipio	18.0828	-66.8577	174
+VI	78010	St. Croix Island	17.7317	-64.7683	237
+VI	78020	St. John Island	18.3416	-64.7493	69
+VI	78030	St. Thomas Island	18.3448	-64.9398	136
+`;
@@ -0,0 +1,124 @@
+import path from "path";
+import { fileURLToPath } from "url";
+import { DEFAULT_PAGE_SIZE, type CitySearch, type TreeSearchResult } from "@shared/schema";
+import { gazetteer } from "../gazetteer";
+import { areaGazetteer } from "../area-gazetteer";
+import { createGeocoder } from "../geocoder";
+import { HttpGbifClient } from "../gbif";
+import { readCsvRecords } from "../import/csv";
+import { growthFormRows } from "../import/growth-forms";
+import { invasiveSpeciesRows } from "../import/invasive-species";
+import { nativeStatusRows } from "../import/native-status";
+import { MemStorage } from "../mem-storage";
+import { TokenBucket } from "../rate-limiter";
+import { TreeSearchService } from "../tree-search";
+import type { ReferenceCity } from "./reference-cities";
+import {
+  fixtureFileName,
+  readFixtureFile,
+  recordingFetch,
+  replayingFetch,
+  writeFixtureFile,
+  type FixtureFile,
+  type RecordedResponse
+} from "./http-fixtures";
+
+export const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "recorded");
+
+const SAMPLE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "import", "samples");
+
+export type FixtureMode = "record" | "replay";
+
+// In-memory storage seeded with the importers' sample checklist, invasive registry and growth forms,
+// so recordings and replays classify species the way an imported database would
+async function sampleStorage(): Promise<MemStorage> {
+  const storage = new MemStorage();
+  const records = (name: string) => readCsvRecords(path.join(SAMPLE_DIR, `${name}.csv`));
+
+  await storage.upsertNativeStatuses(nativeStatusRows(records("native-status"), "sample").rows);
+  await storage.upsertInvasiveSpecies(invasiveSpeciesRows(records("invasive-species"), "sample", "").rows);
+  await storage.upsertGrowthForms(growthFormRows(records("growth-forms"), "sample").rows);
+
+  return storage;
+}
+
+export type FixtureSearchOutcome =
+  | { status: "ok"; result: TreeSearchResult; missing: string[]; fixture: FixtureFile }
+  | { status: "no-fixture"; fileName: string }
+  | { status: "error"; message: string };
+
+// Run one search through the real pipeline with seeded in-memory storage, either against the live
+// APIs (saving every response as the city's fixture in dir) or from a previously recorded fixture.
+// Tests pass upstream to record from a stand-in for the live APIs instead
+export async function searchWithFixtures(
+  mode: FixtureMode,
+  search: Pick<CitySearch, "city" | "state" | "radiusKm">,
+  { dir = FIXTURE_DIR, upstream }: { dir?: string; upstream?: typeof fetch } = {}
+): Promise<FixtureSearchOutcome> {
+  const { city, state, radiusKm } = search;
+  const fileName = fixtureFileName(city, state, radiusKm);
+
+  let fixture: FixtureFile = { city, state, radiusKm, recordedAt: new Date().toISOString(), responses: {} };
+  if (mode === "replay") {
+    const recorded = readFixtureFile(dir, fileName);
+    if (!recorded) return { status: "no-fixture", fileName };
+    fixture = recorded;
+  }
+
+  const missing: string[] = [];
+  const fetchFn = mode === "record" ? recordingFetch(fixture.responses, upstream) : replayingFetch(fixture.responses, missing);
+
+  // Replays (and recordings from a stand-in) have nothing to wait for, so skip pacing and retries
+  const gbif = new HttpGbifClient(mode === "record" && !upstream
+    ? { fetch: fetchFn }
+    : { fetch: fetchFn, limiter: new TokenBucket(10000), maxRetries: 0 });
+
+  const service = new TreeSearchService({
+    geocoder: createGeocoder("gazetteer", { fetch: fetchFn }),
+    gbif,
+    storage: await sampleStorage(),
+    gazetteer,
+    areas: areaGazetteer
+  });
+
+  try {
+    // Only the first page is compared, so replays need no detail lookups beyond the crawl's
+    const result = await service.search({ kind: "city", ...search, includeInvasive: false, limit: DEFAULT_PAGE_SIZE });
+
+    if (mode === "record") {
+      fixture = { ...fixture, ranked: result.species.map(species => species.scientificName) };
+      writeFixtureFile(dir, fileName, fixture);
+      console.log(`Recorded ${Object.keys(fixture.responses).length} responses to ${fileName}`);
+    }
+
+    return { status: "ok", result, missing, fixture };
+  } catch (error) {
+    return { status: "error", message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Helper function to compare a search with a reference city's expectations: expected and
+// excluded species, requests missing from the fixture, and the ranking the fixture was recorded with
+export function checkReference(
+  reference: ReferenceCity,
+  { result, missing, fixture }: Extract<FixtureSearchOutcome, { status: "ok" }>
+): string[] {
+  const ranked = result.species.map(species => species.scientificName);
+  const found = new Set(ranked);
+  const failures: string[] = [];
+
+  for (const name of reference.includes) {
+    if (!found.has(name)) failures.push(`expected ${name}`);
+  }
+  for (const name of reference.excludes) {
+    if (found.has(name)) failures.push(`did not expect ${name}`);
+  }
+  if (missing.length > 0) {
+    failures.push(`${missing.length} requests had no recorded response (first: ${missing[0]})`);
+  }
+  if (fixture.ranked && fixture.ranked.join("|") !== ranked.join("|")) {
+    failures.push(`ranking changed from [${fixture.ranked.join(", ")}] to [${ranked.join(", ")}]`);
+  }
+
+  return failures;
+}
@@ -0,0 +1,173 @@
+// Golden dataset for scoring the native tree pipeline (see score.ts). For each city, `natives`
+// are common trees native to the area that a good result should report and `nonNatives` are
+// introduced or invasive trees frequently recorded there that it must not report.
+// Lists are deliberately short and uncontroversial; species not listed are not scored
+export interface GoldenCity {
+  city: string;
+  state: string;
+  radiusKm: number;
+  natives: string[];
+  nonNatives: string[];
+}
+
+export const GOLDEN_CITIES: GoldenCity[] = [
+  { city: "Birmingham", state: "AL", radiusKm: 50,
+    natives: ["Liquidambar styraciflua", "Quercus alba", "Pinus taeda", "Liriodendron tulipifera"],
+    nonNatives: ["Albizia julibrissin", "Pyrus calleryana", "Melia azedarach"] },
+  { city: "Anchorage", state: "AK", radiusKm: 50,
+    natives: ["Picea glauca", "Betula neoalaskana", "Populus tremuloides", "Populus balsamifera"],
+    nonNatives: ["Prunus padus", "Sorbus aucuparia"] },
+  { city: "Phoenix", state: "AZ", radiusKm: 50,
+    natives: ["Parkinsonia microphylla", "Prosopis velutina", "Olneya tesota", "Parkinsonia florida"],
+    nonNatives: ["Tamarix ramosissima", "Eucalyptus camaldulensis"] },
+  { city: "Little Rock", state: "AR", radiusKm: 50,
+    natives: ["Quercus phellos", "Liquidambar styraciflua", "Pinus echinata", "Carya tomentosa"],
+    nonNatives: ["Pyrus calleryana", "Albizia julibrissin"] },
+  { city: "Sacramento", state: "CA", radiusKm: 50,
+    natives: ["Quercus lobata", "Platanus racemosa", "Quercus wislizeni", "Populus fremontii"],
+    nonNatives: ["Ailanthus altissima", "Robinia pseudoacacia", "Eucalyptus globulus"] },
+  { city: "San Francisco", state: "CA", radiusKm: 50,
+    natives: ["Quercus agrifolia", "Umbellularia californica", "Arbutus menziesii", "Sequoia sempervirens"],
+    nonNatives: ["Eucalyptus globulus", "Acacia melanoxylon"] },
+  { city: "Los Angeles", state: "CA", radiusKm: 50,
+    natives: ["Quercus agrifolia", "Platanus racemosa", "Juglans californica"],
+    nonNatives: ["Schinus molle", "Eucalyptus camaldulensis", "Ailanthus altissima"] },
+  { city: "Denver", state: "CO", radiusKm: 50,
+    natives: ["Populus deltoides", "Pinus ponderosa", "Juniperus scopulorum"],
+    nonNatives: ["Ulmus pumila", "Elaeagnus angustifolia"] },
+  { city: "Hartford", state: "CT", radiusKm: 50,
+    natives: ["Acer rubrum", "Quercus rubra", "Betula lenta", "Tsuga canadensis"],
+    nonNatives: ["Acer platanoides", "Ailanthus altissima"] },
+  { city: "Wilmington", state: "DE", radiusKm: 50,
+    natives: ["Liquidambar styraciflua", "Liriodendron tulipifera", "Fagus grandifolia", "Quercus alba"],
+    nonNatives: ["Pyrus calleryana", "Ailanthus altissima"] },
+  { city: "Tallahassee", state: "FL", radiusKm: 50,
+    natives: ["Quercus virginiana", "Magnolia grandiflora", "Pinus palustris", "Liquidambar styraciflua"],
+    nonNatives: ["Triadica sebifera", "Cinnamomum camphora", "Melia azedarach"] },
+  { city: "Miami", state: "FL", radiusKm: 50,
+    natives: ["Bursera simaruba", "Quercus virginiana", "Sabal palmetto", "Swietenia mahagoni"],
+    nonNatives: ["Schinus terebinthifolia", "Casuarina equisetifolia", "Melaleuca quinquenervia"] },
+  { city: "Atlanta", state: "GA", radiusKm: 50,
+    natives: ["Liriodendron tulipifera", "Quercus alba", "Pinus taeda", "Acer rubrum"],
+    nonNatives: ["Albizia julibrissin", "Pyrus calleryana", "Paulownia tomentosa"] },
+  { city: "Honolulu", state: "HI", radiusKm: 50,
+    natives: ["Metrosideros polymorpha", "Acacia koa"],
+    nonNatives: ["Leucaena leucocephala", "Falcataria moluccana", "Spathodea campanulata"] },
+  { city: "Boise", state: "ID", radiusKm: 50,
+    natives: ["Populus trichocarpa", "Pseudotsuga menziesii", "Pinus ponderosa"],
+    nonNatives: ["Elaeagnus angustifolia", "Ulmus pumila", "Robinia pseudoacacia"] },
+  { city: "Chicago", state: "IL", radiusKm: 50,
+    natives: ["Quercus alba", "Quercus macrocarpa", "Acer saccharinum", "Celtis occidentalis"],
+    nonNatives: ["Ailanthus altissima", "Acer platanoides", "Ulmus pumila"] },
+  { city: "Indianapolis", state: "IN", radiusKm: 50,
+    natives: ["Acer saccharum", "Celtis occidentalis", "Platanus occidentalis", "Quercus rubra"],
+    nonNatives: ["Pyrus calleryana", "Ailanthus altissima"] },
+  { city: "Des Moines", state: "IA", radiusKm: 50,
+    natives: ["Quercus macrocarpa", "Acer saccharinum", "Populus deltoides", "Juglans nigra"],
+    nonNatives: ["Ulmus pumila", "Morus alba"] },
+  { city: "Wichita", state: "KS", radiusKm: 50,
+    natives: ["Populus deltoides", "Celtis occidentalis", "Ulmus americana"],
+    nonNatives: ["Ulmus pumila", "Elaeagnus angustifolia"] },
+  { city: "Louisville", state: "KY", radiusKm: 50,
+    natives: ["Acer saccharum", "Platanus occidentalis", "Liriodendron tulipifera", "Celtis occidentalis"],
+    nonNatives: ["Ailanthus altissima", "Pyrus calleryana"] },
+  { city: "New Orleans", state: "LA", radiusKm: 50,
+    natives: ["Quercus virginiana", "Taxodium distichum", "Magnolia grandiflora", "Acer rubrum"],
+    nonNatives: ["Triadica sebifera", "Melia azedarach", "Cinnamomum camphora"] },
+  { city: "Portland", state: "ME", radiusKm: 50,
+    natives: ["Pinus strobus", "Acer rubrum", "Quercus rubra", "Betula papyrifera"],
+    nonNatives: ["Acer platanoides", "Robinia pseudoacacia"] },
+  { city: "Baltimore", state: "MD", radiusKm: 50,
+    natives: ["Liriodendron tulipifera", "Quercus alba", "Fagus grandifolia", "Liquidambar styraciflua"],
+    nonNatives: ["Ailanthus altissima", "Paulownia tomentosa", "Pyrus calleryana"] },
+  { city: "Boston", state: "MA", radiusKm: 50,
+    natives: ["Quercus rubra", "Acer rubrum", "Pinus strobus", "Betula populifolia"],
+    nonNatives: ["Acer platanoides", "Ailanthus altissima"] },
+  { city: "Detroit", state: "MI", radiusKm: 50,
+    natives: ["Acer saccharinum", "Quercus rubra", "Acer saccharum", "Tilia americana"],
+    nonNatives: ["Acer platanoides", "Ailanthus altissima", "Ulmus pumila"] },
+  { city: "Minneapolis", state: "MN", radiusKm: 50,
+    natives: ["Quercus macrocarpa", "Acer saccharinum", "Tilia americana", "Quercus ellipsoidalis"],
+    nonNatives: ["Ulmus pumila", "Acer platanoides"] },
+  { city: "Jackson", state: "MS", radiusKm: 50,
+    natives: ["Quercus nigra", "Liquidambar styraciflua", "Pinus taeda", "Magnolia grandiflora"],
+    nonNatives: ["Triadica sebifera", "Albizia julibrissin"] },
+  { city: "St. Louis", state: "MO", radiusKm: 50,
+    natives: ["Quercus alba", "Celtis occidentalis", "Platanus occidentalis", "Acer saccharinum"],
+    nonNatives: ["Pyrus calleryana", "Ailanthus altissima", "Ulmus pumila"] },
+  { city: "Missoula", state: "MT", radiusKm: 50,
+    natives: ["Pinus ponderosa", "Pseudotsuga menziesii", "Larix occidentalis", "Populus trichocarpa"],
+    nonNatives: ["Acer platanoides", "Ulmus pumila"] },
+  { city: "Omaha", state: "NE", radiusKm: 50,
+    natives: ["Quercus macrocarpa", "Populus deltoides", "Celtis occidentalis", "Juglans nigra"],
+    nonNatives: ["Ulmus pumila", "Elaeagnus angustifolia"] },
+  { city: "Las Vegas", state: "NV", radiusKm: 50,
+    natives: ["Prosopis glandulosa", "Prosopis pubescens"],
+    nonNatives: ["Tamarix ramosissima", "Ulmus pumila"] },
+  { city: "Concord", state: "NH", radiusKm: 50,
+    natives: ["Pinus strobus", "Acer rubrum", "Quercus rubra", "Betula papyrifera"],
+    nonNatives: ["Acer platanoides"] },
+  { city: "Trenton", state: "NJ", radiusKm: 50,
+    natives: ["Liriodendron tulipifera", "Quercus alba", "Acer rubrum", "Liquidambar styraciflua"],
+    nonNatives: ["Ailanthus altissima", "Pyrus calleryana", "Paulownia tomentosa"] },
+  { city: "Albuquerque", state: "NM", radiusKm: 50,
+    natives: ["Populus deltoides", "Juniperus monosperma", "Pinus edulis"],
+    nonNatives: ["Ulmus pumila", "Elaeagnus angustifolia", "Tamarix ramosissima"] },
+  { city: "Syracuse", state: "NY", radiusKm: 50,
+    natives: ["Acer saccharum", "Fagus grandifolia", "Tsuga canadensis", "Prunus serotina"],
+    nonNatives: ["Acer platanoides", "Ailanthus altissima"] },
+  { city: "Raleigh", state: "NC", radiusKm: 50,
+    natives: ["Pinus taeda", "Liquidambar styraciflua", "Acer rubrum", "Quercus alba"],
+    nonNatives: ["Pyrus calleryana", "Albizia julibrissin", "Paulownia tomentosa"] },
+  { city: "Fargo", state: "ND", radiusKm: 50,
+    natives: ["Populus deltoides", "Fraxinus pennsylvanica", "Ulmus americana", "Acer negundo"],
+    nonNatives: ["Ulmus pumila", "Elaeagnus angustifolia"] },
+  { city: "Columbus", state: "OH", radiusKm: 50,
+    natives: ["Acer saccharum", "Platanus occidentalis", "Aesculus glabra", "Quercus alba"],
+    nonNatives: ["Pyrus calleryana", "Ailanthus altissima"] },
+  { city: "Oklahoma City", state: "OK", radiusKm: 50,
+    natives: ["Quercus stellata", "Quercus marilandica", "Celtis occidentalis", "Populus deltoides"],
+    nonNatives: ["Ulmus pumila", "Pyrus calleryana"] },
+  { city: "Portland", state: "OR", radiusKm: 50,
+    natives: ["Pseudotsuga menziesii", "Acer macrophyllum", "Thuja plicata", "Alnus rubra"],
+    nonNatives: ["Ilex aquifolium", "Prunus laurocerasus", "Acer platanoides"] },
+  { city: "Pittsburgh", state: "PA", radiusKm: 50,
+    natives: ["Acer rubrum", "Liriodendron tulipifera", "Quercus rubra", "Prunus serotina"],
+    nonNatives: ["Ailanthus altissima", "Paulownia tomentosa", "Acer platanoides"] },
+  { city: "Providence", state: "RI", radiusKm: 50,
+    natives: ["Acer rubrum", "Quercus rubra", "Quercus alba", "Pinus rigida"],
+    nonNatives: ["Acer platanoides", "Ailanthus altissima"] },
+  { city: "Charleston", state: "SC", radiusKm: 50,
+    natives: ["Quercus virginiana", "Sabal palmetto", "Magnolia grandiflora", "Taxodium distichum"],
+    nonNatives: ["Triadica sebifera", "Melia azedarach"] },
+  { city: "Sioux Falls", state: "SD", radiusKm: 50,
+    natives: ["Populus deltoides", "Quercus macrocarpa", "Fraxinus pennsylvanica", "Acer negundo"],
+    nonNatives: ["Ulmus pumila", "Elaeagnus angustifolia"] },
+  { city: "Knoxville", state: "TN", radiusKm: 50,
+    natives: ["Liriodendron tulipifera", "Acer rubrum", "Quercus alba", "Oxydendrum arboreum"],
+    nonNatives: ["Ailanthus altissima", "Paulownia tomentosa", "Albizia julibrissin"] },
+  { city: "Austin", state: "TX", radiusKm: 50,
+    natives: ["Quercus fusiformis", "Juniperus ashei", "Ulmus crassifolia", "Celtis laevigata"],
+    nonNatives: ["Melia azedarach", "Triadica sebifera", "Pistacia chinensis"] },
+  { city: "Salt Lake City", state: "UT", radiusKm: 50,
+    natives: ["Acer grandidentatum", "Quercus gambelii", "Populus angustifolia", "Acer negundo"],
+    nonNatives: ["Ulmus pumila", "Ailanthus altissima", "Elaeagnus angustifolia"] },
+  { city: "Burlington", state: "VT", radiusKm: 50,
+    natives: ["Acer saccharum", "Pinus strobus", "Betula papyrifera", "Thuja occidentalis"],
+    nonNatives: ["Acer platanoides"] },
+  { city: "Richmond", state: "VA", radiusKm: 50,
+    natives: ["Liriodendron tulipifera", "Quercus alba", "Liquidambar styraciflua", "Pinus taeda"],
+    nonNatives: ["Ailanthus altissima", "Pyrus calleryana", "Paulownia tomentosa"] },
+  { city: "Seattle", state: "WA", radiusKm: 50,
+    natives: ["Pseudotsuga menziesii", "Thuja plicata", "Acer macrophyllum", "Alnus rubra"],
+    nonNatives: ["Ilex aquifolium", "Prunus laurocerasus", "Acer platanoides"] },
+  { city: "Charleston", state: "WV", radiusKm: 50,
+    natives: ["Liriodendron tulipifera", "Acer saccharum", "Quercus alba", "Platanus occidentalis"],
+    nonNatives: ["Ailanthus altissima", "Paulownia tomentosa"] },
+  { city: "Madison", state: "WI", radiusKm: 50,
+    natives: ["Quercus alba", "Quercus macrocarpa", "Acer saccharum", "Tilia americana"],
+    nonNatives: ["Acer platanoides", "Ulmus pumila"] },
+  { city: "Cheyenne", state: "WY", radiusKm: 50,
+    natives: ["Pinus ponderosa", "Juniperus scopulorum", "Populus angustifolia"],
+    nonNatives: ["Ulmus pumila", "Elaeagnus angustifolia"] }
+];
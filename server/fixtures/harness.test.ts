@@ -0,0 +1,47 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { REFERENCE_CITIES } from "./reference-cities";
+import { fixtureFileName, readFixtureFile } from "./http-fixtures";
+import { searchWithFixtures } from "./fixture-search";
+import { simulatedGbifFetch } from "./simulated-upstream";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "tree-fixtures-"));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const { city, state, radiusKm } = REFERENCE_CITIES[0];
+
+test("a recorded search replays offline with the same ranking", async () => {
+  const recorded = await searchWithFixtures("record", { city, state, radiusKm }, { dir, upstream: simulatedGbifFetch(city, state)! });
+  assert.equal(recorded.status, "ok");
+  if (recorded.status !== "ok") return;
+
+  const replayed = await searchWithFixtures("replay", { city, state, radiusKm }, { dir });
+  assert.equal(replayed.status, "ok");
+  if (replayed.status !== "ok") return;
+
+  assert.deepEqual(replayed.missing, []);
+  assert.ok(replayed.fixture.ranked && replayed.fixture.ranked.length > 0);
+  assert.deepEqual(replayed.result.species.map(species => species.scientificName), replayed.fixture.ranked);
+});
+
+test("a replay reports requests missing from the fixture", async () => {
+  const fileName = fixtureFileName(city, state, radiusKm);
+  const fixture = readFixtureFile(dir, fileName)!;
+  const detailUrl = Object.keys(fixture.responses).find(url => /\/species\/\d+$/.test(url))!;
+  delete fixture.responses[detailUrl];
+  fs.writeFileSync(path.join(dir, fileName), JSON.stringify(fixture));
+
+  const replayed = await searchWithFixtures("replay", { city, state, radiusKm }, { dir });
+  assert.equal(replayed.status, "ok");
+  if (replayed.status !== "ok") return;
+
+  assert.ok(replayed.missing.includes(detailUrl));
+});
+
+test("a city without a fixture is reported as not recorded", async () => {
+  const outcome = await searchWithFixtures("replay", { city: "Nowhere", state: "NC", radiusKm }, { dir });
+  assert.equal(outcome.status, "no-fixture");
+});
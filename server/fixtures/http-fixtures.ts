@@ -0,0 +1,86 @@
+import fs from "fs";
+import path from "path";
+import { normalizePlaceName } from "../gazetteer";
+
+// Response headers worth keeping in a fixture; everything else is noise between recordings
+const RECORDED_HEADERS = ["content-type", "etag", "last-modified", "retry-after"];
+
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+// Every upstream response seen while searching one reference city, keyed by request URL, with the
+// first page of species (scientific names in rank order) the search returned when it was recorded
+export interface FixtureFile {
+  city: string;
+  state: string;
+  radiusKm: number;
+  recordedAt: string;
+  ranked?: string[];
+  responses: Record<string, RecordedResponse>;
+}
+
+// Thrown during replay when the pipeline requests a URL that was never recorded
+// (new request parameters, a changed GBIF_OCCURRENCE_BUDGET, or a city that was not recorded)
+export class MissingFixtureError extends Error {
+  constructor(public readonly url: string) {
+    super(`No recorded response for ${url}`);
+    this.name = "MissingFixtureError";
+  }
+}
+
+// Helper function to name a city's fixture file, e.g. "nc-asheville-50.json"
+export function fixtureFileName(city: string, state: string, radiusKm: number): string {
+  return `${state.toLowerCase()}-${normalizePlaceName(city).replace(/ /g, "-")}-${radiusKm}.json`;
+}
+
+export function readFixtureFile(dir: string, fileName: string): FixtureFile | null {
+  const filePath = path.join(dir, fileName);
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+}
+
+export function writeFixtureFile(dir: string, fileName: string, fixture: FixtureFile): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, fileName), JSON.stringify(fixture, null, 2) + "\n");
+}
+
+function requestUrl(input: string | URL | Request): string {
+  return input instanceof Request ? input.url : String(input);
+}
+
+// fetch that passes requests through to the real network and keeps a copy of each JSON response.
+// A retried URL keeps its last response, so a recorded 429 is replaced by the eventual success
+export function recordingFetch(responses: Record<string, RecordedResponse>, inner: typeof fetch = fetch): typeof fetch {
+  return async (input, init) => {
+    const response = await inner(input, init);
+    const body = await response.clone().json().catch(() => null);
+
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+
+    responses[requestUrl(input)] = { status: response.status, headers, body };
+    return response;
+  };
+}
+
+// fetch that answers only from recorded responses and never touches the network.
+// Unrecorded URLs are collected in `missing`, since callers like getSpeciesDetails swallow the error
+export function replayingFetch(responses: Record<string, RecordedResponse>, missing: string[] = []): typeof fetch {
+  return async (input) => {
+    const url = requestUrl(input);
+    const recorded = responses[url];
+    if (!recorded) {
+      missing.push(url);
+      throw new MissingFixtureError(url);
+    }
+
+    const body = recorded.status === 304 || recorded.body === null ? null : JSON.stringify(recorded.body);
+    return new Response(body, { status: recorded.status, headers: recorded.headers });
+  };
+}
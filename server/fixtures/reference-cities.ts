@@ -0,0 +1,48 @@
+// Reference cities for the record/replay harness, with species a correct pipeline should
+// report (`includes`) and introduced or invasive trees it must never report (`excludes`).
+// Scientific names are GBIF canonical names, as stored in species.scientific_name
+export interface ReferenceCity {
+  city: string;
+  state: string;
+  radiusKm: number;
+  includes: string[];
+  excludes: string[];
+}
+
+export const REFERENCE_CITIES: ReferenceCity[] = [
+  {
+    city: "Asheville",
+    state: "NC",
+    radiusKm: 50,
+    includes: ["Liriodendron tulipifera", "Acer rubrum"],
+    excludes: ["Ailanthus altissima", "Paulownia tomentosa", "Albizia julibrissin"]
+  },
+  {
+    city: "Portland",
+    state: "OR",
+    radiusKm: 50,
+    includes: ["Pseudotsuga menziesii", "Acer macrophyllum"],
+    excludes: ["Ilex aquifolium", "Prunus laurocerasus", "Prunus lusitanica"]
+  },
+  {
+    city: "Boston",
+    state: "MA",
+    radiusKm: 50,
+    includes: ["Quercus rubra", "Acer rubrum"],
+    excludes: ["Acer platanoides", "Ailanthus altissima"]
+  },
+  {
+    city: "Houston",
+    state: "TX",
+    radiusKm: 50,
+    includes: ["Quercus virginiana"],
+    excludes: ["Triadica sebifera", "Melia azedarach"]
+  },
+  {
+    city: "Denver",
+    state: "CO",
+    radiusKm: 50,
+    includes: ["Populus deltoides"],
+    excludes: ["Ulmus pumila", "Elaeagnus angustifolia"]
+  }
+];
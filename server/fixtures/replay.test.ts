@@ -0,0 +1,22 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { REFERENCE_CITIES } from "./reference-cities";
+import { fixtureFileName } from "./http-fixtures";
+import { checkReference, FIXTURE_DIR, searchWithFixtures } from "./fixture-search";
+
+// Replays the live recordings in server/fixtures/recorded without touching the network. A city
+// that has not been recorded yet (npm run fixtures:record) is skipped rather than failed
+for (const reference of REFERENCE_CITIES) {
+  const { city, state, radiusKm } = reference;
+  const recorded = fs.existsSync(path.join(FIXTURE_DIR, fixtureFileName(city, state, radiusKm)));
+
+  test(`replaying ${city}, ${state} meets its reference expectations`, { skip: !recorded && "not recorded" }, async () => {
+    const outcome = await searchWithFixtures("replay", { city, state, radiusKm });
+    assert.equal(outcome.status, "ok", outcome.status === "ok" ? undefined : JSON.stringify(outcome));
+    if (outcome.status !== "ok") return;
+
+    assert.deepEqual(checkReference(reference, outcome), []);
+  });
+}
@@ -0,0 +1,80 @@
+// Record/replay harness for the search pipeline.
+//
+//   npm run fixtures:record [-- <city>]   search each reference and golden city against live
+//                                         Nominatim/GBIF and save every upstream response to
+//                                         server/fixtures/recorded
+//   npm run fixtures:replay [-- <city>]   rerun the reference searches from the recorded responses only
+//
+// Reference cities' expected and excluded species are checked in both modes, and replays must
+// also return the first page in the order it was recorded; any failure exits non-zero. Record and
+// replay with the same GBIF_OCCURRENCE_BUDGET and gazetteer, or the requested URLs will differ
+import { REFERENCE_CITIES, type ReferenceCity } from "./reference-cities";
+import { GOLDEN_CITIES } from "./golden-cities";
+import { fixtureFileName } from "./http-fixtures";
+import { checkReference, searchWithFixtures, type FixtureMode } from "./fixture-search";
+
+async function runCity(mode: FixtureMode, reference: ReferenceCity): Promise<boolean> {
+  const { city, state, radiusKm } = reference;
+  const outcome = await searchWithFixtures(mode, { city, state, radiusKm });
+
+  if (outcome.status === "no-fixture") {
+    console.log(`MISSING ${city}, ${state}: no fixture ${outcome.fileName} (run fixtures:record first)`);
+    return false;
+  }
+
+  if (outcome.status === "error") {
+    console.log(`ERROR ${city}, ${state}: ${outcome.message}`);
+    return false;
+  }
+
+  const failures = checkReference(reference, outcome);
+  if (failures.length > 0) {
+    console.log(`FAIL ${city}, ${state}: ${failures.join("; ")}`);
+    return false;
+  }
+
+  console.log(`PASS ${city}, ${state}: ${outcome.result.count} native tree species`);
+  return true;
+}
+
+// Golden cities are only recorded here; score.ts grades them
+async function recordGoldenCities(cityFilter: string | undefined): Promise<void> {
+  const referenceFiles = new Set(REFERENCE_CITIES.map(r => fixtureFileName(r.city, r.state, r.radiusKm)));
+  const golden = GOLDEN_CITIES.filter(g =>
+    !referenceFiles.has(fixtureFileName(g.city, g.state, g.radiusKm)) &&
+    (!cityFilter || g.city.toLowerCase() === cityFilter.toLowerCase())
+  );
+
+  for (const { city, state, radiusKm } of golden) {
+    const outcome = await searchWithFixtures("record", { city, state, radiusKm });
+    if (outcome.status === "error") {
+      console.log(`ERROR ${city}, ${state}: ${outcome.message}`);
+    }
+  }
+}
+
+async function main() {
+  const [mode, cityFilter] = process.argv.slice(2);
+  if (mode !== "record" && mode !== "replay") {
+    console.error("Usage: tsx server/fixtures/run.ts <record|replay> [city]");
+    process.exit(2);
+  }
+
+  const references = REFERENCE_CITIES.filter(reference =>
+    !cityFilter || reference.city.toLowerCase() === cityFilter.toLowerCase()
+  );
+
+  let passed = 0;
+  for (const reference of references) {
+    if (await runCity(mode, reference)) passed += 1;
+  }
+
+  if (mode === "record") {
+    await recordGoldenCities(cityFilter);
+  }
+
+  console.log(`${passed}/${references.length} reference cities passed`);
+  process.exit(passed === references.length ? 0 : 1);
+}
+
+main();
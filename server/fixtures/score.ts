@@ -0,0 +1,165 @@
+// Scores the pipeline against the golden city dataset using recorded fixtures.
+//
+//   npm run fixtures:score                              print precision/recall per city
+//   npm run fixtures:score -- --out report.json         also save the report
+//   npm run fixtures:score -- --baseline report.json    show changes against an earlier report
+//
+// Precision counts only reported species the dataset has an opinion on (listed natives vs
+// listed non-natives); recall is the share of listed natives that were reported. Save a report
+// before changing classification rules, then compare against it afterwards
+import fs from "fs";
+import { commandOption } from "../import/csv";
+import { PIPELINE_VERSION } from "../tree-search";
+import { GOLDEN_CITIES, type GoldenCity } from "./golden-cities";
+import { searchWithFixtures } from "./fixture-search";
+
+interface CityScore {
+  city: string;
+  state: string;
+  status: "scored" | "no-fixture" | "error";
+  reported: number;
+  truePositives: string[];
+  falsePositives: string[];
+  missed: string[];
+  precision: number | null;
+  recall: number | null;
+}
+
+interface ScoreReport {
+  pipelineVersion: number;
+  generatedAt: string;
+  precision: number | null;
+  recall: number | null;
+  cities: CityScore[];
+}
+
+// Helper function to divide, treating an empty denominator as "no data"
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? "  -  " : value.toFixed(2).padStart(5);
+}
+
+function scoreCity(golden: GoldenCity, scientificNames: string[]): CityScore {
+  const reported = new Set(scientificNames);
+  const truePositives = golden.natives.filter(name => reported.has(name));
+  const falsePositives = golden.nonNatives.filter(name => reported.has(name));
+
+  return {
+    city: golden.city,
+    state: golden.state,
+    status: "scored",
+    reported: reported.size,
+    truePositives,
+    falsePositives,
+    missed: golden.natives.filter(name => !reported.has(name)),
+    precision: ratio(truePositives.length, truePositives.length + falsePositives.length),
+    recall: ratio(truePositives.length, golden.natives.length)
+  };
+}
+
+function unscored(golden: GoldenCity, status: "no-fixture" | "error"): CityScore {
+  return {
+    city: golden.city,
+    state: golden.state,
+    status,
+    reported: 0,
+    truePositives: [],
+    falsePositives: [],
+    missed: [],
+    precision: null,
+    recall: null
+  };
+}
+
+// Micro-averaged totals over every scored city
+function summarize(cities: CityScore[]): Pick<ScoreReport, "precision" | "recall"> {
+  const scored = cities.filter(score => score.status === "scored");
+  const truePositives = scored.reduce((sum, score) => sum + score.truePositives.length, 0);
+  const falsePositives = scored.reduce((sum, score) => sum + score.falsePositives.length, 0);
+  const natives = scored.reduce((sum, score) => sum + score.truePositives.length + score.missed.length, 0);
+
+  return {
+    precision: ratio(truePositives, truePositives + falsePositives),
+    recall: ratio(truePositives, natives)
+  };
+}
+
+function delta(current: number | null, previous: number | null | undefined): string {
+  if (current === null || previous === null || previous === undefined) return "";
+  const change = current - previous;
+  return Math.abs(change) < 0.005 ? "" : ` (${change > 0 ? "+" : ""}${change.toFixed(2)})`;
+}
+
+function printReport(report: ScoreReport, baseline: ScoreReport | null) {
+  const previous = new Map(baseline?.cities.map(score => [`${score.city}|${score.state}`, score]) ?? []);
+
+  console.log(`Pipeline version ${report.pipelineVersion}` +
+    (baseline ? ` compared with version ${baseline.pipelineVersion} (${baseline.generatedAt})` : ""));
+  console.log(`${"City".padEnd(22)} Found  Prec.  Recall  Notes`);
+
+  for (const score of report.cities) {
+    const name = `${score.city}, ${score.state}`.padEnd(22);
+    if (score.status !== "scored") {
+      console.log(`${name}   -      -      -    ${score.status}`);
+      continue;
+    }
+
+    const before = previous.get(`${score.city}|${score.state}`);
+    const notes = score.falsePositives.length > 0 ? `non-native: ${score.falsePositives.join(", ")}` : "";
+    console.log(
+      `${name} ${String(score.reported).padStart(5)}  ${formatRatio(score.precision)}${delta(score.precision, before?.precision)}` +
+      `  ${formatRatio(score.recall)}${delta(score.recall, before?.recall)}  ${notes}`
+    );
+  }
+
+  const scored = report.cities.filter(score => score.status === "scored");
+  console.log(
+    `\nOverall (${scored.length}/${report.cities.length} cities scored): ` +
+    `precision ${formatRatio(report.precision).trim()}${delta(report.precision, baseline?.precision)}, ` +
+    `recall ${formatRatio(report.recall).trim()}${delta(report.recall, baseline?.recall)}`
+  );
+  if (scored.length === 0) {
+    console.log("No golden city has a fixture yet; run npm run fixtures:record first");
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const outPath = commandOption(args, "--out");
+  const baselinePath = commandOption(args, "--baseline");
+  const baseline: ScoreReport | null = baselinePath ? JSON.parse(fs.readFileSync(baselinePath, "utf-8")) : null;
+
+  const cities: CityScore[] = [];
+  for (const golden of GOLDEN_CITIES) {
+    const outcome = await searchWithFixtures("replay", {
+      city: golden.city,
+      state: golden.state,
+      radiusKm: golden.radiusKm
+    });
+
+    if (outcome.status === "ok") {
+      cities.push(scoreCity(golden, outcome.result.species.map(species => species.scientificName)));
+    } else {
+      cities.push(unscored(golden, outcome.status));
+    }
+  }
+
+  const report: ScoreReport = {
+    pipelineVersion: PIPELINE_VERSION,
+    generatedAt: new Date().toISOString(),
+    ...summarize(cities),
+    cities
+  };
+
+  printReport(report, baseline);
+
+  if (outPath) {
+    fs.writeFileSync(outPath, JSON.stringify(report, null, 2) + "\n");
+    console.log(`Saved report to ${outPath}`);
+  }
+}
+
+main();
@@ -0,0 +1,216 @@
+// Stand-in for the GBIF API in harness.test.ts, which records the reference cities from these
+// tables into a temporary directory and replays them, so the record/replay plumbing is tested
+// without the network. Counts and establishmentMeans shares are illustrative and species keys are
+// made up (9,000,000 and up): never record from it into server/fixtures/recorded
+import type { GbifOccurrence, GbifPage, GbifSpecies, GbifVernacularName } from "../gbif";
+
+interface SimulatedTaxon {
+  key: number;
+  scientificName: string; // canonical genus + species
+  family: string;
+  commonName: string;
+}
+
+// occurrences: records in the area; native/introduced: how many of them carry that
+// establishmentMeans (the rest have none, like most GBIF records)
+interface SimulatedCount {
+  scientificName: string;
+  occurrences: number;
+  native?: number;
+  introduced?: number;
+}
+
+const TAXA: SimulatedTaxon[] = [
+  ["Liriodendron tulipifera", "Magnoliaceae", "Tuliptree"],
+  ["Acer rubrum", "Sapindaceae", "Red maple"],
+  ["Quercus alba", "Fagaceae", "White oak"],
+  ["Quercus rubra", "Fagaceae", "Northern red oak"],
+  ["Nyssa sylvatica", "Nyssaceae", "Blackgum"],
+  ["Tsuga canadensis", "Pinaceae", "Eastern hemlock"],
+  ["Pinus strobus", "Pinaceae", "Eastern white pine"],
+  ["Betula lenta", "Betulaceae", "Sweet birch"],
+  ["Fagus grandifolia", "Fagaceae", "American beech"],
+  ["Pseudotsuga menziesii", "Pinaceae", "Douglas-fir"],
+  ["Acer macrophyllum", "Sapindaceae", "Bigleaf maple"],
+  ["Thuja plicata", "Cupressaceae", "Western redcedar"],
+  ["Alnus rubra", "Betulaceae", "Red alder"],
+  ["Quercus garryana", "Fagaceae", "Oregon white oak"],
+  ["Quercus virginiana", "Fagaceae", "Live oak"],
+  ["Quercus nigra", "Fagaceae", "Water oak"],
+  ["Pinus taeda", "Pinaceae", "Loblolly pine"],
+  ["Liquidambar styraciflua", "Altingiaceae", "Sweetgum"],
+  ["Ulmus americana", "Ulmaceae", "American elm"],
+  ["Populus deltoides", "Salicaceae", "Eastern cottonwood"],
+  ["Pinus ponderosa", "Pinaceae", "Ponderosa pine"],
+  ["Juniperus scopulorum", "Cupressaceae", "Rocky Mountain juniper"],
+  ["Populus angustifolia", "Salicaceae", "Narrowleaf cottonwood"],
+  ["Ailanthus altissima", "Simaroubaceae", "Tree of heaven"],
+  ["Paulownia tomentosa", "Paulowniaceae", "Princesstree"],
+  ["Albizia julibrissin", "Fabaceae", "Silktree"],
+  ["Ilex aquifolium", "Aquifoliaceae", "English holly"],
+  ["Prunus laurocerasus", "Rosaceae", "Cherry laurel"],
+  ["Prunus lusitanica", "Rosaceae", "Portugal laurel"],
+  ["Acer platanoides", "Sapindaceae", "Norway maple"],
+  ["Triadica sebifera", "Euphorbiaceae", "Chinese tallow"],
+  ["Melia azedarach", "Meliaceae", "Chinaberry"],
+  ["Ulmus pumila", "Ulmaceae", "Siberian elm"],
+  ["Elaeagnus angustifolia", "Elaeagnaceae", "Russian olive"],
+  ["Rubus allegheniensis", "Rosaceae", "Allegheny blackberry"],
+  ["Andropogon virginicus", "Poaceae", "Broomsedge bluestem"],
+  ["Toxicodendron radicans", "Anacardiaceae", "Eastern poison ivy"]
+].map(([scientificName, family, commonName], index) => ({ key: 9000001 + index, scientificName, family, commonName }));
+
+// Per reference city, keyed like fixture files ("<state>|<city>")
+const CITY_COUNTS: Record<string, SimulatedCount[]> = {
+  "NC|Asheville": [
+    { scientificName: "Liriodendron tulipifera", occurrences: 140, native: 20 },
+    { scientificName: "Acer rubrum", occurrences: 125, native: 15 },
+    { scientificName: "Quercus alba", occurrences: 90 },
+    { scientificName: "Quercus rubra", occurrences: 80, native: 10 },
+    { scientificName: "Tsuga canadensis", occurrences: 60 },
+    { scientificName: "Nyssa sylvatica", occurrences: 45 },
+    { scientificName: "Pinus strobus", occurrences: 40 },
+    { scientificName: "Ailanthus altissima", occurrences: 35, introduced: 14 },
+    { scientificName: "Paulownia tomentosa", occurrences: 30, introduced: 12 },
+    { scientificName: "Albizia julibrissin", occurrences: 25, introduced: 10 },
+    { scientificName: "Rubus allegheniensis", occurrences: 50 },
+    { scientificName: "Toxicodendron radicans", occurrences: 55 }
+  ],
+  "OR|Portland": [
+    { scientificName: "Pseudotsuga menziesii", occurrences: 160, native: 30 },
+    { scientificName: "Acer macrophyllum", occurrences: 110, native: 12 },
+    { scientificName: "Thuja plicata", occurrences: 85 },
+    { scientificName: "Alnus rubra", occurrences: 70 },
+    { scientificName: "Quercus garryana", occurrences: 50 },
+    { scientificName: "Ilex aquifolium", occurrences: 65, introduced: 30 },
+    { scientificName: "Prunus laurocerasus", occurrences: 45, introduced: 20 },
+    { scientificName: "Prunus lusitanica", occurrences: 25, introduced: 10 },
+    { scientificName: "Rubus allegheniensis", occurrences: 20 }
+  ],
+  "MA|Boston": [
+    { scientificName: "Quercus rubra", occurrences: 130, native: 20 },
+    { scientificName: "Acer rubrum", occurrences: 120, native: 18 },
+    { scientificName: "Pinus strobus", occurrences: 80 },
+    { scientificName: "Betula lenta", occurrences: 55 },
+    { scientificName: "Fagus grandifolia", occurrences: 50 },
+    { scientificName: "Quercus alba", occurrences: 45 },
+    { scientificName: "Acer platanoides", occurrences: 95, introduced: 40 },
+    { scientificName: "Ailanthus altissima", occurrences: 40, introduced: 16 },
+    { scientificName: "Toxicodendron radicans", occurrences: 35 }
+  ],
+  "TX|Houston": [
+    { scientificName: "Quercus virginiana", occurrences: 150, native: 25 },
+    { scientificName: "Quercus nigra", occurrences: 90 },
+    { scientificName: "Pinus taeda", occurrences: 85 },
+    { scientificName: "Liquidambar styraciflua", occurrences: 75 },
+    { scientificName: "Ulmus americana", occurrences: 50 },
+    { scientificName: "Triadica sebifera", occurrences: 110, introduced: 45 },
+    { scientificName: "Melia azedarach", occurrences: 40, introduced: 16 },
+    { scientificName: "Andropogon virginicus", occurrences: 30 }
+  ],
+  "CO|Denver": [
+    { scientificName: "Populus deltoides", occurrences: 120, native: 20 },
+    { scientificName: "Pinus ponderosa", occurrences: 95 },
+    { scientificName: "Juniperus scopulorum", occurrences: 60 },
+    { scientificName: "Populus angustifolia", occurrences: 45 },
+    { scientificName: "Ulmus pumila", occurrences: 100, introduced: 40 },
+    { scientificName: "Elaeagnus angustifolia", occurrences: 55, introduced: 22 },
+    { scientificName: "Rubus allegheniensis", occurrences: 15 }
+  ]
+};
+
+// Helper function to read the bounding box out of the WKT polygon built by boundingBoxWkt
+function boxOf(geometry: string | null): { minLon: number; minLat: number; maxLon: number; maxLat: number } {
+  const values = (geometry?.match(/-?\d+(\.\d+)?/g) ?? []).map(Number);
+  const lons = values.filter((_, index) => index % 2 === 0);
+  const lats = values.filter((_, index) => index % 2 === 1);
+  return { minLon: Math.min(...lons), minLat: Math.min(...lats), maxLon: Math.max(...lons), maxLat: Math.max(...lats) };
+}
+
+// Every occurrence record for a city, species interleaved and spread evenly over the searched box
+function simulatedOccurrences(counts: SimulatedCount[], state: string, geometry: string | null): GbifOccurrence[] {
+  const box = boxOf(geometry);
+  const occurrences: GbifOccurrence[] = [];
+  const longest = Math.max(...counts.map(count => count.occurrences));
+
+  for (let index = 0; index < longest; index++) {
+    for (const count of counts) {
+      if (index >= count.occurrences) continue;
+      const taxon = TAXA.find(taxon => taxon.scientificName === count.scientificName)!;
+      const native = count.native ?? 0;
+      const introduced = count.introduced ?? 0;
+      const spread = (occurrences.length * 0.618034) % 1;
+
+      occurrences.push({
+        key: 5000000000 + occurrences.length,
+        speciesKey: taxon.key,
+        scientificName: taxon.scientificName,
+        species: taxon.scientificName,
+        family: taxon.family,
+        genus: taxon.scientificName.split(" ")[0],
+        establishmentMeans: index < native ? "NATIVE" : index < native + introduced ? "INTRODUCED" : undefined,
+        decimalLatitude: Number((box.minLat + (box.maxLat - box.minLat) * ((index * 0.381966) % 1)).toFixed(5)),
+        decimalLongitude: Number((box.minLon + (box.maxLon - box.minLon) * spread).toFixed(5)),
+        stateProvince: state,
+        year: 2015 + (index % 10)
+      });
+    }
+  }
+
+  return occurrences;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } });
+}
+
+function page<T>(results: T[], offset: number, limit: number, count = results.length): GbifPage<T> & { count: number } {
+  return { offset, limit, endOfRecords: offset + limit >= count, count, results };
+}
+
+// fetch answering GBIF occurrence search and species requests for one reference city
+export function simulatedGbifFetch(city: string, state: string): typeof fetch | null {
+  const counts = CITY_COUNTS[`${state}|${city}`];
+  if (!counts) return null;
+
+  return async (input) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const route = url.pathname.replace(/^\/v1/, "");
+
+    if (route === "/occurrence/search") {
+      const occurrences = simulatedOccurrences(counts, state, url.searchParams.get("geometry"));
+      const offset = Number(url.searchParams.get("offset") ?? 0);
+      const limit = Number(url.searchParams.get("limit") ?? 20);
+      return json(page(occurrences.slice(offset, offset + limit), offset, limit, occurrences.length));
+    }
+
+    const match = route.match(/^\/species\/(\d+)(?:\/(\w+))?$/);
+    const taxon = match ? TAXA.find(candidate => candidate.key === Number(match[1])) : undefined;
+    if (!match || !taxon) return json({ message: "Not found" }, 404);
+
+    switch (match[2]) {
+      case undefined: {
+        const species: GbifSpecies = {
+          key: taxon.key,
+          scientificName: taxon.scientificName,
+          canonicalName: taxon.scientificName,
+          kingdom: "Plantae",
+          family: taxon.family,
+          genus: taxon.scientificName.split(" ")[0],
+          rank: "SPECIES"
+        };
+        return json(species);
+      }
+      case "vernacularNames": {
+        const names: GbifVernacularName[] = [{ vernacularName: taxon.commonName, language: "eng", source: "Simulated fixture" }];
+        return json(page(names, 0, 100));
+      }
+      case "media":
+      case "descriptions":
+      case "synonyms":
+        return json(page([], 0, 100));
+      default:
+        return json({ message: "Not found" }, 404);
+    }
+  };
+}
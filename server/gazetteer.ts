@@ -0,0 +1,239 @@
+import fs from "fs";
+import { US_PLACES_TSV, type GazetteerRow } from "./data/us-places";
+
+export interface GazetteerPlace {
+  id: string;
+  name: string;
+  state: string;
+  countyFips: string;
+  lat: number;
+  lon: number;
+  population: number;
+}
+
+// Helper function to normalize a place name for matching
+// "St. Louis", "Saint Louis" and " st louis " all normalize to "st louis"
+export function normalizePlaceName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // strip diacritics (Doña Ana -> Dona Ana)
+    .toLowerCase()
+    .replace(/[.'’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/^saint\b/, "st")
+    .replace(/^mount\b/, "mt")
+    .replace(/^fort\b/, "ft");
+}
+
+// Canonical cache key for a searched city, e.g. ("Portland ", "or") -> "OR:portland"
+export function locationKey(city: string, state: string): string {
+  return `${state.trim().toUpperCase()}:${normalizePlaceName(city)}`;
+}
+
+// Cache key for a coordinate search, rounded to about 100 m so nearby picks share results,
+// e.g. (35.59512, -82.55148) -> "@35.595,-82.551"
+export function coordinatesKey(lat: number, lon: number): string {
+  return `@${lat.toFixed(3)},${lon.toFixed(3)}`;
+}
+
+// Great-circle distance in kilometres between two points
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Classic Levenshtein edit distance between two strings
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+// American Soundex code, used to catch phonetic misspellings ("Sirakuse" -> "Syracuse")
+export function soundex(name: string): string {
+  const letters = name.toUpperCase().replace(/[^A-Z]/g, "");
+  if (!letters) return "";
+
+  const codes: { [letter: string]: string } = {
+    B: "1", F: "1", P: "1", V: "1",
+    C: "2", G: "2", J: "2", K: "2", Q: "2", S: "2", X: "2", Z: "2",
+    D: "3", T: "3",
+    L: "4",
+    M: "5", N: "5",
+    R: "6"
+  };
+
+  let result = letters[0];
+  let lastCode = codes[letters[0]] || "";
+
+  for (let i = 1; i < letters.length && result.length < 4; i++) {
+    const letter = letters[i];
+    const code = codes[letter] || "";
+    if (code && code !== lastCode) {
+      result += code;
+    }
+    // H and W do not separate letters with the same code; vowels do
+    if (letter !== "H" && letter !== "W") {
+      lastCode = code;
+    }
+  }
+
+  return result.padEnd(4, "0");
+}
+
+// Deterministic ordering for places that share a normalized name within a state:
+// most populous first, then by county FIPS
+function comparePlaces(a: GazetteerPlace, b: GazetteerPlace): number {
+  return b.population - a.population || a.countyFips.localeCompare(b.countyFips);
+}
+
+export class Gazetteer {
+  private readonly byState = new Map<string, GazetteerPlace[]>();
+  private readonly byKey = new Map<string, GazetteerPlace[]>();
+
+  constructor(rows: GazetteerRow[]) {
+    for (const [state, name, countyFips, lat, lon, population] of rows) {
+      const normalized = normalizePlaceName(name);
+      const place: GazetteerPlace = {
+        id: `gazetteer:${state}:${normalized.replace(/ /g, "-")}:${countyFips}`,
+        name,
+        state,
+        countyFips,
+        lat,
+        lon,
+        population
+      };
+
+      const statePlaces = this.byState.get(state) || [];
+      statePlaces.push(place);
+      this.byState.set(state, statePlaces);
+
+      const key = `${state}|${normalized}`;
+      const matches = this.byKey.get(key) || [];
+      matches.push(place);
+      this.byKey.set(key, matches);
+    }
+
+    for (const places of Array.from(this.byState.values())) places.sort(comparePlaces);
+    for (const places of Array.from(this.byKey.values())) places.sort(comparePlaces);
+  }
+
+  // Resolve a city/state pair to a single place, picking the most populous on ties
+  lookup(city: string, state: string): GazetteerPlace | null {
+    const matches = this.byKey.get(`${state.toUpperCase()}|${normalizePlaceName(city)}`);
+    return matches?.[0] ?? null;
+  }
+
+  placesInState(state: string): GazetteerPlace[] {
+    return this.byState.get(state.toUpperCase()) || [];
+  }
+
+  allPlaces(): GazetteerPlace[] {
+    return Array.from(this.byState.values()).flat();
+  }
+
+  // Reverse lookup: the closest place within maxKm of a point, or null when none is that close
+  // (further out the nearest place may well be across a state line)
+  nearest(lat: number, lon: number, maxKm: number = 40): GazetteerPlace | null {
+    let closest: GazetteerPlace | null = null;
+    let closestKm = maxKm;
+
+    for (const place of this.allPlaces()) {
+      const km = distanceKm(lat, lon, place.lat, place.lon);
+      if (km < closestKm) {
+        closest = place;
+        closestKm = km;
+      }
+    }
+
+    return closest;
+  }
+
+  // Typeahead lookup: places whose name (or any word in it) starts with the query,
+  // whole-name prefixes first and most populous first within each group
+  autocomplete(query: string, state?: string, limit: number = 8): GazetteerPlace[] {
+    const normalized = normalizePlaceName(query);
+    if (!normalized) return [];
+
+    const candidates = state ? this.placesInState(state) : this.allPlaces();
+
+    return candidates
+      .map(place => {
+        const name = normalizePlaceName(place.name);
+        const rank = name.startsWith(normalized) ? 0 : name.includes(` ${normalized}`) ? 1 : -1;
+        return { place, rank };
+      })
+      .filter(match => match.rank >= 0)
+      .sort((a, b) => a.rank - b.rank || comparePlaces(a.place, b.place))
+      .slice(0, limit)
+      .map(match => match.place);
+  }
+
+  // Close matches for a name that did not resolve: places in the state within a small
+  // edit distance or sharing a Soundex code, nearest first and most populous on ties
+  suggestCorrections(city: string, state: string, limit: number = 5): GazetteerPlace[] {
+    const normalized = normalizePlaceName(city);
+    if (!normalized) return [];
+
+    const maxDistance = Math.max(2, Math.floor(normalized.length / 4));
+    const phonetic = soundex(normalized);
+
+    return this.placesInState(state)
+      .map(place => {
+        const candidate = normalizePlaceName(place.name);
+        return { place, distance: editDistance(normalized, candidate), soundsAlike: soundex(candidate) === phonetic };
+      })
+      .filter(match => match.distance <= maxDistance || match.soundsAlike)
+      .sort((a, b) => a.distance - b.distance || comparePlaces(a.place, b.place))
+      .slice(0, limit)
+      .map(match => match.place);
+  }
+}
+
+// Helper function to parse a tab-separated gazetteer table (header row, same column order as US_PLACES_TSV)
+function parseGazetteerRows(text: string): GazetteerRow[] {
+  const lines = text.split(/\r?\n/).slice(1);
+  const rows: GazetteerRow[] = [];
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const [state, name, countyFips, lat, lon, population] = line.split("\t");
+    rows.push([state.trim(), name.trim(), countyFips.trim(), parseFloat(lat), parseFloat(lon), parseInt(population, 10) || 0]);
+  }
+
+  return rows;
+}
+
+function loadGazetteerRows(): GazetteerRow[] {
+  const filePath = process.env.PLACES_GAZETTEER_PATH;
+  if (!filePath) return parseGazetteerRows(US_PLACES_TSV);
+
+  try {
+    const rows = parseGazetteerRows(fs.readFileSync(filePath, "utf-8"));
+    console.log(`Loaded ${rows.length} places from ${filePath}`);
+    return rows;
+  } catch (error) {
+    console.error(`Failed to load places gazetteer from ${filePath}, using bundled places:`, error);
+    return parseGazetteerRows(US_PLACES_TSV);
+  }
+}
+
+export const gazetteer = new Gazetteer(loadGazetteerRows());
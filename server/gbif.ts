@@ -0,0 +1,443 @@
+import { TokenBucket } from "./rate-limiter";
+import type { HttpResponseCache } from "./http-cache";
+import type { SpeciesProfile } from "@shared/schema";
+
+const GBIF_API_URL = "https://api.gbif.org/v1";
+
+// GBIF caps a single occurrence page at 300 records and offset + limit at 100,000
+const GBIF_PAGE_SIZE = 300;
+const GBIF_MAX_OFFSET = 100000;
+
+// Maximum number of occurrence records harvested per search (override with GBIF_OCCURRENCE_BUDGET)
+export const OCCURRENCE_RECORD_BUDGET = Math.min(
+  parseInt(process.env.GBIF_OCCURRENCE_BUDGET || '3000', 10) || 3000,
+  GBIF_MAX_OFFSET
+);
+
+// Request pacing and failure handling (override with GBIF_REQUESTS_PER_SECOND, GBIF_TIMEOUT_MS, GBIF_MAX_RETRIES)
+const GBIF_REQUESTS_PER_SECOND = parseFloat(process.env.GBIF_REQUESTS_PER_SECOND || '5') || 5;
+const GBIF_TIMEOUT_MS = parseInt(process.env.GBIF_TIMEOUT_MS || '15000', 10) || 15000;
+const GBIF_MAX_RETRIES = parseMaxRetries(process.env.GBIF_MAX_RETRIES);
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 30000;
+
+// GBIF_MAX_RETRIES may be 0 to disable retries; unset or unparseable values use the default of 3
+function parseMaxRetries(value: string | undefined): number {
+  const retries = parseInt(value ?? '', 10);
+  return Number.isNaN(retries) || retries < 0 ? 3 : retries;
+}
+
+// Response models for the parts of the GBIF API we read.
+// Only fields the pipeline uses are listed; GBIF returns many more
+export interface GbifPage<T> {
+  offset: number;
+  limit: number;
+  endOfRecords: boolean;
+  count?: number;
+  results: T[];
+}
+
+export interface GbifOccurrence {
+  key: number;
+  speciesKey?: number;
+  scientificName?: string;
+  species?: string;
+  family?: string;
+  genus?: string;
+  vernacularName?: string;
+  establishmentMeans?: string;
+  decimalLatitude?: number;
+  decimalLongitude?: number;
+  stateProvince?: string;
+  county?: string;
+  year?: number;
+  eventDate?: string;
+}
+
+export interface GbifSpecies {
+  key: number;
+  scientificName: string;
+  canonicalName?: string;
+  authorship?: string;
+  kingdom?: string;
+  phylum?: string;
+  class?: string;
+  order?: string;
+  family?: string;
+  genus?: string;
+  rank?: string;
+  descriptions?: { description?: string; value?: string }[];
+}
+
+export interface GbifDescription {
+  description?: string;
+  type?: string;
+  language?: string;
+  source?: string;
+}
+
+export interface GbifVernacularName {
+  vernacularName: string;
+  language?: string;
+  country?: string;
+  source?: string;
+}
+
+export interface GbifMedia {
+  type?: string;
+  identifier?: string;
+  title?: string;
+  license?: string;
+  rightsHolder?: string;
+}
+
+export interface OccurrenceSearchResult {
+  total: number;
+  results: GbifOccurrence[];
+}
+
+export interface GbifSpeciesDetails {
+  speciesKey: number;
+  scientificName: string;
+  commonName: string;
+  family: string | null;
+  genus: string | null;
+  imageUrl: string | null;
+  description: string | null;
+}
+
+// Everything the species page shows from GBIF, apart from nearby occurrences
+export type GbifSpeciesProfile = Omit<SpeciesProfile, "occurrences" | "near">;
+
+export interface GbifClient {
+  searchOccurrences(
+    params: URLSearchParams,
+    budget?: number,
+    onPage?: (fetched: number, total: number) => void
+  ): Promise<OccurrenceSearchResult>;
+  getSpeciesDetails(speciesKey: number): Promise<GbifSpeciesDetails | null>;
+  getSpeciesProfile(speciesKey: number): Promise<GbifSpeciesProfile | null>;
+}
+
+// Thrown when GBIF answers with an error status (after retries) or cannot be reached.
+// retryAfterMs is the wait GBIF asked for in its last Retry-After header, when it sent one
+export class GbifRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number | null,
+    public readonly cause?: unknown,
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = "GbifRequestError";
+  }
+}
+
+export interface GbifClientOptions {
+  baseUrl?: string;
+  limiter?: TokenBucket;
+  timeoutMs?: number;
+  maxRetries?: number;
+  cache?: HttpResponseCache;
+  fetch?: typeof fetch; // swapped out to record or replay fixtures
+}
+
+// Helper function to read a Retry-After header (delay in seconds or an HTTP date) as milliseconds
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// 429 and 5xx responses are worth retrying; other client errors will not change
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Helper function to build a WKT bounding box around a point for GBIF geometry queries
+// GBIF expects polygon vertices in counter-clockwise order as "lon lat" pairs
+export function boundingBoxWkt(lat: number, lon: number, radiusKm: number): string {
+  const KM_PER_DEGREE_LAT = 111.32;
+  const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+  // Longitude degrees shrink towards the poles; clamp to avoid dividing by ~0
+  const lonDelta = radiusKm / (KM_PER_DEGREE_LAT * Math.max(Math.cos(lat * Math.PI / 180), 0.01));
+
+  const minLat = Math.max(lat - latDelta, -90).toFixed(4);
+  const maxLat = Math.min(lat + latDelta, 90).toFixed(4);
+  const minLon = Math.max(lon - lonDelta, -180).toFixed(4);
+  const maxLon = Math.min(lon + lonDelta, 180).toFixed(4);
+
+  return `POLYGON((${minLon} ${minLat},${maxLon} ${minLat},${maxLon} ${maxLat},${minLon} ${maxLat},${minLon} ${minLat}))`;
+}
+
+// Helper function to turn a GBIF description (often HTML) into plain text
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>|<\/p>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n\n")
+    .trim();
+}
+
+// Prioritize US/Canada authoritative botanical sources for accurate common names
+// GBIF vernacular names come from many sources with varying quality/regional preferences
+// This 3-tier prioritization ensures we get standard US common names
+export function selectCommonName(vernacularNames: GbifVernacularName[]): string | null {
+  const englishNames = vernacularNames.filter(v => v.language === 'eng');
+
+  if (englishNames.length === 0) {
+    return null;
+  }
+
+  // Tier 1: Authoritative US/Canadian botanical databases (case-insensitive matching)
+  const authoritativeSources = [
+    'grin taxonomy',                  // USDA Germplasm Resources Information Network
+    'integrated taxonomic',           // ITIS (matches "Integrated Taxonomic Information System")
+    'usda',                           // Any USDA source (catches "USDA NRCS PLANTS Database", etc.)
+    'flora of north america',         // Flora of North America Editorial Committee
+    'database of vascular plants of canada' // VASCAN (Canadian authority, relevant for northern US)
+  ];
+
+  // Tier 1: Authoritative botanical sources (case-insensitive substring matching)
+  let bestName = englishNames.find(v => {
+    const sourceLower = v.source?.toLowerCase() || '';
+    return authoritativeSources.some(auth => sourceLower.includes(auth));
+  });
+
+  // Tier 2: Names explicitly marked for US country
+  if (!bestName) {
+    bestName = englishNames.find(v => v.country === 'US');
+  }
+
+  // Tier 3: Any English name (fallback to first available)
+  if (!bestName) {
+    bestName = englishNames[0];
+  }
+
+  return bestName.vernacularName;
+}
+
+export class HttpGbifClient implements GbifClient {
+  private readonly baseUrl: string;
+  private readonly limiter: TokenBucket;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly cache: HttpResponseCache | undefined;
+  private readonly fetch: typeof fetch;
+
+  constructor(options: GbifClientOptions = {}) {
+    this.baseUrl = options.baseUrl ?? GBIF_API_URL;
+    this.limiter = options.limiter ?? new TokenBucket(GBIF_REQUESTS_PER_SECOND);
+    this.timeoutMs = options.timeoutMs ?? GBIF_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? GBIF_MAX_RETRIES;
+    this.cache = options.cache;
+    this.fetch = options.fetch ?? fetch;
+  }
+
+  // Page through GBIF occurrence search results up to a record budget
+  async searchOccurrences(
+    params: URLSearchParams,
+    budget: number = OCCURRENCE_RECORD_BUDGET,
+    onPage?: (fetched: number, total: number) => void
+  ): Promise<OccurrenceSearchResult> {
+    const results: GbifOccurrence[] = [];
+    let total = 0;
+    let offset = 0;
+
+    while (offset < budget) {
+      const pageParams = new URLSearchParams(params);
+      pageParams.set('limit', String(Math.min(GBIF_PAGE_SIZE, budget - offset)));
+      pageParams.set('offset', String(offset));
+
+      // Occurrence pages are large and already summarized by the location cache, so skip the HTTP cache
+      const data = await this.request<GbifPage<GbifOccurrence>>(`/occurrence/search?${pageParams}`, { cache: false });
+      const page = data.results || [];
+      total = data.count || 0;
+      results.push(...page);
+      onPage?.(results.length, Math.min(total, budget));
+
+      if (data.endOfRecords || page.length === 0) {
+        break;
+      }
+
+      offset += page.length;
+    }
+
+    return { total, results };
+  }
+
+  async getSpeciesDetails(speciesKey: number): Promise<GbifSpeciesDetails | null> {
+    try {
+      // Get species information (unknown keys resolve to null)
+      const speciesData = await this.requestOptional<GbifSpecies>(`/species/${speciesKey}`);
+      if (!speciesData) return null;
+
+      // Get vernacular (common) names (request more results to find authoritative sources).
+      // Names and images are optional, so their failures fall back instead of dropping the species
+      const vernacularData = await this.requestOptional<GbifPage<GbifVernacularName>>(`/species/${speciesKey}/vernacularNames?limit=100`)
+        .catch(error => {
+          console.error(`Error fetching GBIF vernacular names for ${speciesKey}:`, error);
+          return null;
+        });
+      const commonName = selectCommonName(vernacularData?.results || []) ||
+        speciesData.canonicalName || speciesData.scientificName;
+
+      // Get media (images) and use the first still image
+      const mediaData = await this.requestOptional<GbifPage<GbifMedia>>(`/species/${speciesKey}/media`)
+        .catch(error => {
+          console.error(`Error fetching GBIF media for ${speciesKey}:`, error);
+          return null;
+        });
+      const image = mediaData?.results?.find(m => m.type === 'StillImage' && m.identifier);
+
+      // Extract description text safely
+      const descObj = speciesData.descriptions?.[0];
+      const description = descObj ? descObj.description || descObj.value || null : null;
+
+      return {
+        speciesKey,
+        scientificName: speciesData.canonicalName || speciesData.scientificName,
+        commonName,
+        family: speciesData.family || null,
+        genus: speciesData.genus || null,
+        imageUrl: image?.identifier || null,
+        description
+      };
+    } catch (error) {
+      console.error(`Error fetching GBIF species details for ${speciesKey}:`, error);
+      return null;
+    }
+  }
+
+  // Full profile for the species page: taxonomy, every description, every still image and the
+  // synonyms GBIF lists. Unlike getSpeciesDetails, upstream errors other than 404 propagate
+  async getSpeciesProfile(speciesKey: number): Promise<GbifSpeciesProfile | null> {
+    const speciesData = await this.requestOptional<GbifSpecies>(`/species/${speciesKey}`);
+    if (!speciesData) return null;
+
+    const [vernacularData, descriptionData, mediaData, synonymData] = await Promise.all([
+      this.requestOptional<GbifPage<GbifVernacularName>>(`/species/${speciesKey}/vernacularNames?limit=100`),
+      this.requestOptional<GbifPage<GbifDescription>>(`/species/${speciesKey}/descriptions?limit=100`),
+      this.requestOptional<GbifPage<GbifMedia>>(`/species/${speciesKey}/media?limit=100`),
+      this.requestOptional<GbifPage<GbifSpecies>>(`/species/${speciesKey}/synonyms?limit=100`)
+    ]);
+
+    const scientificName = speciesData.canonicalName || speciesData.scientificName;
+
+    return {
+      speciesKey,
+      scientificName,
+      commonName: selectCommonName(vernacularData?.results || []) || scientificName,
+      authorship: speciesData.authorship?.trim() || null,
+      rank: speciesData.rank || null,
+      taxonomy: {
+        kingdom: speciesData.kingdom || null,
+        phylum: speciesData.phylum || null,
+        class: speciesData.class || null,
+        order: speciesData.order || null,
+        family: speciesData.family || null,
+        genus: speciesData.genus || null
+      },
+      descriptions: (descriptionData?.results || []).flatMap(entry => {
+        const text = stripHtml(entry.description || "");
+        return text ? [{ type: entry.type || null, language: entry.language || null, source: entry.source || null, text }] : [];
+      }),
+      images: (mediaData?.results || []).flatMap(media =>
+        media.type === 'StillImage' && media.identifier
+          ? [{ url: media.identifier, title: media.title || null, license: media.license || null, rightsHolder: media.rightsHolder || null }]
+          : []
+      ),
+      synonyms: Array.from(new Set((synonymData?.results || []).map(synonym => synonym.scientificName)))
+    };
+  }
+
+  // Like request(), but a 404 resolves to null instead of throwing.
+  // Taxon lookups almost never change, so they always go through the HTTP cache
+  private async requestOptional<T>(path: string): Promise<T | null> {
+    try {
+      return await this.request<T>(path);
+    } catch (error) {
+      if (error instanceof GbifRequestError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  // GET a GBIF API path as JSON. Fresh HTTP cache entries are returned without a request and
+  // older ones are revalidated with their ETag/Last-Modified. Every attempt waits for a rate
+  // limiter token and is aborted after the timeout; 429/5xx responses and network failures are
+  // retried with exponential backoff, honoring Retry-After when GBIF sends one. A 429 with
+  // Retry-After pauses the limiter instead, and the retry waits for its token like everyone else
+  private async request<T>(path: string, { cache = true }: { cache?: boolean } = {}): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    const httpCache = cache ? this.cache : undefined;
+
+    const cached = await httpCache?.get(url);
+    if (cached && httpCache?.isFresh(cached)) {
+      return cached.body as T;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      await this.limiter.acquire();
+
+      let retryAfterMs: number | null = null;
+      let paused = false;
+      let failure: GbifRequestError;
+
+      try {
+        const response = await this.fetch(url, {
+          headers: httpCache ? httpCache.conditionalHeaders(cached) : {},
+          signal: AbortSignal.timeout(this.timeoutMs)
+        });
+
+        if (response.status === 304 && cached && httpCache) {
+          await httpCache.revalidated(cached);
+          return cached.body as T;
+        }
+
+        if (response.ok) {
+          const body = await response.json();
+          await httpCache?.save(url, response, body);
+          return body as T;
+        }
+
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        failure = new GbifRequestError(`GBIF API error: ${response.status} for ${path}`, response.status, undefined, retryAfterMs);
+        if (!isRetryableStatus(response.status)) throw failure;
+
+        if (response.status === 429 && retryAfterMs !== null) {
+          // Other in-flight requests would hit the same limit, so hold the whole bucket
+          this.limiter.pause(Math.min(retryAfterMs, RETRY_MAX_DELAY_MS));
+          paused = true;
+        }
+      } catch (error) {
+        if (error instanceof GbifRequestError) throw error;
+        const reason = error instanceof Error && error.name === 'TimeoutError'
+          ? `timed out after ${this.timeoutMs}ms`
+          : 'failed';
+        failure = new GbifRequestError(`GBIF request ${reason} for ${path}`, null, error);
+      }
+
+      if (attempt >= this.maxRetries) throw failure;
+      if (paused) {
+        console.log(`${failure.message}; retrying once the Retry-After pause ends (attempt ${attempt + 1} of ${this.maxRetries})`);
+        continue;
+      }
+
+      const backoffMs = Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
+      const delayMs = Math.min(retryAfterMs ?? backoffMs + Math.random() * RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS);
+      console.log(`${failure.message}; retrying in ${Math.round(delayMs)}ms (attempt ${attempt + 1} of ${this.maxRetries})`);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
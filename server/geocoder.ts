@@ -0,0 +1,239 @@
+import { gazetteer as defaultGazetteer, type Gazetteer, type GazetteerPlace } from "./gazetteer";
+import type { HttpResponseCache } from "./http-cache";
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+export interface GeocodedPlace extends Coordinates {
+  placeId: string; // stable identifier from the source, e.g. "gazetteer:NC:asheville:37021" or "nominatim:relation/123"
+  name: string;
+  state: string;
+  countyFips: string | null;
+  source: "gazetteer" | "nominatim";
+}
+
+// A geocoder resolves to null when the place is unknown and throws a GeocodingError
+// when it could not answer (network failure, upstream error). reverse finds the US place a
+// point lies in or near; its coordinates are the place's, not the point's
+export interface Geocoder {
+  geocode(city: string, state: string): Promise<GeocodedPlace | null>;
+  reverse(lat: number, lon: number): Promise<GeocodedPlace | null>;
+}
+
+export class GeocodingError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = "GeocodingError";
+  }
+}
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  osm_type: string;
+  osm_id: number;
+}
+
+interface NominatimReverseResult extends Partial<NominatimResult> {
+  error?: string; // e.g. "Unable to geocode" for points at sea
+  address?: {
+    city?: string;
+    town?: string;
+    village?: string;
+    hamlet?: string;
+    county?: string;
+    country_code?: string;
+    "ISO3166-2-lvl4"?: string; // e.g. "US-NC"
+  };
+}
+
+export class NominatimGeocoder implements Geocoder {
+  constructor(
+    private readonly baseUrl: string = "https://nominatim.openstreetmap.org",
+    private readonly cache?: HttpResponseCache,
+    private readonly fetch: typeof globalThis.fetch = globalThis.fetch
+  ) {}
+
+  async geocode(city: string, state: string): Promise<GeocodedPlace | null> {
+    const params = new URLSearchParams({
+      city: city,
+      state: state,
+      country: "USA",
+      format: "json",
+      limit: "1"
+    });
+
+    const data = await this.request<NominatimResult[]>(`${this.baseUrl}/search?${params}`, `${city}, ${state}`);
+    if (!data || data.length === 0) {
+      return null;
+    }
+
+    return {
+      lat: parseFloat(data[0].lat),
+      lon: parseFloat(data[0].lon),
+      placeId: `nominatim:${data[0].osm_type}/${data[0].osm_id}`,
+      name: city,
+      state,
+      countyFips: null,
+      source: "nominatim"
+    };
+  }
+
+  async reverse(lat: number, lon: number): Promise<GeocodedPlace | null> {
+    const params = new URLSearchParams({
+      lat: String(lat),
+      lon: String(lon),
+      zoom: "10", // city level
+      addressdetails: "1",
+      format: "jsonv2"
+    });
+
+    const data = await this.request<NominatimReverseResult>(`${this.baseUrl}/reverse?${params}`, `${lat}, ${lon}`);
+    const address = data.address;
+    const state = address?.["ISO3166-2-lvl4"]?.match(/^US-([A-Z]{2})$/)?.[1];
+    const name = address?.city || address?.town || address?.village || address?.hamlet || address?.county;
+
+    if (data.error || address?.country_code !== "us" || !state || !name || !data.lat || !data.lon) {
+      return null;
+    }
+
+    return {
+      lat: parseFloat(data.lat),
+      lon: parseFloat(data.lon),
+      placeId: `nominatim:${data.osm_type}/${data.osm_id}`,
+      name,
+      state,
+      countyFips: null,
+      source: "nominatim"
+    };
+  }
+
+  // Fetch a Nominatim response, reusing a fresh cached one or revalidating a stale one
+  private async request<T>(url: string, description: string): Promise<T> {
+    const cached = await this.cache?.get(url);
+    if (cached && this.cache?.isFresh(cached)) {
+      return cached.body as T;
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetch(url, {
+        headers: {
+          "User-Agent": "NativeTreeFinder/1.0",
+          ...this.cache?.conditionalHeaders(cached)
+        }
+      });
+    } catch (error) {
+      throw new GeocodingError(`Nominatim request failed for ${description}`, error);
+    }
+
+    if (response.status === 304 && cached && this.cache) {
+      await this.cache.revalidated(cached);
+      return cached.body as T;
+    }
+
+    if (!response.ok) {
+      throw new GeocodingError(`Nominatim returned ${response.status} for ${description}`);
+    }
+
+    const data = await response.json();
+    await this.cache?.save(url, response, data);
+    return data;
+  }
+}
+
+// Offline geocoder backed by the bundled places gazetteer; never touches the network
+export class GazetteerGeocoder implements Geocoder {
+  constructor(private readonly gazetteer: Gazetteer = defaultGazetteer) {}
+
+  async geocode(city: string, state: string): Promise<GeocodedPlace | null> {
+    const place = this.gazetteer.lookup(city, state);
+    return place ? toGeocodedPlace(place) : null;
+  }
+
+  async reverse(lat: number, lon: number): Promise<GeocodedPlace | null> {
+    const place = this.gazetteer.nearest(lat, lon);
+    return place ? toGeocodedPlace(place) : null;
+  }
+}
+
+function toGeocodedPlace(place: GazetteerPlace): GeocodedPlace {
+  return {
+    lat: place.lat,
+    lon: place.lon,
+    placeId: place.id,
+    name: place.name,
+    state: place.state,
+    countyFips: place.countyFips,
+    source: "gazetteer"
+  };
+}
+
+// Tries each geocoder in order until one finds the place. Failures are logged and skipped;
+// if every geocoder failed (rather than simply not finding the place) the last error is rethrown
+export class FallbackGeocoder implements Geocoder {
+  constructor(private readonly geocoders: Geocoder[]) {}
+
+  async geocode(city: string, state: string): Promise<GeocodedPlace | null> {
+    return this.first(`${city}, ${state}`, geocoder => geocoder.geocode(city, state));
+  }
+
+  async reverse(lat: number, lon: number): Promise<GeocodedPlace | null> {
+    return this.first(`${lat}, ${lon}`, geocoder => geocoder.reverse(lat, lon));
+  }
+
+  private async first(
+    description: string,
+    lookup: (geocoder: Geocoder) => Promise<GeocodedPlace | null>
+  ): Promise<GeocodedPlace | null> {
+    let lastError: unknown = null;
+    let failures = 0;
+
+    for (const geocoder of this.geocoders) {
+      try {
+        const place = await lookup(geocoder);
+        if (place) return place;
+      } catch (error) {
+        console.error('Geocoding error:', error);
+        lastError = error;
+        failures += 1;
+      }
+    }
+
+    if (failures === this.geocoders.length && lastError) {
+      throw lastError instanceof GeocodingError
+        ? lastError
+        : new GeocodingError(`Geocoding failed for ${description}`, lastError);
+    }
+
+    return null;
+  }
+}
+
+export type GeocoderMode = "gazetteer" | "nominatim" | "offline";
+
+// Build the geocoder chain for a mode:
+// - gazetteer: bundled gazetteer first, Nominatim for places it does not know (default)
+// - nominatim: Nominatim first, gazetteer when Nominatim is unreachable or has no match
+// - offline: bundled gazetteer only
+export interface GeocoderOptions {
+  cache?: HttpResponseCache; // keeps Nominatim responses in the HTTP response cache
+  fetch?: typeof fetch; // swapped out to record or replay fixtures
+}
+
+export function createGeocoder(mode: GeocoderMode, options: GeocoderOptions = {}): Geocoder {
+  const offline = new GazetteerGeocoder();
+  const nominatim = new NominatimGeocoder(undefined, options.cache, options.fetch);
+
+  switch (mode) {
+    case "offline":
+      return offline;
+    case "nominatim":
+      return new FallbackGeocoder([nominatim, offline]);
+    case "gazetteer":
+    default:
+      return new FallbackGeocoder([offline, nominatim]);
+  }
+}
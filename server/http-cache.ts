@@ -0,0 +1,63 @@
+import type { HttpResponse, InsertHttpResponse } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// How long a cached upstream response is reused without asking the upstream at all
+// (override with HTTP_CACHE_MAX_AGE_HOURS); older entries are revalidated with a conditional request
+export const HTTP_CACHE_MAX_AGE_MS = (parseFloat(process.env.HTTP_CACHE_MAX_AGE_HOURS || '168') || 168) * 60 * 60 * 1000;
+
+export type HttpResponseStore = Pick<IStorage, "getHttpResponse" | "saveHttpResponse">;
+
+// Persistent cache of upstream JSON responses keyed by URL. Cache failures are logged and
+// treated as misses so a database hiccup never fails a request that the upstream could answer
+export class HttpResponseCache {
+  constructor(
+    private readonly store: HttpResponseStore,
+    private readonly maxAgeMs: number = HTTP_CACHE_MAX_AGE_MS
+  ) {}
+
+  async get(url: string): Promise<HttpResponse | undefined> {
+    try {
+      return await this.store.getHttpResponse(url);
+    } catch (error) {
+      console.error(`HTTP cache lookup failed for ${url}:`, error);
+      return undefined;
+    }
+  }
+
+  isFresh(entry: HttpResponse): boolean {
+    return Date.now() - entry.fetchedAt.getTime() <= this.maxAgeMs;
+  }
+
+  // Validators to send so the upstream can answer 304 Not Modified for an unchanged entry
+  conditionalHeaders(entry: HttpResponse | undefined): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry?.etag) headers["If-None-Match"] = entry.etag;
+    if (entry?.lastModified) headers["If-Modified-Since"] = entry.lastModified;
+    return headers;
+  }
+
+  // Store a 200 response body along with its validators
+  async save(url: string, response: Response, body: unknown): Promise<void> {
+    await this.write({
+      url,
+      body,
+      etag: response.headers.get("etag"),
+      lastModified: response.headers.get("last-modified"),
+      fetchedAt: new Date()
+    });
+  }
+
+  // The upstream confirmed a cached entry is unchanged (304); restart its max-age
+  async revalidated(entry: HttpResponse): Promise<void> {
+    await this.write({ ...entry, fetchedAt: new Date() });
+  }
+
+  private async write(entry: HttpResponse): Promise<void> {
+    try {
+      // Bodies come straight from response.json(), so they are always JSON-serializable
+      await this.store.saveHttpResponse({ ...entry, body: entry.body as InsertHttpResponse["body"] });
+    } catch (error) {
+      console.error(`HTTP cache write failed for ${entry.url}:`, error);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { IStorage } from "../storage";
+import { canonicalSpeciesName } from "../tree-filters";
+
+// Accepted spellings of the columns every importer reads
+export const NAME_COLUMNS = ["scientific_name", "scientificName", "scientific_name_with_author", "species", "name"];
+export const STATE_COLUMNS = ["state", "state_code", "stateProvince"];
+
+// Helper function to split CSV text into rows of fields (RFC 4180 quoting, CRLF or LF line endings)
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim() !== ""));
+}
+
+// Header names are matched loosely: "Scientific Name", "scientific_name" and "scientificName"
+// all become "scientificname"
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Read a CSV file with a header row into records keyed by normalized header name
+export function readCsvRecords(filePath: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(fs.readFileSync(filePath, "utf-8").replace(/^\uFEFF/, ""));
+  if (!header) return [];
+
+  const columns = header.map(normalizeHeader);
+  return rows.map(fields => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = (fields[index] ?? "").trim();
+    });
+    return record;
+  });
+}
+
+// First non-empty value among the accepted spellings of a column
+export function pickColumn(record: Record<string, string>, aliases: string[]): string {
+  for (const alias of aliases) {
+    const value = record[normalizeHeader(alias)];
+    if (value) return value;
+  }
+  return "";
+}
+
+// Helper function to read "--name value" options from the command line
+export function commandOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// Helper function to read a record's scientific name as genus + species ("" when missing)
+export function pickSpeciesName(record: Record<string, string>): string {
+  const name = pickColumn(record, NAME_COLUMNS).replace(/\s+/g, " ").trim();
+  return name ? canonicalSpeciesName(name) : "";
+}
+
+export interface ImportInput {
+  args: string[];
+  filePath: string;
+  source: string;
+  records: Record<string, string>[];
+}
+
+// Read an importer's command line and CSV file. The file is the first argument that is neither an
+// option nor an option's value, and --source defaults to the file name. Exits with the usage line
+// when no file is given
+export function readImportInput(usage: string, args: string[] = process.argv.slice(2)): ImportInput {
+  const filePath = args.find((arg, i) => !arg.startsWith("--") && !args[i - 1]?.startsWith("--"));
+  if (!filePath) {
+    console.error(`Usage: ${usage}`);
+    process.exit(2);
+  }
+
+  return {
+    args,
+    filePath,
+    source: commandOption(args, "--source") || path.basename(filePath, path.extname(filePath)),
+    records: readCsvRecords(filePath)
+  };
+}
+
+// Run an importer's main function and exit with its outcome, but only when the importer's module
+// (moduleUrl, its import.meta.url) is the script being run: other code can import the row builders
+// without starting an import. Storage is loaded here so importing never needs DATABASE_URL
+export function runImport(moduleUrl: string, label: string, main: (storage: IStorage) => Promise<void>): void {
+  if (!process.argv[1] || path.resolve(process.argv[1]) !== fileURLToPath(moduleUrl)) return;
+
+  import("../storage")
+    .then(({ storage }) => main(storage))
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error(`${label} import failed:`, error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,320 @@
+// Regenerate the bundled offline gazetteers in server/data from public datasets published on npm.
+//
+//   npm run import:gazetteers
+//
+// Counties are every Census cartographic boundary county (us-atlas), named from the Census FIPS
+// county list (fips-county-codes), with the centroid and area of the boundary. Places are GeoNames
+// populated places with at least 1,000 inhabitants (all-the-cities) plus every USPS city name
+// (zipcodes) that GeoNames does not list, placed at the median of its ZIP centroids with no
+// population. ZIP codes are every USPS ZIP code with a location (zipcodes). Places and ZIP codes
+// are assigned the county whose boundary contains them, or the nearest county centroid when none
+// does (e.g. on simplified coastlines). County outlines are the same boundaries, simplified for
+// GBIF geometry queries. The output replaces server/data/us-counties.ts, us-county-outlines.ts,
+// us-places.ts and us-zips.ts
+//
+// The Census places gazetteer is not published on npm, so the bundled places come from GeoNames
+// and USPS instead; PLACES_GAZETTEER_PATH loads a Census places export at runtime
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { fileURLToPath } from "url";
+import { geoArea, geoBounds, geoCentroid, geoContains } from "d3-geo";
+import { feature } from "topojson-client";
+import type { Feature, MultiPolygon, Polygon } from "geojson";
+import type { GeometryCollection, Topology } from "topojson-specification";
+import type { CountyOutlineRow } from "../data/us-county-outlines";
+import type { CountyRow } from "../data/us-counties";
+import type { GazetteerRow } from "../data/us-places";
+import type { ZipRow } from "../data/us-zips";
+import { distanceKm, normalizePlaceName } from "../gazetteer";
+import { readCsvRecords } from "./csv";
+
+const require = createRequire(import.meta.url);
+const DATA_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "data");
+
+const EARTH_RADIUS_KM = 6371;
+
+interface GeoNamesCity {
+  name: string;
+  country: string;
+  adminCode: string;
+  population: number;
+  loc: { coordinates: [number, number] };
+}
+
+interface UspsZip {
+  zip: string;
+  latitude: number;
+  longitude: number;
+  city: string;
+  state: string;
+  country: string;
+}
+
+interface CountyShape {
+  fips: string;
+  name: string;
+  state: string;
+  lat: number;
+  lon: number;
+  landAreaKm2: number;
+  shape: Feature<Polygon | MultiPolygon>;
+  bounds: [[number, number], [number, number]];
+}
+
+// Helper function for the middle of a list of coordinates, which unlike the mean ignores the odd
+// outlying ZIP code that shares a city name
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Helper function to round coordinates to about 10 m
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+function loadCounties(): CountyShape[] {
+  const names = new Map<string, { state: string; name: string }>();
+  const stateCodes = new Map<string, string>();
+  for (const record of readCsvRecords(require.resolve("fips-county-codes/data/fips-counties.csv"))) {
+    names.set(`${record.statefp}${record.countyfp}`, { state: record.state, name: record.countyname });
+    stateCodes.set(record.statefp, record.state);
+  }
+
+  const topology: Topology<{ counties: GeometryCollection<{ name: string }> }> =
+    JSON.parse(fs.readFileSync(require.resolve("us-atlas/counties-10m.json"), "utf-8"));
+  const collection = feature(topology, topology.objects.counties);
+
+  return collection.features.flatMap(county => {
+    const fips = String(county.id);
+    const state = names.get(fips)?.state ?? stateCodes.get(fips.slice(0, 2));
+    if (!state || (county.geometry.type !== "Polygon" && county.geometry.type !== "MultiPolygon")) return [];
+
+    const shape = county as Feature<Polygon | MultiPolygon>;
+    const [lon, lat] = geoCentroid(shape);
+    return [{
+      fips,
+      name: names.get(fips)?.name ?? `${county.properties?.name} County`,
+      state,
+      lat: round(lat),
+      lon: round(lon),
+      landAreaKm2: Math.round(geoArea(shape) * EARTH_RADIUS_KM ** 2),
+      shape,
+      bounds: geoBounds(shape)
+    }];
+  });
+}
+
+// The county whose boundary contains a point, else the one with the nearest centroid
+function countyAt(counties: CountyShape[], lat: number, lon: number): CountyShape {
+  const containing = counties.find(({ bounds: [[west, south], [east, north]], shape }) =>
+    lat >= south && lat <= north && (west <= east ? lon >= west && lon <= east : lon >= west || lon <= east) &&
+    geoContains(shape, [lon, lat])
+  );
+  if (containing) return containing;
+
+  return counties.reduce((nearest, county) =>
+    distanceKm(lat, lon, county.lat, county.lon) < distanceKm(lat, lon, nearest.lat, nearest.lon) ? county : nearest
+  );
+}
+
+// Outlines are simplified until they fit in a GBIF geometry query string
+const MAX_OUTLINE_POINTS = 250;
+const OUTLINE_TOLERANCE_DEGREES = 0.002;
+
+type Ring = [number, number][];
+
+// Helper function to simplify a line with Douglas-Peucker, keeping its end points
+function simplifyLine(points: Ring, tolerance: number): Ring {
+  if (points.length < 3) return points;
+
+  const [[ax, ay], [bx, by]] = [points[0], points[points.length - 1]];
+  const length = Math.hypot(bx - ax, by - ay);
+  let farthest = 0;
+  let distance = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const [x, y] = points[i];
+    const d = length > 0
+      ? Math.abs((by - ay) * x - (bx - ax) * y + bx * ay - by * ax) / length
+      : Math.hypot(x - ax, y - ay);
+    if (d > distance) {
+      distance = d;
+      farthest = i;
+    }
+  }
+
+  if (distance <= tolerance) return [points[0], points[points.length - 1]];
+  return [...simplifyLine(points.slice(0, farthest + 1), tolerance).slice(0, -1), ...simplifyLine(points.slice(farthest), tolerance)];
+}
+
+// Simplify a closed ring (split at the point farthest from its start) and wind it anticlockwise,
+// or clockwise for holes, as GBIF expects. Rings that collapse below a triangle are dropped
+function simplifyRing(ring: Ring, tolerance: number, hole: boolean): Ring | null {
+  let split = 0;
+  ring.forEach(([lon, lat], index) => {
+    if (Math.hypot(lon - ring[0][0], lat - ring[0][1]) > Math.hypot(ring[split][0] - ring[0][0], ring[split][1] - ring[0][1])) split = index;
+  });
+
+  const simplified = [...simplifyLine(ring.slice(0, split + 1), tolerance).slice(0, -1), ...simplifyLine(ring.slice(split), tolerance)]
+    .map(([lon, lat]): [number, number] => [Number(lon.toFixed(3)), Number(lat.toFixed(3))]);
+  if (simplified.length < 4) return null;
+
+  let area = 0;
+  for (let i = 0; i < simplified.length - 1; i++) {
+    area += simplified[i][0] * simplified[i + 1][1] - simplified[i + 1][0] * simplified[i][1];
+  }
+  return (area > 0) === hole ? simplified.reverse() : simplified;
+}
+
+// A county boundary as a WKT POLYGON or MULTIPOLYGON for GBIF's geometry filter, simplified with a
+// growing tolerance until it has at most MAX_OUTLINE_POINTS points
+function outlineWkt(shape: Feature<Polygon | MultiPolygon>): string {
+  const polygons = shape.geometry.type === "Polygon" ? [shape.geometry.coordinates] : shape.geometry.coordinates;
+
+  for (let tolerance = OUTLINE_TOLERANCE_DEGREES; ; tolerance *= 2) {
+    const simplified = polygons.flatMap(rings => {
+      const [exterior, ...holes] = rings.map((ring, index) => simplifyRing(ring as Ring, tolerance, index > 0));
+      return exterior ? [[exterior, ...holes.filter((hole): hole is Ring => hole !== null)]] : [];
+    });
+    const points = simplified.flat(2).length;
+    if (points > MAX_OUTLINE_POINTS && simplified.length > 0) continue;
+
+    const wkt = simplified.map(rings => `(${rings.map(ring => `(${ring.map(([lon, lat]) => `${lon} ${lat}`).join(",")})`).join(",")})`);
+    return wkt.length === 1 ? `POLYGON${wkt[0]}` : `MULTIPOLYGON(${wkt.join(",")})`;
+  }
+}
+
+// Helper function to write a generated data module holding a tab-separated table (header row
+// included, the same layout as the *_GAZETTEER_PATH files)
+function writeDataModule(fileName: string, comment: string[], declarations: string, header: string[], rows: (string | number)[][]): void {
+  const table = [header, ...rows]
+    .map(fields => fields.map(field => String(field).replace(/[\t\n`\\$]/g, " ")).join("\t"))
+    .join("\n");
+  const source = [
+    ...comment.map(line => `// ${line}`.trimEnd()),
+    "// Generated by `npm run import:gazetteers`; do not edit by hand.",
+    declarations,
+    "",
+    `export const ${path.basename(fileName, ".ts").toUpperCase().replace(/-/g, "_")}_TSV = \`${table}\n\`;`,
+    ""
+  ].join("\n");
+
+  fs.writeFileSync(path.join(DATA_DIR, fileName), source);
+  console.log(`Wrote ${rows.length} rows to server/data/${fileName}`);
+}
+
+function main() {
+  const counties = loadCounties();
+  const countiesByState = new Map<string, CountyShape[]>();
+  for (const county of counties) {
+    countiesByState.set(county.state, [...(countiesByState.get(county.state) ?? []), county]);
+  }
+
+  writeDataModule(
+    "us-counties.ts",
+    [
+      "Offline county gazetteer: every county and county equivalent in the Census cartographic",
+      "boundary files. Each row is",
+      "  state, county FIPS, county name, latitude, longitude, area in km²",
+      "where the point is the centroid of the county boundary.",
+      "A full Census county gazetteer export in the same column order (tab-separated, with a",
+      "header row) can be loaded instead by setting COUNTY_GAZETTEER_PATH."
+    ],
+    "export type CountyRow = [string, string, string, number, number, number];",
+    ["state", "fips", "name", "lat", "lon", "land_area_km2"],
+    counties
+      .map((county): CountyRow => [county.state, county.fips, county.name, county.lat, county.lon, county.landAreaKm2])
+      .sort((a, b) => a[1].localeCompare(b[1]))
+  );
+
+  writeDataModule(
+    "us-county-outlines.ts",
+    [
+      "Offline county outlines: the Census cartographic boundary of every county in us-counties.ts",
+      "as WKT (anticlockwise rings, simplified to a few hundred points at most), which county",
+      "searches pass to GBIF as the occurrence search geometry. Each row is",
+      "  county FIPS, WKT POLYGON or MULTIPOLYGON"
+    ],
+    "export type CountyOutlineRow = [string, string];",
+    ["fips", "wkt"],
+    counties
+      .map((county): CountyOutlineRow => [county.fips, outlineWkt(county.shape)])
+      .sort((a, b) => a[0].localeCompare(b[0]))
+  );
+
+  const places = new Map<string, GazetteerRow>();
+  const cities: GeoNamesCity[] = require("all-the-cities");
+  for (const city of cities) {
+    if (city.country !== "US") continue;
+    const [lon, lat] = city.loc.coordinates;
+    const county = countyAt(counties, lat, lon);
+    const key = `${city.adminCode}|${normalizePlaceName(city.name)}|${county.fips}`;
+    if (county.state !== city.adminCode || (places.get(key)?.[5] ?? -1) >= city.population) continue;
+    places.set(key, [city.adminCode, city.name, county.fips, round(lat), round(lon), city.population]);
+  }
+
+  // USPS city names GeoNames lacks (small towns, and spellings such as "New York" for "New York City")
+  const listed = new Set(Array.from(places.values()).map(([state, name]) => `${state}|${normalizePlaceName(name)}`));
+  const postal = new Map<string, { state: string; name: string; lats: number[]; lons: number[] }>();
+  const uspsZips: Record<string, UspsZip> = require("zipcodes").codes;
+  for (const zip of Object.values(uspsZips)) {
+    if (zip.country !== "US" || !zip.city) continue;
+    const name = zip.city.replace(/\b\w+/g, word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase());
+    const key = `${zip.state}|${normalizePlaceName(name)}`;
+    if (listed.has(key)) continue;
+    const entry = postal.get(key) ?? { state: zip.state, name, lats: [], lons: [] };
+    entry.lats.push(zip.latitude);
+    entry.lons.push(zip.longitude);
+    postal.set(key, entry);
+  }
+
+  for (const { state, name, lats, lons } of Array.from(postal.values())) {
+    const lat = median(lats);
+    const lon = median(lons);
+    const county = countyAt(counties, lat, lon);
+    if (county.state !== state) continue;
+    places.set(`${state}|${normalizePlaceName(name)}|${county.fips}`, [state, name, county.fips, round(lat), round(lon), 0]);
+  }
+
+  writeDataModule(
+    "us-places.ts",
+    [
+      "Offline places gazetteer: GeoNames populated places of at least 1,000 inhabitants plus the",
+      "USPS city names GeoNames does not list (population 0). Each row is",
+      "  state, place name, county FIPS, latitude, longitude, population",
+      "where the county is the one containing the place's point.",
+      "A full US Census places export in the same column order (tab-separated, with a header",
+      "row) can be loaded instead by setting PLACES_GAZETTEER_PATH."
+    ],
+    "export type GazetteerRow = [string, string, string, number, number, number];",
+    ["state", "name", "county_fips", "lat", "lon", "population"],
+    Array.from(places.values()).sort((a, b) => a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]) || a[2].localeCompare(b[2]))
+  );
+
+  // Military and other ZIP codes outside a state's counties are left out
+  const zips: ZipRow[] = [];
+  for (const zip of Object.values(uspsZips)) {
+    const inState = countiesByState.get(zip.state);
+    if (zip.country !== "US" || !inState || (!zip.latitude && !zip.longitude)) continue;
+    zips.push([zip.zip, zip.state, countyAt(inState, zip.latitude, zip.longitude).fips, round(zip.latitude), round(zip.longitude)]);
+  }
+
+  writeDataModule(
+    "us-zips.ts",
+    [
+      "Offline ZIP code gazetteer: every USPS ZIP code with a location. Each row is",
+      "  ZIP code, state, county FIPS, latitude, longitude",
+      "where the county is the one in the ZIP code's state containing its point.",
+      "A full ZIP export in the same column order (tab-separated, with a header row), e.g. Census",
+      "ZCTA centroids joined with a ZIP-to-county crosswalk, can be loaded instead by setting",
+      "ZIP_GAZETTEER_PATH."
+    ],
+    "export type ZipRow = [string, string, string, number, number];",
+    ["zip", "state", "county_fips", "lat", "lon"],
+    zips.sort((a, b) => a[0].localeCompare(b[0]))
+  );
+}
+
+main();
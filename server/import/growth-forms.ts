@@ -0,0 +1,80 @@
+// Import per-taxon growth habit traits into growth_forms.
+//
+//   npm run import:growth-forms -- <traits.csv> [--source usda-plants]
+//
+// The CSV needs a header row with a scientific name and a growth habit column ("Scientific
+// Name", "Growth Habit", "Growth Form" and similar spellings are accepted). Habits may list
+// several forms ("Tree, Shrub", "Shrub/Subshrub"): tree plus shrub becomes tree/shrub, and
+// herbs, graminoids, vines and the like become other. Infraspecific names collapse to genus +
+// species and every row for a species is merged into one form. --source defaults to the file name
+import type { GrowthForm, InsertGrowthForm } from "@shared/schema";
+import type { IStorage } from "../storage";
+import { pickColumn, pickSpeciesName, readImportInput, runImport } from "./csv";
+
+const HABIT_COLUMNS = ["growth_habit", "growth_form", "growthForm", "habit", "life_form"];
+
+const OTHER_HABITS = /forb|herb|graminoid|grass|vine|liana|climber|fern|lichen|nonvascular|moss|aquatic|succulent/;
+
+interface HabitFlags {
+  tree: boolean;
+  shrub: boolean;
+  other: boolean;
+}
+
+// Helper function to read which forms a growth habit value mentions (null when unrecognized)
+function parseHabit(value: string): HabitFlags | null {
+  const tokens = value.toLowerCase().split(/[,;/|]|\band\b/).map(token => token.trim()).filter(Boolean);
+  const flags = {
+    tree: tokens.some(token => token.includes("tree")),
+    shrub: tokens.some(token => token.includes("shrub")),
+    other: tokens.some(token => OTHER_HABITS.test(token))
+  };
+  return flags.tree || flags.shrub || flags.other ? flags : null;
+}
+
+// Helper function to collapse the forms a taxon was listed with into one growth form
+function toGrowthForm({ tree, shrub }: HabitFlags): GrowthForm {
+  if (tree && shrub) return "tree/shrub";
+  if (tree) return "tree";
+  if (shrub) return "shrub";
+  return "other";
+}
+
+// One row per species, merging every form it was listed with
+export function growthFormRows(records: Record<string, string>[], source: string): { rows: InsertGrowthForm[]; skipped: number } {
+  const habits = new Map<string, HabitFlags>();
+  let skipped = 0;
+
+  for (const record of records) {
+    const scientificName = pickSpeciesName(record);
+    const flags = parseHabit(pickColumn(record, HABIT_COLUMNS));
+
+    if (!scientificName || !flags) {
+      skipped += 1;
+      continue;
+    }
+
+    const existing = habits.get(scientificName);
+    habits.set(scientificName, existing
+      ? { tree: existing.tree || flags.tree, shrub: existing.shrub || flags.shrub, other: existing.other || flags.other }
+      : flags);
+  }
+
+  const rows = Array.from(habits.entries()).map(([scientificName, flags]) => ({
+    scientificName,
+    growthForm: toGrowthForm(flags),
+    source
+  }));
+
+  return { rows, skipped };
+}
+
+async function main(storage: IStorage) {
+  const { filePath, source, records } = readImportInput("npm run import:growth-forms -- <traits.csv> [--source name]");
+  const { rows, skipped } = growthFormRows(records, source);
+
+  const imported = await storage.upsertGrowthForms(rows);
+  console.log(`Imported ${imported} growth form rows from ${filePath} as "${source}" (${skipped} rows skipped)`);
+}
+
+runImport(import.meta.url, "Growth form", main);
@@ -0,0 +1,87 @@
+// Import a state noxious weed / invasive species list into invasive_species.
+//
+//   npm run import:invasive-species -- <list.csv> [--state NC] [--source nc-noxious-weeds]
+//
+// The CSV needs a header row with a scientific name and a status column ("Scientific Name",
+// "Status", "Listing", "Class" and similar spellings are accepted). Most state lists cover a
+// single state and have no state column, so --state supplies it; a state column wins when both
+// are present. Legal listings (noxious, prohibited, regulated, class A/B/C) map to noxious,
+// restricted or invasive rankings to invasive, and watch lists to watch. Negated values such as
+// "non-invasive" and values outside that vocabulary skip the row and are reported. Infraspecific
+// names collapse to genus + species; when a species is listed more than once for a state the most
+// severe status is kept. --source defaults to the file name
+import type { InsertInvasiveSpecies, InvasiveStatus } from "@shared/schema";
+import type { IStorage } from "../storage";
+import { commandOption, pickColumn, pickSpeciesName, readImportInput, runImport, STATE_COLUMNS } from "./csv";
+
+const STATUS_COLUMNS = ["status", "invasive_status", "listing", "designation", "class", "category"];
+
+// Most severe first; used to keep one status per species and state
+const STATUS_SEVERITY: InvasiveStatus[] = ["noxious", "invasive", "watch"];
+
+// Status vocabulary, matched as whole words. Negated listings ("non-invasive", "not a noxious
+// weed", "delisted") are checked first so they never match the listing they negate
+const NEGATED_STATUS = /\b(non|not|no|un|de)[\s-]*(an? )?(invasive|noxious|listed|regulated|restricted|prohibited)\b|^(none|n\/a|removed)$/;
+const WATCH_STATUS = /\b(watch|monitor|monitoring|alert|early detection)\b/;
+const NOXIOUS_STATUS = /\b(noxious|prohibited|regulated|quarantine|quarantined)\b|^((class|category) )?[abc]$/;
+const INVASIVE_STATUS = /\b(invasive|restricted|high|medium|moderate|severe|significant)\b/;
+
+// Helper function to map a state list's status value to a registry status (null when the value
+// is empty, negated or not in the vocabulary)
+export function parseInvasiveStatus(value: string): InvasiveStatus | null {
+  const normalized = value.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!normalized || NEGATED_STATUS.test(normalized)) return null;
+
+  if (WATCH_STATUS.test(normalized)) return "watch";
+  if (NOXIOUS_STATUS.test(normalized)) return "noxious";
+  if (INVASIVE_STATUS.test(normalized)) return "invasive";
+
+  return null;
+}
+
+// One row per species and state, keeping the most severe status; a record's own state column
+// wins over defaultState
+export function invasiveSpeciesRows(
+  records: Record<string, string>[],
+  source: string,
+  defaultState: string
+): { rows: InsertInvasiveSpecies[]; skipped: number; unrecognized: string[] } {
+  const rows = new Map<string, InsertInvasiveSpecies>();
+  const unrecognized = new Set<string>();
+  let skipped = 0;
+
+  for (const record of records) {
+    const scientificName = pickSpeciesName(record);
+    const state = (pickColumn(record, STATE_COLUMNS) || defaultState).toUpperCase();
+    const value = pickColumn(record, STATUS_COLUMNS);
+    const status = parseInvasiveStatus(value);
+    if (value && !status) unrecognized.add(value);
+
+    if (!scientificName || !/^[A-Z]{2}$/.test(state) || !status) {
+      skipped += 1;
+      continue;
+    }
+
+    const key = `${scientificName}|${state}`;
+    const existing = rows.get(key);
+    if (!existing || STATUS_SEVERITY.indexOf(status) < STATUS_SEVERITY.indexOf(existing.status)) {
+      rows.set(key, { scientificName, state, status, source });
+    }
+  }
+
+  return { rows: Array.from(rows.values()), skipped, unrecognized: Array.from(unrecognized) };
+}
+
+async function main(storage: IStorage) {
+  const { args, filePath, source, records } =
+    readImportInput("npm run import:invasive-species -- <list.csv> [--state XX] [--source name]");
+  const { rows, skipped, unrecognized } = invasiveSpeciesRows(records, source, commandOption(args, "--state") || "");
+
+  const imported = await storage.upsertInvasiveSpecies(rows);
+  console.log(`Imported ${imported} invasive species rows from ${filePath} as "${source}" (${skipped} rows skipped)`);
+  if (unrecognized.length > 0) {
+    console.log(`Skipped statuses that are negated or not a listing: ${unrecognized.map(value => `"${value}"`).join(", ")}`);
+  }
+}
+
+runImport(import.meta.url, "Invasive species", main);
@@ -0,0 +1,68 @@
+// Import a state-level nativity checklist into native_statuses.
+//
+//   npm run import:native-status -- <checklist.csv> [--source usda-plants]
+//
+// The CSV needs a header row with a scientific name, a two-letter state and a status column
+// ("Scientific Name", "State", "Native Status" and similar spellings are accepted). Statuses
+// may be words (native, introduced, invasive, ...), single letters (N, I) or USDA PLANTS style
+// codes such as "L48(N)". Infraspecific names collapse to genus + species; when any row for a
+// species and state says native, the species is native there. --source defaults to the file name
+import type { InsertNativeStatus } from "@shared/schema";
+import type { IStorage } from "../storage";
+import { pickColumn, pickSpeciesName, readImportInput, runImport, STATE_COLUMNS } from "./csv";
+
+const STATUS_COLUMNS = ["status", "native_status", "nativity", "establishment"];
+
+const NATIVE_VALUES = new Set(["n", "native", "nat"]);
+const INTRODUCED_VALUES = new Set([
+  "i", "introduced", "intro", "exotic", "nonnative", "non-native", "adventive",
+  "invasive", "naturalized", "naturalised", "cultivated", "waif"
+]);
+
+// Helper function to map a checklist status value to native/introduced (null when unrecognized)
+export function parseNativeStatus(value: string): InsertNativeStatus["status"] | null {
+  const normalized = value.trim().toLowerCase();
+  if (NATIVE_VALUES.has(normalized)) return "native";
+  if (INTRODUCED_VALUES.has(normalized)) return "introduced";
+
+  // USDA PLANTS codes, e.g. "L48(N)" or "L48(I)"
+  if (/\(n\)/.test(normalized)) return "native";
+  if (/\(i\)/.test(normalized)) return "introduced";
+
+  return null;
+}
+
+// One row per species and state; when any record for a species and state says native, it is native there
+export function nativeStatusRows(records: Record<string, string>[], source: string): { rows: InsertNativeStatus[]; skipped: number } {
+  const rows = new Map<string, InsertNativeStatus>();
+  let skipped = 0;
+
+  for (const record of records) {
+    const scientificName = pickSpeciesName(record);
+    const state = pickColumn(record, STATE_COLUMNS).toUpperCase();
+    const status = parseNativeStatus(pickColumn(record, STATUS_COLUMNS));
+
+    if (!scientificName || !/^[A-Z]{2}$/.test(state) || !status) {
+      skipped += 1;
+      continue;
+    }
+
+    const key = `${scientificName}|${state}`;
+    const existing = rows.get(key);
+    if (!existing || status === "native") {
+      rows.set(key, { scientificName, state, status, source });
+    }
+  }
+
+  return { rows: Array.from(rows.values()), skipped };
+}
+
+async function main(storage: IStorage) {
+  const { filePath, source, records } = readImportInput("npm run import:native-status -- <checklist.csv> [--source name]");
+  const { rows, skipped } = nativeStatusRows(records, source);
+
+  const imported = await storage.upsertNativeStatuses(rows);
+  console.log(`Imported ${imported} native status rows from ${filePath} as "${source}" (${skipped} rows skipped)`);
+}
+
+runImport(import.meta.url, "Native status", main);
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PgDialect } from "drizzle-orm/pg-core";
+import type { Location } from "@shared/schema";
+import { EmptyLocationFilterError, locationFilterWhere, matchesLocationFilter, type LocationFilter } from "./location-filter";
+
+const dialect = new PgDialect();
+
+// The DELETE statement's WHERE clause as SQL text and parameters
+function where(filter: LocationFilter) {
+  const clause = locationFilterWhere(filter);
+  if (!clause) return undefined;
+
+  const { sql, params } = dialect.sqlToQuery(clause);
+  return { sql, params };
+}
+
+test("an empty filter is refused", () => {
+  for (const filter of [{}, { all: false }, { locationKey: "", state: "" }]) {
+    assert.throws(() => locationFilterWhere(filter), EmptyLocationFilterError);
+    assert.throws(() => matchesLocationFilter(filter), EmptyLocationFilterError);
+  }
+});
+
+test("filters by location key and state, or matches everything only with all: true", () => {
+  assert.deepEqual(where({ locationKey: "NC:asheville", state: "NC" }), {
+    sql: `("locations"."location_key" = $1 and "locations"."state" = $2)`,
+    params: ["NC:asheville", "NC"]
+  });
+  assert.deepEqual(where({ state: "NC" }), { sql: `"locations"."state" = $1`, params: ["NC"] });
+  assert.equal(where({ all: true }), undefined);
+});
+
+test("the in-memory filter matches the same locations", () => {
+  const location = (locationKey: string, state: string) => ({ locationKey, state }) as Location;
+  const asheville = location("NC:asheville", "NC");
+  const denver = location("CO:denver", "CO");
+
+  assert.deepEqual([asheville, denver].filter(matchesLocationFilter({ state: "NC" })), [asheville]);
+  assert.deepEqual([asheville, denver].filter(matchesLocationFilter({ locationKey: "CO:denver", state: "CO" })), [denver]);
+  assert.deepEqual([asheville, denver].filter(matchesLocationFilter({ all: true })), [asheville, denver]);
+});
@@ -0,0 +1,43 @@
+import { and, eq, type SQL } from "drizzle-orm";
+import { locations, type Location } from "@shared/schema";
+
+// Which cached locations to invalidate: those matching a location key and/or state, or every
+// location when all is set. An empty filter is refused rather than read as "everything"
+export interface LocationFilter {
+  locationKey?: string;
+  state?: string;
+  all?: boolean;
+}
+
+// Thrown by deleteLocations for a filter with no location key, no state and no all: true
+export class EmptyLocationFilterError extends Error {
+  constructor() {
+    super("Refusing to delete locations without a location key, state or all: true");
+    this.name = "EmptyLocationFilterError";
+  }
+}
+
+function assertNotEmpty(filter: LocationFilter): void {
+  if (!filter.locationKey && !filter.state && !filter.all) {
+    throw new EmptyLocationFilterError();
+  }
+}
+
+// WHERE clause for DatabaseStorage; undefined (no clause) only for all: true
+export function locationFilterWhere(filter: LocationFilter): SQL | undefined {
+  assertNotEmpty(filter);
+
+  const conditions: SQL[] = [];
+  if (filter.locationKey) conditions.push(eq(locations.locationKey, filter.locationKey));
+  if (filter.state) conditions.push(eq(locations.state, filter.state));
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+// The same filter for MemStorage
+export function matchesLocationFilter(filter: LocationFilter): (location: Location) => boolean {
+  assertNotEmpty(filter);
+
+  return location =>
+    (!filter.locationKey || location.locationKey === filter.locationKey) &&
+    (!filter.state || location.state === filter.state);
+}
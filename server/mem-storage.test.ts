@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./mem-storage";
+
+async function storageWithLocations(): Promise<MemStorage> {
+  const storage = new MemStorage();
+  for (const [city, state] of [["Asheville", "NC"], ["Boone", "NC"], ["Denver", "CO"]]) {
+    await storage.saveLocationResults({ locationKey: `${state}:${city.toLowerCase()}`, city, state, radiusKm: 50 }, []);
+  }
+  return storage;
+}
+
+test("deleting locations with an empty filter is refused", async () => {
+  const storage = await storageWithLocations();
+
+  await assert.rejects(storage.deleteLocations({}));
+  await assert.rejects(storage.deleteLocations({ all: false }));
+  assert.equal((await storage.listLocations()).length, 3);
+});
+
+test("deleting locations by state or with all: true", async () => {
+  const storage = await storageWithLocations();
+
+  assert.equal(await storage.deleteLocations({ state: "NC" }), 2);
+  assert.equal(await storage.deleteLocations({ all: true }), 1);
+  assert.equal((await storage.listLocations()).length, 0);
+});
@@ -0,0 +1,216 @@
+import { randomUUID } from "crypto";
+import type {
+  User,
+  InsertUser,
+  Species,
+  InsertSpecies,
+  Location,
+  InsertLocation,
+  LocationSpecies,
+  InsertLocationSpecies,
+  TreeSpecies,
+  HttpResponse,
+  InsertHttpResponse,
+  NativeStatus,
+  InsertNativeStatus,
+  InvasiveSpecies,
+  InsertInvasiveSpecies,
+  GrowthFormRow,
+  InsertGrowthForm,
+} from "@shared/schema";
+import { matchesLocationFilter, type LocationFilter } from "./location-filter";
+import type { IStorage } from "./storage";
+
+// In-memory IStorage for running the search pipeline without a database
+// (fixture replays, scripts). Mirrors DatabaseStorage semantics, including the
+// (locationKey, radiusKm) upsert and cascading location_species deletes
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private species = new Map<number, Species>();
+  private locations = new Map<string, Location>();
+  private locationSpecies: LocationSpecies[] = [];
+  private httpResponses = new Map<string, HttpResponse>();
+  private nativeStatuses = new Map<string, NativeStatus>();
+  private invasiveSpecies = new Map<string, InvasiveSpecies>();
+  private growthForms = new Map<string, GrowthFormRow>();
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const user: User = { ...insertUser, id: randomUUID() };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getLocation(locationKey: string, radiusKm: number): Promise<Location | undefined> {
+    return Array.from(this.locations.values())
+      .find(location => location.locationKey === locationKey && location.radiusKm === radiusKm);
+  }
+
+  async getLocationByPlaceId(placeId: string, radiusKm: number): Promise<Location | undefined> {
+    return (await this.listLocations())
+      .find(location => location.placeId === placeId && location.radiusKm === radiusKm);
+  }
+
+  async listLocations(): Promise<Location[]> {
+    return Array.from(this.locations.values())
+      .sort((a, b) => b.fetchedAt.getTime() - a.fetchedAt.getTime());
+  }
+
+  async getLocationSpecies(locationId: string): Promise<TreeSpecies[]> {
+    return (await this.getLocationEntries(locationId))
+      .filter(entry => this.species.has(entry.speciesKey))
+      .map(entry => ({
+        ...this.species.get(entry.speciesKey)!,
+        occurrenceCount: entry.occurrenceCount,
+        nativePercent: entry.nativePercent,
+        introducedPercent: entry.introducedPercent,
+        nativeSource: entry.nativeSource,
+        invasiveStatus: entry.invasiveStatus,
+        growthForm: entry.growthForm
+      }));
+  }
+
+  async getLocationEntries(locationId: string): Promise<LocationSpecies[]> {
+    return this.locationSpecies
+      .filter(entry => entry.locationId === locationId)
+      .sort((a, b) => b.occurrenceCount - a.occurrenceCount || a.speciesKey - b.speciesKey);
+  }
+
+  async rejectLocationSpecies(locationId: string, speciesKeys: number[]): Promise<void> {
+    for (const entry of this.locationSpecies) {
+      if (entry.locationId === locationId && speciesKeys.includes(entry.speciesKey)) entry.rejected = true;
+    }
+  }
+
+  async saveLocationResults(
+    insertLocation: InsertLocation,
+    entries: Omit<InsertLocationSpecies, "locationId">[]
+  ): Promise<Location> {
+    const existing = await this.getLocation(insertLocation.locationKey, insertLocation.radiusKm);
+    const location: Location = {
+      city: insertLocation.city,
+      state: insertLocation.state,
+      locationKey: insertLocation.locationKey,
+      radiusKm: insertLocation.radiusKm,
+      lat: insertLocation.lat ?? null,
+      lon: insertLocation.lon ?? null,
+      placeId: insertLocation.placeId ?? null,
+      fetchedAt: insertLocation.fetchedAt ?? new Date(),
+      pipelineVersion: insertLocation.pipelineVersion ?? 0,
+      id: existing?.id ?? randomUUID()
+    };
+    this.locations.set(location.id, location);
+
+    this.locationSpecies = this.locationSpecies.filter(entry => entry.locationId !== location.id);
+    for (const entry of entries) {
+      if (this.locationSpecies.some(row => row.locationId === location.id && row.speciesKey === entry.speciesKey)) continue;
+      this.locationSpecies.push({
+        id: randomUUID(),
+        locationId: location.id,
+        speciesKey: entry.speciesKey,
+        occurrenceCount: entry.occurrenceCount ?? 0,
+        nativePercent: entry.nativePercent ?? null,
+        introducedPercent: entry.introducedPercent ?? null,
+        nativeSource: entry.nativeSource ?? null,
+        invasiveStatus: entry.invasiveStatus ?? null,
+        growthForm: entry.growthForm ?? null,
+        rejected: entry.rejected ?? false
+      });
+    }
+
+    return location;
+  }
+
+  async deleteLocation(id: string): Promise<boolean> {
+    const deleted = this.locations.delete(id);
+    this.locationSpecies = this.locationSpecies.filter(entry => entry.locationId !== id);
+    return deleted;
+  }
+
+  async deleteLocations(filter: LocationFilter): Promise<number> {
+    const matches = Array.from(this.locations.values()).filter(matchesLocationFilter(filter));
+    for (const location of matches) await this.deleteLocation(location.id);
+    return matches.length;
+  }
+
+  async getSpecies(speciesKey: number): Promise<Species | undefined> {
+    return this.species.get(speciesKey);
+  }
+
+  async upsertSpecies(insertSpecies: InsertSpecies): Promise<Species> {
+    const row: Species = {
+      ...insertSpecies,
+      family: insertSpecies.family ?? null,
+      genus: insertSpecies.genus ?? null,
+      imageUrl: insertSpecies.imageUrl ?? null,
+      habitatDescription: insertSpecies.habitatDescription ?? null,
+      maxHeight: insertSpecies.maxHeight ?? null,
+      maxAge: insertSpecies.maxAge ?? null
+    };
+    this.species.set(row.speciesKey, row);
+    return row;
+  }
+
+  async getHttpResponse(url: string): Promise<HttpResponse | undefined> {
+    return this.httpResponses.get(url);
+  }
+
+  async saveHttpResponse(response: InsertHttpResponse): Promise<void> {
+    this.httpResponses.set(response.url, {
+      ...response,
+      etag: response.etag ?? null,
+      lastModified: response.lastModified ?? null,
+      fetchedAt: response.fetchedAt ?? new Date()
+    });
+  }
+
+  async getNativeStatuses(state: string, scientificNames: string[]): Promise<NativeStatus[]> {
+    return scientificNames
+      .map(name => this.nativeStatuses.get(`${state}|${name}`))
+      .filter((row): row is NativeStatus => row !== undefined);
+  }
+
+  async upsertNativeStatuses(rows: InsertNativeStatus[]): Promise<number> {
+    for (const row of rows) {
+      this.nativeStatuses.set(`${row.state}|${row.scientificName}`, row);
+    }
+    return rows.length;
+  }
+
+  async getInvasiveSpecies(state: string, scientificNames: string[]): Promise<InvasiveSpecies[]> {
+    return scientificNames
+      .map(name => this.invasiveSpecies.get(`${state}|${name}`))
+      .filter((row): row is InvasiveSpecies => row !== undefined);
+  }
+
+  async hasInvasiveSpecies(state: string): Promise<boolean> {
+    return Array.from(this.invasiveSpecies.values()).some(row => row.state === state);
+  }
+
+  async upsertInvasiveSpecies(rows: InsertInvasiveSpecies[]): Promise<number> {
+    for (const row of rows) {
+      this.invasiveSpecies.set(`${row.state}|${row.scientificName}`, row);
+    }
+    return rows.length;
+  }
+
+  async getGrowthForms(scientificNames: string[]): Promise<GrowthFormRow[]> {
+    return scientificNames
+      .map(name => this.growthForms.get(name))
+      .filter((row): row is GrowthFormRow => row !== undefined);
+  }
+
+  async upsertGrowthForms(rows: InsertGrowthForm[]): Promise<number> {
+    for (const row of rows) {
+      this.growthForms.set(row.scientificName, row);
+    }
+    return rows.length;
+  }
+}
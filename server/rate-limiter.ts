@@ -0,0 +1,44 @@
+// Token-bucket rate limiter shared by every request to one upstream service.
+// The bucket holds up to `capacity` tokens and refills at `ratePerSecond`; each request
+// takes one token, waiting in FIFO order when the bucket is empty
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number = Math.max(1, Math.ceil(ratePerSecond))
+  ) {
+    this.tokens = capacity;
+  }
+
+  // Resolves once a token is available and has been taken
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn;
+    return turn;
+  }
+
+  // Delay every waiting request, e.g. after the upstream answered 429 with Retry-After
+  pause(ms: number): void {
+    this.refill();
+    this.tokens = Math.min(this.tokens, 0) - (ms / 1000) * this.ratePerSecond;
+  }
+
+  private async take(): Promise<void> {
+    this.refill();
+    while (this.tokens < 1) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
@@ -1,610 +1,459 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { searchLocationSchema } from "@shared/schema";
+import { EmptyLocationFilterError } from "./location-filter";
+import { createGeocoder, GeocodingError, type GeocoderMode } from "./geocoder";
+import { GbifRequestError, HttpGbifClient } from "./gbif";
+import { HttpResponseCache } from "./http-cache";
+import { gazetteer, locationKey, normalizePlaceName } from "./gazetteer";
+import { areaGazetteer } from "./area-gazetteer";
+import { TreeSearchService, UnknownPlaceError } from "./tree-search";
+import { SearchJobManager } from "./search-jobs";
+import { searchLocationSchema, explainQuerySchema, searchOccurrencesQuerySchema, speciesParamsSchema, speciesProfileQuerySchema, placeSuggestQuerySchema, countiesQuerySchema, invalidateLocationsQuerySchema, type CountyOption, type PlaceSuggestion, type SearchOccurrences, type SearchProgressEvent, type SpeciesProfile } from "@shared/schema";
 import { z } from "zod";
 
-// Helper function to geocode city/state to coordinates
-async function geocodeCityState(city: string, state: string): Promise<{ lat: number; lon: number } | null> {
-  try {
-    const url = "https://nominatim.openstreetmap.org/search";
-    const params = new URLSearchParams({
-      city: city,
-      state: state,
-      country: "USA",
-      format: "json",
-      limit: "1"
-    });
-    
-    const response = await fetch(`${url}?${params}`, {
-      headers: {
-        "User-Agent": "NativeTreeFinder/1.0"
-      }
-    });
-    
-    if (!response.ok) return null;
-    
-    const data = await response.json();
-    if (data && data.length > 0) {
-      return {
-        lat: parseFloat(data[0].lat),
-        lon: parseFloat(data[0].lon)
-      };
-    }
-    
-    return null;
-  } catch (error) {
-    console.error('Geocoding error:', error);
-    return null;
+// Admin endpoints require "Authorization: Bearer <ADMIN_TOKEN>" and are disabled when ADMIN_TOKEN is unset
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    return res.status(404).json({ message: "Not found" });
   }
-}
 
-// Common tree families to filter GBIF results
-// Note: Only including families that are predominantly trees, excluding families with many shrubs/herbs
-const TREE_FAMILIES = [
-  'Fagaceae', 'Pinaceae', 'Aceraceae', 'Betulaceae',
-  'Salicaceae', 'Cupressaceae', 'Juglandaceae',
-  'Ulmaceae', 'Magnoliaceae', 'Platanaceae',
-  'Taxaceae', 'Taxodiaceae', 'Araucariaceae'
-];
-
-// Helper function to check if a GBIF taxon is likely a tree
-function isLikelyTree(scientificName: string, family: string | null, vernacularName: string | null): boolean {
-  // First, check for exclusion keywords that indicate non-trees
-  if (vernacularName) {
-    const lowerName = vernacularName.toLowerCase();
-    const exclusionKeywords = [
-      'shrub', 'bush', 'herb', 'vine', 'grass', 'fern', 'moss',
-      'sedge', 'rush', 'bramble', 'weed', 'flower',
-      'dewberry', 'raspberry', 'blackberry', 'strawberry', 'blueberry', 'cranberry', 
-      'huckleberry', 'gooseberry', 'elderberry', 'currant', 'rose',
-      'avens', 'mallow', 'cinquefoil', 'clover', 'vetch',
-      'goosefoot', 'chickweed', 'knotweed', 'smartweed', 'pigweed',
-      'amaranth', 'plantain', 'purslane', 'lambsquarters', 'nettle'
-    ];
-    
-    // Tree exceptions - these contain exclusion keywords but are actual trees
-    const treeExceptions = ['cherry', 'hackberry', 'mulberry', 'serviceberry', 'chokeberry'];
-    const hasTreeException = treeExceptions.some(exception => lowerName.includes(exception));
-    
-    // If the common name contains exclusion keywords (and isn't a tree exception), it's not a tree
-    if (!hasTreeException && exclusionKeywords.some(keyword => lowerName.includes(keyword))) {
-      return false;
-    }
-  }
-  
-  // Check if it belongs to a known tree family
-  if (family && TREE_FAMILIES.includes(family)) {
-    return true;
-  }
-  
-  // Check common name for tree indicators
-  if (vernacularName) {
-    const lowerName = vernacularName.toLowerCase();
-    const treeKeywords = [
-      'tree', 'oak', 'pine', 'maple', 'birch', 'cedar', 'fir', 
-      'spruce', 'elm', 'ash', 'willow', 'poplar', 'aspen', 
-      'redwood', 'sequoia', 'cypress', 'juniper', 'hemlock',
-      'hickory', 'walnut', 'beech', 'sycamore', 'magnolia',
-      'cottonwood', 'basswood', 'linden', 'dogwood', 'buckeye',
-      'hornbeam', 'hop-hornbeam', 'cherry', 'hackberry', 'mulberry',
-      'serviceberry', 'chokeberry', 'hawthorn', 'crabapple'
-    ];
-    if (treeKeywords.some(keyword => lowerName.includes(keyword))) {
-      return true;
-    }
-  }
-  
-  // Check scientific name for known tree genera
-  if (scientificName) {
-    const knownTreeGenera = [
-      'Quercus', 'Pinus', 'Acer', 'Betula', 'Salix', 'Populus', 
-      'Fraxinus', 'Ulmus', 'Fagus', 'Picea', 'Abies', 'Tsuga', 
-      'Sequoia', 'Juniperus', 'Carya', 'Platanus', 'Magnolia',
-      'Cornus', 'Tilia', 'Liquidambar', 'Nyssa', 'Ostrya',
-      'Carpinus', 'Taxodium', 'Larix', 'Pseudotsuga', 'Thuja',
-      'Chamaecyparis', 'Cedrus', 'Robinia', 'Gleditsia', 'Juglans',
-      'Aesculus', 'Liriodendron', 'Catalpa', 'Prunus', 'Celtis',
-      'Morus', 'Amelanchier', 'Sorbus', 'Malus', 'Pyrus', 'Crataegus'
-    ];
-    const genus = scientificName.split(' ')[0];
-    if (knownTreeGenera.includes(genus)) {
-      return true;
-    }
+  if (req.headers.authorization !== `Bearer ${adminToken}`) {
+    return res.status(401).json({ message: "Unauthorized" });
   }
-  
-  return false;
-}
 
+  next();
+}
 
-// Helper function to detect obviously invalid city names
-function isInvalidCityName(city: string): boolean {
-  // Check for common patterns that indicate fake/test cities
-  const invalidPatterns = [
-    /^NonExistent/i,
-    /^Invalid/i,
-    /^Test/i,
-    /^Fake/i,
-    /^MiddleOfNowhere/i,
-    /^NoWhere/i,
-    /\d{3,}/, // Cities with many numbers
-    /^[^a-zA-Z]/, // Cities not starting with letters
-    /[^\w\s\-'\.]/i, // Cities with special characters (except space, hyphen, apostrophe, period)
-  ];
-  
-  return invalidPatterns.some(pattern => pattern.test(city));
+// Helper function to pass on the wait GBIF asked for, so clients know when to retry a 503
+function setRetryAfter(res: Response, error: unknown): void {
+  if (error instanceof GbifRequestError && error.retryAfterMs !== null) {
+    res.set("Retry-After", String(Math.ceil(error.retryAfterMs / 1000)));
+  }
 }
 
-// Helper function to fetch species details from GBIF
-async function getGBIFSpeciesDetails(speciesKey: number): Promise<any | null> {
-  try {
-    // Get species information
-    const speciesResponse = await fetch(`https://api.gbif.org/v1/species/${speciesKey}`);
-    if (!speciesResponse.ok) return null;
-    
-    const speciesData = await speciesResponse.json();
-    
-    // Get vernacular (common) names (request more results to find authoritative sources)
-    const vernacularResponse = await fetch(`https://api.gbif.org/v1/species/${speciesKey}/vernacularNames?limit=100`);
-    let commonName = speciesData.canonicalName || speciesData.scientificName;
-    
-    if (vernacularResponse.ok) {
-      const vernacularData = await vernacularResponse.json();
-      const englishNames = vernacularData.results?.filter((v: any) => v.language === 'eng') || [];
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Upstream GBIF and Nominatim responses are cached in Postgres under both clients
+  const httpCache = new HttpResponseCache(storage);
+  const geocoder = createGeocoder((process.env.GEOCODER_MODE as GeocoderMode) || "gazetteer", { cache: httpCache });
+  const gbif = new HttpGbifClient({ cache: httpCache });
+  const treeSearchService = new TreeSearchService({ geocoder, gbif, storage, gazetteer, areas: areaGazetteer });
+  const searchJobs = new SearchJobManager(treeSearchService);
+
+  // Search for native tree species by location
+  app.post("/api/tree-species/search", async (req, res) => {
+    try {
+      const location = searchLocationSchema.parse(req.body);
+      const results = await treeSearchService.search(location);
+      res.json(results);
+    } catch (error) {
+      console.error("Error fetching tree species:", error);
       
-      if (englishNames.length > 0) {
-        // Prioritize US/Canada authoritative botanical sources for accurate common names
-        // GBIF vernacular names come from many sources with varying quality/regional preferences
-        // This 3-tier prioritization ensures we get standard US common names
-        
-        // Tier 1: Authoritative US/Canadian botanical databases (case-insensitive matching)
-        const authoritativeSources = [
-          'grin taxonomy',                  // USDA Germplasm Resources Information Network
-          'integrated taxonomic',           // ITIS (matches "Integrated Taxonomic Information System")
-          'usda',                           // Any USDA source (catches "USDA NRCS PLANTS Database", etc.)
-          'flora of north america',         // Flora of North America Editorial Committee
-          'database of vascular plants of canada' // VASCAN (Canadian authority, relevant for northern US)
-        ];
-        
-        // Tier 1: Authoritative botanical sources (case-insensitive substring matching)
-        let bestName = englishNames.find((v: any) => {
-          const sourceLower = v.source?.toLowerCase() || '';
-          return authoritativeSources.some(auth => sourceLower.includes(auth));
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid search parameters", 
+          errors: error.errors 
         });
-        
-        // Tier 2: Names explicitly marked for US country
-        if (!bestName) {
-          bestName = englishNames.find((v: any) => v.country === 'US');
-        }
-        
-        // Tier 3: Any English name (fallback to first available)
-        if (!bestName) {
-          bestName = englishNames[0];
-        }
-        
-        commonName = bestName.vernacularName;
       }
-    }
-    
-    // Get media (images)
-    const mediaResponse = await fetch(`https://api.gbif.org/v1/species/${speciesKey}/media`);
-    let imageUrl = null;
-    
-    if (mediaResponse.ok) {
-      const mediaData = await mediaResponse.json();
-      // Find the first image
-      const image = mediaData.results?.find((m: any) => m.type === 'StillImage' && m.identifier);
-      if (image) {
-        imageUrl = image.identifier;
+
+      if (error instanceof UnknownPlaceError) {
+        return res.status(422).json({ 
+          message: error.message, 
+          suggestions: error.suggestions 
+        });
       }
-    }
-    
-    // Extract description text safely
-    let description = null;
-    if (speciesData.descriptions && speciesData.descriptions.length > 0) {
-      const descObj = speciesData.descriptions[0];
-      description = descObj.description || descObj.value || null;
-    }
 
-    return {
-      speciesKey,
-      scientificName: speciesData.canonicalName || speciesData.scientificName,
-      commonName,
-      family: speciesData.family,
-      genus: speciesData.genus,
-      imageUrl,
-      description
-    };
-  } catch (error) {
-    console.error(`Error fetching GBIF species details for ${speciesKey}:`, error);
-    return null;
-  }
-}
+      if (error instanceof GeocodingError) {
+        return res.status(503).json({ 
+          message: "Location lookup is temporarily unavailable. Please try again later." 
+        });
+      }
 
-// Helper function to process species in batches
-async function processTaxaBatch(speciesKeys: number[], batchSize: number = 3): Promise<any[]> {
-  const results = [];
-  
-  for (let i = 0; i < speciesKeys.length; i += batchSize) {
-    const batch = speciesKeys.slice(i, i + batchSize);
-    const batchPromises = batch.map(async (speciesKey) => {
-      try {
-        const details = await getGBIFSpeciesDetails(speciesKey);
-        return details;
-      } catch (error) {
-        console.error(`Error fetching species ${speciesKey}:`, error);
-        return null;
+      if (error instanceof GbifRequestError) {
+        setRetryAfter(res, error);
+        return res.status(503).json({ 
+          message: "Tree occurrence data is temporarily unavailable. Please try again in a few minutes." 
+        });
       }
-    });
-    
-    const batchResults = await Promise.all(batchPromises);
-    results.push(...batchResults.filter(result => result !== null));
-    
-    // Small delay between batches to avoid rate limiting
-    if (i + batchSize < speciesKeys.length) {
-      await new Promise(resolve => setTimeout(resolve, 200));
+      
+      res.status(500).json({ 
+        message: "Failed to fetch tree species data. Please try again later." 
+      });
     }
-  }
-  
-  return results;
-}
+  });
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Search for native tree species by location
-  app.post("/api/tree-species/search", async (req, res) => {
+  // Every taxon considered for a location, with the tree, native and invasive decisions behind the results
+  app.get("/api/tree-species/search/explain", async (req, res) => {
     try {
-      const { city, state } = searchLocationSchema.parse(req.body);
-      
-      // Basic validation for obviously invalid city names
-      if (isInvalidCityName(city)) {
-        return res.json({ 
-          species: [],
-          location: `${city}, ${state}`,
-          count: 0 
+      const query = explainQuerySchema.parse(req.query);
+      const explanation = await treeSearchService.explain(query);
+      res.json(explanation);
+    } catch (error) {
+      console.error("Error explaining tree species search:", error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid search parameters", 
+          errors: error.errors 
         });
       }
-      
-      // First check if we have cached data
-      let cachedResults = await storage.getTreeSpeciesByLocation(city, state);
-      
-      if (cachedResults.length > 0) {
-        console.log(`Returning ${cachedResults.length} cached species for ${city}, ${state}`);
-        return res.json({ 
-          species: cachedResults,
-          location: `${city}, ${state}`,
-          count: cachedResults.length 
+
+      if (error instanceof UnknownPlaceError) {
+        return res.status(422).json({ 
+          message: error.message, 
+          suggestions: error.suggestions 
         });
       }
 
-      // Geocode the city/state to coordinates
-      console.log(`Geocoding ${city}, ${state}...`);
-      const coords = await geocodeCityState(city, state);
-      
-      if (!coords) {
-        console.log(`Failed to geocode ${city}, ${state}`);
-        return res.json({ 
-          species: [],
-          location: `${city}, ${state}`,
-          count: 0 
+      if (error instanceof GeocodingError) {
+        return res.status(503).json({ 
+          message: "Location lookup is temporarily unavailable. Please try again later." 
         });
       }
 
-      console.log(`Coordinates for ${city}, ${state}: ${coords.lat}, ${coords.lon}`);
-
-      // Get state name mapping
-      const stateNames: { [key: string]: string } = {
-        'AL': 'Alabama', 'AK': 'Alaska', 'AZ': 'Arizona', 'AR': 'Arkansas', 'CA': 'California',
-        'CO': 'Colorado', 'CT': 'Connecticut', 'DE': 'Delaware', 'FL': 'Florida', 'GA': 'Georgia',
-        'HI': 'Hawaii', 'ID': 'Idaho', 'IL': 'Illinois', 'IN': 'Indiana', 'IA': 'Iowa',
-        'KS': 'Kansas', 'KY': 'Kentucky', 'LA': 'Louisiana', 'ME': 'Maine', 'MD': 'Maryland',
-        'MA': 'Massachusetts', 'MI': 'Michigan', 'MN': 'Minnesota', 'MS': 'Mississippi', 'MO': 'Missouri',
-        'MT': 'Montana', 'NE': 'Nebraska', 'NV': 'Nevada', 'NH': 'New Hampshire', 'NJ': 'New Jersey',
-        'NM': 'New Mexico', 'NY': 'New York', 'NC': 'North Carolina', 'ND': 'North Dakota', 'OH': 'Ohio',
-        'OK': 'Oklahoma', 'OR': 'Oregon', 'PA': 'Pennsylvania', 'RI': 'Rhode Island', 'SC': 'South Carolina',
-        'SD': 'South Dakota', 'TN': 'Tennessee', 'TX': 'Texas', 'UT': 'Utah', 'VT': 'Vermont',
-        'VA': 'Virginia', 'WA': 'Washington', 'WV': 'West Virginia', 'WI': 'Wisconsin', 'WY': 'Wyoming'
-      };
-
-      const stateName = stateNames[state] || state;
-
-      // Search for plant occurrences in GBIF using state and coordinates
-      const gbifUrl = 'https://api.gbif.org/v1/occurrence/search';
-      const params = new URLSearchParams({
-        country: 'US',
-        stateProvince: stateName,
-        kingdomKey: '6', // Plantae
-        hasCoordinate: 'true',
-        limit: '300'
-      });
+      if (error instanceof GbifRequestError) {
+        setRetryAfter(res, error);
+        return res.status(503).json({ 
+          message: "Tree occurrence data is temporarily unavailable. Please try again in a few minutes." 
+        });
+      }
 
-      console.log(`Searching GBIF for ${city}, ${stateName}...`);
+      res.status(500).json({ message: "Failed to explain tree species search. Please try again later." });
+    }
+  });
 
-      const response = await fetch(`${gbifUrl}?${params}`);
-      
-      if (!response.ok) {
-        throw new Error(`GBIF API error: ${response.status}`);
+  // Occurrences of the listed species around a searched location, for the results map
+  app.get("/api/tree-species/search/occurrences", async (req, res) => {
+    try {
+      const { speciesKeys, ...location } = searchOccurrencesQuerySchema.parse(req.query);
+      const body: SearchOccurrences = await treeSearchService.occurrencesBySpecies(speciesKeys, location);
+      res.json(body);
+    } catch (error) {
+      console.error("Error fetching search occurrences:", error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid occurrences request", 
+          errors: error.errors 
+        });
       }
 
-      const data = await response.json();
-      
-      console.log(`GBIF API response for ${city}, ${state}:`, {
-        total: data.count,
-        returned: data.results?.length || 0
-      });
+      if (error instanceof UnknownPlaceError) {
+        return res.status(422).json({ 
+          message: error.message, 
+          suggestions: error.suggestions 
+        });
+      }
 
-      if (!data.results || data.results.length === 0) {
-        console.log(`No species found in GBIF for ${city}, ${state}`);
-        return res.json({ 
-          species: [],
-          location: `${city}, ${state}`,
-          count: 0 
+      if (error instanceof GeocodingError || error instanceof GbifRequestError) {
+        setRetryAfter(res, error);
+        return res.status(503).json({ 
+          message: "Occurrence data is temporarily unavailable. Please try again later." 
         });
       }
 
-      // Extract unique tree species from occurrences
-      // Track establishment means for each species across all occurrences (majority vote approach)
-      const uniqueTreeSpecies = new Map<number, { 
-        scientificName: string; 
-        family: string | null; 
-        vernacularName: string | null; 
-        count: number;
-        establishmentCounts: Map<string, number>;
-      }>();
-      
-      for (const occurrence of data.results) {
-        if (!occurrence.speciesKey || !occurrence.scientificName) continue;
-        
-        const scientificName = occurrence.scientificName;
-        const family = occurrence.family || null;
-        const vernacularName = occurrence.vernacularName || null;
-        
-        // Check if this is likely a tree (do this early to skip non-trees)
-        if (!isLikelyTree(scientificName, family, vernacularName)) {
-          continue;
-        }
-        
-        const establishmentMeans = occurrence.establishmentMeans || 'UNKNOWN';
-        
-        // Track unique species and their establishment means counts
-        if (uniqueTreeSpecies.has(occurrence.speciesKey)) {
-          const existing = uniqueTreeSpecies.get(occurrence.speciesKey)!;
-          existing.count += 1;
-          
-          // Increment establishment means count
-          const currentCount = existing.establishmentCounts.get(establishmentMeans) || 0;
-          existing.establishmentCounts.set(establishmentMeans, currentCount + 1);
-        } else {
-          const establishmentCounts = new Map<string, number>();
-          establishmentCounts.set(establishmentMeans, 1);
-          
-          uniqueTreeSpecies.set(occurrence.speciesKey, {
-            scientificName,
-            family,
-            vernacularName,
-            count: 1,
-            establishmentCounts
-          });
-        }
+      res.status(500).json({ message: "Failed to fetch occurrences. Please try again later." });
+    }
+  });
+
+  // Start a search in the background; progress is streamed from the events endpoint below
+  app.post("/api/tree-species/search/jobs", async (req, res) => {
+    try {
+      const location = searchLocationSchema.parse(req.body);
+      const jobId = searchJobs.start(location);
+      res.status(202).json({ jobId });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid search parameters", 
+          errors: error.errors 
+        });
       }
 
-      console.log(`Found ${uniqueTreeSpecies.size} tree species before native filtering in ${city}, ${state}`);
-
-      // Blocklist of known invasive/non-native ornamental species
-      // These commonly appear in US cities but are not native to North America
-      // Using canonical names (genus + species) to catch subspecies variations
-      const INVASIVE_BLOCKLIST = new Set([
-        'Prunus laurocerasus',    // Cherry Laurel (European ornamental)
-        'Prunus lusitanica',      // Portugal Laurel (European ornamental)
-        'Ailanthus altissima',    // Tree of Heaven (Asian invasive)
-        'Paulownia tomentosa',    // Princess Tree (Asian invasive)
-        'Melia azedarach',        // Chinaberry (Asian invasive)
-        'Elaeagnus angustifolia', // Russian Olive (Eurasian invasive)
-        'Ligustrum lucidum',      // Glossy Privet (Asian invasive)
-        'Albizia julibrissin',    // Mimosa/Silk Tree (Asian invasive)
-        'Pyrus calleryana',       // Callery/Bradford Pear (Asian invasive)
-        'Cinnamomum camphora',    // Camphor Tree (Asian invasive)
-        'Triadica sebifera',      // Chinese Tallow (Asian invasive)
-      ]);
-
-      // Filter species based on majority vote of establishment means
-      // Only keep species where:
-      // - Majority are NATIVE, OR
-      // - Majority are UNKNOWN (no data) with <50% introduced
-      // - Not on the invasive blocklist
-      // Reject species where majority are INTRODUCED, INVASIVE, or NATURALISED
-      const nativeTreeSpecies = new Map<number, { scientificName: string; family: string | null; vernacularName: string | null; count: number }>();
-      
-      for (const [speciesKey, species] of Array.from(uniqueTreeSpecies.entries())) {
-        // Check blocklist first using canonical name (genus + species only)
-        // This catches subspecies variations like "Prunus laurocerasus L."
-        const canonicalName = species.scientificName.split(' ').slice(0, 2).join(' ');
-        if (INVASIVE_BLOCKLIST.has(canonicalName)) {
-          console.log(`Filtering out blocklisted invasive: ${species.scientificName}`);
-          continue;
-        }
-        const totalOccurrences = species.count;
-        const nativeCount = species.establishmentCounts.get('NATIVE') || 0;
-        const unknownCount = species.establishmentCounts.get('UNKNOWN') || 0;
-        const introducedCount = (species.establishmentCounts.get('INTRODUCED') || 0) + 
-                                (species.establishmentCounts.get('INVASIVE') || 0) + 
-                                (species.establishmentCounts.get('NATURALISED') || 0);
-        
-        // Calculate percentages
-        const nativePercent = nativeCount / totalOccurrences;
-        const introducedPercent = introducedCount / totalOccurrences;
-        
-        // Decision logic (balanced approach given poor GBIF establishmentMeans data):
-        // 1. If >50% are NATIVE, include it (strong native signal)
-        // 2. If <20% are INTRODUCED, include it (benefit of doubt for UNKNOWN data)
-        // 3. Excludes species with 20-50% introduced (likely non-native)
-        // 4. Invasive blocklist above catches known ornamentals with missing data
-        const shouldInclude = nativePercent > 0.5 || introducedPercent < 0.2;
-        
-        if (shouldInclude) {
-          nativeTreeSpecies.set(speciesKey, {
-            scientificName: species.scientificName,
-            family: species.family,
-            vernacularName: species.vernacularName,
-            count: species.count
-          });
-        } else {
-          console.log(`Filtering out non-native: ${species.scientificName} (NATIVE: ${(nativePercent*100).toFixed(1)}%, INTRODUCED: ${(introducedPercent*100).toFixed(1)}%)`);
-        }
+      console.error("Error starting search job:", error);
+      res.status(500).json({ message: "Failed to start search" });
+    }
+  });
+
+  // Current status of a search job
+  app.get("/api/tree-species/search/jobs/:id", (req, res) => {
+    const job = searchJobs.status(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Search job not found" });
+    }
+    res.json(job);
+  });
+
+  // Stream a search job's progress as server-sent events, replaying anything already emitted.
+  // Events are unnamed messages whose JSON "type" field identifies the stage (a named "error"
+  // event would collide with EventSource's own error event). The stream ends after "done" or "error"
+  app.get("/api/tree-species/search/jobs/:id/events", (req, res) => {
+    if (!searchJobs.status(req.params.id)) {
+      return res.status(404).json({ message: "Search job not found" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no"
+    });
+    res.flushHeaders();
+
+    // Comment lines keep proxies from closing an idle stream during slow GBIF pages
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), 15000);
+    let unsubscribe: (() => void) | undefined;
+
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe?.();
+      res.end();
+    };
+
+    const send = (event: SearchProgressEvent) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+      if (event.type === "done" || event.type === "error") {
+        // Defer so subscribe() has returned before we unsubscribe
+        setImmediate(close);
       }
+    };
 
-      console.log(`Found ${nativeTreeSpecies.size} native tree species in ${city}, ${state}`);
+    unsubscribe = searchJobs.subscribe(req.params.id, send);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe?.();
+    });
+  });
+
+  // Full species profile from GBIF, plus its occurrences around a searched location when one is given
+  app.get("/api/species/:key", async (req, res) => {
+    try {
+      const { key } = speciesParamsSchema.parse(req.params);
+      const query = speciesProfileQuerySchema.parse(req.query);
+
+      const profile = await gbif.getSpeciesProfile(key);
+      if (!profile) {
+        return res.status(404).json({ message: "Species not found" });
+      }
+
+      const nearby = "kind" in query
+        ? await treeSearchService.nearbyOccurrences(key, query)
+        : { near: null, occurrences: [] };
 
-      if (nativeTreeSpecies.size === 0) {
-        console.log(`No native tree species found after filtering for ${city}, ${state}`);
-        return res.json({ 
-          species: [],
-          location: `${city}, ${state}`,
-          count: 0 
+      const body: SpeciesProfile = { ...profile, ...nearby };
+      res.json(body);
+    } catch (error) {
+      console.error("Error fetching species profile:", error);
+
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid species request", 
+          errors: error.errors 
         });
       }
 
-      // Sort by occurrence count and take top 15
-      const sortedSpecies = Array.from(nativeTreeSpecies.entries())
-        .sort((a, b) => b[1].count - a[1].count)
-        .slice(0, 15)
-        .map(([key, _]) => key);
-
-      // Fetch detailed information for these species
-      const detailedSpecies = await processTaxaBatch(sortedSpecies);
-      const treeSpecies = [];
-
-      // Create our data structure
-      for (const species of detailedSpecies) {
-        if (!species || !species.scientificName) continue;
-
-        // Apply tree filtering again on the detailed common name
-        // (common names from species API may differ from occurrence vernacular names)
-        if (!isLikelyTree(species.scientificName, species.family, species.commonName)) {
-          console.log(`Filtering out non-tree: ${species.commonName} (${species.scientificName})`);
-          continue;
-        }
-
-        // Check if we already have this species cached
-        const existing = await storage.getTreeSpeciesByExternalId(species.speciesKey.toString());
-        if (existing) {
-          // Create a new record for this location
-          const newLocationSpecies = await storage.createTreeSpecies({
-            commonName: existing.commonName,
-            scientificName: existing.scientificName,
-            imageUrl: existing.imageUrl,
-            habitatDescription: existing.habitatDescription,
-            maxHeight: existing.maxHeight,
-            maxAge: existing.maxAge,
-            city,
-            state,
-            externalId: existing.externalId
-          });
-          
-          treeSpecies.push(newLocationSpecies);
-          continue;
-        }
-
-        // Create habitat description
-        const habitatDescription = species.description || 
-          `Native tree species found in the ${city}, ${state} region. This species is naturally adapted to local climate conditions and provides important ecosystem services.`;
-
-        const newSpecies = await storage.createTreeSpecies({
-          commonName: species.commonName || species.scientificName,
-          scientificName: species.scientificName,
-          imageUrl: species.imageUrl,
-          habitatDescription: habitatDescription.slice(0, 300) + (habitatDescription.length > 300 ? "..." : ""),
-          maxHeight: null,
-          maxAge: null,
-          city,
-          state,
-          externalId: species.speciesKey.toString()
+      if (error instanceof UnknownPlaceError) {
+        return res.status(422).json({ 
+          message: error.message, 
+          suggestions: error.suggestions 
         });
+      }
 
-        treeSpecies.push(newSpecies);
+      if (error instanceof GeocodingError || error instanceof GbifRequestError) {
+        setRetryAfter(res, error);
+        return res.status(503).json({ 
+          message: "Species data is temporarily unavailable. Please try again later." 
+        });
       }
 
-      console.log(`Saved ${treeSpecies.length} tree species for ${city}, ${state}`);
-      
-      res.json({ 
-        species: treeSpecies,
-        location: `${city}, ${state}`,
-        count: treeSpecies.length 
-      });
+      res.status(500).json({ message: "Failed to fetch species data. Please try again later." });
+    }
+  });
 
+  // City typeahead backed by the local places gazetteer
+  app.get("/api/places/suggest", async (req, res) => {
+    try {
+      const { q, state, limit } = placeSuggestQuerySchema.parse(req.query);
+      const suggestions: PlaceSuggestion[] = gazetteer
+        .autocomplete(q, state, limit)
+        .map(place => ({ city: place.name, state: place.state }));
+      res.json(suggestions);
     } catch (error) {
-      console.error("Error fetching tree species:", error);
-      
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
-          message: "Invalid search parameters", 
+          message: "Invalid suggestion parameters", 
           errors: error.errors 
         });
       }
-      
-      res.status(500).json({ 
-        message: "Failed to fetch tree species data. Please try again later." 
-      });
+
+      console.error("Error suggesting places:", error);
+      res.status(500).json({ message: "Failed to suggest places" });
+    }
+  });
+
+  // Counties of a state for the search form's county picker, from the local county dataset
+  app.get("/api/counties", async (req, res) => {
+    try {
+      const { state } = countiesQuerySchema.parse(req.query);
+      const counties: CountyOption[] = areaGazetteer
+        .countiesInState(state)
+        .map(county => ({ countyFips: county.fips, name: county.name }));
+      res.json(counties);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid county parameters", 
+          errors: error.errors 
+        });
+      }
+
+      console.error("Error listing counties:", error);
+      res.status(500).json({ message: "Failed to list counties" });
+    }
+  });
+
+  // List cached locations with their freshness metadata
+  app.get("/api/admin/locations", requireAdmin, async (_req, res) => {
+    try {
+      const locations = await storage.listLocations();
+      res.json(locations.map(location => ({ 
+        ...location, 
+        stale: treeSearchService.isStale(location) 
+      })));
+    } catch (error) {
+      console.error("Error listing locations:", error);
+      res.status(500).json({ message: "Failed to list locations" });
+    }
+  });
+
+  // Invalidate one cached location so its next search recomputes from GBIF
+  app.delete("/api/admin/locations/:id", requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteLocation(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      res.json({ deleted: 1 });
+    } catch (error) {
+      console.error("Error invalidating location:", error);
+      res.status(500).json({ message: "Failed to invalidate location" });
+    }
+  });
+
+  // Invalidate cached locations by city and/or state, or everything with ?all=true
+  app.delete("/api/admin/locations", requireAdmin, async (req, res) => {
+    try {
+      const { city, state, all } = invalidateLocationsQuerySchema.parse(req.query);
+      const deleted = await storage.deleteLocations(city || state
+        ? { locationKey: city && state ? locationKey(city, state) : undefined, state }
+        : { all: all === "true" });
+      console.log(`Invalidated ${deleted} cached locations`, { city, state, all });
+      res.json({ deleted });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid invalidation parameters", 
+          errors: error.errors 
+        });
+      }
+
+      if (error instanceof EmptyLocationFilterError) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      console.error("Error invalidating locations:", error);
+      res.status(500).json({ message: "Failed to invalidate locations" });
     }
   });
 
   // Get US states for dropdown
+  // States with their two-digit FIPS codes, which prefix the FIPS codes of their counties
   app.get("/api/states", async (req, res) => {
     const states = [
-      { code: "AL", name: "Alabama" },
-      { code: "AK", name: "Alaska" },
-      { code: "AZ", name: "Arizona" },
-      { code: "AR", name: "Arkansas" },
-      { code: "CA", name: "California" },
-      { code: "CO", name: "Colorado" },
-      { code: "CT", name: "Connecticut" },
-      { code: "DE", name: "Delaware" },
-      { code: "FL", name: "Florida" },
-      { code: "GA", name: "Georgia" },
-      { code: "HI", name: "Hawaii" },
-      { code: "ID", name: "Idaho" },
-      { code: "IL", name: "Illinois" },
-      { code: "IN", name: "Indiana" },
-      { code: "IA", name: "Iowa" },
-      { code: "KS", name: "Kansas" },
-      { code: "KY", name: "Kentucky" },
-      { code: "LA", name: "Louisiana" },
-      { code: "ME", name: "Maine" },
-      { code: "MD", name: "Maryland" },
-      { code: "MA", name: "Massachusetts" },
-      { code: "MI", name: "Michigan" },
-      { code: "MN", name: "Minnesota" },
-      { code: "MS", name: "Mississippi" },
-      { code: "MO", name: "Missouri" },
-      { code: "MT", name: "Montana" },
-      { code: "NE", name: "Nebraska" },
-      { code: "NV", name: "Nevada" },
-      { code: "NH", name: "New Hampshire" },
-      { code: "NJ", name: "New Jersey" },
-      { code: "NM", name: "New Mexico" },
-      { code: "NY", name: "New York" },
-      { code: "NC", name: "North Carolina" },
-      { code: "ND", name: "North Dakota" },
-      { code: "OH", name: "Ohio" },
-      { code: "OK", name: "Oklahoma" },
-      { code: "OR", name: "Oregon" },
-      { code: "PA", name: "Pennsylvania" },
-      { code: "RI", name: "Rhode Island" },
-      { code: "SC", name: "South Carolina" },
-      { code: "SD", name: "South Dakota" },
-      { code: "TN", name: "Tennessee" },
-      { code: "TX", name: "Texas" },
-      { code: "UT", name: "Utah" },
-      { code: "VT", name: "Vermont" },
-      { code: "VA", name: "Virginia" },
-      { code: "WA", name: "Washington" },
-      { code: "WV", name: "West Virginia" },
-      { code: "WI", name: "Wisconsin" },
-      { code: "WY", name: "Wyoming" }
+      { code: "AL", fips: "01", name: "Alabama" },
+      { code: "AK", fips: "02", name: "Alaska" },
+      { code: "AZ", fips: "04", name: "Arizona" },
+      { code: "AR", fips: "05", name: "Arkansas" },
+      { code: "CA", fips: "06", name: "California" },
+      { code: "CO", fips: "08", name: "Colorado" },
+      { code: "CT", fips: "09", name: "Connecticut" },
+      { code: "DE", fips: "10", name: "Delaware" },
+      { code: "FL", fips: "12", name: "Florida" },
+      { code: "GA", fips: "13", name: "Georgia" },
+      { code: "HI", fips: "15", name: "Hawaii" },
+      { code: "ID", fips: "16", name: "Idaho" },
+      { code: "IL", fips: "17", name: "Illinois" },
+      { code: "IN", fips: "18", name: "Indiana" },
+      { code: "IA", fips: "19", name: "Iowa" },
+      { code: "KS", fips: "20", name: "Kansas" },
+      { code: "KY", fips: "21", name: "Kentucky" },
+      { code: "LA", fips: "22", name: "Louisiana" },
+      { code: "ME", fips: "23", name: "Maine" },
+      { code: "MD", fips: "24", name: "Maryland" },
+      { code: "MA", fips: "25", name: "Massachusetts" },
+      { code: "MI", fips: "26", name: "Michigan" },
+      { code: "MN", fips: "27", name: "Minnesota" },
+      { code: "MS", fips: "28", name: "Mississippi" },
+      { code: "MO", fips: "29", name: "Missouri" },
+      { code: "MT", fips: "30", name: "Montana" },
+      { code: "NE", fips: "31", name: "Nebraska" },
+      { code: "NV", fips: "32", name: "Nevada" },
+      { code: "NH", fips: "33", name: "New Hampshire" },
+      { code: "NJ", fips: "34", name: "New Jersey" },
+      { code: "NM", fips: "35", name: "New Mexico" },
+      { code: "NY", fips: "36", name: "New York" },
+      { code: "NC", fips: "37", name: "North Carolina" },
+      { code: "ND", fips: "38", name: "North Dakota" },
+      { code: "OH", fips: "39", name: "Ohio" },
+      { code: "OK", fips: "40", name: "Oklahoma" },
+      { code: "OR", fips: "41", name: "Oregon" },
+      { code: "PA", fips: "42", name: "Pennsylvania" },
+      { code: "RI", fips: "44", name: "Rhode Island" },
+      { code: "SC", fips: "45", name: "South Carolina" },
+      { code: "SD", fips: "46", name: "South Dakota" },
+      { code: "TN", fips: "47", name: "Tennessee" },
+      { code: "TX", fips: "48", name: "Texas" },
+      { code: "UT", fips: "49", name: "Utah" },
+      { code: "VT", fips: "50", name: "Vermont" },
+      { code: "VA", fips: "51", name: "Virginia" },
+      { code: "WA", fips: "53", name: "Washington" },
+      { code: "WV", fips: "54", name: "West Virginia" },
+      { code: "WI", fips: "55", name: "Wisconsin" },
+      { code: "WY", fips: "56", name: "Wyoming" }
     ];
     
     res.json(states);
   });
 
+  // Self-hosted map tiles ({z}/{x}/{y}.png under MAP_TILES_DIR) so the maps work without an
+  // external tile server; point VITE_MAP_TILE_URL at /tiles/{z}/{x}/{y}.png to use them.
+  // Missing tiles are 404s rather than the client app's index page
+  const mapTilesDir = process.env.MAP_TILES_DIR;
+  if (mapTilesDir) {
+    app.use("/tiles", express.static(mapTilesDir, { fallthrough: false, maxAge: "7d" }));
+  }
+
+  // Shareable search results (/trees/NC/asheville?radius=50). Other spellings of the state or
+  // city are redirected to the canonical path so every search has one URL; the page itself is
+  // the client app, which reruns the search from the URL
+  app.get("/trees/:state/:city", (req: Request, res: Response, next: NextFunction) => {
+    const state = req.params.state.toUpperCase();
+    const city = normalizePlaceName(req.params.city).replace(/ /g, "-");
+
+    if (!/^[A-Z]{2}$/.test(state) || !city) {
+      return next();
+    }
+
+    if (state !== req.params.state || city !== req.params.city) {
+      const queryIndex = req.originalUrl.indexOf("?");
+      const query = queryIndex >= 0 ? req.originalUrl.slice(queryIndex) : "";
+      return res.redirect(301, `/trees/${state}/${encodeURIComponent(city)}${query}`);
+    }
+
+    next();
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
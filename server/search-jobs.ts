@@ -0,0 +1,108 @@
+import { randomUUID } from "crypto";
+import type { SearchJobStatus, SearchLocation, SearchProgressEvent } from "@shared/schema";
+import { GeocodingError } from "./geocoder";
+import { GbifRequestError } from "./gbif";
+import { describePlace, UnknownPlaceError, type ProgressListener, type TreeSearchService } from "./tree-search";
+
+// Finished jobs stay readable for a while so a client can reconnect and replay the outcome
+const FINISHED_JOB_RETENTION_MS = 10 * 60 * 1000;
+
+interface SearchJob {
+  id: string;
+  search: SearchLocation;
+  status: SearchJobStatus;
+  createdAt: Date;
+  events: SearchProgressEvent[];
+  listeners: Set<ProgressListener>;
+}
+
+// Helper function to turn a pipeline failure into the error event shown to the user
+function errorEvent(error: unknown): SearchProgressEvent {
+  if (error instanceof UnknownPlaceError) {
+    return { type: "error", message: error.message, suggestions: error.suggestions };
+  }
+
+  if (error instanceof GeocodingError) {
+    return { type: "error", message: "Location lookup is temporarily unavailable. Please try again later." };
+  }
+
+  if (error instanceof GbifRequestError) {
+    return { type: "error", message: "Tree occurrence data is temporarily unavailable. Please try again in a few minutes." };
+  }
+
+  return { type: "error", message: "Failed to fetch tree species data. Please try again later." };
+}
+
+// Runs tree searches in the background and keeps each job's progress events in memory so
+// subscribers can replay what already happened and follow the rest as it streams in
+export class SearchJobManager {
+  private readonly jobs = new Map<string, SearchJob>();
+
+  constructor(private readonly searchService: TreeSearchService) {}
+
+  start(search: SearchLocation): string {
+    const job: SearchJob = {
+      id: randomUUID(),
+      search,
+      status: "running",
+      createdAt: new Date(),
+      events: [],
+      listeners: new Set()
+    };
+    this.jobs.set(job.id, job);
+
+    const record = (event: SearchProgressEvent) => {
+      job.events.push(event);
+      for (const listener of Array.from(job.listeners)) listener(event);
+    };
+
+    console.log(`Starting search job ${job.id} for ${describePlace(search)} (${search.radiusKm} km)`);
+
+    this.searchService
+      .search(search, record)
+      .then(result => {
+        job.status = "done";
+        record({ type: "done", result });
+      })
+      .catch(error => {
+        console.error(`Search job ${job.id} failed:`, error);
+        job.status = "failed";
+        record(errorEvent(error));
+      })
+      .finally(() => {
+        job.listeners.clear();
+        setTimeout(() => this.jobs.delete(job.id), FINISHED_JOB_RETENTION_MS).unref();
+      });
+
+    return job.id;
+  }
+
+  status(id: string): { id: string; status: SearchJobStatus; search: SearchLocation; lastEvent: SearchProgressEvent | null } | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    return {
+      id: job.id,
+      status: job.status,
+      search: job.search,
+      lastEvent: job.events[job.events.length - 1] ?? null
+    };
+  }
+
+  // Replay the job's events so far to the listener, then keep it subscribed while the job runs.
+  // Returns an unsubscribe function, or undefined for an unknown job
+  subscribe(id: string, listener: ProgressListener): (() => void) | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    for (const event of job.events) listener(event);
+
+    if (job.status === "running") {
+      job.listeners.add(listener);
+    }
+
+    return () => {
+      job.listeners.delete(listener);
+    };
+  }
+}
@@ -1,14 +1,58 @@
-import { users, treeSpecies, type User, type InsertUser, type TreeSpecies, type InsertTreeSpecies } from "@shared/schema";
+import {
+  users,
+  species,
+  locations,
+  locationSpecies,
+  httpResponses,
+  nativeStatuses,
+  invasiveSpecies,
+  growthForms,
+  type User,
+  type InsertUser,
+  type Species,
+  type InsertSpecies,
+  type Location,
+  type InsertLocation,
+  type LocationSpecies,
+  type InsertLocationSpecies,
+  type TreeSpecies,
+  type HttpResponse,
+  type InsertHttpResponse,
+  type NativeStatus,
+  type InsertNativeStatus,
+  type InvasiveSpecies,
+  type InsertInvasiveSpecies,
+  type GrowthFormRow,
+  type InsertGrowthForm,
+} from "@shared/schema";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, desc, inArray, sql } from "drizzle-orm";
+import { locationFilterWhere, type LocationFilter } from "./location-filter";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  getTreeSpeciesByLocation(city: string, state: string): Promise<TreeSpecies[]>;
-  createTreeSpecies(species: InsertTreeSpecies): Promise<TreeSpecies>;
-  getTreeSpeciesByExternalId(externalId: string): Promise<TreeSpecies | undefined>;
+  getLocation(locationKey: string, radiusKm: number): Promise<Location | undefined>;
+  getLocationByPlaceId(placeId: string, radiusKm: number): Promise<Location | undefined>;
+  listLocations(): Promise<Location[]>;
+  getLocationSpecies(locationId: string): Promise<TreeSpecies[]>;
+  getLocationEntries(locationId: string): Promise<LocationSpecies[]>;
+  rejectLocationSpecies(locationId: string, speciesKeys: number[]): Promise<void>;
+  saveLocationResults(location: InsertLocation, entries: Omit<InsertLocationSpecies, "locationId">[]): Promise<Location>;
+  deleteLocation(id: string): Promise<boolean>;
+  deleteLocations(filter: LocationFilter): Promise<number>;
+  getSpecies(speciesKey: number): Promise<Species | undefined>;
+  upsertSpecies(species: InsertSpecies): Promise<Species>;
+  getHttpResponse(url: string): Promise<HttpResponse | undefined>;
+  saveHttpResponse(response: InsertHttpResponse): Promise<void>;
+  getNativeStatuses(state: string, scientificNames: string[]): Promise<NativeStatus[]>;
+  upsertNativeStatuses(rows: InsertNativeStatus[]): Promise<number>;
+  getInvasiveSpecies(state: string, scientificNames: string[]): Promise<InvasiveSpecies[]>;
+  hasInvasiveSpecies(state: string): Promise<boolean>;
+  upsertInvasiveSpecies(rows: InsertInvasiveSpecies[]): Promise<number>;
+  getGrowthForms(scientificNames: string[]): Promise<GrowthFormRow[]>;
+  upsertGrowthForms(rows: InsertGrowthForm[]): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -30,32 +74,266 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getTreeSpeciesByLocation(city: string, state: string): Promise<TreeSpecies[]> {
+  async getLocation(locationKey: string, radiusKm: number): Promise<Location | undefined> {
+    const [location] = await db
+      .select()
+      .from(locations)
+      .where(
+        and(
+          eq(locations.locationKey, locationKey),
+          eq(locations.radiusKm, radiusKm)
+        )
+      );
+    return location || undefined;
+  }
+
+  async getLocationByPlaceId(placeId: string, radiusKm: number): Promise<Location | undefined> {
+    const [location] = await db
+      .select()
+      .from(locations)
+      .where(
+        and(
+          eq(locations.placeId, placeId),
+          eq(locations.radiusKm, radiusKm)
+        )
+      )
+      .orderBy(desc(locations.fetchedAt));
+    return location || undefined;
+  }
+
+  async listLocations(): Promise<Location[]> {
     return await db
       .select()
-      .from(treeSpecies)
+      .from(locations)
+      .orderBy(desc(locations.fetchedAt));
+  }
+
+  async getLocationSpecies(locationId: string): Promise<TreeSpecies[]> {
+    const rows = await db
+      .select({
+        species,
+        occurrenceCount: locationSpecies.occurrenceCount,
+        nativePercent: locationSpecies.nativePercent,
+        introducedPercent: locationSpecies.introducedPercent,
+        nativeSource: locationSpecies.nativeSource,
+        invasiveStatus: locationSpecies.invasiveStatus,
+        growthForm: locationSpecies.growthForm,
+      })
+      .from(locationSpecies)
+      .innerJoin(species, eq(locationSpecies.speciesKey, species.speciesKey))
+      .where(eq(locationSpecies.locationId, locationId))
+      .orderBy(desc(locationSpecies.occurrenceCount));
+
+    return rows.map(({ species, ...evidence }) => ({ ...species, ...evidence }));
+  }
+
+  // Every ranked candidate for a location, details fetched or not; ties go to the lower species key
+  async getLocationEntries(locationId: string): Promise<LocationSpecies[]> {
+    return await db
+      .select()
+      .from(locationSpecies)
+      .where(eq(locationSpecies.locationId, locationId))
+      .orderBy(desc(locationSpecies.occurrenceCount), locationSpecies.speciesKey);
+  }
+
+  // Flag candidates whose details showed they are not trees. They keep their place in the ranking
+  // so result pages computed before and after the flag line up
+  async rejectLocationSpecies(locationId: string, speciesKeys: number[]): Promise<void> {
+    if (speciesKeys.length === 0) return;
+
+    await db
+      .update(locationSpecies)
+      .set({ rejected: true })
       .where(
         and(
-          eq(treeSpecies.city, city),
-          eq(treeSpecies.state, state)
+          eq(locationSpecies.locationId, locationId),
+          inArray(locationSpecies.speciesKey, speciesKeys)
         )
       );
   }
 
-  async createTreeSpecies(insertSpecies: InsertTreeSpecies): Promise<TreeSpecies> {
-    const [species] = await db
-      .insert(treeSpecies)
+  // Create or refresh a location and replace its species list in one transaction
+  async saveLocationResults(
+    insertLocation: InsertLocation,
+    entries: Omit<InsertLocationSpecies, "locationId">[]
+  ): Promise<Location> {
+    return await db.transaction(async (tx) => {
+      const [location] = await tx
+        .insert(locations)
+        .values(insertLocation)
+        .onConflictDoUpdate({
+          target: [locations.locationKey, locations.radiusKm],
+          set: insertLocation,
+        })
+        .returning();
+
+      await tx.delete(locationSpecies).where(eq(locationSpecies.locationId, location.id));
+      if (entries.length > 0) {
+        await tx
+          .insert(locationSpecies)
+          .values(entries.map(entry => ({ ...entry, locationId: location.id })))
+          .onConflictDoNothing({ target: [locationSpecies.locationId, locationSpecies.speciesKey] });
+      }
+
+      return location;
+    });
+  }
+
+  async deleteLocation(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(locations)
+      .where(eq(locations.id, id))
+      .returning({ id: locations.id });
+    return deleted.length > 0;
+  }
+
+  // Delete every location matching the filter (all locations only with all: true; an empty filter
+  // throws EmptyLocationFilterError); location_species rows go with them via ON DELETE CASCADE
+  async deleteLocations(filter: LocationFilter): Promise<number> {
+    const deleted = await db
+      .delete(locations)
+      .where(locationFilterWhere(filter))
+      .returning({ id: locations.id });
+    return deleted.length;
+  }
+
+  async getSpecies(speciesKey: number): Promise<Species | undefined> {
+    const [row] = await db
+      .select()
+      .from(species)
+      .where(eq(species.speciesKey, speciesKey));
+    return row || undefined;
+  }
+
+  async upsertSpecies(insertSpecies: InsertSpecies): Promise<Species> {
+    const [row] = await db
+      .insert(species)
       .values(insertSpecies)
+      .onConflictDoUpdate({ target: species.speciesKey, set: insertSpecies })
       .returning();
-    return species;
+    return row;
   }
 
-  async getTreeSpeciesByExternalId(externalId: string): Promise<TreeSpecies | undefined> {
-    const [species] = await db
+  async getHttpResponse(url: string): Promise<HttpResponse | undefined> {
+    const [row] = await db
       .select()
-      .from(treeSpecies)
-      .where(eq(treeSpecies.externalId, externalId));
-    return species || undefined;
+      .from(httpResponses)
+      .where(eq(httpResponses.url, url));
+    return row || undefined;
+  }
+
+  async saveHttpResponse(response: InsertHttpResponse): Promise<void> {
+    await db
+      .insert(httpResponses)
+      .values(response)
+      .onConflictDoUpdate({ target: httpResponses.url, set: response });
+  }
+
+  async getNativeStatuses(state: string, scientificNames: string[]): Promise<NativeStatus[]> {
+    if (scientificNames.length === 0) return [];
+
+    return await db
+      .select()
+      .from(nativeStatuses)
+      .where(
+        and(
+          eq(nativeStatuses.state, state),
+          inArray(nativeStatuses.scientificName, scientificNames)
+        )
+      );
+  }
+
+  // Insert or replace checklist rows in batches; a later import wins for the same taxon and state
+  async upsertNativeStatuses(rows: InsertNativeStatus[]): Promise<number> {
+    const BATCH_SIZE = 1000;
+
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      await db
+        .insert(nativeStatuses)
+        .values(rows.slice(i, i + BATCH_SIZE))
+        .onConflictDoUpdate({
+          target: [nativeStatuses.scientificName, nativeStatuses.state],
+          set: {
+            status: sql`excluded.status`,
+            source: sql`excluded.source`,
+          },
+        });
+    }
+
+    return rows.length;
+  }
+
+  async getInvasiveSpecies(state: string, scientificNames: string[]): Promise<InvasiveSpecies[]> {
+    if (scientificNames.length === 0) return [];
+
+    return await db
+      .select()
+      .from(invasiveSpecies)
+      .where(
+        and(
+          eq(invasiveSpecies.state, state),
+          inArray(invasiveSpecies.scientificName, scientificNames)
+        )
+      );
+  }
+
+  // Whether any registry rows were imported for the state
+  async hasInvasiveSpecies(state: string): Promise<boolean> {
+    const [row] = await db
+      .select({ scientificName: invasiveSpecies.scientificName })
+      .from(invasiveSpecies)
+      .where(eq(invasiveSpecies.state, state))
+      .limit(1);
+    return row !== undefined;
+  }
+
+  // Insert or replace registry rows in batches; a later import wins for the same taxon and state
+  async upsertInvasiveSpecies(rows: InsertInvasiveSpecies[]): Promise<number> {
+    const BATCH_SIZE = 1000;
+
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      await db
+        .insert(invasiveSpecies)
+        .values(rows.slice(i, i + BATCH_SIZE))
+        .onConflictDoUpdate({
+          target: [invasiveSpecies.scientificName, invasiveSpecies.state],
+          set: {
+            status: sql`excluded.status`,
+            source: sql`excluded.source`,
+          },
+        });
+    }
+
+    return rows.length;
+  }
+
+  async getGrowthForms(scientificNames: string[]): Promise<GrowthFormRow[]> {
+    if (scientificNames.length === 0) return [];
+
+    return await db
+      .select()
+      .from(growthForms)
+      .where(inArray(growthForms.scientificName, scientificNames));
+  }
+
+  // Insert or replace trait rows in batches; a later import wins for the same taxon
+  async upsertGrowthForms(rows: InsertGrowthForm[]): Promise<number> {
+    const BATCH_SIZE = 1000;
+
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      await db
+        .insert(growthForms)
+        .values(rows.slice(i, i + BATCH_SIZE))
+        .onConflictDoUpdate({
+          target: growthForms.scientificName,
+          set: {
+            growthForm: sql`excluded.growth_form`,
+            source: sql`excluded.source`,
+          },
+        });
+    }
+
+    return rows.length;
   }
 }
 
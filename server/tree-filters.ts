@@ -0,0 +1,341 @@
+import type { GrowthForm, GrowthFormRow, InvasiveSpecies, InvasiveStatus, NativeStatus } from "@shared/schema";
+import type { GbifOccurrence } from "./gbif";
+
+// Tree classification and native-status filtering applied to GBIF occurrence data
+
+// Common tree families to filter GBIF results
+// Note: Only including families that are predominantly trees, excluding families with many shrubs/herbs
+export const TREE_FAMILIES = [
+  'Fagaceae', 'Pinaceae', 'Aceraceae', 'Betulaceae',
+  'Salicaceae', 'Cupressaceae', 'Juglandaceae',
+  'Ulmaceae', 'Magnoliaceae', 'Platanaceae',
+  'Taxaceae', 'Taxodiaceae', 'Araucariaceae'
+];
+
+// Growth forms kept as trees; "tree/shrub" covers taxa like serviceberries and hawthorns
+export function isTreeForm(growthForm: GrowthForm): boolean {
+  return growthForm === 'tree' || growthForm === 'tree/shrub';
+}
+
+// Outcome of the name heuristic, with the rule that decided it
+export interface HeuristicVerdict {
+  isTree: boolean;
+  reason: string;
+}
+
+// Helper function to check if a GBIF taxon is likely a tree from its names alone.
+// Only a fallback for taxa without a growth form trait row
+export function isLikelyTree(scientificName: string, family: string | null, vernacularName: string | null): boolean {
+  return treeHeuristic(scientificName, family, vernacularName).isTree;
+}
+
+// The name heuristic behind isLikelyTree, explaining its verdict
+export function treeHeuristic(scientificName: string, family: string | null, vernacularName: string | null): HeuristicVerdict {
+  // First, check for exclusion keywords that indicate non-trees
+  if (vernacularName) {
+    const lowerName = vernacularName.toLowerCase();
+    const exclusionKeywords = [
+      'shrub', 'bush', 'herb', 'vine', 'grass', 'fern', 'moss',
+      'sedge', 'rush', 'bramble', 'weed', 'flower',
+      'dewberry', 'raspberry', 'blackberry', 'strawberry', 'blueberry', 'cranberry', 
+      'huckleberry', 'gooseberry', 'elderberry', 'currant', 'rose',
+      'avens', 'mallow', 'cinquefoil', 'clover', 'vetch',
+      'goosefoot', 'chickweed', 'knotweed', 'smartweed', 'pigweed',
+      'amaranth', 'plantain', 'purslane', 'lambsquarters', 'nettle'
+    ];
+    
+    // Tree exceptions - these contain exclusion keywords but are actual trees
+    const treeExceptions = ['cherry', 'hackberry', 'mulberry', 'serviceberry', 'chokeberry'];
+    const hasTreeException = treeExceptions.some(exception => lowerName.includes(exception));
+    
+    // If the common name contains exclusion keywords (and isn't a tree exception), it's not a tree
+    const exclusion = exclusionKeywords.find(keyword => lowerName.includes(keyword));
+    if (!hasTreeException && exclusion) {
+      return { isTree: false, reason: `common name "${vernacularName}" contains "${exclusion}"` };
+    }
+  }
+  
+  // Check if it belongs to a known tree family
+  if (family && TREE_FAMILIES.includes(family)) {
+    return { isTree: true, reason: `tree family ${family}` };
+  }
+  
+  // Check common name for tree indicators
+  if (vernacularName) {
+    const lowerName = vernacularName.toLowerCase();
+    const treeKeywords = [
+      'tree', 'oak', 'pine', 'maple', 'birch', 'cedar', 'fir', 
+      'spruce', 'elm', 'ash', 'willow', 'poplar', 'aspen', 
+      'redwood', 'sequoia', 'cypress', 'juniper', 'hemlock',
+      'hickory', 'walnut', 'beech', 'sycamore', 'magnolia',
+      'cottonwood', 'basswood', 'linden', 'dogwood', 'buckeye',
+      'hornbeam', 'hop-hornbeam', 'cherry', 'hackberry', 'mulberry',
+      'serviceberry', 'chokeberry', 'hawthorn', 'crabapple'
+    ];
+    const treeKeyword = treeKeywords.find(keyword => lowerName.includes(keyword));
+    if (treeKeyword) {
+      return { isTree: true, reason: `common name "${vernacularName}" contains "${treeKeyword}"` };
+    }
+  }
+  
+  // Check scientific name for known tree genera
+  if (scientificName) {
+    const knownTreeGenera = [
+      'Quercus', 'Pinus', 'Acer', 'Betula', 'Salix', 'Populus', 
+      'Fraxinus', 'Ulmus', 'Fagus', 'Picea', 'Abies', 'Tsuga', 
+      'Sequoia', 'Juniperus', 'Carya', 'Platanus', 'Magnolia',
+      'Cornus', 'Tilia', 'Liquidambar', 'Nyssa', 'Ostrya',
+      'Carpinus', 'Taxodium', 'Larix', 'Pseudotsuga', 'Thuja',
+      'Chamaecyparis', 'Cedrus', 'Robinia', 'Gleditsia', 'Juglans',
+      'Aesculus', 'Liriodendron', 'Catalpa', 'Prunus', 'Celtis',
+      'Morus', 'Amelanchier', 'Sorbus', 'Malus', 'Pyrus', 'Crataegus'
+    ];
+    const genus = scientificName.split(' ')[0];
+    if (knownTreeGenera.includes(genus)) {
+      return { isTree: true, reason: `tree genus ${genus}` };
+    }
+  }
+  
+  return { isTree: false, reason: 'no tree family, common name or genus match' };
+}
+
+// How a taxon was classified: by its growth form trait when there is one, else by the name heuristic
+export interface TreeVerdict {
+  isTree: boolean;
+  growthForm: GrowthForm | null; // null when the name heuristic decided
+  reason: string;
+}
+
+export function classifyTree(
+  scientificName: string,
+  family: string | null,
+  vernacularName: string | null,
+  traits: Map<string, GrowthFormRow> = new Map()
+): TreeVerdict {
+  const trait = traits.get(canonicalSpeciesName(scientificName));
+  if (trait) {
+    return {
+      isTree: isTreeForm(trait.growthForm),
+      growthForm: trait.growthForm,
+      reason: `growth form "${trait.growthForm}" per ${trait.source}`
+    };
+  }
+
+  const { isTree, reason } = treeHeuristic(scientificName, family, vernacularName);
+  return { isTree, growthForm: null, reason: `name heuristic: ${reason}` };
+}
+
+export interface AggregatedSpecies {
+  scientificName: string;
+  family: string | null;
+  vernacularName: string | null;
+  count: number;
+  establishmentCounts: Map<string, number>;
+  tree: TreeVerdict;
+}
+
+export interface NativeSpeciesCandidate {
+  scientificName: string;
+  family: string | null;
+  vernacularName: string | null;
+  count: number;
+  nativePercent: number;
+  introducedPercent: number;
+  nativeSource: string | null; // "checklist:<source>" or ESTABLISHMENT_MEANS_SOURCE; null for non-native invasives
+  invasiveStatus: InvasiveStatus | null; // state invasive registry listing, if any
+  growthForm: GrowthForm | null;
+}
+
+// Recorded as the native decision source when no checklist row covered the taxon
+export const ESTABLISHMENT_MEANS_SOURCE = "establishment-means";
+
+// Group occurrences by species, tracking establishment means across all occurrences (majority
+// vote approach), and classify each taxon once. Growth form traits (keyed by canonical name) decide
+// tree-ness; taxa without one fall back to the name heuristic on the first vernacular name seen
+export function aggregateSpecies(
+  occurrences: GbifOccurrence[],
+  traits: Map<string, GrowthFormRow> = new Map()
+): Map<number, AggregatedSpecies> {
+  const uniqueSpecies = new Map<number, Omit<AggregatedSpecies, 'tree'>>();
+
+  for (const occurrence of occurrences) {
+    if (!occurrence.speciesKey || !occurrence.scientificName) continue;
+
+    const establishmentMeans = occurrence.establishmentMeans || 'UNKNOWN';
+    const existing = uniqueSpecies.get(occurrence.speciesKey);
+
+    if (existing) {
+      existing.count += 1;
+      existing.family = existing.family || occurrence.family || null;
+      existing.vernacularName = existing.vernacularName || occurrence.vernacularName || null;
+
+      // Increment establishment means count
+      const currentCount = existing.establishmentCounts.get(establishmentMeans) || 0;
+      existing.establishmentCounts.set(establishmentMeans, currentCount + 1);
+    } else {
+      uniqueSpecies.set(occurrence.speciesKey, {
+        scientificName: occurrence.scientificName,
+        family: occurrence.family || null,
+        vernacularName: occurrence.vernacularName || null,
+        count: 1,
+        establishmentCounts: new Map([[establishmentMeans, 1]])
+      });
+    }
+  }
+
+  const classified = new Map<number, AggregatedSpecies>();
+  for (const [speciesKey, species] of Array.from(uniqueSpecies.entries())) {
+    const tree = classifyTree(species.scientificName, species.family, species.vernacularName, traits);
+    classified.set(speciesKey, { ...species, tree });
+  }
+
+  return classified;
+}
+
+// Keep the aggregated species classified as trees
+export function filterTreeSpecies(uniqueSpecies: Map<number, AggregatedSpecies>): Map<number, AggregatedSpecies> {
+  const uniqueTreeSpecies = new Map<number, AggregatedSpecies>();
+
+  for (const [speciesKey, species] of Array.from(uniqueSpecies.entries())) {
+    if (!species.tree.isTree) continue;
+
+    if (!species.tree.growthForm) {
+      console.log(`No growth form trait for ${species.scientificName}; kept as a tree (${species.tree.reason})`);
+    }
+    uniqueTreeSpecies.set(speciesKey, species);
+  }
+
+  return uniqueTreeSpecies;
+}
+
+// Known invasive/non-native ornamentals that commonly appear in US cities with little GBIF
+// establishment data. Only applied for states with no invasive registry rows, so a fresh
+// database does not report them as native. Canonical names (genus + species) catch subspecies
+export const INVASIVE_BLOCKLIST: ReadonlySet<string> = new Set([
+  'Prunus laurocerasus',    // Cherry Laurel (European ornamental)
+  'Prunus lusitanica',      // Portugal Laurel (European ornamental)
+  'Ailanthus altissima',    // Tree of Heaven (Asian invasive)
+  'Paulownia tomentosa',    // Princess Tree (Asian invasive)
+  'Melia azedarach',        // Chinaberry (Asian invasive)
+  'Elaeagnus angustifolia', // Russian Olive (Eurasian invasive)
+  'Ligustrum lucidum',      // Glossy Privet (Asian invasive)
+  'Albizia julibrissin',    // Mimosa/Silk Tree (Asian invasive)
+  'Pyrus calleryana',       // Callery/Bradford Pear (Asian invasive)
+  'Cinnamomum camphora',    // Camphor Tree (Asian invasive)
+  'Triadica sebifera',      // Chinese Tallow (Asian invasive)
+]);
+
+// Canonical name (genus + species only), e.g. "Prunus laurocerasus L." -> "Prunus laurocerasus"
+export function canonicalSpeciesName(scientificName: string): string {
+  return scientificName.split(' ').slice(0, 2).join(' ');
+}
+
+// Helper function to summarize a species' occurrences as a candidate (percentages are kept as
+// evidence even when the checklist decides)
+function speciesEvidence(species: AggregatedSpecies): NativeSpeciesCandidate {
+  const totalOccurrences = species.count;
+  const nativeCount = species.establishmentCounts.get('NATIVE') || 0;
+  const introducedCount = (species.establishmentCounts.get('INTRODUCED') || 0) + 
+                          (species.establishmentCounts.get('INVASIVE') || 0) + 
+                          (species.establishmentCounts.get('NATURALISED') || 0);
+
+  return {
+    scientificName: species.scientificName,
+    family: species.family,
+    vernacularName: species.vernacularName,
+    count: species.count,
+    nativePercent: nativeCount / totalOccurrences,
+    introducedPercent: introducedCount / totalOccurrences,
+    nativeSource: null,
+    invasiveStatus: null,
+    growthForm: species.tree.growthForm
+  };
+}
+
+// Outcome of the native decision for one taxon, with the rule that decided it
+export interface NativeVerdict {
+  isNative: boolean;
+  source: string | null; // "checklist:<source>" or ESTABLISHMENT_MEANS_SOURCE when native
+  reason: string;
+}
+
+// Decide whether a tree species is native to the searched state.
+// A state checklist row (keyed by canonical name) is authoritative when one exists.
+// Otherwise reject species on the blocklist (INVASIVE_BLOCKLIST when the state has no invasive
+// registry) and fall back to a majority vote of GBIF establishment means. Only keep species where:
+// - >50% of occurrences are NATIVE, OR
+// - <20% are INTRODUCED (benefit of the doubt for UNKNOWN data)
+export function decideNative(
+  species: AggregatedSpecies,
+  checklist: Map<string, NativeStatus> = new Map(),
+  blocklist: ReadonlySet<string> = new Set()
+): NativeVerdict {
+  const canonicalName = canonicalSpeciesName(species.scientificName);
+  const { nativePercent, introducedPercent } = speciesEvidence(species);
+
+  const listed = checklist.get(canonicalName);
+  if (listed) {
+    return listed.status === 'native'
+      ? { isNative: true, source: `checklist:${listed.source}`, reason: `native in ${listed.state} per ${listed.source}` }
+      : { isNative: false, source: null, reason: `${listed.status} in ${listed.state} per ${listed.source}` };
+  }
+
+  if (blocklist.has(canonicalName)) {
+    return { isNative: false, source: null, reason: 'on the invasive blocklist (no invasive registry for the state)' };
+  }
+
+  // Decision logic (balanced approach given poor GBIF establishmentMeans data):
+  // 1. If >50% are NATIVE, include it (strong native signal)
+  // 2. If <20% are INTRODUCED, include it (benefit of doubt for UNKNOWN data)
+  // 3. Excludes species with 20-50% introduced (likely non-native)
+  const shares = `NATIVE: ${(nativePercent*100).toFixed(1)}%, INTRODUCED: ${(introducedPercent*100).toFixed(1)}%`;
+  if (nativePercent > 0.5) {
+    return { isNative: true, source: ESTABLISHMENT_MEANS_SOURCE, reason: `majority of occurrences native (${shares})` };
+  }
+  if (introducedPercent < 0.2) {
+    return { isNative: true, source: ESTABLISHMENT_MEANS_SOURCE, reason: `under 20% of occurrences introduced (${shares})` };
+  }
+  return { isNative: false, source: null, reason: `20% or more of occurrences introduced (${shares})` };
+}
+
+// Keep the tree species decideNative accepts for the searched state
+export function filterNativeSpecies(
+  uniqueTreeSpecies: Map<number, AggregatedSpecies>,
+  checklist: Map<string, NativeStatus> = new Map(),
+  blocklist: ReadonlySet<string> = new Set()
+): Map<number, NativeSpeciesCandidate> {
+  const nativeTreeSpecies = new Map<number, NativeSpeciesCandidate>();
+
+  for (const [speciesKey, species] of Array.from(uniqueTreeSpecies.entries())) {
+    const verdict = decideNative(species, checklist, blocklist);
+
+    if (verdict.isNative) {
+      nativeTreeSpecies.set(speciesKey, { ...speciesEvidence(species), nativeSource: verdict.source });
+    } else {
+      console.log(`Filtering out non-native: ${species.scientificName} (${verdict.reason})`);
+    }
+  }
+
+  return nativeTreeSpecies;
+}
+
+// Flag species on the state's invasive registry. Listed species that passed the native filter
+// keep their native decision; listed species that did not are added back with no native source,
+// so callers who ask for invasives see everything the state warns about that grows nearby
+export function flagInvasiveSpecies(
+  uniqueTreeSpecies: Map<number, AggregatedSpecies>,
+  nativeTreeSpecies: Map<number, NativeSpeciesCandidate>,
+  registry: Map<string, InvasiveSpecies>
+): Map<number, NativeSpeciesCandidate> {
+  const flagged = new Map(nativeTreeSpecies);
+
+  for (const [speciesKey, species] of Array.from(uniqueTreeSpecies.entries())) {
+    const listed = registry.get(canonicalSpeciesName(species.scientificName));
+    if (!listed) continue;
+
+    const candidate = nativeTreeSpecies.get(speciesKey) ?? speciesEvidence(species);
+    flagged.set(speciesKey, { ...candidate, invasiveStatus: listed.status });
+  }
+
+  return flagged;
+}
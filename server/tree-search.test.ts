@@ -0,0 +1,232 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { InsertLocationSpecies } from "@shared/schema";
+import { AreaGazetteer } from "./area-gazetteer";
+import type { CountyOutlineRow } from "./data/us-county-outlines";
+import { Gazetteer, locationKey } from "./gazetteer";
+import type { GbifClient, GbifOccurrence, GbifSpeciesDetails } from "./gbif";
+import type { Geocoder } from "./geocoder";
+import { MemStorage } from "./mem-storage";
+import { PIPELINE_VERSION, TreeSearchService } from "./tree-search";
+
+const SPECIES_COUNT = 60;
+
+// Every fourth species turns out not to be a tree once its details arrive, and every tenth is on
+// the state's invasive registry
+const isRejected = (speciesKey: number) => speciesKey % 4 === 0;
+const isInvasive = (speciesKey: number) => speciesKey % 10 === 0;
+
+const gbif: GbifClient = {
+  async searchOccurrences() {
+    throw new Error("cached searches must not crawl");
+  },
+  async getSpeciesDetails(speciesKey: number): Promise<GbifSpeciesDetails> {
+    return {
+      speciesKey,
+      scientificName: `Genus species${speciesKey}`,
+      commonName: isRejected(speciesKey) ? `Tall grass ${speciesKey}` : `Test oak ${speciesKey}`,
+      family: "Fagaceae",
+      genus: "Genus",
+      imageUrl: null,
+      description: null
+    };
+  },
+  async getSpeciesProfile() {
+    return null;
+  }
+};
+
+const geocoder: Geocoder = {
+  async geocode() {
+    return null;
+  },
+  async reverse() {
+    return null;
+  }
+};
+
+async function cachedService(storage = new MemStorage()): Promise<TreeSearchService> {
+  const entries: Omit<InsertLocationSpecies, "locationId">[] = [];
+  for (let speciesKey = 1; speciesKey <= SPECIES_COUNT; speciesKey++) {
+    entries.push({
+      speciesKey,
+      occurrenceCount: 1000 - speciesKey,
+      nativePercent: 0.9,
+      introducedPercent: 0,
+      nativeSource: isInvasive(speciesKey) ? null : "establishment-means",
+      invasiveStatus: isInvasive(speciesKey) ? "invasive" : null,
+      growthForm: null
+    });
+  }
+
+  await storage.saveLocationResults({
+    locationKey: locationKey("Testville", "NC"),
+    city: "Testville",
+    state: "NC",
+    radiusKm: 50,
+    lat: 35.6,
+    lon: -82.55,
+    placeId: "test:testville",
+    fetchedAt: new Date(),
+    pipelineVersion: PIPELINE_VERSION
+  }, entries);
+
+  return new TreeSearchService({
+    geocoder,
+    gbif,
+    storage,
+    gazetteer: new Gazetteer([]),
+    areas: new AreaGazetteer([], [])
+  });
+}
+
+// Follow nextCursor from the first page to the last, collecting every species returned
+async function walkPages(service: TreeSearchService, includeInvasive: boolean) {
+  const seen: number[] = [];
+  const totals: number[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await service.search({
+      kind: "city",
+      city: "Testville",
+      state: "NC",
+      radiusKm: 50,
+      includeInvasive,
+      limit: 15,
+      cursor
+    });
+    seen.push(...result.species.map(species => species.speciesKey));
+    totals.push(result.total);
+    cursor = result.nextCursor ?? undefined;
+  } while (cursor);
+
+  return { seen, totals };
+}
+
+function visibleKeys(includeInvasive: boolean): number[] {
+  return Array.from({ length: SPECIES_COUNT }, (_, index) => index + 1)
+    .filter(speciesKey => !isRejected(speciesKey) && (includeInvasive || !isInvasive(speciesKey)));
+}
+
+test("paging through a ranking with rejected species returns every visible species once", async () => {
+  const { seen, totals } = await walkPages(await cachedService(), false);
+
+  assert.deepEqual(seen, visibleKeys(false));
+  assert.equal(totals[totals.length - 1], seen.length);
+});
+
+test("species rejected on one page stay hidden without shifting later searches", async () => {
+  const service = await cachedService();
+  await walkPages(service, false);
+
+  // Invasives were never detailed on the first walk, so this one rejects more as it goes
+  const { seen, totals } = await walkPages(service, true);
+
+  assert.deepEqual(seen, visibleKeys(true));
+  assert.equal(totals[totals.length - 1], seen.length);
+});
+
+test("species rows keep no location-specific description", async () => {
+  const storage = new MemStorage();
+  const service = await cachedService(storage);
+  const result = await service.search({ kind: "city", city: "Testville", state: "NC", radiusKm: 50, includeInvasive: false, limit: 15 });
+
+  assert.equal((await storage.getSpecies(1))?.habitatDescription, null);
+  assert.match(result.species[0].habitatDescription ?? "", /Testville, NC/);
+});
+
+const BUNCOMBE = ["NC", "37021", "Buncombe", 35.6, -82.5, 1700] as const;
+const countySearch = { kind: "county", countyFips: "37021", radiusKm: 50, includeInvasive: false } as const;
+
+// A service whose GBIF occurrence search answers every query with the given records and notes the
+// geometry it was asked for
+function countyService(
+  occurrences: GbifOccurrence[],
+  { storage = new MemStorage(), outlines = [], geometries = [] }: {
+    storage?: MemStorage;
+    outlines?: CountyOutlineRow[];
+    geometries?: (string | null)[];
+  } = {}
+): TreeSearchService {
+  return new TreeSearchService({
+    geocoder,
+    gbif: {
+      ...gbif,
+      async searchOccurrences(params: URLSearchParams) {
+        geometries.push(params.get("geometry"));
+        return { results: occurrences, total: occurrences.length };
+      }
+    },
+    storage,
+    gazetteer: new Gazetteer([]),
+    areas: new AreaGazetteer([], [[...BUNCOMBE]], outlines)
+  });
+}
+
+test("county searches query GBIF by the county outline and fall back to the county field without one", async () => {
+  const outline = "POLYGON((-82.9 35.4,-82.2 35.4,-82.2 35.8,-82.9 35.8,-82.9 35.4))";
+  const occurrences: GbifOccurrence[] = [{ key: 1, county: "Buncombe County" }, { key: 2, county: "Henderson" }, { key: 3 }];
+  const geometries: (string | null)[] = [];
+
+  const withOutline = await countyService(occurrences, { outlines: [["37021", outline]], geometries }).explain(countySearch);
+  assert.equal(geometries[0], outline);
+  assert.equal(withOutline.radiusKm, 24);
+  assert.equal(withOutline.occurrences, 3);
+
+  const withoutOutline = await countyService(occurrences, { geometries }).explain(countySearch);
+  assert.match(geometries[1] ?? "", /^POLYGON/);
+  assert.notEqual(geometries[1], outline);
+  assert.equal(withoutOutline.radiusKm, 35);
+  assert.equal(withoutOutline.occurrences, 1);
+});
+
+test("the invasive blocklist only applies to states without invasive registry rows", async () => {
+  const occurrences: GbifOccurrence[] = [1, 2, 3].map(key => ({
+    key,
+    speciesKey: 3190653,
+    scientificName: "Ailanthus altissima (Mill.) Swingle",
+    family: "Simaroubaceae",
+    county: "Buncombe"
+  }));
+  const storage = new MemStorage();
+  await storage.upsertGrowthForms([{ scientificName: "Ailanthus altissima", growthForm: "tree", source: "test" }]);
+  const nativeVerdict = async () => (await countyService(occurrences, { storage }).explain(countySearch)).candidates[0].native;
+
+  assert.deepEqual(await nativeVerdict(), {
+    isNative: false,
+    source: null,
+    reason: "on the invasive blocklist (no invasive registry for the state)"
+  });
+
+  // Once the state has a registry, it decides instead; this one does not list the species
+  await storage.upsertInvasiveSpecies([{ scientificName: "Pueraria montana", state: "NC", status: "noxious", source: "test" }]);
+  assert.equal((await nativeVerdict())?.isNative, true);
+});
+
+test("explain leaves species a cached search rejected out of the ranking", async () => {
+  const occurrences: GbifOccurrence[] = [
+    { key: 1, speciesKey: 101, scientificName: "Quercus alba L.", family: "Fagaceae", county: "Buncombe" },
+    { key: 2, speciesKey: 101, scientificName: "Quercus alba L.", family: "Fagaceae", county: "Buncombe" },
+    { key: 3, speciesKey: 102, scientificName: "Acer rubrum L.", family: "Sapindaceae", county: "Buncombe" }
+  ];
+  const storage = new MemStorage();
+  await storage.upsertGrowthForms(["Quercus alba", "Acer rubrum"].map(scientificName => ({ scientificName, growthForm: "tree" as const, source: "test" })));
+  const location = await storage.saveLocationResults({
+    locationKey: "county:37021",
+    city: "Buncombe",
+    state: "NC",
+    radiusKm: 35,
+    placeId: "county:37021",
+    fetchedAt: new Date(),
+    pipelineVersion: PIPELINE_VERSION
+  }, [101, 102].map(speciesKey => ({ speciesKey, occurrenceCount: 103 - speciesKey, nativePercent: 0, introducedPercent: 0, nativeSource: "establishment-means" })));
+  await storage.rejectLocationSpecies(location.id, [101]);
+
+  const { candidates } = await countyService(occurrences, { storage }).explain(countySearch);
+  const byKey = new Map(candidates.map(candidate => [candidate.speciesKey, candidate]));
+
+  assert.equal(byKey.get(101)?.rank, null);
+  assert.match(byKey.get(101)?.decision ?? "", /^Excluded: not a tree per its GBIF common name/);
+  assert.equal(byKey.get(102)?.rank, 1);
+});
@@ -0,0 +1,829 @@
+import type {
+  CandidateExplanation,
+  InvasiveSpecies,
+  Location,
+  LocationSpecies,
+  NativeStatus,
+  OccurrencePoint,
+  PlaceSuggestion,
+  SearchExplanation,
+  SearchLocation,
+  SearchOccurrences,
+  SearchPlace,
+  SearchProgressEvent,
+  SpeciesProfile,
+  TreeSearchResult,
+  TreeSpecies
+} from "@shared/schema";
+import { DEFAULT_PAGE_SIZE } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { Geocoder, GeocodedPlace } from "./geocoder";
+import { coordinatesKey, locationKey, type Gazetteer } from "./gazetteer";
+import { normalizeCountyName, type AreaGazetteer, type CountyArea } from "./area-gazetteer";
+import { boundingBoxWkt, type GbifClient, type GbifOccurrence, type GbifSpeciesDetails } from "./gbif";
+import {
+  aggregateSpecies,
+  canonicalSpeciesName,
+  decideNative,
+  filterNativeSpecies,
+  filterTreeSpecies,
+  flagInvasiveSpecies,
+  INVASIVE_BLOCKLIST,
+  isLikelyTree,
+  type AggregatedSpecies,
+  type NativeSpeciesCandidate
+} from "./tree-filters";
+
+// Occurrence records plotted on a species page map, and per species on the results map
+const MAX_SPECIES_OCCURRENCES = 300;
+const MAX_MAP_OCCURRENCES = 100;
+
+// County searches query GBIF by the county's outline and report the radius of a circle with its
+// area. Counties without a bundled outline fall back to a box reaching past that radius, so that
+// elongated counties are covered, and keep only records whose county field names the county
+const COUNTY_RADIUS_FACTOR = 1.5;
+const MAX_COUNTY_RADIUS_KM = 200;
+
+// Number of top species (by occurrence count) that get detailed GBIF lookups during the crawl;
+// later pages fetch details as they are requested
+const MAX_DETAILED_SPECIES = DEFAULT_PAGE_SIZE;
+
+// Extra up-front detail lookups for species on the state's invasive registry, so the first
+// page is mostly ready for callers that set includeInvasive
+const MAX_FLAGGED_INVASIVES = 5;
+
+// Bump whenever geocoding, tree classification or native filtering rules change so that
+// results cached by an older pipeline are treated as stale and recomputed
+export const PIPELINE_VERSION = 8;
+
+// How long cached location results are served as fresh (override with SEARCH_CACHE_TTL_HOURS)
+const DEFAULT_CACHE_TTL_MS = (parseFloat(process.env.SEARCH_CACHE_TTL_HOURS || '720') || 720) * 60 * 60 * 1000;
+
+export type ProgressListener = (event: SearchProgressEvent) => void;
+
+export interface TreeSearchDependencies {
+  geocoder: Geocoder;
+  gbif: GbifClient;
+  storage: IStorage;
+  gazetteer: Gazetteer;
+  areas: AreaGazetteer;
+  cacheTtlMs?: number;
+}
+
+// Thrown when a city cannot be resolved for the chosen state (carrying close gazetteer matches),
+// when searched coordinates are not in or near a known US place, or for an unknown ZIP or county
+export class UnknownPlaceError extends Error {
+  constructor(message: string, public readonly suggestions: PlaceSuggestion[] = []) {
+    super(message);
+    this.name = "UnknownPlaceError";
+  }
+}
+
+// Runs the full native tree pipeline for a location: geocode, harvest GBIF occurrences,
+// classify trees, filter to natives, fetch species details and persist the results.
+// Dependencies are injected so the pipeline can run outside Express and against fixtures.
+export class TreeSearchService {
+  private readonly geocoder: Geocoder;
+  private readonly gbif: GbifClient;
+  private readonly storage: IStorage;
+  private readonly gazetteer: Gazetteer;
+  private readonly areas: AreaGazetteer;
+  private readonly cacheTtlMs: number;
+  // In-flight work shared by concurrent callers: searches keyed on location key + radius,
+  // GBIF crawls keyed on geocoded place id + radius
+  private readonly inFlightSearches = new Map<string, InFlight<RankedLocation>>();
+  private readonly inFlightCrawls = new Map<string, InFlight<RankedLocation>>();
+
+  constructor(deps: TreeSearchDependencies) {
+    this.geocoder = deps.geocoder;
+    this.gbif = deps.gbif;
+    this.storage = deps.storage;
+    this.gazetteer = deps.gazetteer;
+    this.areas = deps.areas;
+    this.cacheTtlMs = deps.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+  }
+
+  // Concurrent searches for the same location share one lookup and at most one GBIF crawl.
+  // onProgress receives pipeline events from the point the caller joined. The shared work ranks
+  // every candidate and each caller then gets its own page of it. Species on the state's invasive
+  // registry are always ranked and stored, and only returned when includeInvasive is set
+  async search(requested: SearchLocation, onProgress?: ProgressListener): Promise<TreeSearchResult> {
+    const search = this.withAreaRadius(requested);
+    const key = `${placeKey(search)}|${search.radiusKm}`;
+
+    // Progress is shared with callers that did ask for invasives, so hide flagged species per listener
+    const listener: ProgressListener | undefined = onProgress && !search.includeInvasive
+      ? (event) => onProgress(event.type === "species" && event.species?.invasiveStatus ? { ...event, species: null } : event)
+      : onProgress;
+
+    const ranked = await coalesce(this.inFlightSearches, key, listener, (emit) => this.runSearch(search, emit));
+    return this.page(ranked, search);
+  }
+
+  private async runSearch(search: SearchLocation, emit: ProgressListener): Promise<RankedLocation> {
+    // First check if we have cached data under the canonical key ("Portland " and "portland" share one entry)
+    const cached = await this.cachedResult(search, await this.storage.getLocation(placeKey(search), search.radiusKm));
+    if (cached) return cached;
+
+    const place = await this.resolvePlace(search);
+    emit({ type: "geocoded", location: `${place.name}, ${place.state}`, lat: place.lat, lon: place.lon });
+
+    // A different spelling may have already been crawled for the same geocoded place
+    const aliased = await this.cachedResult(search, await this.storage.getLocationByPlaceId(place.placeId, search.radiusKm));
+    if (aliased) return aliased;
+
+    return this.coalescedCrawl(search, place, emit);
+  }
+
+  isStale(location: Location): boolean {
+    return location.pipelineVersion !== PIPELINE_VERSION ||
+      Date.now() - location.fetchedAt.getTime() > this.cacheTtlMs;
+  }
+
+  private async cachedResult(search: SearchLocation, location: Location | undefined): Promise<RankedLocation | null> {
+    if (!location) return null;
+
+    const entries = await this.storage.getLocationEntries(location.id);
+    if (entries.length === 0) return null;
+
+    const stale = this.isStale(location);
+    console.log(`Returning ${entries.length} ${stale ? 'stale' : 'cached'} ranked species for ${location.city}, ${location.state} (${location.radiusKm} km)`);
+
+    // Stale-while-revalidate: answer from cache now, recompute in the background
+    if (stale) {
+      this.refreshInBackground(search);
+    }
+
+    return { location, entries, fetchedAt: location.fetchedAt, stale };
+  }
+
+  // One page of a location's ranking: hide flagged invasives unless asked for, then fetch details
+  // for any species on the page that has none yet. Species whose detailed common name fails the
+  // tree check are flagged as rejected (never deleted, so earlier pages keep their offsets) and the
+  // page is refilled from the entries after it; total and nextCursor count what is left
+  private async page(ranked: RankedLocation, search: SearchLocation): Promise<TreeSearchResult> {
+    const { location } = ranked;
+    const offset = search.cursor ? parseInt(search.cursor, 10) : 0;
+    let visible = ranked.entries.filter(entry => !entry.rejected && (search.includeInvasive || !entry.invasiveStatus));
+    const pagination = () => ({
+      total: visible.length,
+      nextCursor: offset + search.limit < visible.length ? String(offset + search.limit) : null
+    });
+
+    if (!location.id || offset >= visible.length) {
+      return buildResult(location, [], ranked.fetchedAt, ranked.stale, pagination());
+    }
+
+    const detailed = new Map(
+      (await this.storage.getLocationSpecies(location.id)).map(species => [species.speciesKey, species])
+    );
+    // Species whose details were requested on this call, so a failed lookup is not retried in a loop
+    const attempted = new Set<number>();
+
+    for (;;) {
+      const missing = new Map(
+        visible.slice(offset, offset + search.limit)
+          .filter(entry => !detailed.has(entry.speciesKey) && !attempted.has(entry.speciesKey))
+          .map(entry => [entry.speciesKey, entry])
+      );
+      if (missing.size === 0) break;
+
+      console.log(`Fetching details for ${missing.size} species from offset ${offset} for ${location.city}, ${location.state}`);
+
+      const rejected = new Set<number>();
+      await this.fetchSpeciesDetails(Array.from(missing.keys()), 3, async (details) => {
+        if (!details) return;
+        const species = await this.toTreeSpecies(details, missing.get(details.speciesKey)!, location);
+        if (species) {
+          detailed.set(species.speciesKey, species);
+        } else {
+          rejected.add(details.speciesKey);
+        }
+      });
+      missing.forEach((_, speciesKey) => attempted.add(speciesKey));
+
+      if (rejected.size === 0) break;
+      await this.storage.rejectLocationSpecies(location.id, Array.from(rejected));
+      visible = visible.filter(entry => !rejected.has(entry.speciesKey));
+    }
+
+    const species = visible.slice(offset, offset + search.limit).flatMap(entry => detailed.get(entry.speciesKey) ?? []);
+    return buildResult(location, species, ranked.fetchedAt, ranked.stale, pagination());
+  }
+
+  private refreshInBackground(search: SearchLocation): void {
+    this.resolvePlace(search)
+      .then(place => this.coalescedCrawl(search, place))
+      .catch(error => console.error(`Background refresh failed for ${describePlace(search)}:`, error));
+  }
+
+  private coalescedCrawl(search: SearchLocation, place: GeocodedPlace, onProgress?: ProgressListener): Promise<RankedLocation> {
+    const key = `${place.placeId}|${search.radiusKm}`;
+    return coalesce(this.inFlightCrawls, key, onProgress, (emit) => this.crawl(search, place, emit));
+  }
+
+  // County searches cover the whole county whatever radius was asked for (unknown counties are
+  // left alone and rejected by resolvePlace)
+  private withAreaRadius<T extends SearchPlace & Pick<SearchLocation, "radiusKm">>(search: T): T {
+    const county = this.countyOf(search);
+    if (!county) return search;
+
+    const radiusKm = Math.ceil(Math.sqrt(county.landAreaKm2 / Math.PI) * (county.outline ? 1 : COUNTY_RADIUS_FACTOR));
+    return { ...search, radiusKm: Math.min(Math.max(radiusKm, 5), MAX_COUNTY_RADIUS_KM) };
+  }
+
+  private countyOf(search: SearchPlace): CountyArea | null {
+    return search.kind === "county" ? this.areas.county(search.countyFips) : null;
+  }
+
+  // Geocode the city/state to coordinates, reverse geocode searched coordinates to the place they
+  // are in or near, or look up a ZIP or county centroid (a GeocodingError propagates to the caller)
+  private async resolvePlace(search: SearchPlace): Promise<GeocodedPlace> {
+    if (search.kind === "coordinates") {
+      return this.resolveCoordinates(search.lat, search.lon);
+    }
+
+    if (search.kind === "zip") {
+      const zip = this.areas.zip(search.zip);
+      if (!zip) {
+        console.log(`Unknown ZIP code ${search.zip}`);
+        throw new UnknownPlaceError(`We couldn't find ZIP code ${search.zip}.`);
+      }
+      return {
+        placeId: `zip:${zip.zip}`,
+        name: `ZIP ${zip.zip}`,
+        state: zip.state,
+        countyFips: zip.countyFips,
+        lat: zip.lat,
+        lon: zip.lon,
+        source: "gazetteer"
+      };
+    }
+
+    if (search.kind === "county") {
+      const county = this.countyOf(search);
+      if (!county) {
+        console.log(`Unknown county FIPS code ${search.countyFips}`);
+        throw new UnknownPlaceError(`We couldn't find a county with FIPS code ${search.countyFips}.`);
+      }
+      return {
+        placeId: `county:${county.fips}`,
+        name: county.name,
+        state: county.state,
+        countyFips: county.fips,
+        lat: county.lat,
+        lon: county.lon,
+        source: "gazetteer"
+      };
+    }
+
+    const { city, state } = search;
+    console.log(`Geocoding ${city}, ${state}...`);
+    const place = await this.geocoder.geocode(city, state);
+
+    if (!place) {
+      const suggestions = this.gazetteer
+        .suggestCorrections(city, state)
+        .map(match => ({ city: match.name, state: match.state }));
+      console.log(`No geocoding match for ${city}, ${state}; suggesting ${suggestions.map(s => s.city).join(', ') || 'nothing'}`);
+      throw new UnknownPlaceError(`We couldn't find "${city}" in ${state}.`, suggestions);
+    }
+
+    return place;
+  }
+
+  // The search stays centred on the coordinates (rounded like their cache key); the nearest place
+  // names the results and decides which state's native and invasive lists apply
+  private async resolveCoordinates(lat: number, lon: number): Promise<GeocodedPlace> {
+    const key = coordinatesKey(lat, lon);
+    console.log(`Reverse geocoding ${key}...`);
+    const nearest = await this.geocoder.reverse(lat, lon);
+
+    if (!nearest) {
+      console.log(`No US place found near ${key}`);
+      throw new UnknownPlaceError(`We couldn't find a US place near ${lat.toFixed(3)}, ${lon.toFixed(3)}.`);
+    }
+
+    return {
+      ...nearest,
+      lat: Number(lat.toFixed(3)),
+      lon: Number(lon.toFixed(3)),
+      placeId: `coordinates:${key}`
+    };
+  }
+
+  // Run the full GBIF pipeline for a location and store the ranked candidates, replacing any cached
+  // ones. Details are fetched up front for the top of the ranking and streamed as they arrive
+  private async crawl(search: SearchLocation, place: GeocodedPlace, emit: ProgressListener): Promise<RankedLocation> {
+    const { radiusKm } = search;
+    const description = describePlace(search);
+    const unsaved: RankedLocation = {
+      location: { id: null, city: place.name, state: place.state, radiusKm },
+      entries: [],
+      fetchedAt: new Date(),
+      stale: false
+    };
+
+    console.log(`Coordinates for ${description}: ${place.lat}, ${place.lon} (${place.source} ${place.placeId})`);
+
+    // Search for plant occurrences in GBIF inside the county's outline, or within the radius around
+    // the geocoded point
+    const county = this.countyOf(search);
+    console.log(county?.outline
+      ? `Searching GBIF within the outline of ${description}...`
+      : `Searching GBIF within ${radiusKm} km of ${description}...`);
+
+    const data = await this.gbif.searchOccurrences(occurrenceParams(place, radiusKm, county), undefined, (fetched, total) =>
+      emit({ type: "occurrences", fetched, total })
+    );
+    const occurrences = withinCounty(data.results, county);
+
+    console.log(`GBIF API response for ${description}:`, {
+      total: data.total,
+      returned: data.results.length,
+      inArea: occurrences.length
+    });
+
+    if (occurrences.length === 0) {
+      console.log(`No species found in GBIF for ${description}`);
+      return unsaved;
+    }
+
+    const { trees, natives, candidates } = await this.classifyOccurrences(place.state, occurrences);
+
+    if (candidates.size === 0) {
+      console.log(`No native tree species found after filtering for ${description}`);
+      emit({ type: "candidates", trees: trees.size, natives: 0, detailing: 0 });
+      return unsaved;
+    }
+
+    const evidence = new Map(
+      Array.from(candidates.entries()).map(([speciesKey, candidate]) => [speciesKey, toEvidence(speciesKey, candidate)])
+    );
+    const sortedSpecies = selectForDetails(candidates);
+
+    emit({ type: "candidates", trees: trees.size, natives: natives.size, detailing: sortedSpecies.length });
+
+    // Fetch detailed information for the top species, streaming each one as it is ready
+    let completed = 0;
+    await this.fetchSpeciesDetails(sortedSpecies, 3, async (details) => {
+      const species = details
+        ? await this.toTreeSpecies(details, evidence.get(details.speciesKey)!, { city: place.name, state: place.state })
+        : null;
+      if (details && !species) evidence.set(details.speciesKey, { ...evidence.get(details.speciesKey)!, rejected: true });
+
+      completed += 1;
+      emit({ type: "species", completed, total: sortedSpecies.length, species });
+    });
+
+    const location = await this.storage.saveLocationResults(
+      {
+        locationKey: placeKey(search),
+        city: place.name,
+        state: place.state,
+        radiusKm,
+        lat: place.lat,
+        lon: place.lon,
+        placeId: place.placeId,
+        fetchedAt: new Date(),
+        pipelineVersion: PIPELINE_VERSION
+      },
+      Array.from(evidence.values())
+    );
+
+    console.log(`Saved ${evidence.size} ranked tree species for ${description}`);
+
+    const entries = await this.storage.getLocationEntries(location.id);
+    return { location, entries, fetchedAt: location.fetchedAt, stale: false };
+  }
+
+  // Aggregate occurrences by taxon, then classify trees (growth form traits, else the name heuristic),
+  // decide nativity (state checklist, else establishment means) and flag state-listed invasives
+  private async classifyOccurrences(state: string, occurrences: GbifOccurrence[]): Promise<Classification> {
+    const occurrenceNames = Array.from(new Set(
+      occurrences.flatMap(occurrence =>
+        occurrence.scientificName ? [canonicalSpeciesName(occurrence.scientificName)] : []
+      )
+    ));
+    const traitRows = await this.storage.getGrowthForms(occurrenceNames);
+    const traits = new Map(traitRows.map(row => [row.scientificName, row]));
+
+    console.log(`Growth form traits cover ${traits.size} of ${occurrenceNames.length} taxa in ${state}`);
+
+    const species = aggregateSpecies(occurrences, traits);
+    const trees = filterTreeSpecies(species);
+
+    console.log(`Found ${trees.size} tree species before native filtering in ${state}`);
+
+    // State checklist rows are the primary native signal; taxa without one fall back to establishment means
+    const canonicalNames = Array.from(new Set(
+      Array.from(trees.values()).map(tree => canonicalSpeciesName(tree.scientificName))
+    ));
+    const checklistRows = await this.storage.getNativeStatuses(state, canonicalNames);
+    const checklist = new Map(checklistRows.map(row => [row.scientificName, row]));
+
+    console.log(`Native checklist covers ${checklist.size} of ${canonicalNames.length} tree species in ${state}`);
+
+    // Without any registry rows for the state, the built-in blocklist keeps known invasive
+    // ornamentals from passing as native
+    const blocklist = await this.storage.hasInvasiveSpecies(state) ? new Set<string>() : INVASIVE_BLOCKLIST;
+    if (blocklist.size > 0) {
+      console.log(`No invasive registry for ${state}; applying the built-in invasive blocklist`);
+    }
+
+    const natives = filterNativeSpecies(trees, checklist, blocklist);
+
+    console.log(`Found ${natives.size} native tree species in ${state}`);
+
+    // Flag anything on the state's invasive registry (natives included) rather than dropping it
+    const registryRows = await this.storage.getInvasiveSpecies(state, canonicalNames);
+    const registry = new Map(registryRows.map(row => [row.scientificName, row]));
+    const candidates = flagInvasiveSpecies(trees, natives, registry);
+
+    console.log(`Flagged ${registry.size} tree species on the ${state} invasive registry`);
+
+    return { species, trees, checklist, blocklist, registry, natives, candidates };
+  }
+
+  // Rerun the classification for a location without fetching details or writing to the cache, and
+  // report every taxon in its occurrences with the decisions made about it. Ranked taxa that the
+  // name heuristic classified are still rechecked against GBIF's species common name when detailed;
+  // those a cached search already rejected that way are left out of the ranking, as page() does
+  async explain(requested: SearchPlace & Pick<SearchLocation, "radiusKm" | "includeInvasive">): Promise<SearchExplanation> {
+    const search = this.withAreaRadius(requested);
+    const place = await this.resolvePlace(search);
+    const county = this.countyOf(search);
+    const data = await this.gbif.searchOccurrences(occurrenceParams(place, search.radiusKm, county));
+    const occurrences = withinCounty(data.results, county);
+    const { species, checklist, blocklist, registry, candidates } = await this.classifyOccurrences(place.state, occurrences);
+    const rejected = await this.rejectedSpecies(search, place);
+    // Rank over the same list page() returns: rejected species never count, and flagged invasives
+    // only count when they are shown
+    const ranks = new Map(
+      rankCandidates(candidates)
+        .filter(([speciesKey, candidate]) => !rejected.has(speciesKey) && (search.includeInvasive || !candidate.invasiveStatus))
+        .map(([speciesKey, _], index) => [speciesKey, index + 1])
+    );
+
+    const explanations = Array.from(species.entries())
+      .sort((a, b) => b[1].count - a[1].count)
+      .map(([speciesKey, entry]) => explainCandidate(speciesKey, entry, {
+        checklist,
+        blocklist,
+        registry,
+        rank: ranks.get(speciesKey) ?? null,
+        rejected: rejected.has(speciesKey),
+        includeInvasive: search.includeInvasive
+      }));
+
+    return {
+      location: `${place.name}, ${place.state}`,
+      radiusKm: search.radiusKm,
+      lat: place.lat,
+      lon: place.lon,
+      occurrences: occurrences.length,
+      candidates: explanations
+    };
+  }
+
+  // Species a cached search of the location rejected once their details arrived (looked up under
+  // the canonical key, then the geocoded place like runSearch)
+  private async rejectedSpecies(search: SearchPlace & Pick<SearchLocation, "radiusKm">, place: GeocodedPlace): Promise<Set<number>> {
+    const location = await this.storage.getLocation(placeKey(search), search.radiusKm) ??
+      await this.storage.getLocationByPlaceId(place.placeId, search.radiusKm);
+    if (!location) return new Set();
+
+    const entries = await this.storage.getLocationEntries(location.id);
+    return new Set(entries.filter(entry => entry.rejected).map(entry => entry.speciesKey));
+  }
+
+  // One species' georeferenced occurrences around a searched location, for the species page map
+  async nearbyOccurrences(
+    speciesKey: number,
+    requested: SearchPlace & Pick<SearchLocation, "radiusKm">
+  ): Promise<Pick<SpeciesProfile, "near" | "occurrences">> {
+    const search = this.withAreaRadius(requested);
+    const place = await this.resolvePlace(search);
+    const occurrences = await this.speciesOccurrences(search, place, speciesKey, MAX_SPECIES_OCCURRENCES);
+
+    return {
+      near: { location: `${place.name}, ${place.state}`, lat: place.lat, lon: place.lon, radiusKm: search.radiusKm },
+      occurrences
+    };
+  }
+
+  // Occurrences of several species around a searched location, for the results map. The GBIF
+  // client's rate limiter paces the per-species requests
+  async occurrencesBySpecies(
+    speciesKeys: number[],
+    requested: SearchPlace & Pick<SearchLocation, "radiusKm">
+  ): Promise<SearchOccurrences> {
+    const search = this.withAreaRadius(requested);
+    const place = await this.resolvePlace(search);
+    const species = await Promise.all(speciesKeys.map(async speciesKey => ({
+      speciesKey,
+      occurrences: await this.speciesOccurrences(search, place, speciesKey, MAX_MAP_OCCURRENCES)
+    })));
+
+    return {
+      location: `${place.name}, ${place.state}`,
+      lat: place.lat,
+      lon: place.lon,
+      radiusKm: search.radiusKm,
+      species
+    };
+  }
+
+  private async speciesOccurrences(
+    search: SearchPlace & Pick<SearchLocation, "radiusKm">,
+    place: GeocodedPlace,
+    speciesKey: number,
+    maxRecords: number
+  ): Promise<OccurrencePoint[]> {
+    const county = this.countyOf(search);
+    const params = occurrenceParams(place, search.radiusKm, county);
+    params.set('taxonKey', String(speciesKey));
+
+    const data = await this.gbif.searchOccurrences(params, maxRecords);
+    return withinCounty(data.results, county).flatMap(occurrence =>
+      occurrence.decimalLatitude !== undefined && occurrence.decimalLongitude !== undefined
+        ? [{ key: occurrence.key, lat: occurrence.decimalLatitude, lon: occurrence.decimalLongitude, year: occurrence.year ?? null }]
+        : []
+    );
+  }
+
+  // Fetch species details in small batches (request pacing is handled by the GBIF client's rate limiter).
+  // onDetails runs for every requested key in order (with null when the lookup failed)
+  async fetchSpeciesDetails(
+    speciesKeys: number[],
+    batchSize: number = 3,
+    onDetails?: (details: GbifSpeciesDetails | null) => Promise<void>
+  ): Promise<GbifSpeciesDetails[]> {
+    const results: GbifSpeciesDetails[] = [];
+
+    for (let i = 0; i < speciesKeys.length; i += batchSize) {
+      const batch = speciesKeys.slice(i, i + batchSize);
+      const batchPromises = batch.map(async (speciesKey) => {
+        try {
+          return await this.gbif.getSpeciesDetails(speciesKey);
+        } catch (error) {
+          console.error(`Error fetching species ${speciesKey}:`, error);
+          return null;
+        }
+      });
+
+      const batchResults = await Promise.all(batchPromises);
+      for (const details of batchResults) {
+        if (details !== null) results.push(details);
+        if (onDetails) await onDetails(details);
+      }
+    }
+
+    return results;
+  }
+
+  // Turn species details into a stored species row plus its local evidence, or null for non-trees
+  private async toTreeSpecies(
+    details: GbifSpeciesDetails,
+    evidence: SpeciesEvidence,
+    { city, state }: Pick<Location, "city" | "state">
+  ): Promise<TreeSpecies | null> {
+    if (!details.scientificName) return null;
+
+    // Without a growth form trait, apply the name heuristic again on the detailed common name
+    // (common names from species API may differ from occurrence vernacular names)
+    if (!evidence.growthForm && !isLikelyTree(details.scientificName, details.family, details.commonName)) {
+      console.log(`Filtering out non-tree by name heuristic: ${details.commonName} (${details.scientificName})`);
+      return null;
+    }
+
+    // Species rows are shared across locations, so they only keep GBIF's own description; create one
+    // the first time we see a species, or refresh it when GBIF's description has changed
+    let species = await this.storage.getSpecies(details.speciesKey);
+    if (!species || species.habitatDescription !== details.description) {
+      species = await this.storage.upsertSpecies({
+        speciesKey: details.speciesKey,
+        commonName: details.commonName || details.scientificName,
+        scientificName: details.scientificName,
+        family: details.family,
+        genus: details.genus,
+        imageUrl: details.imageUrl,
+        habitatDescription: details.description,
+        maxHeight: null,
+        maxAge: null
+      });
+    }
+
+    return describeHabitat({
+      ...species,
+      occurrenceCount: evidence.occurrenceCount,
+      nativePercent: evidence.nativePercent,
+      introducedPercent: evidence.introducedPercent,
+      nativeSource: evidence.nativeSource,
+      invasiveStatus: evidence.invasiveStatus,
+      growthForm: evidence.growthForm
+    }, { city, state });
+  }
+}
+
+// A location's ranked candidates (most recorded first), shared by every page of its results.
+// The location id is null when the crawl found nothing worth saving
+interface RankedLocation {
+  location: Pick<Location, "city" | "state" | "radiusKm"> & { id: string | null };
+  entries: LocationSpecies[];
+  fetchedAt: Date;
+  stale: boolean;
+}
+
+// The occurrence evidence stored for one ranked candidate
+type SpeciesEvidence = Omit<LocationSpecies, "id" | "locationId">;
+
+function toEvidence(speciesKey: number, candidate: NativeSpeciesCandidate): SpeciesEvidence {
+  return {
+    speciesKey,
+    occurrenceCount: candidate.count,
+    nativePercent: candidate.nativePercent,
+    introducedPercent: candidate.introducedPercent,
+    nativeSource: candidate.nativeSource,
+    invasiveStatus: candidate.invasiveStatus,
+    growthForm: candidate.growthForm,
+    rejected: false
+  };
+}
+
+interface Classification {
+  species: Map<number, AggregatedSpecies>; // every taxon in the occurrences
+  trees: Map<number, AggregatedSpecies>;
+  checklist: Map<string, NativeStatus>;
+  blocklist: ReadonlySet<string>; // INVASIVE_BLOCKLIST when the state has no registry rows, else empty
+  registry: Map<string, InvasiveSpecies>;
+  natives: Map<number, NativeSpeciesCandidate>;
+  candidates: Map<number, NativeSpeciesCandidate>; // natives plus registry-flagged trees
+}
+
+// Cache key for a searched place: state plus normalized city, rounded coordinates, ZIP or county FIPS
+function placeKey(place: SearchPlace): string {
+  switch (place.kind) {
+    case "city": return locationKey(place.city, place.state);
+    case "coordinates": return coordinatesKey(place.lat, place.lon);
+    case "zip": return `ZIP:${place.zip}`;
+    case "county": return `COUNTY:${place.countyFips}`;
+  }
+}
+
+// A searched place for log messages
+export function describePlace(place: SearchPlace): string {
+  switch (place.kind) {
+    case "city": return `${place.city}, ${place.state}`;
+    case "coordinates": return coordinatesKey(place.lat, place.lon);
+    case "zip": return `ZIP ${place.zip}`;
+    case "county": return `county ${place.countyFips}`;
+  }
+}
+
+// Keep the occurrences of a county search without an outline that GBIF places in the county by
+// their county field. Outline searches and other searches keep everything GBIF returned
+function withinCounty(occurrences: GbifOccurrence[], county: CountyArea | null): GbifOccurrence[] {
+  if (!county || county.outline) return occurrences;
+
+  const name = normalizeCountyName(county.name);
+  return occurrences.filter(occurrence => occurrence.county && normalizeCountyName(occurrence.county) === name);
+}
+
+// GBIF occurrence query for plants inside a searched county's outline, or within the radius
+// around the geocoded point
+function occurrenceParams(place: GeocodedPlace, radiusKm: number, county: CountyArea | null): URLSearchParams {
+  return new URLSearchParams({
+    country: 'US',
+    geometry: county?.outline ?? boundingBoxWkt(place.lat, place.lon, radiusKm),
+    kingdomKey: '6', // Plantae
+    hasCoordinate: 'true'
+  });
+}
+
+// Sort by occurrence count, breaking ties by species key like the stored ranking
+function rankCandidates(candidates: Map<number, NativeSpeciesCandidate>): [number, NativeSpeciesCandidate][] {
+  return Array.from(candidates.entries()).sort((a, b) => b[1].count - a[1].count || a[0] - b[0]);
+}
+
+// Take the top species, plus the most common flagged invasives
+function selectForDetails(candidates: Map<number, NativeSpeciesCandidate>): number[] {
+  const byCount = rankCandidates(candidates);
+  return [
+    ...byCount.filter(([_, candidate]) => !candidate.invasiveStatus).slice(0, MAX_DETAILED_SPECIES),
+    ...byCount.filter(([_, candidate]) => candidate.invasiveStatus).slice(0, MAX_FLAGGED_INVASIVES)
+  ].map(([key, _]) => key);
+}
+
+// Describe the decisions behind one taxon, in the order the pipeline makes them
+function explainCandidate(
+  speciesKey: number,
+  species: AggregatedSpecies,
+  { checklist, blocklist, registry, rank, rejected, includeInvasive }: {
+    checklist: Map<string, NativeStatus>;
+    blocklist: ReadonlySet<string>;
+    registry: Map<string, InvasiveSpecies>;
+    rank: number | null;
+    rejected: boolean; // a cached search dropped it when its GBIF common name failed the tree check
+    includeInvasive: boolean;
+  }
+): CandidateExplanation {
+  const canonicalName = canonicalSpeciesName(species.scientificName);
+  const native = species.tree.isTree ? decideNative(species, checklist, blocklist) : null;
+  const invasive = species.tree.isTree ? registry.get(canonicalName) ?? null : null;
+  const hidden = invasive && !includeInvasive
+    ? `flagged ${invasive.status} on the ${invasive.state} invasive registry; only returned when includeInvasive is set`
+    : null;
+
+  let decision: string;
+  if (!native) {
+    decision = `Excluded: not a tree (${species.tree.reason})`;
+  } else if (rejected) {
+    decision = "Excluded: not a tree per its GBIF common name, rejected when its details were fetched";
+  } else if (!native.isNative && !invasive) {
+    decision = `Excluded: not native (${native.reason})`;
+  } else if (hidden) {
+    decision = `Hidden: ${hidden}`;
+  } else if (invasive) {
+    decision = `Included at rank ${rank}, flagged ${invasive.status}`;
+  } else {
+    decision = `Included at rank ${rank}`;
+  }
+
+  return {
+    speciesKey,
+    scientificName: species.scientificName,
+    family: species.family,
+    vernacularName: species.vernacularName,
+    occurrenceCount: species.count,
+    establishmentMeans: Object.fromEntries(Array.from(species.establishmentCounts.entries())),
+    tree: species.tree,
+    native,
+    invasiveStatus: invasive?.status ?? null,
+    rank,
+    hidden,
+    decision
+  };
+}
+
+interface InFlight<T> {
+  promise: Promise<T>;
+  listeners: Set<ProgressListener>;
+}
+
+// Return the pending work for a key if there is one, otherwise start it and share it until it
+// settles. Every caller's listener receives the progress events emitted after it joined
+function coalesce<T>(
+  inFlight: Map<string, InFlight<T>>,
+  key: string,
+  listener: ProgressListener | undefined,
+  run: (emit: ProgressListener) => Promise<T>
+): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) {
+    console.log(`Joining in-flight request for ${key}`);
+    if (listener) pending.listeners.add(listener);
+    return pending.promise;
+  }
+
+  const listeners = new Set<ProgressListener>(listener ? [listener] : []);
+  const emit: ProgressListener = (event) => {
+    for (const notify of Array.from(listeners)) notify(event);
+  };
+
+  const promise = run(emit).finally(() => inFlight.delete(key));
+  inFlight.set(key, { promise, listeners });
+  return promise;
+}
+
+// Fill in a description for species GBIF has none for. It names the searched place, so it is built
+// for each response rather than stored on the shared species row
+function describeHabitat(species: TreeSpecies, { city, state }: Pick<Location, "city" | "state">): TreeSpecies {
+  if (species.habitatDescription) return species;
+
+  return {
+    ...species,
+    habitatDescription: species.nativeSource
+      ? `Native tree species found in the ${city}, ${state} region. This species is naturally adapted to local climate conditions and provides important ecosystem services.`
+      : `Non-native tree species recorded in the ${city}, ${state} region and listed on the state's invasive species registry.`
+  };
+}
+
+function buildResult(
+  { city, state, radiusKm }: Pick<Location, "city" | "state" | "radiusKm">,
+  species: TreeSpecies[],
+  fetchedAt: Date,
+  stale: boolean,
+  { total, nextCursor }: Pick<TreeSearchResult, "total" | "nextCursor">
+): TreeSearchResult {
+  return {
+    species: species.map(entry => describeHabitat(entry, { city, state })),
+    location: `${city}, ${state}`,
+    radiusKm,
+    count: species.length,
+    total,
+    nextCursor,
+    fetchedAt: fetchedAt.toISOString(),
+    stale
+  };
+}
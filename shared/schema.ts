@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, boolean, doublePrecision, timestamp, jsonb, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,17 +9,98 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
-export const treeSpecies = pgTable("tree_species", {
-  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+export const INVASIVE_STATUSES = ["noxious", "invasive", "watch"] as const;
+
+// "other" covers herbs, graminoids, vines and anything else that is neither tree nor shrub
+export const GROWTH_FORMS = ["tree", "tree/shrub", "shrub", "other"] as const;
+
+// One row per GBIF species, shared by every location it appears in
+export const species = pgTable("species", {
+  speciesKey: integer("species_key").primaryKey(), // GBIF speciesKey
   commonName: text("common_name").notNull(),
   scientificName: text("scientific_name").notNull(),
+  family: text("family"),
+  genus: text("genus"),
   imageUrl: text("image_url"),
-  habitatDescription: text("habitat_description").notNull(),
+  habitatDescription: text("habitat_description"), // GBIF's description, if it has one
   maxHeight: integer("max_height"), // in feet
   maxAge: integer("max_age"), // in years
+});
+
+// A searched place and radius whose results have been computed
+export const locations = pgTable("locations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  locationKey: text("location_key").notNull(), // state plus normalized city name, e.g. "OR:portland"
   city: text("city").notNull(),
   state: text("state").notNull(),
-  externalId: text("external_id"), // for API source tracking
+  radiusKm: integer("radius_km").notNull(),
+  lat: doublePrecision("lat"), // null for rows migrated from tree_species
+  lon: doublePrecision("lon"),
+  placeId: text("place_id"), // geocoder place id, e.g. "gazetteer:NC:asheville:37021"
+  fetchedAt: timestamp("fetched_at").notNull().defaultNow(), // when the results were last computed
+  pipelineVersion: integer("pipeline_version").notNull().default(0), // PIPELINE_VERSION that computed them; 0 for migrated rows
+}, (table) => [
+  uniqueIndex("locations_location_key_radius_idx").on(table.locationKey, table.radiusKm),
+  index("locations_place_id_radius_idx").on(table.placeId, table.radiusKm),
+]);
+
+// Every ranked candidate (native or flagged invasive tree) found at a location, with the occurrence
+// evidence behind it. Species details are fetched lazily as result pages are requested, so a
+// candidate may not have a species row yet
+export const locationSpecies = pgTable("location_species", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  locationId: varchar("location_id").notNull().references(() => locations.id, { onDelete: "cascade" }),
+  speciesKey: integer("species_key").notNull(), // GBIF speciesKey; joins species once details are fetched
+  occurrenceCount: integer("occurrence_count").notNull().default(0),
+  nativePercent: real("native_percent"), // share of occurrences marked NATIVE (0-1)
+  introducedPercent: real("introduced_percent"), // share marked INTRODUCED, INVASIVE or NATURALISED (0-1)
+  nativeSource: text("native_source"), // what decided nativity: "checklist:<source>" or "establishment-means"; null for older rows and non-native invasives
+  invasiveStatus: text("invasive_status", { enum: INVASIVE_STATUSES }), // state invasive listing when the results were computed
+  growthForm: text("growth_form", { enum: GROWTH_FORMS }), // trait-table growth form; null when the name heuristic decided
+  rejected: boolean("rejected").notNull().default(false), // detailed common name failed the tree check; kept but hidden so page offsets stay put
+}, (table) => [
+  uniqueIndex("location_species_location_species_idx").on(table.locationId, table.speciesKey),
+]);
+
+export const NATIVE_STATUSES = ["native", "introduced"] as const;
+
+// State-level nativity checklist imported from USDA PLANTS / BONAP style exports.
+// The primary native signal; GBIF establishmentMeans is only used for taxa missing here
+export const nativeStatuses = pgTable("native_statuses", {
+  scientificName: text("scientific_name").notNull(), // canonical genus + species, e.g. "Acer rubrum"
+  state: text("state").notNull(),
+  status: text("status", { enum: NATIVE_STATUSES }).notNull(),
+  source: text("source").notNull(), // checklist the row was imported from, e.g. "usda-plants"
+}, (table) => [
+  primaryKey({ columns: [table.scientificName, table.state] }),
+]);
+
+// Per-state invasive plant registry imported from state noxious-weed and invasive species lists
+export const invasiveSpecies = pgTable("invasive_species", {
+  scientificName: text("scientific_name").notNull(), // canonical genus + species
+  state: text("state").notNull(),
+  status: text("status", { enum: INVASIVE_STATUSES }).notNull(), // noxious (regulated), invasive, or watch list
+  source: text("source").notNull(), // list the row was imported from, e.g. "nc-noxious-weeds"
+}, (table) => [
+  primaryKey({ columns: [table.scientificName, table.state] }),
+]);
+
+// Per-taxon growth habit imported from a trait dataset (e.g. USDA PLANTS "Growth Habit").
+// Decides tree-ness; the name keyword heuristic is only used for taxa missing here
+export const growthForms = pgTable("growth_forms", {
+  scientificName: text("scientific_name").primaryKey(), // canonical genus + species
+  growthForm: text("growth_form", { enum: GROWTH_FORMS }).notNull(),
+  source: text("source").notNull(), // dataset the row was imported from, e.g. "usda-plants"
+});
+
+// Upstream API responses (GBIF, Nominatim) keyed by request URL, with the validators
+// needed to revalidate them via If-None-Match / If-Modified-Since
+export const httpResponses = pgTable("http_responses", {
+  url: text("url").primaryKey(),
+  body: jsonb("body").notNull(),
+  etag: text("etag"),
+  lastModified: text("last_modified"),
+  fetchedAt: timestamp("fetched_at").notNull().defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -27,17 +108,270 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
-export const insertTreeSpeciesSchema = createInsertSchema(treeSpecies).omit({
+export const insertSpeciesSchema = createInsertSchema(species);
+
+export const insertLocationSchema = createInsertSchema(locations).omit({
+  id: true,
+});
+
+export const insertLocationSpeciesSchema = createInsertSchema(locationSpecies).omit({
   id: true,
 });
 
-export const searchLocationSchema = z.object({
-  city: z.string().min(1, "City is required"),
-  state: z.string().min(2, "State is required").max(2, "State must be 2 characters"),
+export const insertHttpResponseSchema = createInsertSchema(httpResponses);
+
+export const insertNativeStatusSchema = createInsertSchema(nativeStatuses);
+
+export const insertInvasiveSpeciesSchema = createInsertSchema(invasiveSpecies);
+
+export const insertGrowthFormSchema = createInsertSchema(growthForms);
+
+// Radius options offered in the search form; the API accepts anything in range
+export const SEARCH_RADII_KM = [25, 50, 100] as const;
+export const DEFAULT_SEARCH_RADIUS_KM = 50;
+
+// Species per result page unless the request sets limit
+export const DEFAULT_PAGE_SIZE = 15;
+export const MAX_PAGE_SIZE = 50;
+
+// Where to search, told apart by kind: a city in a state, raw coordinates (reverse geocoded to the
+// nearest place for display and for the state's native and invasive lists), a ZIP code or a
+// county by FIPS code (both resolved through the local ZIP and county centroid datasets)
+export const cityPlaceSchema = z.object({
+  kind: z.literal("city"),
+  city: z.string().trim().min(1, "City is required"),
+  state: z.string().trim().toUpperCase().min(2, "State is required").max(2, "State must be 2 characters"),
+});
+
+export const coordinatesPlaceSchema = z.object({
+  kind: z.literal("coordinates"),
+  lat: z.coerce.number().min(-90, "Latitude must be between -90 and 90").max(90, "Latitude must be between -90 and 90"),
+  lon: z.coerce.number().min(-180, "Longitude must be between -180 and 180").max(180, "Longitude must be between -180 and 180"),
+});
+
+export const zipPlaceSchema = z.object({
+  kind: z.literal("zip"),
+  zip: z.string().trim().regex(/^\d{5}$/, "ZIP code must be 5 digits"),
 });
 
+export const countyPlaceSchema = z.object({
+  kind: z.literal("county"),
+  countyFips: z.string().trim().regex(/^\d{5}$/, "County FIPS code must be 5 digits"),
+});
+
+// Helper function to fill in kind for requests and query strings that only carry the place's fields,
+// e.g. { zip: "28801" } -> { kind: "zip", zip: "28801" }; anything else is read as a city
+function withPlaceKind(value: unknown): unknown {
+  if (typeof value !== "object" || value === null || "kind" in value) return value;
+  const kind = "zip" in value ? "zip"
+    : "countyFips" in value ? "county"
+    : "lat" in value || "lon" in value ? "coordinates"
+    : "city";
+  return { ...value, kind };
+}
+
+export const searchPlaceSchema = z.preprocess(withPlaceKind, z.discriminatedUnion("kind", [
+  cityPlaceSchema,
+  coordinatesPlaceSchema,
+  zipPlaceSchema,
+  countyPlaceSchema,
+]));
+
+const searchOptionsSchema = z.object({
+  radiusKm: z.coerce.number().int().min(5, "Radius must be at least 5 km").max(200, "Radius must be at most 200 km").default(DEFAULT_SEARCH_RADIUS_KM),
+  includeInvasive: z.boolean().default(false), // also return state-listed invasive trees, flagged with invasiveStatus
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().regex(/^\d+$/, "Invalid cursor").optional(), // nextCursor from the previous page
+});
+
+// County searches cover the whole county: radiusKm is replaced by one derived from its land area
+export const citySearchSchema = cityPlaceSchema.merge(searchOptionsSchema);
+export const coordinatesSearchSchema = coordinatesPlaceSchema.merge(searchOptionsSchema);
+export const zipSearchSchema = zipPlaceSchema.merge(searchOptionsSchema);
+export const countySearchSchema = countyPlaceSchema.merge(searchOptionsSchema);
+
+export const searchLocationSchema = z.preprocess(withPlaceKind, z.discriminatedUnion("kind", [
+  citySearchSchema,
+  coordinatesSearchSchema,
+  zipSearchSchema,
+  countySearchSchema,
+]));
+
+// Query for the explain endpoint: the same place and radius as a search
+export const explainSearchQuerySchema = searchPlaceSchema.and(searchOptionsSchema.pick({ radiusKm: true }));
+
+// The explain endpoint also takes the search's includeInvasive ("true" or "false") so its ranks match that search's results
+export const explainQuerySchema = explainSearchQuerySchema.and(z.object({
+  includeInvasive: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+}));
+
+// Query for the results map: a search's place plus the species to plot (comma separated keys)
+export const searchOccurrencesQuerySchema = explainSearchQuerySchema.and(z.object({
+  speciesKeys: z.string()
+    .regex(/^\d+(,\d+)*$/, "Species keys must be comma separated integers")
+    .transform((keys) => Array.from(new Set(keys.split(",").map(Number))))
+    .refine((keys) => keys.length <= MAX_PAGE_SIZE, `At most ${MAX_PAGE_SIZE} species per request`),
+}));
+
+export const speciesParamsSchema = z.object({
+  key: z.coerce.number().int().positive("Species key must be a positive integer"),
+});
+
+// Optional searched place for the species endpoint's nearby occurrences: a radius alone, or a
+// search's place and radius
+export const speciesProfileQuerySchema = z.union([
+  searchOptionsSchema.pick({ radiusKm: true }).strict(),
+  explainSearchQuerySchema,
+]);
+
+export const placeSuggestQuerySchema = z.object({
+  q: z.string().trim().min(1, "Query is required").max(100),
+  state: z.string().length(2, "State must be 2 characters").toUpperCase().optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+});
+
+export const countiesQuerySchema = z.object({
+  state: z.string().trim().toUpperCase().length(2, "State must be 2 characters"),
+});
+
+// A county offered by the search form's county picker
+export interface CountyOption {
+  countyFips: string;
+  name: string; // e.g. "Buncombe County"
+}
+
+// A known place offered when a searched city could not be resolved
+export interface PlaceSuggestion {
+  city: string;
+  state: string;
+}
+
+export const invalidateLocationsQuerySchema = z.object({
+  city: z.string().min(1).optional(),
+  state: z.string().length(2).toUpperCase().optional(),
+  all: z.enum(["true", "false"]).optional(),
+}).refine((query) => !query.city || query.state, {
+  message: "State is required when invalidating by city",
+  path: ["state"],
+}).refine((query) => query.city || query.state || query.all === "true", {
+  message: "Pass city and/or state, or all=true to invalidate every location",
+});
+
+// Response body of a location search
+export interface TreeSearchResult {
+  species: TreeSpecies[];
+  location: string;
+  radiusKm: number;
+  count: number; // species on this page
+  total: number; // ranked candidates across all pages
+  nextCursor: string | null; // pass as cursor for the next page; null on the last page
+  fetchedAt: string;
+  stale: boolean; // true when served from an expired cache entry while a refresh runs
+}
+
+// A GBIF occurrence of one species plotted on the species page and results maps
+export interface OccurrencePoint {
+  key: number; // GBIF occurrence key
+  lat: number;
+  lon: number;
+  year: number | null;
+}
+
+// Response body of the species endpoint
+export interface SpeciesProfile {
+  speciesKey: number;
+  scientificName: string;
+  commonName: string;
+  authorship: string | null;
+  rank: string | null;
+  taxonomy: {
+    kingdom: string | null;
+    phylum: string | null;
+    class: string | null;
+    order: string | null;
+    family: string | null;
+    genus: string | null;
+  };
+  descriptions: { type: string | null; language: string | null; source: string | null; text: string }[];
+  images: { url: string; title: string | null; license: string | null; rightsHolder: string | null }[];
+  synonyms: string[];
+  // The searched location the occurrences were collected around; null when none was given
+  near: { location: string; lat: number; lon: number; radiusKm: number } | null;
+  occurrences: OccurrencePoint[];
+}
+
+// Response body of the search occurrences endpoint, plotted by the results map
+export interface SearchOccurrences {
+  location: string;
+  lat: number; // geocoded search point
+  lon: number;
+  radiusKm: number;
+  species: { speciesKey: number; occurrences: OccurrencePoint[] }[]; // in the requested order
+}
+
+// Why one taxon seen in a location's occurrences was or was not returned
+export interface CandidateExplanation {
+  speciesKey: number;
+  scientificName: string;
+  family: string | null;
+  vernacularName: string | null;
+  occurrenceCount: number;
+  establishmentMeans: Record<string, number>; // occurrence counts per GBIF establishmentMeans (UNKNOWN when missing)
+  tree: { isTree: boolean; growthForm: GrowthForm | null; reason: string };
+  native: { isNative: boolean; source: string | null; reason: string } | null; // null for non-trees, which are never checked
+  invasiveStatus: InvasiveStatus | null; // state invasive registry listing
+  rank: number | null; // 1-based position in the results the search returns; null when excluded or hidden
+  hidden: string | null; // why a candidate that passed the filters is left out of those results
+  decision: string;
+}
+
+// Response body of the explain endpoint, candidates sorted by occurrence count
+export interface SearchExplanation {
+  location: string;
+  radiusKm: number;
+  lat: number;
+  lon: number;
+  occurrences: number; // occurrence records examined
+  candidates: CandidateExplanation[];
+}
+
+// Progress events streamed for an asynchronous search job, in pipeline order
+export type SearchProgressEvent =
+  | { type: "geocoded"; location: string; lat: number; lon: number }
+  | { type: "occurrences"; fetched: number; total: number }
+  | { type: "candidates"; trees: number; natives: number; detailing: number }
+  | { type: "species"; completed: number; total: number; species: TreeSpecies | null }
+  | { type: "done"; result: TreeSearchResult }
+  | { type: "error"; message: string; suggestions?: PlaceSuggestion[] };
+
+export type SearchJobStatus = "running" | "done" | "failed";
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
-export type TreeSpecies = typeof treeSpecies.$inferSelect;
-export type InsertTreeSpecies = z.infer<typeof insertTreeSpeciesSchema>;
+export type Species = typeof species.$inferSelect;
+export type InsertSpecies = z.infer<typeof insertSpeciesSchema>;
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type LocationSpecies = typeof locationSpecies.$inferSelect;
+export type InsertLocationSpecies = z.infer<typeof insertLocationSpeciesSchema>;
+export type HttpResponse = typeof httpResponses.$inferSelect;
+export type InsertHttpResponse = z.infer<typeof insertHttpResponseSchema>;
+export type NativeStatus = typeof nativeStatuses.$inferSelect;
+export type InsertNativeStatus = z.infer<typeof insertNativeStatusSchema>;
+export type InvasiveSpecies = typeof invasiveSpecies.$inferSelect;
+export type InsertInvasiveSpecies = z.infer<typeof insertInvasiveSpeciesSchema>;
+export type InvasiveStatus = typeof INVASIVE_STATUSES[number];
+export type GrowthFormRow = typeof growthForms.$inferSelect;
+export type InsertGrowthForm = z.infer<typeof insertGrowthFormSchema>;
+export type GrowthForm = typeof GROWTH_FORMS[number];
+// A species as returned for a location search: the shared species row plus its local evidence
+export type TreeSpecies = Species & Pick<LocationSpecies, "occurrenceCount" | "nativePercent" | "introducedPercent" | "nativeSource" | "invasiveStatus" | "growthForm">;
+export type SearchPlace = z.infer<typeof searchPlaceSchema>;
 export type SearchLocation = z.infer<typeof searchLocationSchema>;
+export type CitySearch = z.infer<typeof citySearchSchema>;
+export type ZipSearch = z.infer<typeof zipSearchSchema>;
+export type CountySearch = z.infer<typeof countySearchSchema>;
+export type PlaceSuggestQuery = z.infer<typeof placeSuggestQuerySchema>;
+export type CountiesQuery = z.infer<typeof countiesQuerySchema>;
+export type SpeciesProfileQuery = z.infer<typeof speciesProfileQuerySchema>;
+export type SearchOccurrencesQuery = z.infer<typeof searchOccurrencesQuerySchema>;